@@ -0,0 +1,470 @@
+#!/usr/bin/env node
+
+/**
+ * Companion probe agent for GitLab DashWatch.
+ *
+ * Browsers cannot inspect TLS certificates, send and read cookies for other
+ * origins, speak plain DNS or open raw TCP connections, so the dashboard asks this small HTTP service to do it. Serve it on the
+ * same origin under /probe (the Vite dev server proxies it automatically) or point
+ * the dashboard at it directly.
+ *
+ * Every probe needs the shared token from PROBE_AGENT_TOKEN. The dashboard sends it from
+ * VITE_PROBE_AGENT_TOKEN, which is built into its JavaScript, so anyone who can load the dashboard
+ * can read the token. Destinations are therefore checked too: loopback and link-local addresses,
+ * cloud metadata endpoints among them, are refused unless PROBE_AGENT_ALLOWED_HOSTS lists them.
+ *
+ * Environment:
+ *   PROBE_AGENT_TOKEN           Shared secret callers send as `Authorization: Bearer <token>` (required)
+ *   PROBE_AGENT_HOST            Interface to bind (default 127.0.0.1)
+ *   PROBE_AGENT_PORT            Port to listen on (default 8787)
+ *   PROBE_AGENT_ALLOWED_ORIGIN  Origin allowed to call the agent cross-origin (default none, same origin only)
+ *   PROBE_AGENT_ALLOWED_HOSTS   Comma separated host names, IP addresses and CIDR ranges the agent may reach.
+ *                               When set, nothing else is reachable (default any host but loopback and link-local)
+ */
+
+import crypto from 'crypto';
+import dgram from 'dgram';
+import dns from 'dns/promises';
+import http from 'http';
+import net from 'net';
+import tls from 'tls';
+
+const HOST = process.env.PROBE_AGENT_HOST || '127.0.0.1';
+const PORT = Number(process.env.PROBE_AGENT_PORT) || 8787;
+const ALLOWED_ORIGIN = process.env.PROBE_AGENT_ALLOWED_ORIGIN || '';
+const TOKEN = process.env.PROBE_AGENT_TOKEN || '';
+const CONNECT_TIMEOUT = 10000;
+const MAX_BODY_SIZE = 1024 * 1024;
+const MAX_BANNER_SIZE = 512;
+const MAX_REDIRECTS = 5;
+
+class BadRequestError extends Error {}
+class ForbiddenDestinationError extends Error {}
+
+// Loopback, link-local (which holds cloud metadata endpoints such as 169.254.169.254) and unspecified addresses
+const DEFAULT_BLOCKED = new net.BlockList();
+DEFAULT_BLOCKED.addSubnet('0.0.0.0', 8, 'ipv4');
+DEFAULT_BLOCKED.addSubnet('127.0.0.0', 8, 'ipv4');
+DEFAULT_BLOCKED.addSubnet('169.254.0.0', 16, 'ipv4');
+DEFAULT_BLOCKED.addAddress('::', 'ipv6');
+DEFAULT_BLOCKED.addAddress('::1', 'ipv6');
+DEFAULT_BLOCKED.addSubnet('fe80::', 10, 'ipv6');
+
+/**
+ * Parse PROBE_AGENT_ALLOWED_HOSTS into host names and an address list of IP addresses and CIDR ranges
+ */
+function parseAllowedHosts(value) {
+  const entries = value.split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean);
+  const names = new Set();
+  const addresses = new net.BlockList();
+
+  for (const entry of entries) {
+    const [address, prefix] = entry.split('/');
+    const family = net.isIP(address);
+    if (!family) {
+      names.add(entry);
+    } else if (prefix === undefined) {
+      addresses.addAddress(address, family === 6 ? 'ipv6' : 'ipv4');
+    } else {
+      addresses.addSubnet(address, Number(prefix), family === 6 ? 'ipv6' : 'ipv4');
+    }
+  }
+
+  return { restricted: entries.length > 0, names, addresses };
+}
+
+const ALLOWED_HOSTS = parseAllowedHosts(process.env.PROBE_AGENT_ALLOWED_HOSTS || '');
+
+function isAllowedDestination(name, address) {
+  const type = net.isIPv6(address) ? 'ipv6' : 'ipv4';
+  if (ALLOWED_HOSTS.restricted) {
+    return ALLOWED_HOSTS.names.has(name) || ALLOWED_HOSTS.addresses.check(address, type);
+  }
+  return !DEFAULT_BLOCKED.check(address, type);
+}
+
+/**
+ * Resolve the host of a probe and return the address to connect to, refusing hosts the agent may not reach.
+ * Every address a name resolves to is checked, so a name cannot point the agent at a refused address.
+ */
+async function resolveDestination(host) {
+  const name = host.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  const addresses = net.isIP(name) ? [{ address: name }] : await dns.lookup(name, { all: true });
+  const refused = addresses.find(({ address }) => !isAllowedDestination(name, address));
+
+  if (refused) {
+    throw new ForbiddenDestinationError(`The probe agent may not connect to ${host} (${refused.address})`);
+  }
+  return addresses[0].address;
+}
+
+/**
+ * Check the Bearer token of a request against PROBE_AGENT_TOKEN without leaking how much of it matched
+ */
+function isAuthorized(request) {
+  const given = Buffer.from((request.headers.authorization || '').replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(TOKEN);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+/**
+ * Format a certificate subject or issuer, preferring the common name
+ */
+function formatName(name) {
+  if (!name) return '';
+  return name.CN || name.O || Object.values(name).join(', ');
+}
+
+/**
+ * Connect to a TLS endpoint at an already checked address and describe the certificate it presents for host
+ */
+function inspectCertificate(host, address, port) {
+  return new Promise((resolve, reject) => {
+    const socket = tls.connect({
+      host: address,
+      port,
+      ...(!net.isIP(host) && { servername: host }),
+      // Collect the certificate even when it does not verify, and report why instead
+      rejectUnauthorized: false,
+      timeout: CONNECT_TIMEOUT,
+    });
+
+    socket.once('secureConnect', () => {
+      const certificate = socket.getPeerCertificate();
+      socket.end();
+
+      if (!certificate || Object.keys(certificate).length === 0) {
+        reject(new Error(`${host}:${port} did not present a certificate`));
+        return;
+      }
+
+      resolve({
+        host,
+        port,
+        subject: formatName(certificate.subject),
+        issuer: formatName(certificate.issuer),
+        subjectAltNames: (certificate.subjectaltname || '')
+          .split(',')
+          .map(name => name.trim().replace(/^DNS:/, ''))
+          .filter(Boolean),
+        validFrom: new Date(certificate.valid_from).toISOString(),
+        notAfter: new Date(certificate.valid_to).toISOString(),
+        chainValid: socket.authorized,
+        ...(!socket.authorized && { chainError: String(socket.authorizationError) }),
+      });
+    });
+
+    socket.once('timeout', () => {
+      socket.destroy();
+      reject(new Error(`Connection to ${host}:${port} timed out`));
+    });
+
+    socket.once('error', reject);
+  });
+}
+
+/**
+ * Send a DNS wire-format query to a nameserver over UDP and return the raw response
+ */
+function queryUdp(server, port, query, timeout) {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket(net.isIPv6(server) ? 'udp6' : 'udp4');
+    const timer = setTimeout(() => {
+      socket.close();
+      reject(new Error(`DNS query to ${server}:${port} timed out`));
+    }, timeout);
+
+    socket.once('message', message => {
+      clearTimeout(timer);
+      socket.close();
+      resolve(message);
+    });
+    socket.once('error', error => {
+      clearTimeout(timer);
+      socket.close();
+      reject(error);
+    });
+    socket.send(query, port, server);
+  });
+}
+
+/**
+ * Send a DNS wire-format query to a nameserver over TCP, where messages carry a two byte length prefix
+ */
+function queryTcp(server, port, query, timeout) {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect({ host: server, port, timeout });
+    let received = Buffer.alloc(0);
+
+    socket.once('connect', () => {
+      const length = Buffer.alloc(2);
+      length.writeUInt16BE(query.length);
+      socket.write(Buffer.concat([length, query]));
+    });
+    socket.on('data', chunk => {
+      received = Buffer.concat([received, chunk]);
+      if (received.length >= 2 && received.length >= received.readUInt16BE(0) + 2) {
+        socket.end();
+        resolve(received.subarray(2, received.readUInt16BE(0) + 2));
+      }
+    });
+    socket.once('timeout', () => {
+      socket.destroy();
+      reject(new Error(`DNS query to ${server}:${port} timed out`));
+    });
+    socket.once('end', () => reject(new Error(`${server}:${port} closed the connection before answering`)));
+    socket.once('error', reject);
+  });
+}
+
+/**
+ * Forward a base64 encoded DNS query to a nameserver and return the base64 encoded response.
+ * Encoding and decoding stay in the dashboard so both DoH and plain DNS share one parser.
+ */
+async function forwardDnsQuery({ server, port = 53, transport = 'udp', query, timeout = CONNECT_TIMEOUT }) {
+  if (!server || !query) {
+    throw new BadRequestError('DNS queries need a server and a query');
+  }
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new BadRequestError(`Invalid port ${port}`);
+  }
+  if (transport !== 'udp' && transport !== 'tcp') {
+    throw new BadRequestError(`Unsupported DNS transport ${transport}`);
+  }
+
+  const send = transport === 'tcp' ? queryTcp : queryUdp;
+  const response = await send(await resolveDestination(server), port, Buffer.from(query, 'base64'), timeout);
+
+  return { response: response.toString('base64') };
+}
+
+/**
+ * Open a TCP connection and time the handshake, leaving out the DNS lookup of a host name.
+ * With readBanner, wait for the first line the server sends, as SSH and SMTP greet on connect.
+ */
+async function connectTcp({ host, port, timeout = CONNECT_TIMEOUT, readBanner = false }) {
+  if (!host) {
+    throw new BadRequestError('TCP probes need a host');
+  }
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new BadRequestError(`Invalid port ${port}`);
+  }
+
+  const destination = await resolveDestination(host);
+
+  return new Promise((resolve, reject) => {
+    const socket = net.connect({ host: destination, port });
+    let startedAt = performance.now();
+    let latency;
+    let address;
+    let received = Buffer.alloc(0);
+
+    const finish = () => {
+      clearTimeout(timer);
+      socket.destroy();
+      const banner = received.toString('utf8').split(/\r?\n/)[0].trim();
+      resolve({
+        host,
+        port,
+        address,
+        latency: Math.round(latency * 10) / 10,
+        ...(readBanner && banner && { banner }),
+      });
+    };
+
+    // Without a banner the timeout covers the handshake; waiting for one, it ends the wait instead
+    const timer = setTimeout(() => {
+      if (latency !== undefined) {
+        finish();
+        return;
+      }
+      socket.destroy();
+      reject(new Error(`Connection to ${host}:${port} timed out`));
+    }, timeout);
+
+    socket.once('lookup', () => {
+      startedAt = performance.now();
+    });
+    socket.once('connect', () => {
+      latency = performance.now() - startedAt;
+      address = socket.remoteAddress;
+      if (!readBanner) finish();
+    });
+    socket.on('data', chunk => {
+      received = Buffer.concat([received, chunk]);
+      if (received.includes('\n') || received.length >= MAX_BANNER_SIZE) finish();
+    });
+    socket.once('end', finish);
+    socket.once('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
+
+/**
+ * Read and validate the host and port query parameters
+ */
+function readTarget(searchParams) {
+  const host = searchParams.get('host');
+  const port = Number(searchParams.get('port') || 443);
+
+  if (!host) {
+    throw new BadRequestError('Missing host parameter');
+  }
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new BadRequestError(`Invalid port ${searchParams.get('port')}`);
+  }
+
+  return { host, port };
+}
+
+/**
+ * Read a JSON request body, refusing anything larger than MAX_BODY_SIZE
+ */
+function readJsonBody(request) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+
+    request.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        reject(new BadRequestError('Request body too large'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch {
+        reject(new BadRequestError('Request body is not valid JSON'));
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Make an HTTP request on behalf of the dashboard and return everything about the response,
+ * including Set-Cookie headers that browsers hide. Redirects are followed here rather than by fetch,
+ * so the destination of every hop is checked.
+ */
+async function relayRequest({ url, method = 'GET', headers = {}, body, timeout = CONNECT_TIMEOUT }) {
+  if (!url || !/^https?:\/\//.test(url)) {
+    throw new BadRequestError('Relay requests need an absolute http(s) url');
+  }
+
+  const signal = AbortSignal.timeout(timeout);
+  let target = new URL(url);
+  let hopMethod = method;
+  let response;
+
+  for (let redirects = 0; ; redirects++) {
+    await resolveDestination(target.hostname);
+    response = await fetch(target, {
+      method: hopMethod,
+      headers,
+      body: hopMethod === 'GET' || hopMethod === 'HEAD' ? undefined : body,
+      redirect: 'manual',
+      signal,
+    });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) break;
+    if (redirects === MAX_REDIRECTS) {
+      throw new Error(`More than ${MAX_REDIRECTS} redirects from ${url}`);
+    }
+
+    await response.body?.cancel();
+    // As browsers do, a 303 and a POST answered with 301 or 302 continue as GET
+    if (response.status === 303 || (hopMethod === 'POST' && (response.status === 301 || response.status === 302))) {
+      hopMethod = 'GET';
+    }
+    target = new URL(location, target);
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      throw new Error(`${url} redirects to an unsupported ${target.protocol} URL`);
+    }
+  }
+  const text = await response.text();
+
+  return {
+    status: response.status,
+    // Set-Cookie can repeat, so it is only returned through setCookies
+    headers: Object.fromEntries([...response.headers.entries()].filter(([name]) => name !== 'set-cookie')),
+    setCookies: response.headers.getSetCookie(),
+    body: text.length > MAX_BODY_SIZE ? text.slice(0, MAX_BODY_SIZE) : text,
+  };
+}
+
+const routes = {
+  'GET /probe/health': async () => ({ status: 'ok' }),
+  'GET /probe/tls': async ({ searchParams }) => {
+    const { host, port } = readTarget(searchParams);
+    return inspectCertificate(host, await resolveDestination(host), port);
+  },
+  'POST /probe/http': async ({ request }) => relayRequest(await readJsonBody(request)),
+  'POST /probe/dns': async ({ request }) => forwardDnsQuery(await readJsonBody(request)),
+  'POST /probe/tcp': async ({ request }) => connectTcp(await readJsonBody(request)),
+};
+
+// Routes that reach no other host, so callers can check the agent is up without the token
+const PUBLIC_ROUTES = new Set(['GET /probe/health']);
+
+// The dashboard calls the agent on its own origin, which needs no CORS headers. Other origins are only let in when configured.
+const CORS_HEADERS = ALLOWED_ORIGIN
+  ? {
+      'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Vary': 'Origin',
+    }
+  : {};
+
+function sendJson(response, statusCode, body) {
+  response.writeHead(statusCode, {
+    ...CORS_HEADERS,
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+  });
+  response.end(JSON.stringify(body));
+}
+
+const server = http.createServer(async (request, response) => {
+  const url = new URL(request.url || '/', `http://${request.headers.host || 'localhost'}`);
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, CORS_HEADERS);
+    response.end();
+    return;
+  }
+
+  const routeKey = `${request.method} ${url.pathname}`;
+  const route = routes[routeKey];
+  if (!route) {
+    sendJson(response, 404, { error: `No probe at ${request.method} ${url.pathname}` });
+    return;
+  }
+  if (!PUBLIC_ROUTES.has(routeKey) && !isAuthorized(request)) {
+    sendJson(response, 401, { error: 'Missing or wrong probe agent token' });
+    return;
+  }
+
+  try {
+    sendJson(response, 200, await route({ searchParams: url.searchParams, request }));
+  } catch (error) {
+    const statusCode = error instanceof BadRequestError ? 400 : error instanceof ForbiddenDestinationError ? 403 : 502;
+    sendJson(response, statusCode, { error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+if (!TOKEN) {
+  console.error('❌ Set PROBE_AGENT_TOKEN to a shared secret, and VITE_PROBE_AGENT_TOKEN to the same value for the dashboard');
+  process.exit(1);
+}
+
+server.listen(PORT, HOST, () => {
+  console.log(`🔎 Probe agent listening on http://${HOST}:${PORT}/probe`);
+});
@@ -11,6 +11,9 @@ import Index from "@/pages/Index";
 import Settings from "@/pages/Settings";
 import NotFound from "@/pages/NotFound";
 import GitlabProjects from "@/pages/GitlabProjects";
+import Incidents from "@/pages/Incidents";
+import ServerDetail from "@/pages/ServerDetail";
+import Pipelines from "@/pages/Pipelines";
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -34,6 +37,9 @@ const App = () => (
               <Route path={ROUTES.HOME} element={<Index />} />
               <Route path={ROUTES.SETTINGS} element={<Settings />} />
               <Route path={ROUTES.GITLAB_PROJECTS} element={<GitlabProjects />} />
+              <Route path={ROUTES.INCIDENTS} element={<Incidents />} />
+              <Route path={ROUTES.SERVER_DETAIL} element={<ServerDetail />} />
+              <Route path={ROUTES.PIPELINES} element={<Pipelines />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
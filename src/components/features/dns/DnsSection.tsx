@@ -1,101 +1,52 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Globe, Settings } from 'lucide-react';
-import { StatusCard } from '@/components/features/dashboard';
+import { StatusCard, StatusIndicator } from '@/components/features/dashboard';
 import { useNavigate } from 'react-router-dom';
 import { useSettings } from '@/contexts/SettingsContext';
 import { Button } from '@/components/ui/button';
-import { config } from '@/config';
-import type { StatusType } from '@/types';
-
-interface DnsRecord {
-  id: number;
-  domain: string;
-  type: string;
-  value: string;
-  ttl: number;
-  status: StatusType;
-  lastCheck: string;
-}
+import { useDnsMonitoring } from '@/hooks/use-dns-monitoring';
+import { formatRelativeTime } from '@/lib/date';
+import { formatNameserver } from '@/lib/monitoring';
+import { cn } from '@/lib/utils';
+import PropagationPanel from './PropagationPanel';
+import DomainSecurityColumn from './DomainSecurityColumn';
+import RegistrationPanel from './RegistrationPanel';
 
 const DnsSection = () => {
-  const [dnsRecords, setDnsRecords] = useState<DnsRecord[]>([]);
   const navigate = useNavigate();
   const { settings } = useSettings();
+  const { overviews, refresh } = useDnsMonitoring(settings.dns);
+  const [isRefreshing, setIsRefreshing] = useState(false);
 
-  // Generate mock DNS records based on configured domains
-  useEffect(() => {
-    // Generate mock records based on configured domains
-    const newRecords: DnsRecord[] = [];
-    let id = 1;
-
-    settings.dns.domains.forEach(domain => {
-      domain.recordTypes.forEach(type => {
-        newRecords.push({
-          id: id++,
-          domain: domain.domain,
-          type,
-          value: getMockValueForRecordType(type, domain.domain),
-          ttl: 3600,
-          status: getRandomStatus(),
-          lastCheck: `${Math.floor(Math.random() * 30) + 1}m ago`,
-        });
-      });
-    });
-
-    setDnsRecords(newRecords);
-  }, [settings.dns.domains]);
-
-  const getMockValueForRecordType = (type: string, domain: string): string => {
-    switch (type) {
-      case 'A':
-        return `192.168.1.${Math.floor(Math.random() * 255)}`;
-      case 'CNAME':
-        return domain.replace(/^[^.]+\./, '');
-      case 'MX':
-        return `mail.${domain}`;
-      case 'TXT':
-        return 'v=spf1 include:_spf.google.com ~all';
-      default:
-        return '127.0.0.1';
+  const refreshRecords = async () => {
+    setIsRefreshing(true);
+    try {
+      await refresh();
+    } finally {
+      setIsRefreshing(false);
     }
   };
 
-  const getRandomStatus = (): StatusType => {
-    const statuses = config.monitoring.mockData.statusDistribution;
-    if (statuses.length === 0) {
-      return 'inactive';
-    }
-    const status = statuses[Math.floor(Math.random() * statuses.length)];
-    return status || 'inactive';
-  };
-
-  const refreshRecords = () => {
-    // This would be an API call in a real application
-    // Just re-run the effect to generate new mock data
-    const newRecords: DnsRecord[] = [];
-    let id = 1;
-
-    settings.dns.domains.forEach(domain => {
-      domain.recordTypes.forEach(type => {
-        newRecords.push({
-          id: id++,
-          domain: domain.domain,
-          type,
-          value: getMockValueForRecordType(type, domain.domain),
-          ttl: 3600,
-          status: getRandomStatus(),
-          lastCheck: `${Math.floor(Math.random() * 30) + 1}m ago`,
-        });
-      });
-    });
-
-    setDnsRecords(newRecords);
-  };
-
   const navigateToSettings = () => {
     navigate('/settings');
   };
 
+  // One card per configured record type, pending until its first check completes
+  const cards = overviews.flatMap(({ target, records, changes }) =>
+    target.recordTypes.map(type => ({
+      key: `${target.id}:${type}`,
+      domain: target.domain,
+      type,
+      record: records.find(record => record.type === type),
+      change: changes.find(change => change.type === type),
+    }))
+  );
+
+  // Domains with DNSSEC or email security auditing get a column of their own
+  const audited = overviews.filter(({ target }) => target.dnssec || target.emailSecurity);
+  const audits = overviews.flatMap(({ security }) => (security ? [security] : []));
+  const registrations = overviews.flatMap(({ registration }) => (registration ? [registration] : []));
+
   return (
     <div className="section-appear" style={{ '--delay': 2 } as React.CSSProperties}>
       <div className="flex items-center justify-between mb-4">
@@ -118,35 +69,79 @@ const DnsSection = () => {
             size="sm"
             className="text-sm font-medium text-primary"
             onClick={refreshRecords}
+            disabled={isRefreshing}
           >
-            Refresh Records
+            {isRefreshing ? 'Refreshing…' : 'Refresh Records'}
           </Button>
         </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        {dnsRecords.map((record, index) => (
-          <StatusCard
-            key={record.id}
-            title={`${record.domain}`}
-            subtitle={`${record.type} Record`}
-            icon={Globe}
-            status={record.status}
-            className="card-appear"
-            style={{ '--delay': index + 1 } as React.CSSProperties}
-          >
-            <div className="mt-1">
-              <div className="text-sm font-mono truncate" title={record.value}>
-                {record.value}
-              </div>
-              <div className="flex justify-between text-xs text-muted-foreground mt-2">
-                <span>TTL: {record.ttl}s</span>
-                <span>Checked: {record.lastCheck}</span>
+      <div className={cn(audited.length > 0 && 'grid grid-cols-1 xl:grid-cols-4 gap-4')}>
+        <div
+          className={cn(
+            'grid grid-cols-1 md:grid-cols-2 gap-4',
+            audited.length > 0 ? 'lg:grid-cols-3 xl:col-span-3' : 'lg:grid-cols-4'
+          )}
+        >
+          {cards.map(({ key, domain, type, record, change }, index) => (
+            <StatusCard
+              key={key}
+              title={domain}
+              subtitle={`${type} Record`}
+              icon={Globe}
+              status={record?.status ?? 'inactive'}
+              className="card-appear"
+              style={{ '--delay': index + 1 } as React.CSSProperties}
+            >
+              <div className="mt-1">
+                {record && record.values.length > 0 ? (
+                  record.values.map(value => (
+                    <div key={value} className="text-sm font-mono truncate" title={value}>
+                      {value}
+                    </div>
+                  ))
+                ) : (
+                  <div className="text-sm text-muted-foreground">{record ? 'No records' : 'Resolving…'}</div>
+                )}
+                {record && (
+                  <div className="space-y-1 mt-2">
+                    {record.nameservers.map(result => (
+                      <div key={result.nameserver} className="flex justify-between items-center text-xs" title={result.error}>
+                        <StatusIndicator status={result.status} size="sm" label={formatNameserver(result.nameserver)} />
+                        <span className="text-muted-foreground">{result.responseTime}ms</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {change && (
+                  <div
+                    className="text-xs text-warning mt-2 truncate"
+                    title={`Previously: ${change.previous.join(', ') || 'no records'}`}
+                  >
+                    Changed {formatRelativeTime(change.detectedAt)}, was {change.previous.join(', ') || 'no records'}
+                  </div>
+                )}
+                {record?.error && (
+                  <div
+                    className={cn('text-xs mt-2 truncate', record.status === 'warning' ? 'text-warning' : 'text-destructive')}
+                    title={record.error}
+                  >
+                    {record.error}
+                  </div>
+                )}
+                <div className="flex justify-between text-xs text-muted-foreground mt-2">
+                  <span>TTL: {record && record.values.length > 0 ? `${record.ttl}s` : '—'}</span>
+                  <span>Checked: {record ? formatRelativeTime(record.timestamp) : 'pending'}</span>
+                </div>
               </div>
-            </div>
-          </StatusCard>
-        ))}
+            </StatusCard>
+          ))}
+        </div>
+        {audited.length > 0 && <DomainSecurityColumn audits={audits} />}
       </div>
+
+      <PropagationPanel overviews={overviews} />
+      <RegistrationPanel registrations={registrations} />
     </div>
   );
 };
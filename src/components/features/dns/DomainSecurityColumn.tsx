@@ -0,0 +1,85 @@
+import { ShieldCheck } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { StatusIndicator } from '@/components/features/dashboard';
+import { formatDate } from '@/lib/date';
+import { cn } from '@/lib/utils';
+import { SPF_LOOKUP_LIMIT } from '@/services/monitoring/dnsSecurity';
+import type { DnsFindingSeverity, DnsSecurityAudit } from '@/types';
+
+interface DomainSecurityColumnProps {
+  audits: DnsSecurityAudit[];
+}
+
+const SEVERITY_CLASSES: Record<DnsFindingSeverity, string> = {
+  error: 'text-destructive',
+  warning: 'text-warning',
+  info: 'text-muted-foreground',
+};
+
+const Row = ({ label, value }: { label: string; value: string }) => (
+  <div className="flex justify-between gap-2 text-xs">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="font-mono truncate" title={value}>{value}</span>
+  </div>
+);
+
+/**
+ * DNSSEC and email security findings per audited domain
+ */
+const DomainSecurityColumn = ({ audits }: DomainSecurityColumnProps) => (
+  <div className="space-y-4">
+    <h3 className="text-sm font-medium flex items-center gap-2">
+      <ShieldCheck className="h-4 w-4" />
+      Domain security
+    </h3>
+    {audits.length === 0 && <p className="text-sm text-muted-foreground">Auditing…</p>}
+    {audits.map(audit => (
+      <Card key={audit.targetId}>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm">
+            <StatusIndicator status={audit.status} label={audit.domain} />
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-1">
+          {audit.dnssec && (
+            <>
+              <Row label="DNSSEC" value={audit.dnssec.validated ? 'Validated' : 'Not validated'} />
+              {audit.dnssec.nextExpiration && (
+                <Row label="Signatures expire" value={formatDate(audit.dnssec.nextExpiration)} />
+              )}
+            </>
+          )}
+          {audit.spf !== undefined && (
+            <Row
+              label="SPF"
+              value={audit.spf ? `${audit.spf.lookups}/${SPF_LOOKUP_LIMIT} lookups` : 'Missing'}
+            />
+          )}
+          {audit.dmarc !== undefined && (
+            <Row label="DMARC" value={audit.dmarc ? `p=${audit.dmarc.policy || '?'}` : 'Missing'} />
+          )}
+          {audit.dkim && audit.dkim.length > 0 && (
+            <Row
+              label="DKIM"
+              value={audit.dkim.map(result => `${result.selector}${result.record ? '' : ' (missing)'}`).join(', ')}
+            />
+          )}
+          {audit.mtaSts !== undefined && (
+            <Row label="MTA-STS" value={audit.mtaSts ? `id=${audit.mtaSts.id || '?'}` : 'Missing'} />
+          )}
+          {audit.findings.length > 0 && (
+            <ul className="pt-2 space-y-1">
+              {audit.findings.map(item => (
+                <li key={`${item.category}:${item.message}`} className={cn('text-xs', SEVERITY_CLASSES[item.severity])}>
+                  {item.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    ))}
+  </div>
+);
+
+export default DomainSecurityColumn;
@@ -0,0 +1,124 @@
+import { Check, Clock, Network } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { StatusIndicator } from '@/components/features/dashboard';
+import { formatDateTime, formatRelativeTime } from '@/lib/date';
+import { formatNameserver } from '@/lib/monitoring';
+import { cn } from '@/lib/utils';
+import type { DnsOverview } from '@/hooks/use-dns-monitoring';
+
+interface PropagationPanelProps {
+  overviews: DnsOverview[];
+}
+
+/**
+ * Per domain nameserver health, and per record which nameservers already serve its newest value
+ */
+const PropagationPanel = ({ overviews }: PropagationPanelProps) => {
+  // Propagation only means something when a domain is checked against several nameservers
+  const domains = overviews.filter(({ target }) => (target.nameservers?.length ?? 0) > 1);
+
+  if (domains.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mt-4">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Network className="h-4 w-4" />
+          Propagation
+        </CardTitle>
+        <CardDescription>Which nameservers serve the newest value of each record</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {domains.map(({ target, records, nameserverHealth }) => (
+          <div key={target.id}>
+            <div className="flex items-center justify-between gap-4 mb-2">
+              <StatusIndicator
+                status={nameserverHealth?.status ?? 'inactive'}
+                label={nameserverHealth?.zone ? `${target.domain} (zone ${nameserverHealth.zone})` : target.domain}
+              />
+              {nameserverHealth && (
+                <span className="text-xs text-muted-foreground">
+                  SOA serial skew: {nameserverHealth.serialSkew}
+                </span>
+              )}
+            </div>
+            {nameserverHealth && (nameserverHealth.issues.length > 0 || nameserverHealth.delegationError) && (
+              <ul className="text-xs mb-2 space-y-0.5">
+                {nameserverHealth.issues.map(issue => (
+                  <li
+                    key={issue}
+                    className={nameserverHealth.status === 'error' ? 'text-destructive' : 'text-warning'}
+                  >
+                    {issue}
+                  </li>
+                ))}
+                {nameserverHealth.delegationError && (
+                  <li className="text-muted-foreground">{nameserverHealth.delegationError}</li>
+                )}
+              </ul>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Newest value</TableHead>
+                  <TableHead>Nameservers</TableHead>
+                  <TableHead>Fully propagated</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {records.map(({ id, type, propagation }) => (
+                  <TableRow key={id}>
+                    <TableCell className="font-medium">{type}</TableCell>
+                    <TableCell className="text-sm font-mono max-w-xs truncate" title={propagation?.values.join(', ')}>
+                      {propagation?.values.join(', ') || '—'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {propagation?.nameservers.map(server => (
+                          <Badge
+                            key={server.nameserver}
+                            variant="outline"
+                            className={cn('gap-1 font-normal', server.serving ? 'text-success' : 'text-muted-foreground')}
+                            title={server.since ? `Serving since ${formatDateTime(server.since)}` : 'Not serving yet'}
+                          >
+                            {server.serving ? <Check className="h-3 w-3" /> : <Clock className="h-3 w-3" />}
+                            {formatNameserver(server.nameserver)}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {propagation?.fullyPropagatedAt ? (
+                        <span title={formatDateTime(propagation.fullyPropagatedAt)}>
+                          {formatDateTime(propagation.fullyPropagatedAt)}
+                        </span>
+                      ) : propagation ? (
+                        <span className="text-warning">In progress since {formatRelativeTime(propagation.startedAt)}</span>
+                      ) : (
+                        '—'
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PropagationPanel;
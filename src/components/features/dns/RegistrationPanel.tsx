@@ -0,0 +1,104 @@
+import { CalendarClock } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { StatusIndicator } from '@/components/features/dashboard';
+import { formatDate } from '@/lib/date';
+import { cn } from '@/lib/utils';
+import type { DomainRegistrationStatus } from '@/types';
+
+interface RegistrationPanelProps {
+  registrations: DomainRegistrationStatus[];
+}
+
+// Flags worth calling out; the rest are routine registrar locks
+const ALERT_STATUSES = ['clientHold', 'serverHold', 'pendingDelete', 'redemptionPeriod', 'pendingRestore'];
+
+/**
+ * Registrar, expiry and registry status of every monitored domain, soonest expiry first
+ */
+const RegistrationPanel = ({ registrations }: RegistrationPanelProps) => {
+  const rows = [...registrations].sort(
+    (a, b) => (a.daysRemaining ?? Infinity) - (b.daysRemaining ?? Infinity)
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mt-4">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <CalendarClock className="h-4 w-4" />
+          Domain Registration
+        </CardTitle>
+        <CardDescription>Sorted by days until expiry</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Domain</TableHead>
+              <TableHead>Registrar</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead className="text-right">Days left</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Registry nameservers</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(({ targetId, domain, status, registration, daysRemaining, issues, error }) => (
+              <TableRow key={targetId}>
+                <TableCell>
+                  <StatusIndicator status={status} size="sm" label={registration?.domain ?? domain} />
+                  {[...issues, ...(error ? [error] : [])].map(message => (
+                    <div
+                      key={message}
+                      className={cn(
+                        'text-xs mt-1',
+                        status === 'warning' ? 'text-warning' : status === 'error' ? 'text-destructive' : 'text-muted-foreground'
+                      )}
+                    >
+                      {message}
+                    </div>
+                  ))}
+                </TableCell>
+                <TableCell className="text-sm">{registration?.registrar ?? '—'}</TableCell>
+                <TableCell className="text-sm">
+                  {registration?.expiresAt ? formatDate(registration.expiresAt) : '—'}
+                </TableCell>
+                <TableCell className="text-sm text-right font-medium">{daysRemaining ?? '—'}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {registration?.statuses.map(flag => (
+                      <Badge
+                        key={flag}
+                        variant={ALERT_STATUSES.includes(flag) ? 'destructive' : 'outline'}
+                        className="font-normal"
+                      >
+                        {flag}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm font-mono">
+                  {registration?.nameservers.map(nameserver => <div key={nameserver}>{nameserver}</div>)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RegistrationPanel;
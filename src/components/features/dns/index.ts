@@ -1,2 +1,5 @@
 // DNS monitoring feature components
 export { default as DnsSection } from './DnsSection';
+export { default as PropagationPanel } from './PropagationPanel';
+export { default as DomainSecurityColumn } from './DomainSecurityColumn';
+export { default as RegistrationPanel } from './RegistrationPanel';
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, ExternalLink, Folder, FolderTree, RefreshCw } from 'lucide-react';
+import { LoadingSpinner } from '@/components/common';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useGitlabNamespaceTree } from '@/hooks/use-gitlab-groups';
+import { getErrorMessage } from '@/lib/error';
+import { openExternalUrl } from '@/lib/navigation';
+import { cn } from '@/lib/utils';
+import type { GitlabInstance, GitlabNamespaceNode } from '@/types';
+
+interface NamespaceNodeRowProps {
+  node: GitlabNamespaceNode;
+  depth: number;
+  selected: ReadonlySet<number>;
+  inherited: boolean; // a parent group is monitored, which already covers this one
+  onToggle: (groupId: number) => void;
+}
+
+const NamespaceNodeRow = ({ node, depth, selected, inherited, onToggle }: NamespaceNodeRowProps) => {
+  const [expanded, setExpanded] = useState(depth === 0);
+  const { group, subgroups } = node;
+  const checked = inherited || selected.has(group.id);
+  const checkboxId = `gitlab-group-${group.instanceId}-${group.id}`;
+
+  return (
+    <li>
+      <div
+        className="flex items-center gap-2 rounded-md py-1.5 pr-2 hover:bg-muted/50"
+        style={{ paddingLeft: `${depth * 1.25 + 0.5}rem` }}
+      >
+        {subgroups.length > 0 ? (
+          <button
+            type="button"
+            className="text-muted-foreground"
+            aria-expanded={expanded}
+            aria-label={`${expanded ? 'Collapse' : 'Expand'} ${group.fullName}`}
+            onClick={() => setExpanded(!expanded)}
+          >
+            {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          </button>
+        ) : (
+          <span className="w-4 shrink-0" />
+        )}
+        <Checkbox
+          id={checkboxId}
+          checked={checked}
+          disabled={inherited}
+          onCheckedChange={() => onToggle(group.id)}
+        />
+        <Folder className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <label htmlFor={checkboxId} className="min-w-0 truncate text-sm font-medium">
+          {group.name}
+        </label>
+        <span className="min-w-0 truncate font-mono text-xs text-muted-foreground">{group.fullPath}</span>
+        {inherited && <span className="shrink-0 text-xs text-muted-foreground">via parent group</span>}
+        <button
+          type="button"
+          className="ml-auto shrink-0 text-muted-foreground hover:text-foreground"
+          aria-label={`Open ${group.fullName} in GitLab`}
+          onClick={() => openExternalUrl(group.webUrl)}
+        >
+          <ExternalLink className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      {expanded && subgroups.length > 0 && (
+        <ul>
+          {subgroups.map(subgroup => (
+            <NamespaceNodeRow
+              key={subgroup.group.id}
+              node={subgroup}
+              depth={depth + 1}
+              selected={selected}
+              inherited={checked}
+              onToggle={onToggle}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+interface GitlabNamespaceTreeProps {
+  instance: GitlabInstance;
+  onSelectedGroupsChange: (groupIds: number[]) => void;
+}
+
+/**
+ * Groups and subgroups of an instance. Checking a group monitors all of its projects, those in subgroups included.
+ */
+const GitlabNamespaceTree = ({ instance, onSelectedGroupsChange }: GitlabNamespaceTreeProps) => {
+  const { tree, error, isLoading, isFetching, refresh } = useGitlabNamespaceTree(instance);
+  const selectedGroups = instance.selectedGroups ?? [];
+  const selected = new Set(selectedGroups);
+
+  const toggleGroup = (groupId: number) => {
+    onSelectedGroupsChange(selected.has(groupId)
+      ? selectedGroups.filter(id => id !== groupId)
+      : [...selectedGroups, groupId]);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <FolderTree className="h-5 w-5" />
+            Groups on {instance.name}
+          </CardTitle>
+          <CardDescription>
+            {selectedGroups.length} monitored · new projects in a monitored group are picked up on the next sync
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => void refresh()} disabled={isFetching}>
+          <RefreshCw className={cn('h-4 w-4 mr-2', isFetching && 'animate-spin')} />
+          Refresh
+        </Button>
+      </CardHeader>
+
+      <CardContent>
+        {error ? (
+          <p className="text-sm text-destructive">{getErrorMessage(error)}</p>
+        ) : isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : tree.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No groups are visible to this instance's token.</p>
+        ) : (
+          <ul>
+            {tree.map(node => (
+              <NamespaceNodeRow
+                key={node.group.id}
+                node={node}
+                depth={0}
+                selected={selected}
+                inherited={false}
+                onToggle={toggleGroup}
+              />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GitlabNamespaceTree;
@@ -90,8 +90,9 @@ export const GitlabProjectCard: React.FC<GitlabProjectCardProps> = ({
     try {
       setIsRefreshing(true);
 
-      // Get detailed project information
-      const detailed = await gitlabApiService.getProjectDetails(instance, project.id);
+      // Get detailed project information with the metrics its REST entry leaves out
+      const details = await gitlabApiService.getProjectDetails(instance, project.id);
+      const [detailed] = details ? await gitlabApiService.withProjectMetrics(instance, [details]) : [];
       if (detailed) {
         setDetailedProject(detailed);
 
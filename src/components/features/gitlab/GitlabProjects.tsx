@@ -96,7 +96,7 @@ export const GitlabProjects: React.FC<GitlabProjectsProps> = ({
       for (const instance of instances) {
         try {
           const instanceProjects = await gitlabApiService.getProjects(instance);
-          allProjects.push(...instanceProjects);
+          allProjects.push(...await gitlabApiService.withProjectMetrics(instance, instanceProjects));
         } catch {
           console.error(`Failed to load projects for instance ${instance.name}`);
           // Continue with other instances
@@ -122,7 +122,10 @@ export const GitlabProjects: React.FC<GitlabProjectsProps> = ({
       const instance = instances.find(inst => inst.id === instanceId);
       if (!instance) return;
 
-      const instanceProjects = await gitlabApiService.getProjects(instance);
+      const instanceProjects = await gitlabApiService.withProjectMetrics(
+        instance,
+        await gitlabApiService.getProjects(instance)
+      );
 
       // Update projects for this instance
       setProjects(prev => {
@@ -55,7 +55,8 @@ import { LoadingSpinner } from '@/components/common';
 import { gitlabSettingsService } from '@/services/settings/gitlabSettingsService';
 import { gitlabTokenService } from '@/services/auth/gitlabTokenService';
 import { gitlabApiService } from '@/services/monitoring/gitlabApiService';
-import type { GitlabInstance } from '@/types';
+import { gitlabCacheService } from '@/services/storage/gitlabCacheService';
+import type { GitlabInstance, GitlabRevalidationStats } from '@/types';
 
 // Form validation schema
 const gitlabInstanceSchema = z.object({
@@ -81,6 +82,7 @@ export const GitlabSetup: React.FC<GitlabSetupProps> = ({ onInstanceChange }) =>
   const [showToken, setShowToken] = useState<Record<string, boolean>>({});
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingInstance, setEditingInstance] = useState<GitlabInstance | null>(null);
+  const [revalidationStats, setRevalidationStats] = useState<Record<string, GitlabRevalidationStats>>({});
 
   const { toast } = useToast();
 
@@ -110,6 +112,7 @@ export const GitlabSetup: React.FC<GitlabSetupProps> = ({ onInstanceChange }) =>
       setIsLoading(true);
       const loadedInstances = gitlabSettingsService.getInstances();
       setInstances(loadedInstances);
+      loadRevalidationStats();
     } catch {
       toast({
         title: 'Error loading instances',
@@ -121,6 +124,12 @@ export const GitlabSetup: React.FC<GitlabSetupProps> = ({ onInstanceChange }) =>
     }
   };
 
+  const loadRevalidationStats = () => {
+    setRevalidationStats(
+      Object.fromEntries(gitlabCacheService.getRevalidationStats().map(stats => [stats.instanceId, stats]))
+    );
+  };
+
   const handleAddInstance = async (data: GitlabInstanceForm) => {
     try {
       const newInstance: GitlabInstance = {
@@ -306,6 +315,7 @@ export const GitlabSetup: React.FC<GitlabSetupProps> = ({ onInstanceChange }) =>
         variant: 'destructive',
       });
     } finally {
+      loadRevalidationStats();
       setTestingConnections(prev => {
         const newSet = new Set(prev);
         newSet.delete(instance.id);
@@ -321,6 +331,13 @@ export const GitlabSetup: React.FC<GitlabSetupProps> = ({ onInstanceChange }) =>
     }));
   };
 
+  const getRevalidationText = (instanceId: string): string | null => {
+    const stats = revalidationStats[instanceId];
+    if (!stats) return null;
+
+    return `Revalidated: ${stats.revalidated} of ${stats.revalidated + stats.full} requests`;
+  };
+
   const getStatusIcon = (status: GitlabInstance['connectionStatus']) => {
     switch (status) {
       case 'connected':
@@ -585,7 +602,13 @@ export const GitlabSetup: React.FC<GitlabSetupProps> = ({ onInstanceChange }) =>
                   <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-4 text-sm">
                       <span>Projects: {instance.selectedProjects.length}</span>
+                      {(instance.selectedGroups ?? []).length > 0 && (
+                        <span>Groups: {instance.selectedGroups?.length}</span>
+                      )}
                       <span>API Version: {instance.apiVersion}</span>
+                      {getRevalidationText(instance.id) && (
+                        <span>{getRevalidationText(instance.id)}</span>
+                      )}
                     </div>
 
                     <div className="flex items-center space-x-2">
@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { CheckCircle2, ExternalLink, GitMerge, RefreshCw } from 'lucide-react';
+import { StatusIndicator } from '@/components/features/dashboard';
+import { LoadingSpinner } from '@/components/common';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useSettings } from '@/contexts/SettingsContext';
+import { useGitlabMergeRequests } from '@/hooks/use-gitlab-merge-requests';
+import { formatRelativeTime } from '@/lib/date';
+import { openExternalUrl } from '@/lib/navigation';
+import { cn } from '@/lib/utils';
+import { hasMergeRequestFlag, type GitlabMergeRequestFlag } from '@/services/monitoring/gitlabMergeRequestService';
+import type { GitlabMergeRequest, GitlabPipelineStatus, StatusType } from '@/types';
+
+const FLAG_LABELS: Record<GitlabMergeRequestFlag, string> = {
+  stale: 'Stale',
+  blocked: 'Blocked by pipeline',
+  awaiting_review: 'Waiting for review',
+};
+
+const PIPELINE_STATUS_TYPES: Partial<Record<GitlabPipelineStatus, StatusType>> = {
+  success: 'healthy',
+  failed: 'error',
+  running: 'warning',
+  pending: 'warning',
+};
+
+interface MergeRequestRowProps {
+  mergeRequest: GitlabMergeRequest;
+}
+
+const MergeRequestRow = ({ mergeRequest }: MergeRequestRowProps) => {
+  const { approvals } = mergeRequest;
+
+  return (
+    <li className="rounded-md border p-3 space-y-2">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div className="min-w-0 space-y-1">
+          <button
+            type="button"
+            className="flex items-center gap-1 text-sm font-medium text-left hover:underline"
+            onClick={() => openExternalUrl(mergeRequest.webUrl)}
+          >
+            <span className="truncate">{mergeRequest.title}</span>
+            <ExternalLink className="h-3 w-3 shrink-0" />
+          </button>
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+            <span>{mergeRequest.projectPath}!{mergeRequest.iid}</span>
+            <span className="font-mono truncate max-w-[16rem]" title={`${mergeRequest.sourceBranch} → ${mergeRequest.targetBranch}`}>
+              {mergeRequest.sourceBranch} → {mergeRequest.targetBranch}
+            </span>
+            <span>by {mergeRequest.author.name}</span>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-1.5">
+          {mergeRequest.draft && <Badge variant="secondary">Draft</Badge>}
+          {mergeRequest.hasConflicts && <Badge variant="destructive">Conflicts</Badge>}
+          {(Object.keys(FLAG_LABELS) as GitlabMergeRequestFlag[])
+            .filter(flag => hasMergeRequestFlag(mergeRequest, flag))
+            .map(flag => (
+              <Badge key={flag} variant={flag === 'blocked' ? 'destructive' : 'outline'}>
+                {FLAG_LABELS[flag]}
+              </Badge>
+            ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        {mergeRequest.pipelineStatus ? (
+          <StatusIndicator
+            status={PIPELINE_STATUS_TYPES[mergeRequest.pipelineStatus] ?? 'inactive'}
+            label={`Pipeline ${mergeRequest.pipelineStatus.replace(/_/g, ' ')}`}
+          />
+        ) : (
+          <span>No pipeline</span>
+        )}
+        <span className="flex items-center gap-1">
+          <CheckCircle2 className="h-3.5 w-3.5" />
+          {!approvals
+            ? 'Approvals unknown'
+            : approvals.required > 0
+              ? `${approvals.required - approvals.left}/${approvals.required} approvals`
+              : `${approvals.approvedBy.length} approval${approvals.approvedBy.length === 1 ? '' : 's'}`}
+        </span>
+        <span>
+          {mergeRequest.reviewers.length > 0
+            ? `Reviewers: ${mergeRequest.reviewers.map(reviewer => reviewer.name).join(', ')}`
+            : 'No reviewers'}
+        </span>
+        <span>Opened {formatRelativeTime(mergeRequest.createdAt)}</span>
+        <span>Active {formatRelativeTime(mergeRequest.updatedAt)}</span>
+      </div>
+    </li>
+  );
+};
+
+interface MergeRequestBoardProps {
+  instanceId?: string | undefined;
+}
+
+/**
+ * Open merge requests of the selected projects, highlighting the stale, the blocked and those waiting for review
+ */
+const MergeRequestBoard = ({ instanceId }: MergeRequestBoardProps) => {
+  const { settings } = useSettings();
+  const { instances, mergeRequests, errors, isLoading, isFetching, lastUpdated, refresh } =
+    useGitlabMergeRequests(settings.gitlab);
+  const [flag, setFlag] = useState<GitlabMergeRequestFlag | null>(null);
+
+  if (instances.length === 0) return null;
+
+  const shown = mergeRequests.filter(mergeRequest => !instanceId || mergeRequest.instanceId === instanceId);
+  const visible = flag ? shown.filter(mergeRequest => hasMergeRequestFlag(mergeRequest, flag)) : shown;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <GitMerge className="h-5 w-5" />
+            Merge requests
+          </CardTitle>
+          <CardDescription>
+            {shown.length} open in the selected projects
+            {lastUpdated && ` · updated ${formatRelativeTime(lastUpdated)}`}
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => void refresh()} disabled={isFetching}>
+          <RefreshCw className={cn('h-4 w-4 mr-2', isFetching && 'animate-spin')} />
+          Refresh
+        </Button>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {(Object.keys(FLAG_LABELS) as GitlabMergeRequestFlag[]).map(option => {
+            const count = shown.filter(mergeRequest => hasMergeRequestFlag(mergeRequest, option)).length;
+            return (
+              <button
+                key={option}
+                type="button"
+                aria-pressed={flag === option}
+                className={cn(
+                  'rounded-md border p-3 text-left transition-colors hover:bg-muted/50',
+                  flag === option && 'border-primary'
+                )}
+                onClick={() => setFlag(flag === option ? null : option)}
+              >
+                <div className="text-xs text-muted-foreground">{FLAG_LABELS[option]}</div>
+                <div className={cn('text-2xl font-semibold', option === 'blocked' && count > 0 && 'text-destructive')}>
+                  {count}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        {errors.length > 0 && (
+          <div className="space-y-1 text-sm text-destructive">
+            {errors.map(error => (
+              <p key={`${error.instanceId}:${error.projectId}`}>
+                {instances.find(instance => instance.id === error.instanceId)?.name ?? error.instanceId}, project{' '}
+                {error.projectId}: {error.message}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : visible.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {flag ? `No merge requests are ${FLAG_LABELS[flag].toLowerCase()}.` : 'No open merge requests.'}
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {visible.map(mergeRequest => (
+              <MergeRequestRow key={`${mergeRequest.instanceId}:${mergeRequest.id}`} mergeRequest={mergeRequest} />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MergeRequestBoard;
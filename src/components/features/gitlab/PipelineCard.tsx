@@ -0,0 +1,141 @@
+import { ExternalLink, GitBranch, GitCommit, Timer } from 'lucide-react';
+import { StatusIndicator } from '@/components/features/dashboard';
+import { Badge } from '@/components/ui/badge';
+import { formatRelativeTime } from '@/lib/date';
+import { formatDuration } from '@/lib/formatting';
+import { openExternalUrl } from '@/lib/navigation';
+import { cn } from '@/lib/utils';
+import { isActivePipeline } from '@/services/monitoring/gitlabPipelineService';
+import type { GitlabInstance, GitlabPipeline, GitlabPipelineStatus, StatusType } from '@/types';
+
+const STATUS_TYPES: Record<GitlabPipelineStatus, StatusType> = {
+  created: 'warning',
+  waiting_for_resource: 'warning',
+  preparing: 'warning',
+  pending: 'warning',
+  running: 'warning',
+  success: 'healthy',
+  failed: 'error',
+  canceled: 'inactive',
+  skipped: 'inactive',
+  manual: 'inactive',
+  scheduled: 'inactive',
+};
+
+const STAGE_CLASSES: Partial<Record<StatusType, string>> = {
+  healthy: 'border-success/40 bg-success/10 text-success',
+  warning: 'border-warning/40 bg-warning/10 text-warning',
+  error: 'border-destructive/40 bg-destructive/10 text-destructive',
+};
+
+/**
+ * GitLab's failure reasons are snake_case, e.g. runner_system_failure
+ */
+const formatFailureReason = (reason: string): string => reason.replace(/_/g, ' ');
+
+const formatStatus = (status: GitlabPipelineStatus): string => status.replace(/_/g, ' ');
+
+interface PipelineCardProps {
+  pipeline: GitlabPipeline;
+  instance?: GitlabInstance | undefined;
+}
+
+/**
+ * One pipeline with its ref, stages and the jobs that failed it
+ */
+const PipelineCard = ({ pipeline, instance }: PipelineCardProps) => {
+  const active = isActivePipeline(pipeline);
+  // An active pipeline's duration only counts finished jobs, so show how long it has been going instead
+  const elapsed = active && pipeline.startedAt
+    ? Date.now() - pipeline.startedAt.getTime()
+    : pipeline.duration !== null ? pipeline.duration * 1000 : null;
+
+  return (
+    <div className="rounded-md border p-4 space-y-3">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div className="space-y-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <StatusIndicator
+              status={STATUS_TYPES[pipeline.status]}
+              pulse={active}
+              label={pipeline.projectPath}
+            />
+            {pipeline.stuck && <Badge variant="destructive">Stuck</Badge>}
+          </div>
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <GitBranch className="h-3.5 w-3.5" />
+              <span className="font-mono truncate max-w-[16rem]" title={pipeline.ref}>{pipeline.ref}</span>
+            </span>
+            <span className="flex items-center gap-1">
+              <GitCommit className="h-3.5 w-3.5" />
+              <span className="font-mono">{pipeline.sha.slice(0, 8)}</span>
+            </span>
+            <span>{pipeline.source.replace(/_/g, ' ')}</span>
+            {instance && <span>{instance.name}</span>}
+          </div>
+        </div>
+
+        <div className="text-right text-xs text-muted-foreground shrink-0 space-y-1">
+          <button
+            type="button"
+            className="flex items-center gap-1 ml-auto text-primary hover:underline"
+            onClick={() => openExternalUrl(pipeline.webUrl)}
+          >
+            #{pipeline.iid} {formatStatus(pipeline.status)}
+            <ExternalLink className="h-3 w-3" />
+          </button>
+          <div>Created {formatRelativeTime(pipeline.createdAt)}</div>
+          {elapsed !== null && (
+            <div className="flex items-center justify-end gap-1">
+              <Timer className="h-3 w-3" />
+              {formatDuration(elapsed)}
+              {active && ' so far'}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {pipeline.stages.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          {pipeline.stages.map(stage => (
+            <span
+              key={stage.name}
+              className={cn(
+                'rounded-full border px-2 py-0.5 text-xs',
+                STAGE_CLASSES[STATUS_TYPES[stage.status]] ?? 'text-muted-foreground'
+              )}
+              title={stage.jobs.map(job => `${job.name}: ${formatStatus(job.status)}`).join('\n')}
+            >
+              {stage.name} · {formatStatus(stage.status)}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {pipeline.failedJobs.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {pipeline.failedJobs.map(job => (
+            <li key={job.id} className="flex flex-wrap items-center gap-x-2">
+              <button
+                type="button"
+                className="font-medium text-destructive hover:underline"
+                onClick={() => openExternalUrl(job.webUrl)}
+              >
+                {job.stage} / {job.name}
+              </button>
+              {job.failureReason && (
+                <span className="text-muted-foreground">{formatFailureReason(job.failureReason)}</span>
+              )}
+              {job.duration !== null && (
+                <span className="text-muted-foreground">after {formatDuration(job.duration * 1000)}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PipelineCard;
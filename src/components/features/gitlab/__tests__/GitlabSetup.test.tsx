@@ -0,0 +1,44 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen } from '@/test/utils';
+import { GitlabSetup } from '../GitlabSetup';
+import { gitlabCacheService } from '@/services/storage/gitlabCacheService';
+
+vi.mock('@/services/settings/gitlabSettingsService', () => ({
+  gitlabSettingsService: {
+    getInstances: vi.fn(() => [
+      {
+        id: 'gitlab-1',
+        name: 'Test GitLab',
+        url: 'https://gitlab.example.com',
+        token: '',
+        isActive: true,
+        apiVersion: 'v4',
+        connectionStatus: 'connected',
+        selectedProjects: [],
+      },
+    ]),
+  },
+}));
+
+describe('GitlabSetup', () => {
+  afterEach(() => {
+    gitlabCacheService.clear();
+  });
+
+  it('shows how many requests of an instance were revalidated', async () => {
+    gitlabCacheService.recordResponse('gitlab-1', true);
+    gitlabCacheService.recordResponse('gitlab-1', true);
+    gitlabCacheService.recordResponse('gitlab-1', false);
+
+    render(<GitlabSetup />);
+
+    expect(await screen.findByText('Revalidated: 2 of 3 requests')).toBeInTheDocument();
+  });
+
+  it('omits revalidation counts for instances without requests', async () => {
+    render(<GitlabSetup />);
+
+    expect(await screen.findByText('Test GitLab')).toBeInTheDocument();
+    expect(screen.queryByText(/Revalidated:/)).not.toBeInTheDocument();
+  });
+});
@@ -1,2 +1,5 @@
 // GitLab feature components
 export { default as GitlabSection } from './GitlabSection';
+export { default as PipelineCard } from './PipelineCard';
+export { default as MergeRequestBoard } from './MergeRequestBoard';
+export { default as GitlabNamespaceTree } from './GitlabNamespaceTree';
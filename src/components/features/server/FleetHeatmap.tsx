@@ -0,0 +1,74 @@
+import { useNavigate } from 'react-router-dom';
+import { getServerDetailPath } from '@/lib/navigation';
+import { cn } from '@/lib/utils';
+import { reportsUsage, type ServerOverview } from '@/hooks/use-server-monitoring';
+
+export type HeatmapMetric = 'cpu' | 'memory';
+
+const METRIC_FIELDS: Record<HeatmapMetric, 'cpuUsage' | 'memoryUsage'> = {
+  cpu: 'cpuUsage',
+  memory: 'memoryUsage',
+};
+
+const METRIC_LABELS: Record<HeatmapMetric, string> = {
+  cpu: 'CPU',
+  memory: 'RAM',
+};
+
+/**
+ * Green at 0% through amber to red at 100%
+ */
+const heatColor = (value: number): string => {
+  const clamped = Math.min(100, Math.max(0, value));
+  return `hsl(${Math.round(142 - clamped * 1.42)} 70% 45%)`;
+};
+
+interface FleetHeatmapProps {
+  overviews: ServerOverview[];
+  metric: HeatmapMetric;
+}
+
+/**
+ * One cell per server colored by its latest CPU or memory usage. Servers without a reading are grey.
+ */
+const FleetHeatmap = ({ overviews, metric }: FleetHeatmapProps) => {
+  const navigate = useNavigate();
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-[repeat(auto-fill,minmax(2.5rem,1fr))] gap-1">
+        {overviews.map(({ target, latest }) => {
+          const reading = reportsUsage(latest) ? latest[METRIC_FIELDS[metric]] : null;
+          return (
+            <button
+              key={target.id}
+              type="button"
+              className={cn(
+                'h-10 rounded-sm text-[10px] font-medium text-white transition-transform hover:scale-105 focus:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                reading === null && 'bg-muted text-muted-foreground',
+                latest?.status === 'error' && 'ring-2 ring-destructive ring-offset-1'
+              )}
+              style={reading === null ? undefined : { backgroundColor: heatColor(reading) }}
+              title={`${target.name}: ${reading === null ? 'no data' : `${METRIC_LABELS[metric]} ${Math.round(reading)}%`}`}
+              aria-label={`${target.name} ${METRIC_LABELS[metric]} ${reading === null ? 'no data' : `${Math.round(reading)}%`}`}
+              onClick={() => navigate(getServerDetailPath(target.id))}
+            >
+              {reading === null ? '–' : Math.round(reading)}
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span>0%</span>
+        <div
+          className="h-1.5 w-24 rounded-full"
+          style={{ background: `linear-gradient(to right, ${heatColor(0)}, ${heatColor(50)}, ${heatColor(100)})` }}
+        />
+        <span>100%</span>
+        <span className="ml-2">Outlined servers are in error</span>
+      </div>
+    </div>
+  );
+};
+
+export default FleetHeatmap;
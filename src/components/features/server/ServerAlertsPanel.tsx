@@ -0,0 +1,98 @@
+import { StatusIndicator } from '@/components/features/dashboard';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useServerAlerts } from '@/hooks/use-server-alerts';
+import { formatDateTime, formatRelativeTime } from '@/lib/date';
+import { formatDuration } from '@/lib/formatting';
+import { TIME_CONSTANTS } from '@/constants';
+import type { ServerAlert, ServerAlertMetric, ServerTarget } from '@/types';
+
+const RECENT_WINDOW = TIME_CONSTANTS.DAY;
+
+const METRIC_LABELS: Record<ServerAlertMetric, string> = {
+  cpu: 'CPU',
+  memory: 'RAM',
+  disk: 'Disk',
+};
+
+interface ServerAlertsPanelProps {
+  targets: ServerTarget[];
+}
+
+/**
+ * Threshold alerts raised by the configured servers: open ones first, then those resolved in the last day
+ */
+const ServerAlertsPanel = ({ targets }: ServerAlertsPanelProps) => {
+  const { alerts } = useServerAlerts(RECENT_WINDOW);
+  const targetIds = new Set(targets.map(target => target.id));
+  const visible = alerts.filter(alert => targetIds.has(alert.targetId));
+  const openCount = visible.filter(alert => alert.state === 'open').length;
+
+  const targetName = (alert: ServerAlert) =>
+    targets.find(target => target.id === alert.targetId)?.name ?? alert.targetId;
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle className="text-lg">Threshold alerts</CardTitle>
+        <CardDescription>
+          {openCount > 0
+            ? `${openCount} open, plus alerts resolved in the last 24 hours`
+            : 'No open alerts. Alerts resolved in the last 24 hours are listed here.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {visible.length === 0 ? (
+          <p className="text-sm text-muted-foreground">All servers are within their thresholds.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Server</TableHead>
+                <TableHead>Metric</TableHead>
+                <TableHead className="text-right">Peak</TableHead>
+                <TableHead className="text-right">Threshold</TableHead>
+                <TableHead>Started</TableHead>
+                <TableHead>Duration</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...visible]
+                .sort((a, b) => Number(b.state === 'open') - Number(a.state === 'open'))
+                .map(alert => (
+                  <TableRow key={alert.id}>
+                    <TableCell>
+                      <StatusIndicator
+                        status={alert.state === 'open' ? alert.severity : 'inactive'}
+                        pulse={alert.state === 'open'}
+                        label={targetName(alert)}
+                      />
+                    </TableCell>
+                    <TableCell>{METRIC_LABELS[alert.metric]}</TableCell>
+                    <TableCell className="text-right">{alert.peak}%</TableCell>
+                    <TableCell className="text-right">{alert.threshold}%</TableCell>
+                    <TableCell title={formatDateTime(alert.startedAt)}>{formatRelativeTime(alert.startedAt)}</TableCell>
+                    <TableCell>
+                      {alert.state === 'open'
+                        ? <Badge variant={alert.severity === 'error' ? 'destructive' : 'secondary'}>Open</Badge>
+                        : <Badge variant="secondary">{formatDuration(alert.duration ?? 0)}</Badge>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ServerAlertsPanel;
@@ -0,0 +1,107 @@
+import { Area, AreaChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { formatDateTime } from '@/lib/date';
+import { TIME_CONSTANTS } from '@/constants';
+import type { ServerHistoryField, ServerHistoryPoint, ServerMetricThreshold } from '@/types';
+
+interface ServerHistoryChartProps {
+  history: ServerHistoryPoint[];
+  fields: ServerHistoryField[];
+  config: ChartConfig;
+  windowMs: number;
+  formatValue: (value: number) => string;
+  percent?: boolean;
+  threshold?: ServerMetricThreshold | undefined;
+}
+
+/**
+ * History of one or more server metrics over the selected period.
+ * Buckets where the source never answered show as gaps.
+ */
+const ServerHistoryChart = ({
+  history,
+  fields,
+  config,
+  windowMs,
+  formatValue,
+  percent = false,
+  threshold,
+}: ServerHistoryChartProps) => {
+  if (history.length < 2) {
+    return (
+      <div className="h-48 flex items-center justify-center text-sm text-muted-foreground">
+        Collecting history…
+      </div>
+    );
+  }
+
+  // Dates only once the period spans more than a day
+  const formatTick = (timestamp: number) => windowMs > TIME_CONSTANTS.DAY
+    ? new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+    : new Date(timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+  const data = history.map(point => ({
+    timestamp: point.timestamp,
+    ...Object.fromEntries(fields.map(field => [field, point[field] ?? null])),
+  }));
+
+  return (
+    <ChartContainer config={config} className="aspect-auto h-48 w-full">
+      <AreaChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="timestamp"
+          type="number"
+          scale="time"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={formatTick}
+          tickLine={false}
+          axisLine={false}
+          minTickGap={32}
+        />
+        <YAxis
+          width={percent ? 40 : 72}
+          domain={percent ? [0, 100] : [0, 'auto']}
+          tickFormatter={formatValue}
+          tickLine={false}
+          axisLine={false}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              indicator="line"
+              labelFormatter={(_, payload) => formatDateTime(new Date(payload[0]?.payload?.timestamp))}
+              formatter={(value, name) => (
+                <div className="flex w-full justify-between gap-4">
+                  <span className="text-muted-foreground">{config[String(name)]?.label ?? name}</span>
+                  <span className="font-mono font-medium">{formatValue(Number(value))}</span>
+                </div>
+              )}
+            />
+          }
+        />
+        {threshold && (
+          <>
+            <ReferenceLine y={threshold.warning} stroke="hsl(var(--warning))" strokeDasharray="4 4" />
+            <ReferenceLine y={threshold.error} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+          </>
+        )}
+        {fields.map(field => (
+          <Area
+            key={field}
+            dataKey={field}
+            type="monotone"
+            stroke={`var(--color-${field})`}
+            fill={`var(--color-${field})`}
+            fillOpacity={0.15}
+            strokeWidth={1.5}
+            dot={false}
+            isAnimationActive={false}
+          />
+        ))}
+      </AreaChart>
+    </ChartContainer>
+  );
+};
+
+export default ServerHistoryChart;
@@ -1,200 +1,97 @@
-import React, { useState, useEffect } from 'react';
-import { Server, Database, HardDrive, Activity, Settings } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Server, Database, HardDrive, Activity, Network, Settings, Layers, Tag, CalendarClock, Plug, Timer } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
 import { StatusCard } from '@/components/features/dashboard';
 import { AnimatedNumber } from '@/components/common';
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/components/ui/use-toast';
 import { useSettings } from '@/contexts/SettingsContext';
 import { Button } from '@/components/ui/button';
-import { config } from '@/config';
-import type { StatusType } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { reportsUsage, useServerMonitoring } from '@/hooks/use-server-monitoring';
+import { MONITORING_CONFIG } from '@/config';
+import { formatRelativeTime } from '@/lib/date';
+import { formatBitrate, formatDiskForecast, formatUptime } from '@/lib/monitoring';
+import { getServerDetailPath } from '@/lib/navigation';
+import { cn } from '@/lib/utils';
+import { serverAlertService } from '@/services/monitoring/serverAlertService';
+import { getTagKey, serverMonitoringService } from '@/services/monitoring/serverMonitoringService';
+import type { ServerGroup, ServerMetricThreshold, ServerTarget } from '@/types';
+import FleetHeatmap, { type HeatmapMetric } from './FleetHeatmap';
+import ServerAlertsPanel from './ServerAlertsPanel';
 
-interface Server {
-  id: number;
-  name: string;
-  ip: string;
-  status: StatusType;
-  cpuUsage: number;
-  memoryUsage: number;
-  diskUsage: number;
-  uptime: string;
-  netdataUrl?: string;
-  error?: boolean;
-}
-
-// Function to fetch server metrics from Netdata
-const fetchNetdataMetrics = async (url: string): Promise<any> => {
-  try {
-    // Cross-origin requests might be blocked, so this is a mock implementation
-    // In production, you'd need a proxy server or CORS-enabled Netdata
-    console.log(`Fetching metrics from Netdata: ${url}`);
+// Group-by choices besides the tag keys themselves
+const GROUP_NONE = '__none';
+const GROUP_EVERY_TAG = '__tag';
 
-    // Simulating API response time
-    await new Promise(resolve => setTimeout(resolve, 500));
+interface UsageRowProps {
+  icon: LucideIcon;
+  label: string;
+  value: number;
+  threshold: ServerMetricThreshold;
+}
 
-    // Mock response
-    return {
-      cpuUsage: Math.floor(Math.random() * 100),
-      memoryUsage: Math.floor(Math.random() * 100),
-      diskUsage: Math.floor(Math.random() * 100),
-      uptime: `${Math.floor(Math.random() * 90) + 10}d ${Math.floor(Math.random() * 24)}h`,
-    };
-  } catch (error) {
-    console.error('Error fetching Netdata metrics:', error);
-    throw error;
-  }
-};
+const UsageRow = ({ icon: Icon, label, value, threshold }: UsageRowProps) => (
+  <div className="flex items-center justify-between">
+    <div className="flex items-center gap-1.5">
+      <Icon className="h-3.5 w-3.5 text-muted-foreground" />
+      <span className="text-xs">{label}</span>
+    </div>
+    <div className="text-sm font-medium">
+      <AnimatedNumber
+        value={value}
+        formatter={(val) => `${val}%`}
+      />
+    </div>
+    <div className="w-24 h-1.5 bg-secondary rounded-full overflow-hidden">
+      <div
+        className={`h-full rounded-full ${
+          value > threshold.error ? 'bg-destructive' :
+          value > threshold.warning ? 'bg-warning' : 'bg-success'
+        }`}
+        style={{ width: `${value}%` }}
+      />
+    </div>
+  </div>
+);
 
 const ServerSection = () => {
-  const [servers, setServers] = useState<Server[]>([]);
-  const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
   const { toast } = useToast();
   const { settings } = useSettings();
+  const { overviews } = useServerMonitoring(settings.servers);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [groupBy, setGroupBy] = useState<string>(GROUP_NONE);
+  const [heatmapMetric, setHeatmapMetric] = useState<HeatmapMetric>('cpu');
+  const [showAllServers, setShowAllServers] = useState(false);
 
-  // Fetch server metrics from Netdata
-  useEffect(() => {
-    const fetchAllServerMetrics = async () => {
-      if (settings.servers.instances.length === 0) {
-        // Use default mock data if no servers are configured
-        setServers([
-          {
-            id: 1,
-            name: 'Web Server',
-            ip: '192.168.1.101',
-            status: 'healthy',
-            cpuUsage: 23,
-            memoryUsage: 45,
-            diskUsage: 65,
-            uptime: '45d 12h',
-          },
-          {
-            id: 2,
-            name: 'Database Server',
-            ip: '192.168.1.102',
-            status: 'warning',
-            cpuUsage: 78,
-            memoryUsage: 82,
-            diskUsage: 45,
-            uptime: '23d 5h',
-          },
-          {
-            id: 3,
-            name: 'Application Server',
-            ip: '192.168.1.103',
-            status: 'healthy',
-            cpuUsage: 35,
-            memoryUsage: 55,
-            diskUsage: 30,
-            uptime: '67d 3h',
-          },
-          {
-            id: 4,
-            name: 'Cache Server',
-            ip: '192.168.1.104',
-            status: 'healthy',
-            cpuUsage: 15,
-            memoryUsage: 60,
-            diskUsage: 25,
-            uptime: '32d 18h',
-          },
-        ]);
-        setLoading(false);
-        return;
-      }
-
-      try {
-        const serverData = await Promise.all(
-          settings.servers.instances.map(async (server, index) => {
-            try {
-              if (!server.netdataUrl) {
-                // Generate mock data if no Netdata URL is provided
-                return {
-                  id: index + 1,
-                  name: server.name,
-                  ip: server.ip,
-                  status: getRandomStatus(),
-                  cpuUsage: Math.floor(Math.random() * 100),
-                  memoryUsage: Math.floor(Math.random() * 100),
-                  diskUsage: Math.floor(Math.random() * 100),
-                  uptime: `${Math.floor(Math.random() * 90) + 10}d ${Math.floor(Math.random() * 24)}h`,
-                };
-              }
-
-              const metrics = await fetchNetdataMetrics(server.netdataUrl);
-
-              // Determine status based on metrics
-              let status: StatusType = 'healthy';
-              if (metrics.cpuUsage > 80 || metrics.memoryUsage > 80 || metrics.diskUsage > 80) {
-                status = 'error';
-              } else if (metrics.cpuUsage > 60 || metrics.memoryUsage > 60 || metrics.diskUsage > 60) {
-                status = 'warning';
-              }
-
-              return {
-                id: index + 1,
-                name: server.name,
-                ip: server.ip,
-                status,
-                cpuUsage: metrics.cpuUsage,
-                memoryUsage: metrics.memoryUsage,
-                diskUsage: metrics.diskUsage,
-                uptime: metrics.uptime,
-                netdataUrl: server.netdataUrl,
-              };
-            } catch (error) {
-              // If fetching fails, return server with error status
-              console.error(`Error fetching data for server ${server.name}:`, error);
-              return {
-                id: index + 1,
-                name: server.name,
-                ip: server.ip,
-                status: 'error' as StatusType,
-                cpuUsage: 0,
-                memoryUsage: 0,
-                diskUsage: 0,
-                uptime: 'Unknown',
-                error: true,
-              };
-            }
-          })
-        );
-
-        setServers(serverData);
-        setLoading(false);
-      } catch (error) {
-        console.error('Failed to fetch server metrics:', error);
-        toast({
-          title: "Failed to fetch server metrics",
-          description: "Check your Netdata configuration in settings.",
-          variant: "destructive",
-        });
-        setLoading(false);
-      }
-    };
-
-    fetchAllServerMetrics();
+  const allTags = useMemo(
+    () => Array.from(new Set(overviews.flatMap(({ target }) => target.tags ?? []))).sort(),
+    [overviews]
+  );
+  const tagKeys = useMemo(() => Array.from(new Set(allTags.map(getTagKey))), [allTags]);
 
-    // Set up polling interval
-    const interval = setInterval(fetchAllServerMetrics, config.monitoring.polling.serverMetrics);
+  // Servers must carry every selected tag
+  const filtered = overviews.filter(({ target }) => selectedTags.every(tag => target.tags?.includes(tag)));
+  const groups = groupBy === GROUP_NONE
+    ? []
+    : serverMonitoringService.getServerGroups(
+      filtered.map(({ target }) => target),
+      groupBy === GROUP_EVERY_TAG ? undefined : groupBy
+    );
 
-    return () => clearInterval(interval);
-  }, [settings.servers.instances, toast]);
-
-  const getRandomStatus = (): StatusType => {
-    const statuses = config.monitoring.mockData.statusDistribution;
-    if (statuses.length === 0) {
-      return 'inactive';
-    }
-    const status = statuses[Math.floor(Math.random() * statuses.length)];
-    return status || 'inactive';
-  };
+  const { maxServersPreview } = MONITORING_CONFIG.display;
+  const displayServers = showAllServers ? filtered : filtered.slice(0, maxServersPreview);
 
   const navigateToSettings = () => {
     navigate('/settings');
   };
 
-  const openNetdataInterface = (server: Server) => {
+  const openNetdataInterface = (event: React.MouseEvent, server: ServerTarget) => {
+    // The card itself opens the server's detail page
+    event.stopPropagation();
     if (server.netdataUrl) {
       window.open(server.netdataUrl, '_blank');
     } else {
@@ -206,6 +103,13 @@ const ServerSection = () => {
     }
   };
 
+  // Drill into a group by filtering on its tag
+  const openGroup = (group: ServerGroup) => {
+    if (!group.tag) return;
+    setSelectedTags([group.tag]);
+    setGroupBy(GROUP_NONE);
+  };
+
   return (
     <div className="section-appear" style={{ '--delay': 4 } as React.CSSProperties}>
       <div className="flex items-center justify-between mb-4">
@@ -224,93 +128,213 @@ const ServerSection = () => {
         </Button>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        {servers.map((server, index) => (
-          <StatusCard
-            key={server.id}
-            title={server.name}
-            subtitle={server.ip}
-            icon={Server}
-            status={server.status}
-            className="card-appear"
-            style={{ '--delay': index + 1 } as React.CSSProperties}
-            onClick={() => openNetdataInterface(server)}
-          >
-            <div className="space-y-3 mt-3">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-1.5">
-                  <Activity className="h-3.5 w-3.5 text-muted-foreground" />
-                  <span className="text-xs">CPU</span>
-                </div>
-                <div className="text-sm font-medium">
-                  <AnimatedNumber
-                    value={server.cpuUsage}
-                    formatter={(val) => `${val}%`}
-                  />
-                </div>
-                <div className="w-24 h-1.5 bg-secondary rounded-full overflow-hidden">
-                  <div
-                    className={`h-full rounded-full ${
-                      server.cpuUsage > 80 ? 'bg-destructive' :
-                      server.cpuUsage > 60 ? 'bg-warning' : 'bg-success'
-                    }`}
-                    style={{ width: `${server.cpuUsage}%` }}
-                  />
-                </div>
-              </div>
+      {overviews.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No servers configured. Add a server with its Netdata, node_exporter or Prometheus URL in settings.
+        </p>
+      )}
 
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-1.5">
-                  <Database className="h-3.5 w-3.5 text-muted-foreground" />
-                  <span className="text-xs">RAM</span>
-                </div>
-                <div className="text-sm font-medium">
-                  <AnimatedNumber
-                    value={server.memoryUsage}
-                    formatter={(val) => `${val}%`}
-                  />
-                </div>
-                <div className="w-24 h-1.5 bg-secondary rounded-full overflow-hidden">
-                  <div
-                    className={`h-full rounded-full ${
-                      server.memoryUsage > 80 ? 'bg-destructive' :
-                      server.memoryUsage > 60 ? 'bg-warning' : 'bg-success'
-                    }`}
-                    style={{ width: `${server.memoryUsage}%` }}
-                  />
-                </div>
-              </div>
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <div className="flex items-center gap-1.5">
+            <Tag className="h-4 w-4 text-muted-foreground" />
+            <ToggleGroup
+              type="multiple"
+              size="sm"
+              variant="outline"
+              className="flex-wrap justify-start"
+              value={selectedTags}
+              onValueChange={setSelectedTags}
+              aria-label="Filter servers by tag"
+            >
+              {allTags.map(tag => (
+                <ToggleGroupItem key={tag} value={tag} className="h-7 text-xs">
+                  {tag}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+          <Select value={groupBy} onValueChange={setGroupBy}>
+            <SelectTrigger className="h-8 w-44 text-xs" aria-label="Group servers">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={GROUP_NONE}>No grouping</SelectItem>
+              <SelectItem value={GROUP_EVERY_TAG}>Group by tag</SelectItem>
+              {tagKeys.map(key => (
+                <SelectItem key={key} value={key}>Group by {key}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
 
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-1.5">
-                  <HardDrive className="h-3.5 w-3.5 text-muted-foreground" />
-                  <span className="text-xs">Disk</span>
-                </div>
-                <div className="text-sm font-medium">
-                  <AnimatedNumber
-                    value={server.diskUsage}
-                    formatter={(val) => `${val}%`}
-                  />
+      {filtered.some(({ latest }) => reportsUsage(latest)) && (
+        <Card className="mb-4">
+          <CardHeader className="flex-row items-center justify-between space-y-0 pb-3">
+            <div>
+              <CardTitle className="text-lg">Fleet heatmap</CardTitle>
+              <CardDescription>{filtered.length} servers by their latest usage</CardDescription>
+            </div>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              variant="outline"
+              value={heatmapMetric}
+              onValueChange={value => value && setHeatmapMetric(value as HeatmapMetric)}
+              aria-label="Heatmap metric"
+            >
+              <ToggleGroupItem value="cpu" className="h-7 text-xs">CPU</ToggleGroupItem>
+              <ToggleGroupItem value="memory" className="h-7 text-xs">RAM</ToggleGroupItem>
+            </ToggleGroup>
+          </CardHeader>
+          <CardContent>
+            <FleetHeatmap overviews={filtered} metric={heatmapMetric} />
+          </CardContent>
+        </Card>
+      )}
+
+      {groupBy !== GROUP_NONE ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {groups.map((group, index) => {
+            const thresholds = serverAlertService.resolveThresholds(settings.servers, group.tag ? [group.tag] : []);
+            return (
+              <StatusCard
+                key={group.tag || 'untagged'}
+                title={group.tag || 'Untagged'}
+                subtitle={`${group.targetIds.length} ${group.targetIds.length === 1 ? 'server' : 'servers'} · ${group.reporting} reporting`}
+                icon={Layers}
+                status={group.status}
+                className="card-appear"
+                style={{ '--delay': index + 1 } as React.CSSProperties}
+                onClick={() => openGroup(group)}
+              >
+                <div className="space-y-3 mt-3">
+                  <UsageRow icon={Activity} label="Avg CPU" value={group.averageCpuUsage} threshold={thresholds.cpu} />
+                  <UsageRow icon={Database} label="Avg RAM" value={group.averageMemoryUsage} threshold={thresholds.memory} />
+                  <UsageRow icon={HardDrive} label="Avg Disk" value={group.averageDiskUsage} threshold={thresholds.disk} />
                 </div>
-                <div className="w-24 h-1.5 bg-secondary rounded-full overflow-hidden">
-                  <div
-                    className={`h-full rounded-full ${
-                      server.diskUsage > 80 ? 'bg-destructive' :
-                      server.diskUsage > 60 ? 'bg-warning' : 'bg-success'
-                    }`}
-                    style={{ width: `${server.diskUsage}%` }}
-                  />
+                <div className="text-xs text-muted-foreground mt-3">
+                  {(['error', 'warning', 'healthy', 'inactive'] as const)
+                    .filter(status => group.statusCounts[status] > 0)
+                    .map(status => `${group.statusCounts[status]} ${status}`)
+                    .join(' · ')}
                 </div>
-              </div>
-            </div>
+              </StatusCard>
+            );
+          })}
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {displayServers.map(({ target, latest }, index) => {
+              const thresholds = target.thresholds ?? serverAlertService.resolveThresholds(settings.servers, target.tags);
+              return (
+                <StatusCard
+                  key={target.id}
+                  title={target.name}
+                  subtitle={target.ip}
+                  icon={Server}
+                  status={latest?.status ?? 'inactive'}
+                  className="card-appear"
+                  style={{ '--delay': index + 1 } as React.CSSProperties}
+                  onClick={() => navigate(getServerDetailPath(target.id))}
+                >
+                  {target.source?.kind === 'tcp' ? (
+                    <div className="space-y-3 mt-3">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-1.5">
+                          <Timer className="h-3.5 w-3.5 text-muted-foreground" />
+                          <span className="text-xs">Handshake</span>
+                        </div>
+                        <div className="text-sm font-medium">
+                          {latest?.latency !== undefined ? `${Math.round(latest.latency)}ms` : '—'}
+                        </div>
+                      </div>
+
+                      {latest?.banner && (
+                        <div className="flex items-center gap-1.5" title={latest.banner}>
+                          <Plug className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                          <span className="text-xs font-mono truncate">{latest.banner}</span>
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="space-y-3 mt-3">
+                      <UsageRow icon={Activity} label="CPU" value={latest?.cpuUsage ?? 0} threshold={thresholds.cpu} />
+                      <UsageRow icon={Database} label="RAM" value={latest?.memoryUsage ?? 0} threshold={thresholds.memory} />
+                      <UsageRow icon={HardDrive} label="Disk" value={latest?.diskUsage ?? 0} threshold={thresholds.disk} />
+
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-1.5">
+                          <Network className="h-3.5 w-3.5 text-muted-foreground" />
+                          <span className="text-xs">Net</span>
+                        </div>
+                        <div className="text-xs font-medium">
+                          ↓ {formatBitrate(latest?.networkIn ?? 0)} · ↑ {formatBitrate(latest?.networkOut ?? 0)}
+                        </div>
+                      </div>
+
+                      {latest?.diskForecast && (
+                        <div
+                          className="flex items-center justify-between"
+                          title={`Disk growing ${latest.diskForecast.growth} points a day over the last ${latest.diskForecast.points} hours`}
+                        >
+                          <div className="flex items-center gap-1.5">
+                            <CalendarClock className="h-3.5 w-3.5 text-muted-foreground" />
+                            <span className="text-xs">Disk full</span>
+                          </div>
+                          <div
+                            className={cn(
+                              'text-xs font-medium',
+                              latest.diskForecast.daysUntilFull !== null
+                                && latest.diskForecast.daysUntilFull < (target.diskForecastHorizon ?? Infinity)
+                                && 'text-warning'
+                            )}
+                          >
+                            {formatDiskForecast(latest.diskForecast)}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
 
-            <div className="text-xs text-muted-foreground mt-3">
-              Uptime: {server.uptime}
-              {server.netdataUrl && <div className="text-xs text-primary mt-1 cursor-pointer hover:underline">View Netdata dashboard →</div>}
+                  {latest?.error && (
+                    <div
+                      className={cn(
+                        'text-xs mt-2 truncate',
+                        latest.status === 'error' ? 'text-destructive' : 'text-warning'
+                      )}
+                      title={latest.error}
+                    >
+                      {latest.error}
+                    </div>
+                  )}
+
+                  <div className="text-xs text-muted-foreground mt-3">
+                    {latest?.agent && latest.latency === undefined
+                      ? <>Uptime: {formatUptime(latest.uptime)} · {latest.agent}</>
+                      : <>Last check: {latest ? formatRelativeTime(latest.timestamp) : 'pending'}</>}
+                    {!target.source && target.netdataUrl && <div className="text-xs text-primary mt-1 cursor-pointer hover:underline" onClick={(event) => openNetdataInterface(event, target)}>View Netdata dashboard →</div>}
+                  </div>
+                </StatusCard>
+              );
+            })}
+          </div>
+
+          {filtered.length > maxServersPreview && (
+            <div className="flex justify-center mt-4">
+              <Button variant="outline" size="sm" onClick={() => setShowAllServers(!showAllServers)}>
+                {showAllServers ? 'Show Less' : `View All ${filtered.length} Servers`}
+              </Button>
             </div>
-          </StatusCard>
-        ))}
-      </div>
+          )}
+        </>
+      )}
+
+      {filtered.length > 0 && (
+        <ServerAlertsPanel targets={filtered.map(({ target }) => target)} />
+      )}
     </div>
   );
 };
@@ -1,2 +1,5 @@
 // Server monitoring feature components
 export { default as ServerSection } from './ServerSection';
+export { default as ServerAlertsPanel } from './ServerAlertsPanel';
+export { default as ServerHistoryChart } from './ServerHistoryChart';
+export { default as FleetHeatmap } from './FleetHeatmap';
@@ -0,0 +1,99 @@
+import { ShieldCheck } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { StatusIndicator } from '@/components/features/dashboard';
+import { formatDate } from '@/lib/date';
+import { cn } from '@/lib/utils';
+import type { UptimeCertificateStatus } from '@/types';
+
+interface CertificatePanelProps {
+  certificates: UptimeCertificateStatus[];
+}
+
+/**
+ * Keep the most recent result per host and order them by days remaining, soonest first
+ */
+const sortByExpiry = (certificates: UptimeCertificateStatus[]): UptimeCertificateStatus[] => {
+  const latestByHost = new Map<string, UptimeCertificateStatus>();
+
+  certificates.forEach(certificate => {
+    const existing = latestByHost.get(certificate.host);
+    if (!existing || existing.checkedAt < certificate.checkedAt) {
+      latestByHost.set(certificate.host, certificate);
+    }
+  });
+
+  return Array.from(latestByHost.values()).sort(
+    (a, b) => (a.daysRemaining ?? Infinity) - (b.daysRemaining ?? Infinity)
+  );
+};
+
+/**
+ * TLS certificate overview for every monitored https host
+ */
+const CertificatePanel = ({ certificates }: CertificatePanelProps) => {
+  const rows = sortByExpiry(certificates);
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mt-4">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4" />
+          TLS Certificates
+        </CardTitle>
+        <CardDescription>Sorted by days until expiry</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Host</TableHead>
+              <TableHead>Issuer</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead className="text-right">Days left</TableHead>
+              <TableHead>Chain</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(({ host, status, certificate, daysRemaining, error }) => (
+              <TableRow key={host}>
+                <TableCell>
+                  <StatusIndicator status={status} size="sm" label={host} />
+                  {error && (
+                    <div
+                      className={cn(
+                        'text-xs mt-1',
+                        status === 'warning' ? 'text-warning' : status === 'error' ? 'text-destructive' : 'text-muted-foreground'
+                      )}
+                    >
+                      {error}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">{certificate?.issuer ?? '—'}</TableCell>
+                <TableCell className="text-sm">{certificate ? formatDate(certificate.notAfter) : '—'}</TableCell>
+                <TableCell className="text-sm text-right font-medium">{daysRemaining ?? '—'}</TableCell>
+                <TableCell className="text-sm">
+                  {certificate ? (certificate.chainValid ? 'Valid' : 'Invalid') : '—'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CertificatePanel;
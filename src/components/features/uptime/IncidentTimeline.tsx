@@ -0,0 +1,54 @@
+import { formatDateTime } from '@/lib/date';
+import { formatDuration } from '@/lib/formatting';
+import { cn } from '@/lib/utils';
+import type { UptimeIncident } from '@/types';
+
+interface IncidentTimelineProps {
+  incidents: UptimeIncident[];
+  windowMs: number;
+  className?: string;
+}
+
+/**
+ * Horizontal strip covering the window up to now, with a segment for each incident
+ */
+const IncidentTimeline = ({ incidents, windowMs, className }: IncidentTimelineProps) => {
+  const now = Date.now();
+  const windowStart = now - windowMs;
+
+  const segments = incidents
+    .map(incident => {
+      const start = Math.max(incident.startedAt.getTime(), windowStart);
+      const end = incident.endedAt?.getTime() ?? now;
+
+      return {
+        incident,
+        left: ((start - windowStart) / windowMs) * 100,
+        // Keep very short incidents visible
+        width: Math.max(((end - start) / windowMs) * 100, 0.5),
+        duration: end - incident.startedAt.getTime(),
+      };
+    })
+    .filter(segment => segment.left < 100);
+
+  return (
+    <div
+      className={cn('relative h-2 rounded-full bg-success/30 overflow-hidden', className)}
+      aria-label={`${incidents.length} ${incidents.length === 1 ? 'incident' : 'incidents'} in window`}
+    >
+      {segments.map(({ incident, left, width, duration }) => (
+        <div
+          key={incident.id}
+          className={cn(
+            'absolute inset-y-0',
+            incident.state === 'open' ? 'bg-destructive animate-pulse-opacity' : 'bg-destructive/70'
+          )}
+          style={{ left: `${left}%`, width: `${width}%` }}
+          title={`${formatDateTime(incident.startedAt)} · ${formatDuration(duration)} · ${incident.firstError}`}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default IncidentTimeline;
@@ -0,0 +1,60 @@
+import { Line, LineChart, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { formatTime } from '@/lib/date';
+import type { UptimeCheckPoint } from '@/types';
+
+const chartConfig = {
+  responseTime: {
+    label: 'Response (ms)',
+    color: 'hsl(var(--primary))',
+  },
+} satisfies ChartConfig;
+
+interface ResponseTimeSparklineProps {
+  history: UptimeCheckPoint[];
+}
+
+/**
+ * Compact response-time trend for an uptime target; failed checks show as gaps
+ */
+const ResponseTimeSparkline = ({ history }: ResponseTimeSparklineProps) => {
+  if (history.length < 2) {
+    return (
+      <div className="h-10 flex items-center text-xs text-muted-foreground">
+        Collecting history…
+      </div>
+    );
+  }
+
+  const data = history.map(check => ({
+    time: formatTime(check.timestamp),
+    responseTime: check.up ? check.responseTime ?? null : null,
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-10 w-full">
+      <LineChart data={data} margin={{ top: 2, right: 0, bottom: 2, left: 0 }}>
+        <YAxis hide domain={['dataMin', 'dataMax']} />
+        <ChartTooltip
+          cursor={false}
+          content={
+            <ChartTooltipContent
+              indicator="line"
+              labelFormatter={(_, payload) => payload[0]?.payload?.time}
+            />
+          }
+        />
+        <Line
+          dataKey="responseTime"
+          type="monotone"
+          stroke="var(--color-responseTime)"
+          strokeWidth={1.5}
+          dot={false}
+          isAnimationActive={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+};
+
+export default ResponseTimeSparkline;
@@ -1,64 +1,32 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { Monitor, Check, X, Settings } from 'lucide-react';
-import { StatusCard } from '@/components/features/dashboard';
+import { StatusCard, StatusIndicator } from '@/components/features/dashboard';
 import { AnimatedNumber } from '@/components/common';
 import { useNavigate } from 'react-router-dom';
 import { useSettings } from '@/contexts/SettingsContext';
 import { Button } from '@/components/ui/button';
-import { config } from '@/config';
-import type { StatusType } from '@/types';
-
-interface Website {
-  id: number;
-  name: string;
-  url: string;
-  status: StatusType;
-  uptime: number;
-  responseTime: number;
-  lastCheck: string;
-  incidents: number;
-}
+import { useUptimeMonitoring } from '@/hooks/use-uptime-monitoring';
+import { formatRelativeTime } from '@/lib/date';
+import { TIME_CONSTANTS, ROUTES } from '@/constants';
+import { cn } from '@/lib/utils';
+import ResponseTimeSparkline from './ResponseTimeSparkline';
+import CertificatePanel from './CertificatePanel';
+import IncidentTimeline from './IncidentTimeline';
 
 const UptimeSection = () => {
-  const [websites, setWebsites] = useState<Website[]>([]);
   const navigate = useNavigate();
   const { settings } = useSettings();
-
-  // Generate mock website data based on configured websites
-  useEffect(() => {
-    // Generate mock data based on configured websites
-    const mockWebsites = settings.uptime.websites.map((site, index) => {
-      const statuses = config.monitoring.mockData.statusDistribution;
-      const randomStatus = statuses[Math.floor(Math.random() * statuses.length)] as StatusType;
-      const uptimeRanges = config.monitoring.mockData.uptimeRanges;
-      const uptime = randomStatus === 'healthy' ? uptimeRanges.healthy.min + Math.random() * (uptimeRanges.healthy.max - uptimeRanges.healthy.min) :
-                    randomStatus === 'warning' ? uptimeRanges.warning.min + Math.random() * (uptimeRanges.warning.max - uptimeRanges.warning.min) :
-                    uptimeRanges.error.min + Math.random() * (uptimeRanges.error.max - uptimeRanges.error.min);
-
-      return {
-        id: index + 1,
-        name: site.name,
-        url: site.url,
-        status: randomStatus,
-        uptime: uptime,
-        responseTime: Math.floor(Math.random() * 400) + 100,
-        lastCheck: `${Math.floor(Math.random() * 10) + 1}m ago`,
-        incidents: randomStatus === 'healthy' ? 0 :
-                  randomStatus === 'warning' ? Math.floor(Math.random() * 3) + 1 :
-                  Math.floor(Math.random() * 5) + 3,
-      };
-    });
-
-    setWebsites(mockWebsites);
-  }, [settings.uptime.websites]);
+  const { overviews } = useUptimeMonitoring(settings.uptime);
 
   const navigateToSettings = () => {
     navigate('/settings');
   };
 
   // Count online and offline websites
-  const onlineCount = websites.filter(site => site.status !== 'error').length;
-  const offlineCount = websites.filter(site => site.status === 'error').length;
+  const onlineCount = overviews.filter(site => site.latest && site.latest.status !== 'error').length;
+  const offlineCount = overviews.filter(site => site.latest?.status === 'error').length;
+
+  const certificates = overviews.flatMap(site => (site.latest?.certificate ? [site.latest.certificate] : []));
 
   return (
     <div className="section-appear" style={{ '--delay': 3 } as React.CSSProperties}>
@@ -89,22 +57,22 @@ const UptimeSection = () => {
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        {websites.map((site, index) => (
+        {overviews.map(({ target, latest, stats, history, incidents }, index) => (
           <StatusCard
-            key={site.id}
-            title={site.name}
-            subtitle={site.url}
+            key={target.id}
+            title={target.name}
+            subtitle={target.url}
             icon={Monitor}
-            status={site.status}
+            status={latest?.status ?? 'inactive'}
             className="card-appear"
             style={{ '--delay': index + 1 } as React.CSSProperties}
           >
             <div className="grid grid-cols-2 gap-4 mt-2">
               <div>
-                <div className="text-xs text-muted-foreground">Uptime</div>
+                <div className="text-xs text-muted-foreground">Uptime (24h)</div>
                 <div className="font-medium">
                   <AnimatedNumber
-                    value={site.uptime}
+                    value={stats.uptime}
                     formatter={(val) => val.toFixed(2) + '%'}
                   />
                 </div>
@@ -113,18 +81,54 @@ const UptimeSection = () => {
                 <div className="text-xs text-muted-foreground">Response</div>
                 <div className="font-medium">
                   <AnimatedNumber
-                    value={site.responseTime}
+                    value={latest?.responseTime ?? 0}
                     formatter={(val) => `${val}ms`}
                   />
                 </div>
               </div>
             </div>
-            <div className="text-xs text-muted-foreground mt-2">
-              Last check: {site.lastCheck}
+            <div className="mt-2">
+              <ResponseTimeSparkline history={history} />
+            </div>
+            {latest?.steps && (
+              <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2">
+                {latest.steps.map((step, stepIndex) => (
+                  <StatusIndicator
+                    key={`${step.name}-${stepIndex}`}
+                    status={step.status}
+                    size="sm"
+                    label={`${stepIndex + 1}. ${step.name}`}
+                  />
+                ))}
+              </div>
+            )}
+            {latest?.error && (
+              <div
+                className={cn(
+                  'text-xs mt-2 truncate',
+                  latest.status === 'warning' ? 'text-warning' : 'text-destructive'
+                )}
+                title={latest.error}
+              >
+                {latest.error}
+              </div>
+            )}
+            <IncidentTimeline incidents={incidents} windowMs={TIME_CONSTANTS.DAY} className="mt-3" />
+            <div className="flex justify-between text-xs text-muted-foreground mt-2">
+              <span>Last check: {latest ? formatRelativeTime(latest.timestamp) : 'pending'}</span>
+              <button
+                type="button"
+                className="hover:text-foreground hover:underline"
+                onClick={() => navigate(ROUTES.INCIDENTS)}
+              >
+                {incidents.length} {incidents.length === 1 ? 'incident' : 'incidents'}
+              </button>
             </div>
           </StatusCard>
         ))}
       </div>
+
+      <CertificatePanel certificates={certificates} />
     </div>
   );
 };
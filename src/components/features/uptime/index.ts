@@ -1,2 +1,5 @@
 // Uptime monitoring feature components
 export { default as UptimeSection } from './UptimeSection';
+export { default as ResponseTimeSparkline } from './ResponseTimeSparkline';
+export { default as CertificatePanel } from './CertificatePanel';
+export { default as IncidentTimeline } from './IncidentTimeline';
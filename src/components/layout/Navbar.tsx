@@ -46,6 +46,26 @@ const Navbar = () => {
             >
               Dashboard
             </Link>
+            <Link 
+              to="/incidents" 
+              className={`px-3 py-2 text-sm font-medium rounded-md ${
+                location.pathname === '/incidents' 
+                  ? 'text-primary bg-primary/10' 
+                  : 'text-muted-foreground hover:bg-muted'
+              }`}
+            >
+              Incidents
+            </Link>
+            <Link 
+              to="/pipelines" 
+              className={`px-3 py-2 text-sm font-medium rounded-md ${
+                location.pathname === '/pipelines' 
+                  ? 'text-primary bg-primary/10' 
+                  : 'text-muted-foreground hover:bg-muted'
+              }`}
+            >
+              Pipelines
+            </Link>
             <Link 
               to="/settings" 
               className={`px-3 py-2 text-sm font-medium rounded-md ${
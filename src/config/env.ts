@@ -9,4 +9,8 @@ export const env = {
   get mode() {
     return import.meta.env.MODE;
   },
+  // Token the probe agent expects, the same value as its PROBE_AGENT_TOKEN. It ends up in the bundle, so it is public.
+  get probeAgentToken(): string {
+    return import.meta.env.VITE_PROBE_AGENT_TOKEN ?? '';
+  },
 };
@@ -20,11 +20,92 @@ export const MONITORING_CONFIG = {
     gitlabSync: 2 * TIME_CONSTANTS.MINUTE,        // 2 minutes
   },
   
+  // Uptime probe defaults (used when a configured website omits them)
+  uptime: {
+    defaultMethod: 'GET',
+    defaultTimeout: 10 * TIME_CONSTANTS.SECOND,  // 10 seconds
+    defaultExpectedStatus: 200,
+    certificateWarningDays: 21,
+    certificateErrorDays: 7,
+    certificateReadInterval: 6 * TIME_CONSTANTS.HOUR,    // certificates change rarely, so probes reuse a read this long
+    certificateRetryInterval: 5 * TIME_CONSTANTS.MINUTE, // how soon a certificate that could not be read is tried again
+    incidentThreshold: 3,  // consecutive failed checks before an incident opens
+  },
+  
+  // DNS query defaults (used when the DNS settings omit them)
+  dns: {
+    defaultNameservers: ['https://cloudflare-dns.com/dns-query', 'https://dns.google/dns-query'],
+    defaultTimeout: 5 * TIME_CONSTANTS.SECOND,  // 5 seconds
+    defaultPort: 53,
+    // DNSSEC and email security lookups go through a resolver that validates and sets the AD flag
+    validatingResolver: 'https://cloudflare-dns.com/dns-query',
+    signatureWarningDays: 7,
+  },
+  
+  // Domain registration lookups over RDAP
+  rdap: {
+    baseUrl: 'https://rdap.org', // redirects to the registry's RDAP server for the TLD
+    timeout: 10 * TIME_CONSTANTS.SECOND,
+    checkInterval: 12 * TIME_CONSTANTS.HOUR, // registration data rarely changes
+    retryInterval: 5 * TIME_CONSTANTS.MINUTE, // after a failed lookup, such as a rate limit, like the DNS check interval
+    expiryWarningDays: 30,
+    expiryErrorDays: 7,
+  },
+  
+  // Server metrics checks, whatever their source
+  servers: {
+    timeout: 10 * TIME_CONSTANTS.SECOND,
+    alertThresholds: { cpu: 80, memory: 80, disk: 80 }, // error levels in percent
+    warningRatio: 0.75,  // warning level as a share of an error level given as a bare number
+    alertDuration: 0,    // alert on the first check above a level
+    alertHysteresis: 5,  // percentage points below a level before its alert clears
+    metricsRetention: 30, // days of history offered on a server's detail page
+    slowConnect: TIME_CONSTANTS.SECOND, // TCP handshakes slower than this are a warning
+  },
+  
+  // Server metrics read from Netdata agents
+  netdata: {
+    sampleSeconds: 60,                               // each check averages the agent's last minute
+    chartDiscoveryInterval: 10 * TIME_CONSTANTS.MINUTE, // how long the list of net.* charts is reused
+  },
+  
+  // Disk capacity forecasts from the stored disk usage history
+  diskForecast: {
+    method: 'linear' as 'linear' | 'holt', // least squares, or Holt's linear trend smoothing
+    period: '7d' as const,                 // history the fit uses, read as hourly averages
+    minPoints: 12,                         // hourly points needed before forecasting
+    horizonDays: 14,                       // warn when the disk is forecast full sooner than this
+    maxDays: 365,                          // further out than this counts as not filling up
+    resetDrop: 10,                         // a drop of this many points (a cleanup) restarts the trend
+    confidenceZ: 1.96,                     // band width in standard deviations of the fit error (95%)
+    smoothing: { level: 0.5, trend: 0.2 }, // Holt smoothing factors
+    refreshInterval: TIME_CONSTANTS.HOUR,  // how long a forecast is reused between checks
+  },
+  
+  // GitLab API requests
+  gitlab: {
+    perPage: 100, // the largest page GitLab serves, so listing a large instance takes the fewest requests
+    graphqlBatchSize: 20, // projects per GraphQL metrics query, small enough to stay under GitLab's query complexity limit
+    branchCountLimit: 1000, // GraphQL only lists branch names, so larger counts stop here
+    recentPipelines: 10,                   // pipelines read per selected project
+    stuckAfter: 30 * TIME_CONSTANTS.MINUTE, // a job waiting this long for a runner makes its pipeline stuck
+    mergeRequestsPerProject: 50, // open merge requests read per selected project
+    staleMergeRequestAfter: 7 * TIME_CONSTANTS.DAY, // a merge request without activity this long is stale
+    maxGroups: 1000, // groups and subgroups listed per instance for the namespace tree
+  },
+  
+  // Companion probe agent (scripts/probe-agent.js) for checks a browser cannot make
+  probeAgent: {
+    basePath: '/probe',
+    timeout: 10 * TIME_CONSTANTS.SECOND,
+  },
+  
   // Display limits
   display: {
     maxProjectsPreview: 4,   // Max projects to show before "Show All"
     maxServersPreview: 6,    // Max servers to show in grid
     maxDnsRecords: 10,       // Max DNS records per domain
+    maxSparklinePoints: 30,  // Max checks plotted in a response-time sparkline
   },
   
   // Animation and UI timing
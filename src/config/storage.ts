@@ -6,6 +6,9 @@ export const STORAGE_CONFIG = {
     settings: 'dashwatch_settings',
     settingsVersion: 'dashwatch_settings_version',
     theme: 'dashwatch_theme',
+    uptimeIncidents: 'dashwatch_uptime_incidents',
+    serverAlerts: 'dashwatch_server_alerts',
+    dnsHistory: 'dashwatch_dns_history',
   },
   versions: {
     current: '1.0.0',
@@ -16,6 +19,31 @@ export const STORAGE_CONFIG = {
     maxSettingsSize: STORAGE_CONSTANTS.MAX_SETTINGS_SIZE,
     maxBackupAge: STORAGE_CONSTANTS.MAX_BACKUP_AGE,
   },
+  timeSeries: {
+    databaseName: 'dashwatch_timeseries',
+    databaseVersion: 1,
+    // How long each resolution is kept before it is pruned
+    retention: {
+      raw: TIME_CONSTANTS.DAY,
+      minute: 2 * TIME_CONSTANTS.DAY,
+      hour: 8 * TIME_CONSTANTS.DAY,
+      day: 3 * TIME_CONSTANTS.MONTH,
+    },
+    pruneInterval: TIME_CONSTANTS.HOUR,
+  },
+  incidents: {
+    retention: TIME_CONSTANTS.MONTH, // resolved incidents older than this are dropped
+    maxEntries: 500,
+  },
+  serverAlerts: {
+    retention: TIME_CONSTANTS.MONTH, // resolved alerts older than this are dropped
+    maxEntries: 500,
+  },
+  dnsHistory: {
+    retention: 3 * TIME_CONSTANTS.MONTH, // observations and changes last seen before this are dropped
+    maxObservations: 1000,
+    maxChanges: 500,
+  },
   validation: {
     enableStrictValidation: true,
     enableMigration: true,
@@ -3,6 +3,9 @@ export const ROUTES = {
   HOME: '/',
   SETTINGS: '/settings',
   GITLAB_PROJECTS: '/gitlab-projects',
+  INCIDENTS: '/incidents',
+  SERVER_DETAIL: '/servers/:id',
+  PIPELINES: '/pipelines',
 } as const;
 
 // Status types for type safety
@@ -87,7 +90,9 @@ export const DNS_RECORD_TYPES = {
   TXT: 'TXT',
   NS: 'NS',
   PTR: 'PTR',
+  SOA: 'SOA',
   SRV: 'SRV',
+  CAA: 'CAA',
 } as const;
 
 // HTTP status constants
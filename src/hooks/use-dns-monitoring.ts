@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useQueries, useQueryClient } from '@tanstack/react-query';
+import { dnsMonitoringService } from '@/services/monitoring/dnsMonitoringService';
+import { dnsHistoryService } from '@/services/monitoring/dnsHistoryService';
+import { domainRegistrationService } from '@/services/monitoring/domainRegistrationService';
+import { TIME_CONSTANTS } from '@/constants';
+import type {
+  DnsNameserverHealth,
+  DnsRecord,
+  DnsRecordChange,
+  DnsSecurityAudit,
+  DnsStats,
+  DnsTarget,
+  DomainRegistrationStatus,
+  Settings,
+} from '@/types';
+
+export interface DnsOverview {
+  target: DnsTarget;
+  records: DnsRecord[]; // latest result per configured record type, in configured order
+  stats: DnsStats;
+  changes: DnsRecordChange[]; // record set changes within the last 24 hours, newest first
+  nameserverHealth: DnsNameserverHealth | null;
+  security: DnsSecurityAudit | null; // null unless DNSSEC or email security is audited
+  registration: DomainRegistrationStatus | null;
+}
+
+export const dnsQueryKey = (targetId: string) => ['dns', targetId] as const;
+
+const createEmptyOverview = (target: DnsTarget): DnsOverview => ({
+  target,
+  records: [],
+  stats: {
+    targetId: target.id,
+    totalQueries: 0,
+    successfulQueries: 0,
+    averageResponseTime: 0,
+    errorRate: 0,
+  },
+  changes: [],
+  nameserverHealth: null,
+  security: null,
+  registration: null,
+});
+
+const loadDnsOverview = async (target: DnsTarget): Promise<DnsOverview> => {
+  const latest = dnsMonitoringService.getLatestRecords(target.id);
+
+  return {
+    target,
+    records: target.recordTypes.flatMap(type => latest.filter(record => record.type === type)),
+    stats: await dnsMonitoringService.getDnsStats(target.id, '24h'),
+    changes: dnsHistoryService.getChanges({
+      targetId: target.id,
+      since: new Date(Date.now() - TIME_CONSTANTS.DAY),
+    }),
+    nameserverHealth: dnsMonitoringService.getNameserverHealth(target.id),
+    security: dnsMonitoringService.getSecurityAudit(target.id),
+    registration: domainRegistrationService.getRegistration(target.id),
+  };
+};
+
+/**
+ * Keep every configured domain under monitoring and expose its latest records.
+ * Queries are invalidated whenever the service records a new result.
+ */
+export const useDnsMonitoring = (dnsSettings: Settings['dns']) => {
+  const queryClient = useQueryClient();
+  const targets = useMemo(() => dnsMonitoringService.resolveTargets(dnsSettings), [dnsSettings]);
+
+  useEffect(() => {
+    targets.forEach(target => {
+      void dnsMonitoringService.startMonitoring(target);
+    });
+
+    return () => {
+      targets.forEach(target => {
+        void dnsMonitoringService.stopMonitoring(target.id);
+      });
+    };
+  }, [targets]);
+
+  useEffect(() => {
+    const unsubscribeRecords = dnsMonitoringService.subscribe(record => {
+      void queryClient.invalidateQueries({ queryKey: dnsQueryKey(record.targetId) });
+    });
+    const unsubscribeHealth = dnsMonitoringService.subscribeNameserverHealth(health => {
+      void queryClient.invalidateQueries({ queryKey: dnsQueryKey(health.targetId) });
+    });
+    const unsubscribeSecurity = dnsMonitoringService.subscribeSecurityAudits(audit => {
+      void queryClient.invalidateQueries({ queryKey: dnsQueryKey(audit.targetId) });
+    });
+    const unsubscribeRegistration = domainRegistrationService.subscribe(registration => {
+      void queryClient.invalidateQueries({ queryKey: dnsQueryKey(registration.targetId) });
+    });
+
+    return () => {
+      unsubscribeRecords();
+      unsubscribeHealth();
+      unsubscribeSecurity();
+      unsubscribeRegistration();
+    };
+  }, [queryClient]);
+
+  const queries = useQueries({
+    queries: targets.map(target => ({
+      queryKey: dnsQueryKey(target.id),
+      queryFn: () => loadDnsOverview(target),
+      staleTime: 0,
+    })),
+  });
+
+  const refresh = useCallback(async () => {
+    await Promise.all(
+      targets
+        .filter(target => target.isActive)
+        .flatMap(target => [
+          dnsMonitoringService.checkAllRecords(target),
+          dnsMonitoringService.checkNameservers(target),
+          dnsMonitoringService.auditSecurity(target),
+        ])
+    );
+  }, [targets]);
+
+  return {
+    targets,
+    overviews: targets.map((target, index) => queries[index]?.data ?? createEmptyOverview(target)),
+    isLoading: queries.some(query => query.isLoading),
+    refresh,
+  };
+};
@@ -0,0 +1,26 @@
+import { useQuery } from '@tanstack/react-query';
+import { gitlabApiService } from '@/services/monitoring/gitlabApiService';
+import { MONITORING_CONFIG } from '@/config';
+import type { GitlabInstance } from '@/types';
+
+export const gitlabGroupsQueryKey = (instanceId: string) => ['gitlab-groups', instanceId] as const;
+
+/**
+ * Group and subgroup hierarchy of an instance, read again every GitLab sync interval
+ */
+export const useGitlabNamespaceTree = (instance: GitlabInstance) => {
+  const { data, error, isLoading, isFetching, refetch } = useQuery({
+    queryKey: gitlabGroupsQueryKey(instance.id),
+    queryFn: () => gitlabApiService.getNamespaceTree(instance),
+    enabled: instance.isActive,
+    refetchInterval: MONITORING_CONFIG.polling.gitlabSync,
+  });
+
+  return {
+    tree: data ?? [],
+    error,
+    isLoading: isLoading && instance.isActive,
+    isFetching,
+    refresh: refetch,
+  };
+};
@@ -0,0 +1,36 @@
+import { useQuery } from '@tanstack/react-query';
+import { gitlabMergeRequestService } from '@/services/monitoring/gitlabMergeRequestService';
+import { MONITORING_CONFIG } from '@/config';
+import type { GitlabSettings } from '@/types';
+
+export const gitlabMergeRequestsQueryKey = (projectKeys: string[]) => ['gitlab-merge-requests', projectKeys] as const;
+
+/**
+ * Open merge requests of the selected projects and groups on every active instance, read again every GitLab sync interval
+ */
+export const useGitlabMergeRequests = (gitlabSettings: Pick<GitlabSettings, 'instances'>) => {
+  const instances = gitlabSettings.instances.filter(instance =>
+    instance.isActive && (instance.selectedProjects.length > 0 || (instance.selectedGroups ?? []).length > 0));
+  const projectKeys = instances.flatMap(instance => [
+    ...instance.selectedProjects.map(projectId => `${instance.id}:${projectId}`),
+    ...(instance.selectedGroups ?? []).map(groupId => `${instance.id}:group:${groupId}`),
+  ]);
+
+  const { data, isLoading, isFetching, refetch, dataUpdatedAt } = useQuery({
+    queryKey: gitlabMergeRequestsQueryKey(projectKeys),
+    queryFn: () => gitlabMergeRequestService.refresh(instances),
+    enabled: instances.length > 0,
+    refetchInterval: MONITORING_CONFIG.polling.gitlabSync,
+    staleTime: 0,
+  });
+
+  return {
+    instances,
+    mergeRequests: data?.mergeRequests ?? [],
+    errors: data?.errors ?? [],
+    isLoading: isLoading && instances.length > 0,
+    isFetching,
+    lastUpdated: dataUpdatedAt > 0 ? new Date(dataUpdatedAt) : null,
+    refresh: refetch,
+  };
+};
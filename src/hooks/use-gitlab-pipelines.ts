@@ -0,0 +1,39 @@
+import { useQuery } from '@tanstack/react-query';
+import { gitlabPipelineService } from '@/services/monitoring/gitlabPipelineService';
+import { MONITORING_CONFIG } from '@/config';
+import type { GitlabSettings } from '@/types';
+
+export const gitlabPipelinesQueryKey = (projectKeys: string[]) => ['gitlab-pipelines', projectKeys] as const;
+
+/**
+ * Recent pipelines of the selected projects and groups on every active instance, read again every GitLab sync interval
+ */
+export const useGitlabPipelines = (gitlabSettings: Pick<GitlabSettings, 'instances'>) => {
+  const instances = gitlabSettings.instances.filter(instance =>
+    instance.isActive && (instance.selectedProjects.length > 0 || (instance.selectedGroups ?? []).length > 0));
+  const projectKeys = instances.flatMap(instance => [
+    ...instance.selectedProjects.map(projectId => `${instance.id}:${projectId}`),
+    ...(instance.selectedGroups ?? []).map(groupId => `${instance.id}:group:${groupId}`),
+  ]);
+
+  const { data, isLoading, isFetching, refetch, dataUpdatedAt } = useQuery({
+    queryKey: gitlabPipelinesQueryKey(projectKeys),
+    queryFn: () => gitlabPipelineService.refresh(instances),
+    enabled: instances.length > 0,
+    refetchInterval: MONITORING_CONFIG.polling.gitlabSync,
+    staleTime: 0,
+  });
+
+  return {
+    instances,
+    pipelines: data?.pipelines ?? [],
+    running: data ? gitlabPipelineService.getPipelines({ state: 'running' }) : [],
+    failed: data ? gitlabPipelineService.getPipelines({ state: 'failed' }) : [],
+    stuck: data ? gitlabPipelineService.getPipelines({ state: 'stuck' }) : [],
+    errors: data?.errors ?? [],
+    isLoading: isLoading && instances.length > 0,
+    isFetching,
+    lastUpdated: dataUpdatedAt > 0 ? new Date(dataUpdatedAt) : null,
+    refresh: refetch,
+  };
+};
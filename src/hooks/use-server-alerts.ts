@@ -0,0 +1,31 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { serverAlertService } from '@/services/monitoring/serverAlertService';
+
+export const serverAlertsQueryKey = (windowMs: number) => ['server-alerts', windowMs] as const;
+
+/**
+ * Open threshold alerts plus those resolved within the window, across all servers.
+ * Refreshes whenever an alert changes.
+ */
+export const useServerAlerts = (windowMs: number) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    return serverAlertService.subscribe(() => {
+      void queryClient.invalidateQueries({ queryKey: ['server-alerts'] });
+    });
+  }, [queryClient]);
+
+  const { data = [] } = useQuery({
+    queryKey: serverAlertsQueryKey(windowMs),
+    queryFn: () => serverAlertService.getAlerts({ since: new Date(Date.now() - windowMs) }),
+    staleTime: 0,
+  });
+
+  return {
+    alerts: data,
+    openAlerts: data.filter(alert => alert.state === 'open'),
+    recentAlerts: data.filter(alert => alert.state === 'resolved'),
+  };
+};
@@ -0,0 +1,114 @@
+import { useEffect, useMemo } from 'react';
+import { useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
+import { serverMonitoringService } from '@/services/monitoring/serverMonitoringService';
+import type { ServerHistoryPoint, ServerMetrics, ServerPeriod, ServerStats, ServerTarget, Settings } from '@/types';
+
+export interface ServerOverview {
+  target: ServerTarget;
+  latest: ServerMetrics | null;
+  stats: ServerStats;
+}
+
+export interface ServerHistory {
+  history: ServerHistoryPoint[];
+  stats: ServerStats;
+}
+
+/**
+ * Whether a server's latest reading carries CPU and memory usage. Servers only probed over TCP report none.
+ */
+export const reportsUsage = (latest: ServerMetrics | null): latest is ServerMetrics =>
+  latest?.agent !== undefined && latest.latency === undefined;
+
+export const serverQueryKey = (targetId: string) => ['servers', targetId] as const;
+
+// Nested under the server's key so a new check refreshes its history too
+export const serverHistoryQueryKey = (targetId: string, period: ServerPeriod) =>
+  [...serverQueryKey(targetId), 'history', period] as const;
+
+const createEmptyStats = (targetId: string): ServerStats => ({
+  targetId,
+  averageCpuUsage: 0,
+  averageMemoryUsage: 0,
+  averageDiskUsage: 0,
+  totalUptime: 0,
+  summaries: {},
+});
+
+const createEmptyOverview = (target: ServerTarget): ServerOverview => ({
+  target,
+  latest: null,
+  stats: createEmptyStats(target.id),
+});
+
+const loadServerOverview = async (target: ServerTarget): Promise<ServerOverview> => ({
+  target,
+  latest: serverMonitoringService.getLatestMetrics(target.id),
+  stats: await serverMonitoringService.getServerStats(target.id, '24h'),
+});
+
+/**
+ * Keep every configured server under monitoring and expose its live overview.
+ * Queries are invalidated whenever the service records a new check.
+ */
+export const useServerMonitoring = (serverSettings: Settings['servers']) => {
+  const queryClient = useQueryClient();
+  const targets = useMemo(() => serverMonitoringService.resolveTargets(serverSettings), [serverSettings]);
+
+  useEffect(() => {
+    targets.forEach(target => {
+      void serverMonitoringService.startMonitoring(target);
+    });
+
+    return () => {
+      targets.forEach(target => {
+        void serverMonitoringService.stopMonitoring(target.id);
+      });
+    };
+  }, [targets]);
+
+  useEffect(() => {
+    return serverMonitoringService.subscribe(metrics => {
+      void queryClient.invalidateQueries({ queryKey: serverQueryKey(metrics.targetId) });
+    });
+  }, [queryClient]);
+
+  const queries = useQueries({
+    queries: targets.map(target => ({
+      queryKey: serverQueryKey(target.id),
+      queryFn: () => loadServerOverview(target),
+      staleTime: 0,
+    })),
+  });
+
+  return {
+    targets,
+    overviews: targets.map((target, index) => queries[index]?.data ?? createEmptyOverview(target)),
+    isLoading: queries.some(query => query.isLoading),
+  };
+};
+
+/**
+ * Recorded history and usage summaries of one server over a period.
+ * The server must be kept under monitoring, e.g. by useServerMonitoring, for this to refresh.
+ */
+export const useServerHistory = (targetId: string, period: ServerPeriod) => {
+  const { data, isLoading } = useQuery({
+    queryKey: serverHistoryQueryKey(targetId, period),
+    queryFn: async (): Promise<ServerHistory> => {
+      const now = Date.now();
+      const [history, stats] = await Promise.all([
+        serverMonitoringService.getServerHistory(targetId, period, now),
+        serverMonitoringService.getServerStats(targetId, period, now),
+      ]);
+      return { history, stats };
+    },
+    staleTime: 0,
+  });
+
+  return {
+    history: data?.history ?? [],
+    stats: data?.stats ?? createEmptyStats(targetId),
+    isLoading,
+  };
+};
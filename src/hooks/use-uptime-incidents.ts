@@ -0,0 +1,31 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { uptimeIncidentService } from '@/services/monitoring/uptimeIncidentService';
+
+export const uptimeIncidentsQueryKey = (windowMs: number) => ['uptime-incidents', windowMs] as const;
+
+/**
+ * Open incidents plus those resolved within the window, across all uptime targets.
+ * Refreshes whenever an incident changes.
+ */
+export const useUptimeIncidents = (windowMs: number) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    return uptimeIncidentService.subscribe(() => {
+      void queryClient.invalidateQueries({ queryKey: ['uptime-incidents'] });
+    });
+  }, [queryClient]);
+
+  const { data = [] } = useQuery({
+    queryKey: uptimeIncidentsQueryKey(windowMs),
+    queryFn: () => uptimeIncidentService.getIncidents({ since: new Date(Date.now() - windowMs) }),
+    staleTime: 0,
+  });
+
+  return {
+    incidents: data,
+    openIncidents: data.filter(incident => incident.state === 'open'),
+    recentIncidents: data.filter(incident => incident.state === 'resolved'),
+  };
+};
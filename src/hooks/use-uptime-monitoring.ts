@@ -0,0 +1,91 @@
+import { useEffect, useMemo } from 'react';
+import { useQueries, useQueryClient } from '@tanstack/react-query';
+import { uptimeMonitoringService } from '@/services/monitoring/uptimeMonitoringService';
+import { uptimeIncidentService } from '@/services/monitoring/uptimeIncidentService';
+import { MONITORING_CONFIG } from '@/config';
+import { TIME_CONSTANTS } from '@/constants';
+import type { Settings, UptimeCheckPoint, UptimeIncident, UptimeStats, UptimeStatus, UptimeTarget } from '@/types';
+
+export interface UptimeOverview {
+  target: UptimeTarget;
+  latest: UptimeStatus | null;
+  stats: UptimeStats;
+  history: UptimeCheckPoint[];
+  incidents: UptimeIncident[]; // open or ended within the last 24 hours
+}
+
+export const uptimeQueryKey = (targetId: string) => ['uptime', targetId] as const;
+
+const createEmptyOverview = (target: UptimeTarget): UptimeOverview => ({
+  target,
+  latest: null,
+  stats: {
+    targetId: target.id,
+    totalChecks: 0,
+    successfulChecks: 0,
+    averageResponseTime: 0,
+    uptime: 0,
+    downtime: 0,
+  },
+  history: [],
+  incidents: [],
+});
+
+const loadUptimeOverview = async (target: UptimeTarget): Promise<UptimeOverview> => {
+  const [stats, history] = await Promise.all([
+    uptimeMonitoringService.getUptimeStats(target.id, '24h'),
+    uptimeMonitoringService.getCheckHistory(target.id, TIME_CONSTANTS.DAY),
+  ]);
+
+  return {
+    target,
+    latest: uptimeMonitoringService.getLatestStatus(target.id),
+    stats,
+    history: history.slice(-MONITORING_CONFIG.display.maxSparklinePoints),
+    incidents: uptimeIncidentService.getIncidents({
+      targetId: target.id,
+      since: new Date(Date.now() - TIME_CONSTANTS.DAY),
+    }),
+  };
+};
+
+/**
+ * Keep every configured website under monitoring and expose its live overview.
+ * Queries are invalidated whenever the service records a new check.
+ */
+export const useUptimeMonitoring = (uptimeSettings: Settings['uptime']) => {
+  const queryClient = useQueryClient();
+  const targets = useMemo(() => uptimeMonitoringService.resolveTargets(uptimeSettings), [uptimeSettings]);
+
+  useEffect(() => {
+    targets.forEach(target => {
+      void uptimeMonitoringService.startMonitoring(target);
+    });
+
+    return () => {
+      targets.forEach(target => {
+        void uptimeMonitoringService.stopMonitoring(target.id);
+      });
+    };
+  }, [targets]);
+
+  useEffect(() => {
+    return uptimeMonitoringService.subscribe(status => {
+      void queryClient.invalidateQueries({ queryKey: uptimeQueryKey(status.targetId) });
+    });
+  }, [queryClient]);
+
+  const queries = useQueries({
+    queries: targets.map(target => ({
+      queryKey: uptimeQueryKey(target.id),
+      queryFn: () => loadUptimeOverview(target),
+      staleTime: 0,
+    })),
+  });
+
+  return {
+    targets,
+    overviews: targets.map((target, index) => queries[index]?.data ?? createEmptyOverview(target)),
+    isLoading: queries.some(query => query.isLoading),
+  };
+};
@@ -35,6 +35,7 @@ class ApiClient {
       timeout = this.defaultTimeout,
       retries = 0,
       retryDelay = API_CONSTANTS.RETRY_DELAY,
+      acceptStatuses = [],
     } = options;
 
     const fullUrl = url.startsWith('http') ? url : `${this.baseURL}${url}`;
@@ -56,7 +57,7 @@ class ApiClient {
       try {
         const response = await fetch(fullUrl, requestOptions);
 
-        if (!response.ok) {
+        if (!response.ok && !acceptStatuses.includes(response.status)) {
           throw new NetworkError(
             `HTTP ${response.status}: ${response.statusText}`,
             fullUrl
@@ -66,7 +67,10 @@ class ApiClient {
         let data: T;
         const contentType = response.headers.get('content-type');
         
-        if (contentType?.includes('application/json')) {
+        if (!response.ok) {
+          // An accepted error status, e.g. 304, has no body worth parsing
+          data = (await response.text()) as T;
+        } else if (contentType?.includes('application/json')) {
           data = await response.json();
         } else {
           data = (await response.text()) as T;
@@ -1,6 +1,6 @@
 import { config } from '@/config';
 import { MOCK_DATA, DNS_RECORD_TYPES } from '@/constants';
-import type { StatusType } from '@/types';
+import type { DiskForecast, StatusType } from '@/types';
 
 /**
  * Monitoring-related utility functions
@@ -36,6 +36,19 @@ export const getMockDnsValue = (type: string, domain: string): string => {
   }
 };
 
+/**
+ * Short label for a configured nameserver: the host of a DoH endpoint, or the server itself
+ */
+export const formatNameserver = (nameserver: string): string => {
+  try {
+    return /^https(\+json)?:\/\//.test(nameserver)
+      ? new URL(nameserver.replace(/^https\+json:/, 'https:')).hostname
+      : nameserver.replace(/^(udp|tcp):\/\//, '');
+  } catch {
+    return nameserver;
+  }
+};
+
 /**
  * Generate mock server metrics for testing
  */
@@ -70,6 +83,26 @@ export const formatUptime = (seconds: number): string => {
   }
 };
 
+/**
+ * Format a network rate given in kilobits per second, as Netdata reports it
+ */
+export const formatBitrate = (kilobits: number): string => {
+  if (kilobits >= 1000 * 1000) return `${(kilobits / (1000 * 1000)).toFixed(1)} Gbit/s`;
+  if (kilobits >= 1000) return `${(kilobits / 1000).toFixed(1)} Mbit/s`;
+  return `${Math.round(kilobits)} kbit/s`;
+};
+
+/**
+ * Format a disk forecast as the expected days until full with its band, e.g. "~12 d (9–16 d)"
+ */
+export const formatDiskForecast = (forecast: DiskForecast): string => {
+  const days = (value: number) => (value < 1 ? '<1 d' : `${Math.round(value)} d`);
+
+  if (forecast.daysUntilFull === null) return 'not filling up';
+  const band = `${days(forecast.lower ?? 0)}–${forecast.upper === null ? '∞' : days(forecast.upper)}`;
+  return `~${days(forecast.daysUntilFull)} (${band})`;
+};
+
 /**
  * Generate mock response time for uptime monitoring
  */
@@ -25,6 +25,12 @@ export const navigateToGitlabProjects = (navigate: (path: string) => void) => {
   navigate(ROUTES.GITLAB_PROJECTS);
 };
 
+/**
+ * Path of a server's detail page; ids default to the Netdata URL, so they are encoded
+ */
+export const getServerDetailPath = (serverId: string): string =>
+  ROUTES.SERVER_DETAIL.replace(':id', encodeURIComponent(serverId));
+
 /**
  * Open external URL in new tab
  */
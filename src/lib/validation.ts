@@ -127,6 +127,23 @@ export function validateGitlabInstance(instance: Partial<GitlabInstance>): Gitla
     }
   }
 
+  if (instance.selectedGroups && !Array.isArray(instance.selectedGroups)) {
+    errors.push({
+      field: 'selectedGroups',
+      type: 'type',
+      message: 'selectedGroups must be an array of numbers'
+    });
+  } else if (instance.selectedGroups) {
+    const invalidGroups = instance.selectedGroups.filter(id => typeof id !== 'number' || id <= 0);
+    if (invalidGroups.length > 0) {
+      errors.push({
+        field: 'selectedGroups',
+        type: 'format',
+        message: 'All group IDs must be positive numbers'
+      });
+    }
+  }
+
   return {
     isValid: errors.length === 0,
     errors
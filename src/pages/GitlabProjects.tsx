@@ -8,6 +8,7 @@ import {
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { StatusIndicator } from '@/components/features/dashboard';
+import { GitlabNamespaceTree, MergeRequestBoard } from '@/components/features/gitlab';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/components/ui/use-toast';
@@ -18,7 +19,7 @@ const GitlabProjects = () => {
   const [activeInstance, setActiveInstance] = useState('all');
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { settings, refreshSettings } = useSettings();
+  const { settings, saveSettings, refreshSettings } = useSettings();
 
   // Mock API call to fetch projects
   useEffect(() => {
@@ -119,6 +120,18 @@ const GitlabProjects = () => {
     }
   };
 
+  const updateSelectedGroups = (instanceId: string, selectedGroups: number[]) => {
+    void saveSettings({
+      ...settings,
+      gitlab: {
+        ...settings.gitlab,
+        instances: settings.gitlab.instances.map(instance =>
+          instance.id === instanceId ? { ...instance, selectedGroups } : instance
+        ),
+      },
+    });
+  };
+
   // Filter projects by active instance
   const filteredProjects = activeInstance === 'all' 
     ? gitlabProjects 
@@ -280,6 +293,22 @@ const GitlabProjects = () => {
                 )}
               </TabsContent>
             </Tabs>
+
+            <div className="space-y-4 mb-4">
+              {settings.gitlab.instances
+                .filter(instance => instance.isActive && (activeInstance === 'all' || instance.url === activeInstance))
+                .map(instance => (
+                  <GitlabNamespaceTree
+                    key={instance.id}
+                    instance={instance}
+                    onSelectedGroupsChange={selectedGroups => updateSelectedGroups(instance.id, selectedGroups)}
+                  />
+                ))}
+            </div>
+
+            <MergeRequestBoard
+              instanceId={settings.gitlab.instances.find(instance => instance.url === activeInstance)?.id}
+            />
           </>
         )}
       </main>
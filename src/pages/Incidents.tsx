@@ -0,0 +1,127 @@
+import { PageLayout } from '@/components/common';
+import { IncidentTimeline } from '@/components/features/uptime';
+import { StatusIndicator } from '@/components/features/dashboard';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useSettings } from '@/contexts/SettingsContext';
+import { useUptimeMonitoring } from '@/hooks/use-uptime-monitoring';
+import { useUptimeIncidents } from '@/hooks/use-uptime-incidents';
+import { formatDateTime, formatRelativeTime } from '@/lib/date';
+import { formatDuration } from '@/lib/formatting';
+import { TIME_CONSTANTS } from '@/constants';
+import type { UptimeIncident } from '@/types';
+
+const RECENT_WINDOW = TIME_CONSTANTS.WEEK;
+
+const Incidents = () => {
+  const { settings } = useSettings();
+  // Keep targets under monitoring while this page is open so incidents stay current
+  const { targets } = useUptimeMonitoring(settings.uptime);
+  const { incidents, openIncidents, recentIncidents } = useUptimeIncidents(RECENT_WINDOW);
+
+  const targetName = (incident: UptimeIncident) =>
+    targets.find(target => target.id === incident.targetId)?.name ?? incident.targetId;
+
+  return (
+    <PageLayout title="Incidents" description="Outages detected by uptime monitoring">
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Open incidents</CardTitle>
+            <CardDescription>Targets that are currently failing their checks</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {openIncidents.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No open incidents. All monitored targets are up.</p>
+            ) : (
+              <div className="space-y-3">
+                {openIncidents.map(incident => (
+                  <div key={incident.id} className="flex items-start justify-between gap-4 rounded-md border p-3">
+                    <div>
+                      <StatusIndicator status="error" pulse label={targetName(incident)} />
+                      <p className="text-sm text-destructive mt-1">{incident.firstError}</p>
+                    </div>
+                    <div className="text-right text-xs text-muted-foreground shrink-0">
+                      <div>Started {formatRelativeTime(incident.startedAt)}</div>
+                      <div>{incident.affectedChecks} failed {incident.affectedChecks === 1 ? 'check' : 'checks'}</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Timeline</CardTitle>
+            <CardDescription>Incidents per target over the last 7 days</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {targets.map(target => (
+              <div key={target.id}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-medium">{target.name}</span>
+                  <span className="text-muted-foreground">{target.url}</span>
+                </div>
+                <IncidentTimeline
+                  incidents={incidents.filter(incident => incident.targetId === target.id)}
+                  windowMs={RECENT_WINDOW}
+                />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Recent incidents</CardTitle>
+            <CardDescription>Resolved in the last 7 days</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {recentIncidents.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No incidents resolved recently.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Target</TableHead>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Ended</TableHead>
+                    <TableHead>Duration</TableHead>
+                    <TableHead className="text-right">Failed checks</TableHead>
+                    <TableHead>First error</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recentIncidents.map(incident => (
+                    <TableRow key={incident.id}>
+                      <TableCell className="font-medium">{targetName(incident)}</TableCell>
+                      <TableCell>{formatDateTime(incident.startedAt)}</TableCell>
+                      <TableCell>{incident.endedAt ? formatDateTime(incident.endedAt) : '—'}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{formatDuration(incident.duration ?? 0)}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{incident.affectedChecks}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{incident.firstError}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </PageLayout>
+  );
+};
+
+export default Incidents;
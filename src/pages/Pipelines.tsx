@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { RefreshCw, Settings } from 'lucide-react';
+import { LoadingSpinner, PageLayout } from '@/components/common';
+import { PipelineCard } from '@/components/features/gitlab';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useSettings } from '@/contexts/SettingsContext';
+import { useGitlabPipelines } from '@/hooks/use-gitlab-pipelines';
+import { formatRelativeTime } from '@/lib/date';
+import { cn } from '@/lib/utils';
+import { ROUTES } from '@/constants';
+import type { GitlabPipelineState } from '@/services/monitoring/gitlabPipelineService';
+
+type PipelineView = GitlabPipelineState | 'all';
+
+const VIEW_LABELS: Record<PipelineView, string> = {
+  running: 'Running',
+  failed: 'Failed',
+  stuck: 'Stuck',
+  all: 'All recent',
+};
+
+const Pipelines = () => {
+  const navigate = useNavigate();
+  const { settings } = useSettings();
+  const { instances, pipelines, running, failed, stuck, errors, isLoading, isFetching, lastUpdated, refresh } =
+    useGitlabPipelines(settings.gitlab);
+  const [view, setView] = useState<PipelineView>('failed');
+
+  const lists: Record<PipelineView, typeof pipelines> = { running, failed, stuck, all: pipelines };
+  const visible = lists[view];
+
+  if (instances.length === 0) {
+    return (
+      <PageLayout title="Pipelines" description="CI/CD pipelines of the projects you monitor">
+        <Card>
+          <CardContent className="py-8 text-center space-y-4">
+            <p className="text-sm text-muted-foreground">
+              No projects are selected for monitoring. Select projects on an active GitLab instance to follow their pipelines.
+            </p>
+            <Button variant="outline" onClick={() => navigate(ROUTES.SETTINGS)}>
+              <Settings className="h-4 w-4 mr-2" />
+              Settings
+            </Button>
+          </CardContent>
+        </Card>
+      </PageLayout>
+    );
+  }
+
+  return (
+    <PageLayout title="Pipelines" description="Running, failed and stuck pipelines of the selected projects on every GitLab instance">
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          {(['running', 'failed', 'stuck'] as const).map(state => (
+            <Card
+              key={state}
+              className={cn('cursor-pointer transition-colors hover:bg-muted/50', view === state && 'border-primary')}
+              onClick={() => setView(state)}
+            >
+              <CardHeader className="pb-2">
+                <CardDescription>{VIEW_LABELS[state]}</CardDescription>
+                <CardTitle
+                  className={cn(
+                    'text-3xl',
+                    state === 'failed' && failed.length > 0 && 'text-destructive',
+                    state === 'stuck' && stuck.length > 0 && 'text-destructive'
+                  )}
+                >
+                  {lists[state].length}
+                </CardTitle>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={view}
+            onValueChange={value => value && setView(value as PipelineView)}
+            aria-label="Pipelines to show"
+          >
+            {(Object.keys(VIEW_LABELS) as PipelineView[]).map(option => (
+              <ToggleGroupItem key={option} value={option}>
+                {VIEW_LABELS[option]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+
+          <div className="flex items-center gap-3 text-xs text-muted-foreground">
+            {lastUpdated && <span>Updated {formatRelativeTime(lastUpdated)}</span>}
+            <Button variant="outline" size="sm" onClick={() => void refresh()} disabled={isFetching}>
+              <RefreshCw className={cn('h-4 w-4 mr-2', isFetching && 'animate-spin')} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="space-y-1 text-sm text-destructive">
+            {errors.map(error => (
+              <p key={`${error.instanceId}:${error.projectId}`}>
+                {instances.find(instance => instance.id === error.instanceId)?.name ?? error.instanceId}, project{' '}
+                {error.projectId}: {error.message}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner />
+          </div>
+        ) : visible.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {view === 'all' ? 'No pipelines have run yet.' : `No ${VIEW_LABELS[view].toLowerCase()} pipelines.`}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {visible.map(pipeline => (
+              <PipelineCard
+                key={`${pipeline.instanceId}:${pipeline.id}`}
+                pipeline={pipeline}
+                instance={instances.length > 1 ? instances.find(instance => instance.id === pipeline.instanceId) : undefined}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </PageLayout>
+  );
+};
+
+export default Pipelines;
@@ -0,0 +1,225 @@
+import { useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, ExternalLink } from 'lucide-react';
+import { PageLayout } from '@/components/common';
+import { StatusIndicator } from '@/components/features/dashboard';
+import { ServerAlertsPanel, ServerHistoryChart } from '@/components/features/server';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { ChartConfig } from '@/components/ui/chart';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useSettings } from '@/contexts/SettingsContext';
+import { useServerHistory, useServerMonitoring } from '@/hooks/use-server-monitoring';
+import { serverMonitoringService, PERIOD_WINDOWS } from '@/services/monitoring/serverMonitoringService';
+import { formatRelativeTime } from '@/lib/date';
+import { formatBitrate, formatDiskForecast, formatUptime } from '@/lib/monitoring';
+import { openExternalUrl } from '@/lib/navigation';
+import { ROUTES } from '@/constants';
+import type { ServerAlertMetric, ServerHistoryField, ServerPeriod, ServerUsageSummary } from '@/types';
+
+const formatPercent = (value: number) => `${Math.round(value)}%`;
+
+interface UsageChart {
+  title: string;
+  fields: ServerHistoryField[];
+  config: ChartConfig;
+  formatValue: (value: number) => string;
+  percent?: boolean;
+  thresholdMetric?: ServerAlertMetric;
+}
+
+const USAGE_CHARTS: UsageChart[] = [
+  {
+    title: 'CPU',
+    fields: ['cpu'],
+    config: { cpu: { label: 'CPU', color: 'hsl(var(--primary))' } },
+    formatValue: formatPercent,
+    percent: true,
+    thresholdMetric: 'cpu',
+  },
+  {
+    title: 'Memory',
+    fields: ['memory'],
+    config: { memory: { label: 'RAM', color: 'hsl(var(--primary))' } },
+    formatValue: formatPercent,
+    percent: true,
+    thresholdMetric: 'memory',
+  },
+  {
+    title: 'Disk',
+    fields: ['disk'],
+    config: { disk: { label: 'Disk', color: 'hsl(var(--primary))' } },
+    formatValue: formatPercent,
+    percent: true,
+    thresholdMetric: 'disk',
+  },
+  {
+    title: 'Network',
+    fields: ['networkIn', 'networkOut'],
+    config: {
+      networkIn: { label: 'In', color: 'hsl(var(--primary))' },
+      networkOut: { label: 'Out', color: 'hsl(var(--muted-foreground))' },
+    },
+    formatValue: formatBitrate,
+  },
+];
+
+// Servers probed over TCP only report how long the handshake took
+const LATENCY_CHARTS: UsageChart[] = [
+  {
+    title: 'TCP handshake',
+    fields: ['latency'],
+    config: { latency: { label: 'Handshake', color: 'hsl(var(--primary))' } },
+    formatValue: value => `${Math.round(value)}ms`,
+  },
+];
+
+interface SummaryRowProps {
+  label: string;
+  summary: ServerUsageSummary | undefined;
+  formatValue: (value: number) => string;
+}
+
+const SummaryRow = ({ label, summary, formatValue }: SummaryRowProps) => (
+  <div className="grid grid-cols-5 gap-2 text-xs">
+    <span className="text-muted-foreground">{label}</span>
+    {(['min', 'avg', 'max', 'p95'] as const).map(key => (
+      <span key={key} className="text-right">
+        <span className="text-muted-foreground">{key} </span>
+        <span className="font-medium">{summary ? formatValue(summary[key]) : '—'}</span>
+      </span>
+    ))}
+  </div>
+);
+
+const ServerDetail = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { settings } = useSettings();
+  // Keep servers under monitoring while this page is open so the history stays current
+  const { overviews } = useServerMonitoring(settings.servers);
+  const periods = useMemo(
+    () => serverMonitoringService.getHistoryPeriods(settings.servers.metricsRetention),
+    [settings.servers.metricsRetention]
+  );
+  const [selectedPeriod, setSelectedPeriod] = useState<ServerPeriod>('24h');
+  const period = periods.includes(selectedPeriod) ? selectedPeriod : periods[periods.length - 1] ?? '1h';
+  const { history, stats } = useServerHistory(id, period);
+
+  const overview = overviews.find(({ target }) => target.id === id);
+
+  if (!overview) {
+    return (
+      <PageLayout title="Server not found" description="This server is not configured. It may have been removed in settings.">
+        <Button variant="outline" onClick={() => navigate(ROUTES.HOME)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to dashboard
+        </Button>
+      </PageLayout>
+    );
+  }
+
+  const { target, latest } = overview;
+
+  return (
+    <PageLayout title={target.name} description={target.ip}>
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <StatusIndicator status={latest?.status ?? 'inactive'} label={latest?.status ?? 'pending'} />
+            {latest?.agent && (
+              <span className="text-muted-foreground">
+                {latest.latency === undefined && <>Uptime {formatUptime(latest.uptime)} · </>}
+                {latest.agent}
+              </span>
+            )}
+            {latest?.banner && (
+              <span className="text-muted-foreground font-mono" title="Banner">
+                {latest.banner}
+              </span>
+            )}
+            <span className="text-muted-foreground">
+              Last check {latest ? formatRelativeTime(latest.timestamp) : 'pending'}
+            </span>
+            <span className="text-muted-foreground">
+              Answered {stats.totalUptime.toFixed(1)}% of checks
+            </span>
+          </div>
+
+          <div className="flex items-center gap-2">
+            {!target.source && target.netdataUrl && (
+              <Button variant="outline" size="sm" onClick={() => openExternalUrl(target.netdataUrl)}>
+                <ExternalLink className="h-4 w-4 mr-2" />
+                Netdata dashboard
+              </Button>
+            )}
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={period}
+              onValueChange={value => value && setSelectedPeriod(value as ServerPeriod)}
+              aria-label="Time range"
+            >
+              {periods.map(option => (
+                <ToggleGroupItem key={option} value={option}>
+                  {option}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+        </div>
+
+        {latest?.error && (
+          <p className={latest.status === 'error' ? 'text-sm text-destructive' : 'text-sm text-warning'}>
+            {latest.error}
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {(target.source?.kind === 'tcp' ? LATENCY_CHARTS : USAGE_CHARTS).map(chart => {
+            const threshold = chart.thresholdMetric && target.thresholds?.[chart.thresholdMetric];
+            return (
+              <Card key={chart.title}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-lg">{chart.title}</CardTitle>
+                  {threshold && (
+                    <CardDescription>
+                      Warning above {threshold.warning}%, error above {threshold.error}%
+                      {chart.thresholdMetric === 'disk' && latest?.diskForecast && (
+                        <>. Full in {formatDiskForecast(latest.diskForecast)}</>
+                      )}
+                    </CardDescription>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <ServerHistoryChart
+                    history={history}
+                    fields={chart.fields}
+                    config={chart.config}
+                    windowMs={PERIOD_WINDOWS[period]}
+                    formatValue={chart.formatValue}
+                    percent={chart.percent ?? false}
+                    threshold={threshold}
+                  />
+                  {chart.fields.map(field => (
+                    <SummaryRow
+                      key={field}
+                      label={String(chart.config[field]?.label ?? field)}
+                      summary={stats.summaries[field]}
+                      formatValue={chart.formatValue}
+                    />
+                  ))}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+
+        <ServerAlertsPanel targets={[target]} />
+      </div>
+    </PageLayout>
+  );
+};
+
+export default ServerDetail;
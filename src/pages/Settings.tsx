@@ -5,11 +5,20 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Plus, Trash2, Save, Globe, Server, Gitlab, Database } from 'lucide-react';
 import { useSettings } from '@/contexts/SettingsContext';
+import type { ServerMetricsSourceKind } from '@/types';
 
 type SettingsCategory = 'gitlab' | 'uptime' | 'dns' | 'servers';
 
+const SERVER_SOURCES: Array<{ kind: ServerMetricsSourceKind; label: string }> = [
+  { kind: 'netdata', label: 'Netdata' },
+  { kind: 'prometheus-exporter', label: 'node_exporter (scrape)' },
+  { kind: 'prometheus-query', label: 'Prometheus (PromQL)' },
+  { kind: 'tcp', label: 'TCP port only (probe agent)' },
+];
+
 const Settings = () => {
   const { settings: savedSettings, saveSettings, isLoading } = useSettings();
   const [settings, setSettings] = useState(savedSettings);
@@ -285,7 +294,7 @@ const Settings = () => {
               <CardHeader>
                 <CardTitle>Server Monitoring</CardTitle>
                 <CardDescription>
-                  Configure servers with Netdata for real-time monitoring
+                  Configure servers with Netdata, node_exporter or Prometheus for real-time monitoring
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -310,15 +319,129 @@ const Settings = () => {
                       </div>
                     </div>
                     <div>
-                      <Label htmlFor={`server-netdata-${index}`}>Netdata URL</Label>
+                      <Label htmlFor={`server-source-${index}`}>Metrics Source</Label>
+                      <Select
+                        value={server.source?.kind ?? 'netdata'}
+                        onValueChange={(kind: ServerMetricsSourceKind) => updateItemProperty(
+                          'servers',
+                          index,
+                          'source',
+                          kind === 'netdata'
+                            ? undefined
+                            : kind === 'tcp'
+                            ? { kind }
+                            : {
+                                kind,
+                                url: server.source?.url ?? '',
+                                ...(kind === 'prometheus-query' && { instance: server.source?.instance ?? '' }),
+                              }
+                        )}
+                      >
+                        <SelectTrigger id={`server-source-${index}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SERVER_SOURCES.map(({ kind, label }) => (
+                            <SelectItem key={kind} value={kind}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {!server.source || server.source.kind === 'netdata' ? (
+                      <div>
+                        <Label htmlFor={`server-netdata-${index}`}>Netdata URL</Label>
+                        <Input
+                          id={`server-netdata-${index}`}
+                          value={server.netdataUrl}
+                          onChange={(e) => updateItemProperty('servers', index, 'netdataUrl', e.target.value)}
+                          placeholder="http://ip-address:19999"
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Default Netdata port is 19999. URL should include protocol (http/https).
+                        </p>
+                      </div>
+                    ) : server.source.kind === 'tcp' ? (
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <Label htmlFor={`server-port-${index}`}>Port</Label>
+                          <Input
+                            id={`server-port-${index}`}
+                            type="number"
+                            min={1}
+                            max={65535}
+                            value={server.port ?? ''}
+                            onChange={(e) => updateItemProperty('servers', index, 'port', Number(e.target.value) || undefined)}
+                            placeholder="22"
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor={`server-banner-${index}`}>Expected Banner (optional)</Label>
+                          <Input
+                            id={`server-banner-${index}`}
+                            value={server.source.banner ?? ''}
+                            onChange={(e) => updateItemProperty('servers', index, 'source', { ...server.source, banner: e.target.value || undefined })}
+                            placeholder="^SSH-2\.0"
+                          />
+                        </div>
+                        <p className="col-span-2 text-xs text-muted-foreground">
+                          Connects to the server IP through the probe agent and times the handshake. The banner is a regular
+                          expression matched against the first line the server sends, such as an SSH or SMTP greeting.
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className={server.source.kind === 'prometheus-exporter' ? 'col-span-2' : undefined}>
+                          <Label htmlFor={`server-source-url-${index}`}>
+                            {server.source.kind === 'prometheus-exporter' ? 'Exporter URL' : 'Prometheus URL'}
+                          </Label>
+                          <Input
+                            id={`server-source-url-${index}`}
+                            value={server.source.url}
+                            onChange={(e) => updateItemProperty('servers', index, 'source', { ...server.source, url: e.target.value })}
+                            placeholder={server.source.kind === 'prometheus-exporter'
+                              ? 'http://ip-address:9100/metrics'
+                              : 'http://prometheus:9090'}
+                          />
+                        </div>
+                        {server.source.kind === 'prometheus-query' && (
+                          <div>
+                            <Label htmlFor={`server-instance-${index}`}>Instance Label</Label>
+                            <Input
+                              id={`server-instance-${index}`}
+                              value={server.source.instance}
+                              onChange={(e) => updateItemProperty('servers', index, 'source', { ...server.source, instance: e.target.value })}
+                              placeholder="ip-address:9100"
+                            />
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    <div>
+                      <Label htmlFor={`server-tags-${index}`}>Tags (optional)</Label>
+                      <Input
+                        id={`server-tags-${index}`}
+                        defaultValue={server.tags?.join(', ') ?? ''}
+                        // Parsed once editing ends so commas can be typed
+                        onBlur={(e) => {
+                          const tags = e.target.value.split(',').map(tag => tag.trim()).filter(Boolean);
+                          updateItemProperty('servers', index, 'tags', tags.length > 0 ? tags : undefined);
+                        }}
+                        placeholder="env:prod, role:db"
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Comma-separated. The dashboard filters and groups servers by tag, and tags can carry their own alert thresholds.
+                      </p>
+                    </div>
+                    <div>
+                      <Label htmlFor={`server-proxy-${index}`}>Proxy Path (optional)</Label>
                       <Input
-                        id={`server-netdata-${index}`}
-                        value={server.netdataUrl}
-                        onChange={(e) => updateItemProperty('servers', index, 'netdataUrl', e.target.value)}
-                        placeholder="http://ip-address:19999"
+                        id={`server-proxy-${index}`}
+                        value={server.proxyPath ?? ''}
+                        onChange={(e) => updateItemProperty('servers', index, 'proxyPath', e.target.value || undefined)}
+                        placeholder="/netdata/web"
                       />
                       <p className="text-xs text-muted-foreground mt-1">
-                        Default Netdata port is 19999. URL should include protocol (http/https).
+                        Same-origin path your reverse proxy forwards to the source, for sources that do not allow cross-origin requests.
                       </p>
                     </div>
                     <Button
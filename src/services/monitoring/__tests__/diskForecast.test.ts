@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { MONITORING_CONFIG } from '@/config';
+import { forecastDiskFull } from '../diskForecast';
+import type { ServerHistoryPoint } from '@/types';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 0, 15, 12, 0);
+
+// One point per hour, the last one at NOW
+const hourly = (usage: number[]): ServerHistoryPoint[] =>
+  usage.map((disk, index) => ({ timestamp: NOW - (usage.length - 1 - index) * HOUR, up: 1, disk }));
+
+const growing = (from: number, perDay: number, hours: number) =>
+  Array.from({ length: hours }, (_, hour) => from + (perDay * hour) / 24);
+
+describe('diskForecast', () => {
+  it('projects a steady growth to the day the disk is full', () => {
+    const forecast = forecastDiskFull(hourly(growing(58, 1, 49)), NOW);
+
+    expect(forecast).toEqual({
+      method: 'linear',
+      usage: 60,
+      growth: 1,
+      daysUntilFull: 40,
+      lower: 40,
+      upper: 40,
+      points: 49,
+    });
+  });
+
+  it('widens the band around the forecast as usage gets noisy', () => {
+    const noisy = growing(58, 1, 49).map((usage, hour) => usage + (hour % 2 === 0 ? 1.5 : -1.5));
+    const forecast = forecastDiskFull(hourly(noisy), NOW);
+
+    expect(forecast?.daysUntilFull).toBeCloseTo(40, 0);
+    expect(forecast?.lower).toBeLessThan(38);
+    expect(forecast?.upper).toBeGreaterThan(42);
+  });
+
+  it('waits for enough history and reports usage that is not growing', () => {
+    expect(forecastDiskFull(hourly(growing(58, 1, 11)), NOW)).toBeNull();
+    expect(forecastDiskFull(hourly(Array(24).fill(70)), NOW)).toMatchObject({ growth: 0, daysUntilFull: null, upper: null });
+  });
+
+  it('restarts the trend after a cleanup', () => {
+    const history = [...growing(85, 1, 24), ...growing(40, 2, 24)];
+    const forecast = forecastDiskFull(hourly(history), NOW);
+
+    expect(forecast).toMatchObject({ points: 24, growth: 2 });
+    expect(forecast?.daysUntilFull).toBeCloseTo(29, 0);
+  });
+
+  it('follows an acceleration sooner with Holt smoothing than with a line', () => {
+    const history = hourly([...Array(48).fill(50), ...growing(50, 10, 24)]);
+
+    const linear = forecastDiskFull(history, NOW);
+    const holt = forecastDiskFull(history, NOW, { ...MONITORING_CONFIG.diskForecast, method: 'holt' });
+
+    expect(holt?.method).toBe('holt');
+    expect(holt?.growth).toBeGreaterThan(linear?.growth ?? 0);
+    expect(holt?.daysUntilFull).toBeLessThan(linear?.daysUntilFull ?? Infinity);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { STORAGE_CONFIG } from '@/config';
+import { TIME_CONSTANTS } from '@/constants';
+import { dnsHistoryService } from '../dnsHistoryService';
+
+const START = Date.now() - TIME_CONSTANTS.HOUR;
+const at = (minutes: number) => new Date(START + minutes * TIME_CONSTANTS.MINUTE);
+
+describe('dnsHistoryService', () => {
+  afterEach(() => {
+    dnsHistoryService.clear();
+  });
+
+  it('starts the history on the first observation without a change', () => {
+    const change = dnsHistoryService.recordObservation('example.com', 'example.com', 'A', ['10.0.0.5'], at(0));
+
+    expect(change).toBeNull();
+    expect(dnsHistoryService.getLatestObservation('example.com', 'A')).toMatchObject({
+      values: ['10.0.0.5'],
+      firstSeen: at(0),
+      lastSeen: at(0),
+    });
+  });
+
+  it('extends the current observation while the set is unchanged, regardless of order', () => {
+    dnsHistoryService.recordObservation('example.com', 'example.com', 'A', ['10.0.0.5', '10.0.0.6'], at(0));
+    const change = dnsHistoryService.recordObservation('example.com', 'example.com', 'A', ['10.0.0.6', '10.0.0.5'], at(5));
+
+    expect(change).toBeNull();
+    expect(dnsHistoryService.getObservations('example.com')).toEqual([
+      expect.objectContaining({ values: ['10.0.0.5', '10.0.0.6'], firstSeen: at(0), lastSeen: at(5) }),
+    ]);
+  });
+
+  it('records changes with the added and removed values and lists them newest first', () => {
+    dnsHistoryService.recordObservation('example.com', 'example.com', 'MX', ['10 mail.example.com'], at(0));
+    dnsHistoryService.recordObservation('example.com', 'example.com', 'MX', ['10 mx.example.net'], at(5));
+    dnsHistoryService.recordObservation('example.com', 'example.com', 'MX', ['10 mail.example.com'], at(10));
+
+    const changes = dnsHistoryService.getChanges({ targetId: 'example.com', type: 'MX' });
+
+    expect(changes.map(change => change.detectedAt)).toEqual([at(10), at(5)]);
+    expect(changes[1]).toMatchObject({
+      domain: 'example.com',
+      previous: ['10 mail.example.com'],
+      current: ['10 mx.example.net'],
+      added: ['10 mx.example.net'],
+      removed: ['10 mail.example.com'],
+    });
+    expect(dnsHistoryService.getChanges({ since: at(8) })).toHaveLength(1);
+  });
+
+  it('notifies subscribers of changes only', () => {
+    const seen: string[][] = [];
+    const unsubscribe = dnsHistoryService.subscribe(change => seen.push(change.current));
+
+    dnsHistoryService.recordObservation('example.com', 'example.com', 'A', ['10.0.0.5'], at(0));
+    dnsHistoryService.recordObservation('example.com', 'example.com', 'A', ['10.0.0.5'], at(1));
+    dnsHistoryService.recordObservation('example.com', 'example.com', 'A', [], at(2));
+    unsubscribe();
+    dnsHistoryService.recordObservation('example.com', 'example.com', 'A', ['10.0.0.5'], at(3));
+
+    expect(seen).toEqual([[]]);
+  });
+
+  it('persists the history to localStorage', () => {
+    dnsHistoryService.recordObservation('example.com', 'example.com', 'A', ['10.0.0.5'], at(0));
+    dnsHistoryService.recordObservation('example.com', 'example.com', 'A', ['10.0.0.6'], at(1));
+
+    const stored = JSON.parse(localStorage.getItem(STORAGE_CONFIG.keys.dnsHistory) || '{}');
+
+    expect(stored.observations).toHaveLength(2);
+    expect(stored.changes).toEqual([
+      expect.objectContaining({ previous: ['10.0.0.5'], current: ['10.0.0.6'], detectedAt: at(1).toISOString() }),
+    ]);
+  });
+});
@@ -0,0 +1,530 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { http, HttpResponse, delay } from 'msw';
+import { server } from '@/test/mocks/server';
+import { buildDnsResponse, decodeDnsParam, rdata, readQuestion, type MockDnsAnswer } from '@/test/mocks/dns';
+import { dnsMonitoringService } from '../dnsMonitoringService';
+import { dnsHistoryService } from '../dnsHistoryService';
+import { domainRegistrationService } from '../domainRegistrationService';
+import { parseNameserver } from '../dnsResolver';
+import { getTypeName } from '../dnsWireFormat';
+import { timeSeriesService } from '@/services/storage/timeSeriesService';
+import type { DnsTarget } from '@/types';
+
+const DOH = 'https://doh.example.net/dns-query';
+const BACKUP_DOH = 'https://doh-backup.example.net/dns-query';
+
+const createTarget = (overrides: Partial<DnsTarget> = {}): DnsTarget => ({
+  id: 'example.com',
+  domain: 'example.com',
+  recordTypes: ['A'],
+  nameservers: [DOH],
+  isActive: true,
+  interval: 300000,
+  timeout: 1000,
+  ...overrides,
+});
+
+const serveDoh = (url: string, answers: MockDnsAnswer[], options: { rcode?: number } = {}) =>
+  server.use(
+    http.get(url, ({ request }) => {
+      const query = decodeDnsParam(new URL(request.url).searchParams.get('dns') ?? '');
+      return new HttpResponse(buildDnsResponse(query, answers, options), {
+        headers: { 'Content-Type': 'application/dns-message' },
+      });
+    })
+  );
+
+// Answer each query with the records of its type, or an empty NOERROR
+const serveZone = (url: string, records: Record<string, MockDnsAnswer[]>) =>
+  server.use(
+    http.get(url, ({ request }) => {
+      const query = decodeDnsParam(new URL(request.url).searchParams.get('dns') ?? '');
+      const answers = records[getTypeName(readQuestion(query).type)] ?? [];
+      return new HttpResponse(buildDnsResponse(query, answers), {
+        headers: { 'Content-Type': 'application/dns-message' },
+      });
+    })
+  );
+
+const soa = (serial: number): MockDnsAnswer => ({
+  type: 'SOA',
+  rdata: rdata.soa('ns1.example.com', 'hostmaster.example.com', serial),
+});
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (encoded: string) => Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+
+describe('dnsMonitoringService', () => {
+  afterEach(async () => {
+    await dnsMonitoringService.stopAll();
+    await timeSeriesService.clear();
+    dnsHistoryService.clear();
+    domainRegistrationService.clear();
+  });
+
+  describe('resolveTargets', () => {
+    it('fills in defaults for domains that only have record types', () => {
+      const [target] = dnsMonitoringService.resolveTargets({
+        domains: [{ domain: 'example.com', recordTypes: ['a', 'MX'] }],
+      });
+
+      expect(target).toEqual({
+        id: 'example.com',
+        domain: 'example.com',
+        recordTypes: ['A', 'MX'],
+        nameservers: ['https://cloudflare-dns.com/dns-query', 'https://dns.google/dns-query'],
+        isActive: true,
+        interval: 300000,
+        timeout: 5000,
+        registrationExpiry: { warningDays: 30, errorDays: 7 },
+      });
+    });
+
+    it('prefers per-domain nameservers over the section defaults', () => {
+      const [withDefaults, withOwn] = dnsMonitoringService.resolveTargets({
+        domains: [
+          { domain: 'example.com', recordTypes: ['A'] },
+          { domain: 'example.org', recordTypes: ['A'], nameservers: ['udp://10.0.0.53'] },
+        ],
+        defaultNameservers: [DOH],
+        queryTimeout: 2000,
+      });
+
+      expect(withDefaults?.nameservers).toEqual([DOH]);
+      expect(withDefaults?.timeout).toBe(2000);
+      expect(withOwn?.nameservers).toEqual(['udp://10.0.0.53']);
+    });
+  });
+
+  describe('parseNameserver', () => {
+    it('recognises DoH endpoints and plain servers', () => {
+      expect(parseNameserver(DOH)).toEqual({ address: DOH, protocol: 'doh' });
+      expect(parseNameserver('https+json://dns.google/resolve')).toEqual({
+        address: 'https://dns.google/resolve',
+        protocol: 'doh-json',
+      });
+      expect(parseNameserver('1.1.1.1')).toEqual({ address: '1.1.1.1', protocol: 'udp', port: 53 });
+      expect(parseNameserver('tcp://ns1.example.com:5353')).toEqual({
+        address: 'ns1.example.com',
+        protocol: 'tcp',
+        port: 5353,
+      });
+      expect(parseNameserver('udp://[2606:4700::1111]:53')).toEqual({
+        address: '2606:4700::1111',
+        protocol: 'udp',
+        port: 53,
+      });
+      expect(parseNameserver('2001:db8::53')).toEqual({ address: '2001:db8::53', protocol: 'udp', port: 53 });
+    });
+  });
+
+  describe('checkDnsRecord', () => {
+    it('resolves records over DoH wire format', async () => {
+      serveDoh(DOH, [
+        { type: 'A', rdata: rdata.a('93.184.216.34'), ttl: 120 },
+        { type: 'A', rdata: rdata.a('93.184.216.10'), ttl: 60 },
+      ]);
+
+      const record = await dnsMonitoringService.checkDnsRecord(createTarget(), 'A');
+
+      expect(record).toMatchObject({
+        id: 'example.com:A',
+        targetId: 'example.com',
+        domain: 'example.com',
+        type: 'A',
+        status: 'healthy',
+        values: ['93.184.216.10', '93.184.216.34'],
+        value: '93.184.216.10, 93.184.216.34',
+        ttl: 60,
+      });
+      expect(record.nameservers).toEqual([
+        expect.objectContaining({ nameserver: DOH, protocol: 'doh', rcode: 'NOERROR', status: 'healthy' }),
+      ]);
+    });
+
+    it('decodes every supported record type', async () => {
+      const soa = [
+        ...rdata.name('ns1.example.com'),
+        ...rdata.name('hostmaster.example.com'),
+        0, 0, 0, 42, 0, 0, 14, 16, 0, 0, 7, 8, 0, 9, 58, 128, 0, 0, 1, 44,
+      ];
+      const cases: Array<[string, MockDnsAnswer[], string[]]> = [
+        ['AAAA', [{ type: 'AAAA', rdata: [0x20, 0x01, 0x0d, 0xb8, ...Array(11).fill(0), 1] }], ['2001:db8::1']],
+        ['MX', [{ type: 'MX', rdata: rdata.mx(10, 'mail.example.com') }], ['10 mail.example.com']],
+        ['TXT', [{ type: 'TXT', rdata: rdata.txt('v=spf1 ', 'include:_spf.example.com -all') }], [
+          'v=spf1 include:_spf.example.com -all',
+        ]],
+        ['NS', [{ type: 'NS', rdata: rdata.name('ns1.example.com') }], ['ns1.example.com']],
+        ['SOA', [{ type: 'SOA', rdata: soa }], ['ns1.example.com hostmaster.example.com 42 3600 1800 604800 300']],
+        ['SRV', [{ type: 'SRV', rdata: [0, 10, 0, 5, 0x13, 0xc4, ...rdata.name('sip.example.com')] }], [
+          '10 5 5060 sip.example.com',
+        ]],
+        ['CAA', [{ type: 'CAA', rdata: [0, 5, ...Array.from('issueletsencrypt.org', char => char.charCodeAt(0))] }], [
+          '0 issue "letsencrypt.org"',
+        ]],
+      ];
+
+      for (const [type, answers, values] of cases) {
+        serveDoh(DOH, answers);
+        const record = await dnsMonitoringService.checkDnsRecord(createTarget(), type);
+        expect(record.values).toEqual(values);
+      }
+    });
+
+    it('normalises DoH JSON answers to the same format', async () => {
+      server.use(
+        http.get('https://dns.example.net/resolve', ({ request }) => {
+          const url = new URL(request.url);
+          expect(request.headers.get('accept')).toBe('application/dns-json');
+          expect(url.searchParams.get('name')).toBe('example.com');
+          expect(url.searchParams.get('type')).toBe('15');
+
+          return HttpResponse.json({
+            Status: 0,
+            AD: true,
+            Answer: [{ name: 'example.com.', type: 15, TTL: 300, data: '20 backup.mail.example.com.' }],
+          });
+        })
+      );
+
+      const record = await dnsMonitoringService.checkDnsRecord(
+        createTarget({ nameservers: ['https+json://dns.example.net/resolve'] }),
+        'MX'
+      );
+
+      expect(record).toMatchObject({ status: 'healthy', values: ['20 backup.mail.example.com'], priority: 20 });
+      expect(record.nameservers[0]).toMatchObject({ protocol: 'doh-json', authenticated: true });
+    });
+
+    it('only counts answers of the requested type', async () => {
+      serveDoh(DOH, [{ type: 'CNAME', rdata: rdata.name('elsewhere.example.net') }]);
+
+      const record = await dnsMonitoringService.checkDnsRecord(createTarget(), 'A');
+
+      expect(record.status).toBe('error');
+      expect(record.error).toBe('No A records found');
+    });
+
+    it('reports the response code of failed lookups', async () => {
+      serveDoh(DOH, [], { rcode: 3 });
+
+      const record = await dnsMonitoringService.checkDnsRecord(createTarget(), 'A');
+
+      expect(record.status).toBe('error');
+      expect(record.error).toBe('Nameserver returned NXDOMAIN');
+      expect(record.nameservers[0]?.rcode).toBe('NXDOMAIN');
+    });
+
+    it('warns when only some nameservers answer, recording response time per server', async () => {
+      serveDoh(DOH, [{ type: 'A', rdata: rdata.a('93.184.216.34') }]);
+      server.use(http.get(BACKUP_DOH, () => new HttpResponse(null, { status: 503 })));
+
+      const record = await dnsMonitoringService.checkDnsRecord(createTarget({ nameservers: [DOH, BACKUP_DOH] }), 'A');
+
+      expect(record.status).toBe('warning');
+      expect(record.values).toEqual(['93.184.216.34']);
+      expect(record.error).toBe(`1 of 2 nameservers failed: ${BACKUP_DOH}: DoH server responded with HTTP 503`);
+      expect(record.nameservers.map(result => result.status)).toEqual(['healthy', 'error']);
+      record.nameservers.forEach(result => expect(result.responseTime).toBeGreaterThanOrEqual(0));
+    });
+
+    it('times out slow nameservers', async () => {
+      server.use(
+        http.get(DOH, async () => {
+          await delay(500);
+          return new HttpResponse(null, { status: 200 });
+        })
+      );
+
+      const record = await dnsMonitoringService.checkDnsRecord(createTarget({ timeout: 50 }), 'A');
+
+      expect(record.status).toBe('error');
+      expect(record.error).toBe('Query timed out after 50ms');
+    });
+
+    it('queries plain nameservers through the probe agent, retrying truncated UDP answers over TCP', async () => {
+      const transports: string[] = [];
+      server.use(
+        http.post('*/probe/dns', async ({ request }) => {
+          const body = (await request.json()) as { server: string; port: number; transport: string; query: string };
+          transports.push(body.transport);
+          expect(body).toMatchObject({ server: '10.0.0.53', port: 53 });
+
+          const query = fromBase64(body.query);
+          const response = buildDnsResponse(query, [{ type: 'A', rdata: rdata.a('10.0.0.80') }]);
+          if (body.transport === 'udp') {
+            response[2] = (response[2] ?? 0) | 0x02; // TC flag
+          }
+          return HttpResponse.json({ response: toBase64(response) });
+        })
+      );
+
+      const record = await dnsMonitoringService.checkDnsRecord(createTarget({ nameservers: ['10.0.0.53'] }), 'A');
+
+      expect(transports).toEqual(['udp', 'tcp']);
+      expect(record.status).toBe('healthy');
+      expect(record.values).toEqual(['10.0.0.80']);
+      expect(record.nameservers[0]?.protocol).toBe('udp');
+    });
+
+    it('rejects agent answers to a different query', async () => {
+      server.use(
+        http.post('*/probe/dns', async ({ request }) => {
+          const { query } = (await request.json()) as { query: string };
+          const response = buildDnsResponse(fromBase64(query), [{ type: 'A', rdata: rdata.a('10.0.0.80') }]);
+          response[0] = ((readQuestion(fromBase64(query)).id >> 8) + 1) & 0xff;
+          return HttpResponse.json({ response: toBase64(response) });
+        })
+      );
+
+      const record = await dnsMonitoringService.checkDnsRecord(createTarget({ nameservers: ['tcp://10.0.0.53'] }), 'A');
+
+      expect(record.status).toBe('error');
+      expect(record.error).toBe('Nameserver answered with a mismatched query id');
+    });
+  });
+
+  describe('expectations', () => {
+    it('errors when a record drifts from its exact expectation', async () => {
+      serveDoh(DOH, [{ type: 'A', rdata: rdata.a('10.0.0.6') }]);
+
+      const record = await dnsMonitoringService.checkDnsRecord(
+        createTarget({ expectations: [{ type: 'A', values: ['10.0.0.5'] }] }),
+        'A'
+      );
+
+      expect(record.status).toBe('error');
+      expect(record.error).toBe('A record drifted: missing 10.0.0.5; unexpected 10.0.0.6');
+      expect(record.drift).toEqual({
+        match: 'exact',
+        expected: ['10.0.0.5'],
+        missing: ['10.0.0.5'],
+        unexpected: ['10.0.0.6'],
+      });
+    });
+
+    it('matches MX hosts without their priority when only inclusion is required', async () => {
+      serveDoh(DOH, [
+        { type: 'MX', rdata: rdata.mx(10, 'mail.example.com') },
+        { type: 'MX', rdata: rdata.mx(20, 'backup.example.net') },
+      ]);
+      const target = createTarget({
+        expectations: [{ type: 'MX', values: ['Mail.Example.com.'], match: 'includes' }],
+      });
+
+      const record = await dnsMonitoringService.checkDnsRecord(target, 'MX');
+
+      expect(record.status).toBe('healthy');
+      expect(record.drift).toBeUndefined();
+    });
+
+    it('keeps partial nameserver failures alongside drift', async () => {
+      serveDoh(DOH, [{ type: 'A', rdata: rdata.a('10.0.0.6') }]);
+      server.use(http.get(BACKUP_DOH, () => new HttpResponse(null, { status: 503 })));
+
+      const record = await dnsMonitoringService.checkDnsRecord(
+        createTarget({
+          nameservers: [DOH, BACKUP_DOH],
+          expectations: [{ type: 'A', values: ['10.0.0.6', '10.0.0.7'], match: 'includes' }],
+        }),
+        'A'
+      );
+
+      expect(record.status).toBe('error');
+      expect(record.error).toBe(
+        `A record drifted: missing 10.0.0.7; 1 of 2 nameservers failed: ${BACKUP_DOH}: DoH server responded with HTTP 503`
+      );
+    });
+  });
+
+  describe('history', () => {
+    it('emits a change when the observed set changes, even without an expectation', async () => {
+      const changes: Array<{ previous: string[]; current: string[] }> = [];
+      const unsubscribe = dnsHistoryService.subscribe(change => changes.push(change));
+      const target = createTarget();
+
+      serveDoh(DOH, [{ type: 'A', rdata: rdata.a('10.0.0.5') }]);
+      await dnsMonitoringService.checkDnsRecord(target, 'A');
+      await dnsMonitoringService.checkDnsRecord(target, 'A');
+      serveDoh(DOH, [{ type: 'A', rdata: rdata.a('10.0.0.9') }]);
+      const record = await dnsMonitoringService.checkDnsRecord(target, 'A');
+      unsubscribe();
+
+      expect(record.status).toBe('healthy');
+      expect(changes).toEqual([
+        expect.objectContaining({ previous: ['10.0.0.5'], current: ['10.0.0.9'], added: ['10.0.0.9'], removed: ['10.0.0.5'] }),
+      ]);
+      expect(dnsHistoryService.getObservations(target.id, 'A').map(observation => observation.values)).toEqual([
+        ['10.0.0.5'],
+        ['10.0.0.9'],
+      ]);
+    });
+
+    it('treats records disappearing as a change but ignores failed lookups', async () => {
+      const target = createTarget();
+
+      serveDoh(DOH, [{ type: 'A', rdata: rdata.a('10.0.0.5') }]);
+      await dnsMonitoringService.checkDnsRecord(target, 'A');
+      server.use(http.get(DOH, () => new HttpResponse(null, { status: 502 })));
+      await dnsMonitoringService.checkDnsRecord(target, 'A');
+      expect(dnsHistoryService.getChanges({ targetId: target.id })).toHaveLength(0);
+
+      serveDoh(DOH, [], { rcode: 3 });
+      await dnsMonitoringService.checkDnsRecord(target, 'A');
+
+      expect(dnsHistoryService.getChanges({ targetId: target.id })).toEqual([
+        expect.objectContaining({ type: 'A', previous: ['10.0.0.5'], current: [] }),
+      ]);
+    });
+  });
+
+  describe('consistency', () => {
+    it('warns when nameservers disagree, keeping the majority answer as the value', async () => {
+      const third = 'https://doh-third.example.net/dns-query';
+      serveDoh(DOH, [{ type: 'A', rdata: rdata.a('10.0.0.5') }]);
+      serveDoh(BACKUP_DOH, [{ type: 'A', rdata: rdata.a('10.0.0.6') }]);
+      serveDoh(third, [{ type: 'A', rdata: rdata.a('10.0.0.6') }]);
+
+      const record = await dnsMonitoringService.checkDnsRecord(
+        createTarget({ id: 'mismatch', nameservers: [DOH, BACKUP_DOH, third] }),
+        'A'
+      );
+
+      expect(record.status).toBe('warning');
+      expect(record.values).toEqual(['10.0.0.6']);
+      expect(record.answerGroups).toEqual([
+        { values: ['10.0.0.6'], nameservers: [BACKUP_DOH, third] },
+        { values: ['10.0.0.5'], nameservers: [DOH] },
+      ]);
+      expect(record.error).toBe(`Nameservers disagree: ${BACKUP_DOH}, ${third} serve 10.0.0.6; ${DOH} serves 10.0.0.5`);
+    });
+
+    it('tracks which nameservers serve a changed value until it is fully propagated', async () => {
+      const target = createTarget({ id: 'propagation', nameservers: [DOH, BACKUP_DOH] });
+      serveDoh(DOH, [{ type: 'A', rdata: rdata.a('10.0.0.5') }]);
+      serveDoh(BACKUP_DOH, [{ type: 'A', rdata: rdata.a('10.0.0.5') }]);
+
+      const initial = await dnsMonitoringService.checkDnsRecord(target, 'A');
+      expect(initial.propagation?.fullyPropagatedAt).toBeInstanceOf(Date);
+
+      serveDoh(DOH, [{ type: 'A', rdata: rdata.a('10.0.0.6') }]);
+      const changing = await dnsMonitoringService.checkDnsRecord(target, 'A');
+
+      expect(changing.propagation).toMatchObject({ values: ['10.0.0.6'], previous: ['10.0.0.5'] });
+      expect(changing.propagation?.fullyPropagatedAt).toBeUndefined();
+      expect(changing.propagation?.nameservers.map(server => server.serving)).toEqual([true, false]);
+      const servingSince = changing.propagation?.nameservers[0]?.since;
+
+      serveDoh(BACKUP_DOH, [{ type: 'A', rdata: rdata.a('10.0.0.6') }]);
+      const propagated = await dnsMonitoringService.checkDnsRecord(target, 'A');
+
+      expect(propagated.status).toBe('healthy');
+      expect(propagated.propagation?.fullyPropagatedAt).toBeInstanceOf(Date);
+      expect(propagated.propagation?.nameservers[0]?.since).toEqual(servingSince);
+      expect(propagated.propagation?.startedAt).toEqual(changing.propagation?.startedAt);
+    });
+
+    it('reports SOA serial skew between nameservers', async () => {
+      serveZone(DOH, { SOA: [soa(2024010102)] });
+      serveZone(BACKUP_DOH, { SOA: [soa(2024010101)] });
+
+      const health = await dnsMonitoringService.checkNameservers(createTarget({ nameservers: [DOH, BACKUP_DOH] }));
+
+      expect(health.zone).toBe('example.com');
+      expect(health.status).toBe('warning');
+      expect(health.serialSkew).toBe(1);
+      expect(health.issues).toContain(`SOA serials differ: ${DOH} 2024010102, ${BACKUP_DOH} 2024010101`);
+      expect(dnsMonitoringService.getNameserverHealth('example.com')).toBe(health);
+    });
+
+    it('flags nameservers that answer for the zone without authority as lame', async () => {
+      serveZone(DOH, {
+        SOA: [soa(2024010101)],
+        NS: [
+          { type: 'NS', rdata: rdata.name('ns1.example.com') },
+          { type: 'NS', rdata: rdata.name('ns2.example.com') },
+          { type: 'NS', rdata: rdata.name('ns3.example.com') },
+        ],
+      });
+      server.use(
+        http.post('*/probe/dns', async ({ request }) => {
+          const body = (await request.json()) as { server: string; query: string };
+          const query = fromBase64(body.query);
+          const response = body.server === 'ns1.example.com'
+            ? buildDnsResponse(query, [soa(2024010101)], { authoritative: true })
+            : body.server === 'ns2.example.com'
+              ? buildDnsResponse(query, [soa(2024010101)])
+              : buildDnsResponse(query, [], { rcode: 5 });
+          return HttpResponse.json({ response: toBase64(response) });
+        })
+      );
+
+      const health = await dnsMonitoringService.checkNameservers(createTarget());
+
+      expect(health.status).toBe('error');
+      expect(health.delegation.map(result => result.state)).toEqual(['ok', 'lame', 'lame']);
+      expect(health.issues).toEqual([
+        'Lame delegation: ns2.example.com (Answered without authority)',
+        'Lame delegation: ns3.example.com (Answered REFUSED)',
+      ]);
+    });
+
+    it('leaves delegation unchecked when the probe agent cannot be reached', async () => {
+      serveZone(DOH, {
+        SOA: [soa(2024010101)],
+        NS: [{ type: 'NS', rdata: rdata.name('ns1.example.com') }],
+      });
+      server.use(http.post('*/probe/dns', () => new HttpResponse(null, { status: 503 })));
+
+      const health = await dnsMonitoringService.checkNameservers(createTarget());
+
+      expect(health.status).toBe('healthy');
+      expect(health.issues).toEqual([]);
+      expect(health.delegationError).toMatch(/^Delegation could not be checked: /);
+    });
+  });
+
+  describe('monitoring', () => {
+    it('checks every record type on start and notifies subscribers', async () => {
+      const seen: string[] = [];
+      const unsubscribe = dnsMonitoringService.subscribe(record => seen.push(record.type));
+
+      await dnsMonitoringService.startMonitoring(createTarget({ recordTypes: ['A', 'MX'] }));
+      unsubscribe();
+
+      expect(seen.sort()).toEqual(['A', 'MX']);
+      expect(dnsMonitoringService.isMonitoring('example.com')).toBe(true);
+      expect(domainRegistrationService.getRegistration('example.com')?.registration?.registrar).toBe(
+        'Example Registrar, Inc.'
+      );
+      expect(dnsMonitoringService.getLatestRecords('example.com').map(record => record.values)).toEqual(
+        expect.arrayContaining([['93.184.216.34'], ['10 mail.example.com']])
+      );
+    });
+
+    it('keeps no schedule when starts and a stop for a target overlap', async () => {
+      const starts = [
+        dnsMonitoringService.startMonitoring(createTarget({ recordTypes: ['A'] })),
+        dnsMonitoringService.startMonitoring(createTarget({ recordTypes: ['A'] })),
+      ];
+      await dnsMonitoringService.stopMonitoring('example.com');
+      await Promise.all(starts);
+
+      expect(dnsMonitoringService.isMonitoring('example.com')).toBe(false);
+    });
+
+    it('keeps query stats per target and per nameserver', async () => {
+      server.use(http.get(BACKUP_DOH, () => new HttpResponse(null, { status: 503 })));
+      const target = createTarget({ nameservers: [DOH, BACKUP_DOH] });
+
+      await dnsMonitoringService.checkDnsRecord(target, 'A');
+      await dnsMonitoringService.checkDnsRecord(target, 'A');
+
+      const overall = await dnsMonitoringService.getDnsStats(target.id, '24h');
+      const backup = await dnsMonitoringService.getDnsStats(target.id, '24h', BACKUP_DOH);
+
+      expect(overall).toMatchObject({ totalQueries: 4, successfulQueries: 2, errorRate: 50 });
+      expect(backup).toMatchObject({ totalQueries: 2, successfulQueries: 0, errorRate: 100 });
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { server } from '@/test/mocks/server';
+import {
+  buildDnsResponse,
+  decodeDnsParam,
+  rdata,
+  readQuestion,
+  type MockDnsAnswer,
+  type MockDnsResponseOptions,
+} from '@/test/mocks/dns';
+import { MONITORING_CONFIG } from '@/config';
+import { TIME_CONSTANTS } from '@/constants';
+import { dnsMonitoringService } from '../dnsMonitoringService';
+import { getTypeName } from '../dnsWireFormat';
+import type { DnsTarget } from '@/types';
+
+const RESOLVER = MONITORING_CONFIG.dns.validatingResolver;
+
+const createTarget = (overrides: Partial<DnsTarget> = {}): DnsTarget => ({
+  id: 'example.com',
+  domain: 'example.com',
+  recordTypes: ['A'],
+  isActive: true,
+  timeout: 1000,
+  ...overrides,
+});
+
+// Serve records keyed by "name TYPE" from the validating resolver
+const serveResolver = (records: Record<string, MockDnsAnswer[]>, options: MockDnsResponseOptions = {}) => {
+  const queries: Uint8Array[] = [];
+  server.use(
+    http.get(RESOLVER, ({ request }) => {
+      const query = decodeDnsParam(new URL(request.url).searchParams.get('dns') ?? '');
+      const { name, type } = readQuestion(query);
+      queries.push(query);
+
+      return new HttpResponse(buildDnsResponse(query, records[`${name} ${getTypeName(type)}`] ?? [], options), {
+        headers: { 'Content-Type': 'application/dns-message' },
+      });
+    })
+  );
+  return queries;
+};
+
+// Whole seconds from now, as RRSIG timestamps have no finer resolution
+const inDays = (days: number) => new Date(Math.floor((Date.now() + days * TIME_CONSTANTS.DAY) / 1000) * 1000);
+
+const signedZone = (soaExpiry: Date, aExpiry: Date): Record<string, MockDnsAnswer[]> => ({
+  'example.com SOA': [
+    { type: 'SOA', rdata: rdata.soa('ns1.example.com', 'hostmaster.example.com', 2024010101) },
+    { type: 'RRSIG', rdata: rdata.rrsig('SOA', 34505, 'example.com', soaExpiry, inDays(-7)) },
+  ],
+  'example.com DS': [{ type: 'DS', rdata: rdata.ds(34505, [0xab, 0xcd]) }],
+  'example.com DNSKEY': [
+    { type: 'DNSKEY', rdata: rdata.dnskey(257, [1, 2, 3]) },
+    { type: 'RRSIG', rdata: rdata.rrsig('DNSKEY', 34505, 'example.com', inDays(30), inDays(-7)) },
+  ],
+  'example.com A': [
+    { type: 'A', rdata: rdata.a('93.184.216.34') },
+    { type: 'RRSIG', rdata: rdata.rrsig('A', 34505, 'example.com', aExpiry, inDays(-7)) },
+  ],
+});
+
+const txt = (...values: string[]): MockDnsAnswer[] => values.map(value => ({ type: 'TXT', rdata: rdata.txt(value) }));
+
+describe('dnsMonitoringService security audits', () => {
+  it('skips targets without DNSSEC or email security enabled', async () => {
+    expect(await dnsMonitoringService.auditSecurity(createTarget())).toBeNull();
+  });
+
+  describe('DNSSEC', () => {
+    it('validates a signed zone and reports the earliest signature expiry', async () => {
+      const aExpiry = inDays(20);
+      const queries = serveResolver(signedZone(inDays(30), aExpiry), { authenticated: true });
+
+      const audit = await dnsMonitoringService.auditSecurity(createTarget({ dnssec: true }));
+
+      expect(audit?.status).toBe('healthy');
+      expect(audit?.findings).toEqual([]);
+      expect(audit?.dnssec).toMatchObject({
+        resolver: RESOLVER,
+        zone: 'example.com',
+        validated: true,
+        ds: ['34505 13 2 ABCD'],
+        dnskeys: ['257 3 13 AQID'],
+        nextExpiration: aExpiry,
+      });
+      expect(audit?.dnssec?.signatures.map(signature => signature.typeCovered).sort()).toEqual(['A', 'DNSKEY', 'SOA']);
+      // DO bit in the OPT record
+      expect(queries.some(query => query[query.length - 4] === 0x80)).toBe(true);
+      expect(dnsMonitoringService.getSecurityAudit('example.com')).toBe(audit);
+    });
+
+    it('flags unvalidated chains and signatures close to expiry', async () => {
+      serveResolver(signedZone(inDays(3.5), inDays(20)));
+
+      const audit = await dnsMonitoringService.auditSecurity(createTarget({ dnssec: true }));
+
+      expect(audit?.status).toBe('error');
+      expect(audit?.findings).toEqual([
+        { category: 'dnssec', severity: 'error', message: `${RESOLVER} did not validate the chain of trust (AD flag not set)` },
+        { category: 'dnssec', severity: 'warning', message: 'RRSIG for SOA example.com expires in 3 days' },
+      ]);
+    });
+
+    it('reports expired signatures and a missing DS record', async () => {
+      const records = signedZone(inDays(-1), inDays(20));
+      delete records['example.com DS'];
+      serveResolver(records, { authenticated: true });
+
+      const audit = await dnsMonitoringService.auditSecurity(createTarget({ dnssec: true }));
+
+      expect(audit?.findings.map(item => item.message)).toEqual([
+        'example.com has DNSKEY records but no DS record at its parent, so the chain of trust is broken',
+        expect.stringMatching(/^RRSIG for SOA example\.com expired on /),
+      ]);
+    });
+
+    it('treats SERVFAIL from the validating resolver as a bogus zone', async () => {
+      serveResolver({}, { rcode: 2 });
+
+      const audit = await dnsMonitoringService.auditSecurity(createTarget({ dnssec: true }));
+
+      expect(audit?.status).toBe('error');
+      expect(audit?.findings).toEqual([
+        {
+          category: 'dnssec',
+          severity: 'error',
+          message: `${RESOLVER} returned SERVFAIL for example.com; its signatures likely do not validate`,
+        },
+      ]);
+    });
+  });
+
+  describe('email security', () => {
+    it('accepts a complete SPF, DMARC, DKIM and MTA-STS setup', async () => {
+      serveResolver({
+        'example.com TXT': txt('google-site-verification=abc', 'v=spf1 include:_spf.example.net -all'),
+        '_spf.example.net TXT': txt('v=spf1 ip4:192.0.2.0/24 -all'),
+        '_dmarc.example.com TXT': txt('v=DMARC1; p=reject; rua=mailto:dmarc@example.com'),
+        'selector1._domainkey.example.com TXT': txt('v=DKIM1; k=rsa; p=MIGfMA0GCSqGSIb3DQEBAQUAA4GNADCBiQKBgQC'),
+        '_mta-sts.example.com TXT': txt('v=STSv1; id=20240101T000000'),
+      });
+
+      const audit = await dnsMonitoringService.auditSecurity(
+        createTarget({ emailSecurity: true, dkimSelectors: ['selector1'] })
+      );
+
+      expect(audit).toMatchObject({
+        status: 'healthy',
+        spf: { record: 'v=spf1 include:_spf.example.net -all', lookups: 1 },
+        dmarc: { policy: 'reject', percent: 100 },
+        dkim: [{ selector: 'selector1', record: expect.stringContaining('v=DKIM1') }],
+        mtaSts: { id: '20240101T000000' },
+        findings: [],
+      });
+      expect(audit?.dnssec).toBeUndefined();
+    });
+
+    it('counts SPF lookups through nested includes and flags weak policies', async () => {
+      serveResolver({
+        'example.com TXT': txt('v=spf1 include:a.example.net include:b.example.net mx a ~all'),
+        'a.example.net TXT': txt('v=spf1 a mx exists:%{i}.spf.example.net include:c.example.net -all'),
+        'b.example.net TXT': txt('v=spf1 a mx -all'),
+        'c.example.net TXT': txt('v=spf1 a mx -all'),
+        '_dmarc.example.com TXT': txt('v=DMARC1; p=none'),
+      });
+
+      const audit = await dnsMonitoringService.auditSecurity(
+        createTarget({ emailSecurity: true, dkimSelectors: ['google'] })
+      );
+
+      expect(audit?.status).toBe('error');
+      expect(audit?.spf?.lookups).toBe(12);
+      expect(audit?.mtaSts).toBeNull();
+      expect(audit?.findings).toEqual([
+        { category: 'spf', severity: 'error', message: 'SPF record needs 12 DNS lookups, more than the limit of 10' },
+        {
+          category: 'dmarc',
+          severity: 'warning',
+          message: 'DMARC policy is p=none, so mail failing authentication is still delivered',
+        },
+        {
+          category: 'dmarc',
+          severity: 'info',
+          message: 'DMARC record has no rua= address, so no aggregate reports are sent',
+        },
+        {
+          category: 'dkim',
+          severity: 'error',
+          message: 'DKIM selector google has no key at google._domainkey.example.com',
+        },
+        { category: 'mta-sts', severity: 'info', message: 'No MTA-STS record, so TLS is not enforced for incoming mail' },
+      ]);
+    });
+
+    it('counts a domain included from two branches twice and flags real loops', async () => {
+      serveResolver({
+        'example.com TXT': txt('v=spf1 include:a.example.net include:b.example.net -all'),
+        'a.example.net TXT': txt('v=spf1 include:shared.example.net a -all'),
+        'b.example.net TXT': txt('v=spf1 include:shared.example.net mx include:example.com -all'),
+        'shared.example.net TXT': txt('v=spf1 a mx -all'),
+      });
+
+      const audit = await dnsMonitoringService.auditSecurity(createTarget({ emailSecurity: true }));
+
+      expect(audit?.spf?.lookups).toBe(11);
+      expect(audit?.findings.filter(item => item.category === 'spf').map(item => item.message)).toEqual([
+        'SPF record needs 11 DNS lookups, more than the limit of 10',
+        'SPF lookups loop back to example.com',
+      ]);
+    });
+
+    it('flags SPF records that authorize every sender and duplicate records', async () => {
+      serveResolver({ 'example.com TXT': txt('v=spf1 +all', 'v=spf1 -all') });
+
+      const audit = await dnsMonitoringService.auditSecurity(createTarget({ emailSecurity: true }));
+
+      expect(audit?.findings.filter(item => item.category === 'spf')).toEqual([
+        { category: 'spf', severity: 'error', message: '2 SPF records found; receivers treat this as a permanent error' },
+        { category: 'spf', severity: 'error', message: 'SPF record ends with +all, which authorizes every sender' },
+      ]);
+    });
+  });
+});
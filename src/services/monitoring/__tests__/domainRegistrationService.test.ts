@@ -0,0 +1,171 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { server } from '@/test/mocks/server';
+import { buildDnsResponse, decodeDnsParam, rdata, readQuestion } from '@/test/mocks/dns';
+import { createRdapDomain, type MockRdapDomainOptions } from '@/test/mocks/rdap';
+import { MONITORING_CONFIG } from '@/config';
+import { TIME_CONSTANTS } from '@/constants';
+import { domainRegistrationService } from '../domainRegistrationService';
+import { parseRdapDomain, rdapClient } from '../rdapClient';
+import type { DnsTarget } from '@/types';
+
+const DOH = 'https://doh.example.net/dns-query';
+
+const createTarget = (overrides: Partial<DnsTarget> = {}): DnsTarget => ({
+  id: 'example.com',
+  domain: 'example.com',
+  recordTypes: ['A'],
+  nameservers: [DOH],
+  isActive: true,
+  timeout: 1000,
+  registrationExpiry: { warningDays: 30, errorDays: 7 },
+  ...overrides,
+});
+
+const serveRdap = (options: MockRdapDomainOptions = {}, baseUrl: string = MONITORING_CONFIG.rdap.baseUrl) =>
+  server.use(
+    http.get(`${baseUrl}/domain/:domain`, ({ params }) =>
+      HttpResponse.json(createRdapDomain(String(params.domain), options))
+    )
+  );
+
+const serveNs = (...hosts: string[]) =>
+  server.use(
+    http.get(DOH, ({ request }) => {
+      const query = decodeDnsParam(new URL(request.url).searchParams.get('dns') ?? '');
+      const answers = readQuestion(query).type === 2 ? hosts.map(host => ({ type: 'NS', rdata: rdata.name(host) })) : [];
+      return new HttpResponse(buildDnsResponse(query, answers), {
+        headers: { 'Content-Type': 'application/dns-message' },
+      });
+    })
+  );
+
+const inDays = (days: number) => new Date(Date.now() + days * TIME_CONSTANTS.DAY);
+
+describe('domainRegistrationService', () => {
+  afterEach(() => {
+    domainRegistrationService.clear();
+    domainRegistrationService.setLookup(rdapClient);
+    rdapClient.setBaseUrl(MONITORING_CONFIG.rdap.baseUrl);
+  });
+
+  it('reads registrar, expiry, status flags and registry nameservers', async () => {
+    serveNs('ns2.example.com', 'ns1.example.com');
+
+    const status = await domainRegistrationService.checkRegistration(createTarget());
+
+    expect(status.status).toBe('healthy');
+    expect(status.issues).toEqual([]);
+    expect(status.daysRemaining).toBeGreaterThan(360);
+    expect(status.registration).toMatchObject({
+      domain: 'example.com',
+      registrar: 'Example Registrar, Inc.',
+      registrarIanaId: '376',
+      statuses: ['clientTransferProhibited', 'serverTransferProhibited'],
+      nameservers: ['ns1.example.com', 'ns2.example.com'],
+      source: 'https://rdap.example-registry.net/domain/EXAMPLE.COM',
+    });
+    expect(status.zoneNameservers).toEqual(['ns1.example.com', 'ns2.example.com']);
+    expect(domainRegistrationService.getRegistration('example.com')).toBe(status);
+    expect(domainRegistrationService.isDue('example.com')).toBe(false);
+  });
+
+  it('warns and errors at the configured days before expiry', async () => {
+    serveRdap({ expiresAt: inDays(20.5) });
+    const warning = await domainRegistrationService.checkRegistration(createTarget());
+
+    serveRdap({ expiresAt: inDays(3.5) });
+    const error = await domainRegistrationService.checkRegistration(createTarget());
+
+    serveRdap({ expiresAt: inDays(-2) });
+    const expired = await domainRegistrationService.checkRegistration(createTarget());
+
+    expect(warning).toMatchObject({ status: 'warning', daysRemaining: 20, issues: ['Registration expires in 20 days'] });
+    expect(error).toMatchObject({ status: 'error', daysRemaining: 3, issues: ['Registration expires in 3 days'] });
+    expect(expired.status).toBe('error');
+    expect(expired.issues[0]).toMatch(/^Registration expired on /);
+  });
+
+  it('flags domains on hold', async () => {
+    serveRdap({ status: ['client hold', 'server transfer prohibited'], nameservers: [] });
+
+    const status = await domainRegistrationService.checkRegistration(createTarget());
+
+    expect(status.status).toBe('error');
+    expect(status.registration?.statuses).toEqual(['clientHold', 'serverTransferProhibited']);
+    expect(status.issues).toEqual(['Domain is on clientHold, so the registry does not publish its delegation']);
+  });
+
+  it('warns when the registry delegates to other nameservers than the zone lists', async () => {
+    serveNs('ns1.example.com', 'ns3.example.net');
+
+    const status = await domainRegistrationService.checkRegistration(createTarget());
+
+    expect(status.status).toBe('warning');
+    expect(status.issues).toEqual([
+      'Registry delegates to ns1.example.com, ns2.example.com but the zone lists ns1.example.com, ns3.example.net',
+    ]);
+  });
+
+  it('walks up from subdomains to the registered domain', async () => {
+    const requested: string[] = [];
+    server.use(
+      http.get(`${MONITORING_CONFIG.rdap.baseUrl}/domain/:domain`, ({ params }) => {
+        requested.push(String(params.domain));
+        return params.domain === 'example.com'
+          ? HttpResponse.json(createRdapDomain('example.com'))
+          : new HttpResponse(null, { status: 404 });
+      })
+    );
+
+    const status = await domainRegistrationService.checkRegistration(
+      createTarget({ id: 'api', domain: 'api.eu.example.com' })
+    );
+
+    expect(requested).toEqual(['api.eu.example.com', 'eu.example.com', 'example.com']);
+    expect(status.registration?.domain).toBe('example.com');
+  });
+
+  it('reports lookup failures without grading the domain', async () => {
+    server.use(http.get(`${MONITORING_CONFIG.rdap.baseUrl}/domain/:domain`, () => new HttpResponse(null, { status: 503 })));
+
+    const status = await domainRegistrationService.checkRegistration(createTarget());
+
+    expect(status).toMatchObject({
+      status: 'inactive',
+      issues: [],
+      error: 'Registration lookup failed: RDAP server responded with HTTP 503',
+    });
+  });
+
+  it('retries a failed lookup long before the check interval', async () => {
+    server.use(http.get(`${MONITORING_CONFIG.rdap.baseUrl}/domain/:domain`, () => new HttpResponse(null, { status: 429 })));
+
+    const { checkedAt } = await domainRegistrationService.checkRegistration(createTarget());
+    const after = (ms: number) => new Date(checkedAt.getTime() + ms);
+
+    expect(domainRegistrationService.isDue('example.com', after(TIME_CONSTANTS.MINUTE))).toBe(false);
+    expect(domainRegistrationService.isDue('example.com', after(MONITORING_CONFIG.rdap.retryInterval))).toBe(true);
+  });
+
+  it('runs against a local RDAP fixture server', async () => {
+    serveRdap({ registrar: 'Fixture Registrar' }, 'http://localhost:8089/rdap');
+    rdapClient.setBaseUrl('http://localhost:8089/rdap/');
+
+    const status = await domainRegistrationService.checkRegistration(createTarget());
+
+    expect(status.registration?.registrar).toBe('Fixture Registrar');
+  });
+
+  it('accepts a swapped-in lookup', async () => {
+    domainRegistrationService.setLookup({
+      lookupDomain: async domain =>
+        parseRdapDomain(createRdapDomain(domain, { expiresAt: inDays(10.5) }), `fixture:${domain}`),
+    });
+
+    const status = await domainRegistrationService.checkRegistration(createTarget());
+
+    expect(status).toMatchObject({ status: 'warning', daysRemaining: 10 });
+    expect(status.registration?.source).toBe('https://rdap.example-registry.net/domain/EXAMPLE.COM');
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { server } from '@/test/mocks/server';
+import {
+  createGitlabInstance,
+  createGitlabGroup,
+  createGitlabGroupHandlers,
+  createGitlabMergeRequest,
+  createGitlabMergeRequestHandlers,
+  createGitlabProjectHandlers,
+  createGitlabUser,
+} from '@/test/mocks/gitlab';
+import { gitlabApiService } from '../gitlabApiService';
+import { gitlabMergeRequestService } from '../gitlabMergeRequestService';
+import { gitlabSearchService } from '../gitlabSearchService';
+
+const BASE_URL = 'https://gitlab.example.com';
+const NOW = new Date('2024-06-01T12:00:00Z').getTime();
+
+const approvedBy = (...ids: number[]) => ids.map(id => ({ user: createGitlabUser(id) }));
+
+const APPROVED = {
+  mergeRequest: createGitlabMergeRequest(1, { updated_at: '2024-06-01T11:00:00Z' }),
+  approvals: { approvals_required: 1, approvals_left: 0, approved_by: approvedBy(2) },
+};
+const BLOCKED = {
+  mergeRequest: createGitlabMergeRequest(2, { head_pipeline: { id: 502, status: 'failed' }, has_conflicts: true }),
+};
+const STALE_DRAFT = {
+  mergeRequest: createGitlabMergeRequest(3, { draft: true, updated_at: '2024-05-20T09:00:00Z', head_pipeline: null }),
+};
+const BOARD = [APPROVED, BLOCKED, STALE_DRAFT];
+
+describe('gitlabMergeRequestService', () => {
+  afterEach(() => {
+    gitlabMergeRequestService.clear();
+  });
+
+  it('reads open merge requests with their reviewers, approvals and head pipeline', async () => {
+    server.use(...createGitlabMergeRequestHandlers(BASE_URL, 1, BOARD));
+
+    const mergeRequests = await gitlabMergeRequestService.refreshProject(
+      createGitlabInstance({ selectedProjects: [1] }),
+      1,
+      NOW
+    );
+
+    expect(mergeRequests).toHaveLength(3);
+    expect(mergeRequests[0]).toMatchObject({
+      iid: 1,
+      instanceId: 'gitlab-main',
+      projectPath: 'group/project-1',
+      sourceBranch: 'feature/1',
+      author: { username: 'user1', name: 'User 1' },
+      reviewers: [expect.objectContaining({ username: 'user2' })],
+      pipelineStatus: 'success',
+      approvals: { required: 1, left: 0, approvedBy: [expect.objectContaining({ id: 2 })] },
+      reviewState: 'approved',
+      stale: false,
+      blockedByPipeline: false,
+    });
+    expect(mergeRequests[1]).toMatchObject({ hasConflicts: true, pipelineStatus: 'failed', reviewState: 'awaiting_review' });
+    expect(mergeRequests[2]).toMatchObject({ draft: true, pipelineStatus: null, reviewState: 'draft' });
+  });
+
+  it('flags stale, blocked and unreviewed merge requests', async () => {
+    server.use(...createGitlabMergeRequestHandlers(BASE_URL, 1, BOARD));
+
+    await gitlabMergeRequestService.refresh([createGitlabInstance({ selectedProjects: [1] })], NOW);
+
+    const iids = (flag: 'stale' | 'blocked' | 'awaiting_review') =>
+      gitlabMergeRequestService.getMergeRequests({ flag }).map(mergeRequest => mergeRequest.iid);
+    expect(iids('stale')).toEqual([3]);
+    expect(iids('blocked')).toEqual([2]);
+    expect(iids('awaiting_review')).toEqual([2]);
+    expect(gitlabMergeRequestService.getMergeRequests().map(mergeRequest => mergeRequest.iid)).toEqual([1, 2, 3]);
+  });
+
+  it('waits for a review when no approval is required and nobody approved yet', async () => {
+    server.use(...createGitlabMergeRequestHandlers(BASE_URL, 1, [
+      { mergeRequest: createGitlabMergeRequest(1), approvals: { approvals_required: 0, approvals_left: 0, approved_by: [] } },
+      { mergeRequest: createGitlabMergeRequest(2), approvals: { approvals_required: 0, approvals_left: 0, approved_by: approvedBy(3) } },
+    ]));
+
+    const mergeRequests = await gitlabMergeRequestService.refreshProject(createGitlabInstance(), 1, NOW);
+
+    expect(mergeRequests.map(mergeRequest => mergeRequest.reviewState)).toEqual(['awaiting_review', 'approved']);
+  });
+
+  it('only reads merge requests again after they were updated', async () => {
+    const board = [...BOARD];
+    const requests: URL[] = [];
+    server.use(...createGitlabMergeRequestHandlers(BASE_URL, 1, board, requests));
+    const instance = createGitlabInstance({ selectedProjects: [1] });
+
+    await gitlabMergeRequestService.refreshProject(instance, 1, NOW);
+    requests.length = 0;
+    await gitlabMergeRequestService.refreshProject(instance, 1, NOW);
+    expect(requests).toEqual([]);
+
+    board[1] = { mergeRequest: { ...BLOCKED.mergeRequest, updated_at: '2024-06-01T11:30:00Z' } };
+    const mergeRequests = await gitlabMergeRequestService.refreshProject(instance, 1, NOW);
+
+    expect(requests.map(url => url.pathname).sort()).toEqual([
+      '/api/v4/projects/1/merge_requests/2',
+      '/api/v4/projects/1/merge_requests/2/approvals',
+    ]);
+    expect(mergeRequests.map(mergeRequest => mergeRequest.iid)).toEqual([1, 2, 3]);
+  });
+
+  it('keeps a merge request whose approvals cannot be read and marks its review state unknown', async () => {
+    server.use(
+      http.get(`${BASE_URL}/api/v4/projects/1/merge_requests/2/approvals`, () =>
+        HttpResponse.json({ message: '403 Forbidden' }, { status: 403 })),
+      ...createGitlabMergeRequestHandlers(BASE_URL, 1, BOARD)
+    );
+
+    const { mergeRequests, errors } = await gitlabMergeRequestService.refresh(
+      [createGitlabInstance({ selectedProjects: [1] })],
+      NOW
+    );
+
+    expect(errors).toEqual([]);
+    expect(mergeRequests.map(mergeRequest => mergeRequest.iid)).toEqual([1, 2, 3]);
+    expect(mergeRequests[1]).toMatchObject({ iid: 2, pipelineStatus: 'failed', approvals: null, reviewState: 'unknown' });
+    expect(gitlabMergeRequestService.getMergeRequests({ flag: 'awaiting_review' })).toEqual([]);
+  }, 10_000); // the approvals request is retried before it gives up
+
+  it('picks up projects added to a selected group on the next refresh', async () => {
+    const groupProjects: Record<number, number[]> = { 7: [1] };
+    server.use(
+      ...createGitlabGroupHandlers(BASE_URL, [createGitlabGroup(7, 'platform')], groupProjects),
+      ...createGitlabMergeRequestHandlers(BASE_URL, 1, [APPROVED]),
+      ...createGitlabMergeRequestHandlers(BASE_URL, 2, [BLOCKED])
+    );
+    const instance = createGitlabInstance({ selectedGroups: [7] });
+
+    const before = await gitlabMergeRequestService.refresh([instance], NOW);
+    groupProjects[7] = [1, 2];
+    const after = await gitlabMergeRequestService.refresh([instance], NOW);
+
+    expect(before.mergeRequests.map(mergeRequest => mergeRequest.iid)).toEqual([1]);
+    expect(after.mergeRequests.map(mergeRequest => mergeRequest.iid)).toEqual([1, 2]);
+  });
+
+  it('filters searched projects by their merge requests', async () => {
+    server.use(
+      ...createGitlabProjectHandlers(BASE_URL, 2),
+      ...createGitlabMergeRequestHandlers(BASE_URL, 1, BOARD),
+      ...createGitlabMergeRequestHandlers(BASE_URL, 2, [])
+    );
+    const instance = createGitlabInstance({ selectedProjects: [1, 2] });
+    const projects = await gitlabApiService.getProjects(instance);
+    gitlabSearchService.updateSearchIndex(projects);
+    await gitlabMergeRequestService.refresh([instance], NOW);
+
+    const result = await gitlabSearchService.search({
+      query: '',
+      filters: { mergeRequests: ['blocked'] },
+      sortBy: { field: 'name', order: 'asc' },
+      sortOrder: 'asc',
+      page: 1,
+      perPage: 20,
+    });
+    gitlabSearchService.removeFromSearchIndex(projects.map(project => project.id));
+
+    expect(result.projects.map(project => project.id)).toEqual([1]);
+    expect(result.facets.mergeRequests).toEqual({ stale: 1, blocked: 1, awaiting_review: 1 });
+  });
+});
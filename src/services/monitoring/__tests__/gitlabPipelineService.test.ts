@@ -0,0 +1,131 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { server } from '@/test/mocks/server';
+import {
+  createGitlabInstance,
+  createGitlabJob,
+  createGitlabPipeline,
+  createGitlabPipelineHandlers,
+} from '@/test/mocks/gitlab';
+import { TIME_CONSTANTS } from '@/constants';
+import { gitlabPipelineService } from '../gitlabPipelineService';
+
+const BASE_URL = 'https://gitlab.example.com';
+const NOW = new Date('2024-06-01T12:00:00Z').getTime();
+
+describe('gitlabPipelineService', () => {
+  afterEach(() => {
+    gitlabPipelineService.clear();
+  });
+
+  it('reads recent pipelines with their stages, durations and failed jobs', async () => {
+    server.use(...createGitlabPipelineHandlers(BASE_URL, 1, [
+      {
+        pipeline: createGitlabPipeline(12, { status: 'failed', ref: 'feature/login' }),
+        jobs: [
+          createGitlabJob(103, 'test', { status: 'failed', failure_reason: 'script_failure', duration: 42 }),
+          createGitlabJob(104, 'test', { status: 'failed', allow_failure: true, failure_reason: 'script_failure' }),
+          createGitlabJob(101, 'build'),
+          createGitlabJob(105, 'deploy', { status: 'skipped' }),
+        ],
+      },
+    ]));
+
+    const pipelines = await gitlabPipelineService.refreshProject(createGitlabInstance({ selectedProjects: [1] }), 1, NOW);
+
+    expect(pipelines).toHaveLength(1);
+    expect(pipelines[0]).toMatchObject({
+      id: 12,
+      instanceId: 'gitlab-main',
+      projectPath: 'group/project-1',
+      status: 'failed',
+      ref: 'feature/login',
+      duration: 300,
+      stuck: false,
+    });
+    expect(pipelines[0]?.stages.map(stage => [stage.name, stage.status])).toEqual([
+      ['build', 'success'],
+      ['test', 'failed'],
+      ['deploy', 'skipped'],
+    ]);
+    expect(pipelines[0]?.failedJobs).toEqual([
+      expect.objectContaining({ id: 103, failureReason: 'script_failure', duration: 42 }),
+    ]);
+  });
+
+  it('lists failed pipelines only while no later pipeline ran on their ref', async () => {
+    server.use(...createGitlabPipelineHandlers(BASE_URL, 1, [
+      { pipeline: createGitlabPipeline(13, { status: 'success', created_at: '2024-06-01T11:00:00Z' }), jobs: [] },
+      { pipeline: createGitlabPipeline(12, { status: 'failed', ref: 'feature/login' }), jobs: [] },
+      { pipeline: createGitlabPipeline(11, { status: 'failed', created_at: '2024-06-01T09:00:00Z' }), jobs: [] },
+    ]));
+
+    await gitlabPipelineService.refresh([createGitlabInstance({ selectedProjects: [1] })], NOW);
+
+    expect(gitlabPipelineService.getPipelines().map(pipeline => pipeline.id)).toEqual([13, 12, 11]);
+    expect(gitlabPipelineService.getPipelines({ state: 'failed' }).map(pipeline => pipeline.id)).toEqual([12]);
+  });
+
+  it('flags active pipelines with a job waiting too long for a runner as stuck', async () => {
+    const running = { status: 'running', duration: null, finished_at: null, updated_at: '2024-06-01T11:50:00Z' };
+    server.use(...createGitlabPipelineHandlers(BASE_URL, 1, [
+      {
+        pipeline: createGitlabPipeline(21, running),
+        jobs: [createGitlabJob(201, 'build', { status: 'running', duration: null })],
+      },
+      {
+        pipeline: createGitlabPipeline(20, { ...running, ref: 'release' }),
+        jobs: [
+          createGitlabJob(200, 'build', {
+            status: 'pending',
+            duration: null,
+            queued_duration: (45 * TIME_CONSTANTS.MINUTE) / 1000,
+            started_at: null,
+          }),
+        ],
+      },
+    ]));
+
+    await gitlabPipelineService.refresh([createGitlabInstance({ selectedProjects: [1] })], NOW);
+
+    expect(gitlabPipelineService.getPipelines({ state: 'stuck' }).map(pipeline => pipeline.id)).toEqual([20]);
+    expect(gitlabPipelineService.getPipelines({ state: 'running' }).map(pipeline => pipeline.id)).toEqual([21]);
+  });
+
+  it('only reads jobs again for pipelines that changed', async () => {
+    const jobRequests: string[] = [];
+    server.use(
+      ...createGitlabPipelineHandlers(BASE_URL, 1, [
+        { pipeline: createGitlabPipeline(12), jobs: [createGitlabJob(101, 'build')] },
+      ])
+    );
+    server.events.on('request:start', ({ request }) => {
+      if (request.url.includes('/jobs')) jobRequests.push(request.url);
+    });
+
+    const instance = createGitlabInstance({ selectedProjects: [1] });
+    await gitlabPipelineService.refresh([instance], NOW);
+    await gitlabPipelineService.refresh([instance], NOW + TIME_CONSTANTS.MINUTE);
+    server.events.removeAllListeners();
+
+    expect(jobRequests).toHaveLength(1);
+  });
+
+  it('reports projects that cannot be read and forgets deselected ones', async () => {
+    server.use(
+      ...createGitlabPipelineHandlers(BASE_URL, 1, [{ pipeline: createGitlabPipeline(12), jobs: [] }]),
+      http.get(`${BASE_URL}/api/v4/projects/2/pipelines`, () => HttpResponse.json({ message: '403 Forbidden' }, { status: 403 }))
+    );
+
+    const overview = await gitlabPipelineService.refresh([createGitlabInstance({ selectedProjects: [1, 2] })], NOW);
+
+    expect(overview.pipelines.map(pipeline => pipeline.id)).toEqual([12]);
+    expect(overview.errors).toEqual([expect.objectContaining({ instanceId: 'gitlab-main', projectId: 2 })]);
+
+    const deselected = await gitlabPipelineService.refresh([createGitlabInstance({ selectedProjects: [] })], NOW);
+    expect(deselected).toEqual({ pipelines: [], errors: [] });
+
+    const inactive = await gitlabPipelineService.refresh([createGitlabInstance({ isActive: false, selectedProjects: [1] })], NOW);
+    expect(inactive).toEqual({ pipelines: [], errors: [] });
+  }, 10_000); // the failing project is retried with backoff before it is reported
+});
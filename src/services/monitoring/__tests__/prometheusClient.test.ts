@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { createNodeExporterMetrics } from '@/test/mocks/prometheus';
+import { parseExposition, toExporterUsage } from '../prometheusClient';
+
+const scrape = (scrapedAt: number, ...options: Parameters<typeof createNodeExporterMetrics>) => ({
+  samples: parseExposition(createNodeExporterMetrics(...options)),
+  scrapedAt,
+});
+
+describe('prometheusClient', () => {
+  it('parses samples, labels and special values of the text exposition format', () => {
+    const samples = parseExposition([
+      '# HELP http_requests_total Requests.',
+      '# TYPE http_requests_total counter',
+      'http_requests_total{method="post",path="/a \\"b\\"\\\\c"} 1027 1395066363000',
+      'process_max_fds +Inf',
+      'node_load1 0.25',
+      'not a sample',
+    ].join('\n'));
+
+    expect(samples).toEqual([
+      { name: 'http_requests_total', labels: { method: 'post', path: '/a "b"\\c' }, value: 1027 },
+      { name: 'process_max_fds', labels: {}, value: Infinity },
+      { name: 'node_load1', labels: {}, value: 0.25 },
+    ]);
+  });
+
+  it('turns counters into rates between two scrapes, skipping virtual interfaces', () => {
+    const previous = scrape(1_000_000);
+    const current = scrape(1_010_000, {
+      cpuIdleSeconds: 8015,
+      cpuBusySeconds: 2005,
+      receivedBytes: 1e9 + 1.25e6,
+      transmittedBytes: 5e8 + 250_000,
+    });
+
+    expect(toExporterUsage(current, previous)).toMatchObject({
+      cpuUsage: 25,
+      networkIn: 1000,
+      networkOut: 200,
+      missing: [],
+    });
+  });
+
+  it('does not compute rates across a counter reset', () => {
+    const previous = scrape(1_000_000, { receivedBytes: 5e9 });
+    const current = scrape(1_010_000, { cpuIdleSeconds: 80, cpuBusySeconds: 20, receivedBytes: 1e6 });
+
+    expect(toExporterUsage(current, previous)).toMatchObject({ cpuUsage: 20, networkIn: 0, networkOut: 0 });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { serverAlertService } from '../serverAlertService';
+import type { ServerMetrics, ServerThresholds } from '@/types';
+
+const MINUTE = 60 * 1000;
+const START = Date.now() - 60 * MINUTE;
+
+const createMetrics = (minute: number, usage: Partial<ServerMetrics> = {}): ServerMetrics => ({
+  id: `check-${minute}`,
+  targetId: 'db-1',
+  status: 'healthy',
+  cpuUsage: 10,
+  memoryUsage: 10,
+  diskUsage: 10,
+  networkIn: 0,
+  networkOut: 0,
+  uptime: 0,
+  timestamp: new Date(START + minute * MINUTE),
+  ...usage,
+});
+
+describe('serverAlertService', () => {
+  afterEach(() => {
+    serverAlertService.clear();
+  });
+
+  it('merges settings and tag overrides over the defaults, later tags winning', () => {
+    const thresholds = serverAlertService.resolveThresholds(
+      {
+        alertThresholds: { cpu: 90, memory: { warning: 70 }, disk: 80 },
+        alertDuration: 5 * MINUTE,
+        tagThresholds: {
+          database: { memory: 95, disk: { error: 85, hysteresis: 2 } },
+          critical: { disk: 75 },
+        },
+      },
+      ['database', 'critical']
+    );
+
+    expect(thresholds).toEqual({
+      cpu: { warning: 68, error: 90, duration: 5 * MINUTE, hysteresis: 5 },
+      memory: { warning: 71, error: 95, duration: 5 * MINUTE, hysteresis: 5 },
+      disk: { warning: 56, error: 75, duration: 5 * MINUTE, hysteresis: 2 },
+    });
+  });
+
+  it('only alerts once a breach has lasted the configured duration', () => {
+    const thresholds = serverAlertService.resolveThresholds({
+      alertThresholds: { cpu: { warning: 70, error: 90 }, memory: 80, disk: 80 },
+      alertDuration: 5 * MINUTE,
+    });
+
+    const statuses = [0, 2, 4, 5, 6].map(minute =>
+      serverAlertService.evaluate(createMetrics(minute, { cpuUsage: 95 }), thresholds)
+    );
+
+    expect(statuses).toEqual(['healthy', 'healthy', 'healthy', 'error', 'error']);
+    expect(serverAlertService.getAlerts()).toMatchObject([{
+      targetId: 'db-1',
+      metric: 'cpu',
+      state: 'open',
+      severity: 'error',
+      threshold: 90,
+      peak: 95,
+      startedAt: new Date(START),
+    }]);
+  });
+
+  it('forgets a breach that ends before the duration is reached', () => {
+    const thresholds = serverAlertService.resolveThresholds({
+      alertThresholds: { cpu: { warning: 70, error: 90 }, memory: 80, disk: 80 },
+      alertDuration: 5 * MINUTE,
+    });
+
+    serverAlertService.evaluate(createMetrics(0, { cpuUsage: 95 }), thresholds);
+    serverAlertService.evaluate(createMetrics(3, { cpuUsage: 40 }), thresholds);
+    const status = serverAlertService.evaluate(createMetrics(5, { cpuUsage: 95 }), thresholds);
+
+    expect(status).toBe('healthy');
+    expect(serverAlertService.getAlerts()).toEqual([]);
+  });
+
+  it('keeps an alert open until the value drops below the level by the hysteresis margin', () => {
+    const thresholds = serverAlertService.resolveThresholds({
+      alertThresholds: { cpu: 80, memory: { warning: 60, error: 80 }, disk: 80 },
+      alertHysteresis: 5,
+    });
+
+    const statuses = [82, 77, 81, 74, 58, 54].map((memoryUsage, minute) =>
+      serverAlertService.evaluate(createMetrics(minute, { memoryUsage }), thresholds)
+    );
+
+    expect(statuses).toEqual(['error', 'error', 'error', 'warning', 'warning', 'healthy']);
+
+    const [alert] = serverAlertService.getAlerts({ metric: 'memory' });
+    expect(serverAlertService.getAlerts()).toHaveLength(1);
+    expect(alert).toMatchObject({
+      state: 'resolved',
+      severity: 'error',
+      peak: 82,
+      startedAt: new Date(START),
+      endedAt: new Date(START + 5 * MINUTE),
+      duration: 5 * MINUTE,
+    });
+  });
+
+  it('escalates an open warning when the error level is reached', () => {
+    const thresholds: ServerThresholds = {
+      cpu: { warning: 60, error: 80, duration: 0, hysteresis: 5 },
+      memory: { warning: 60, error: 80, duration: 0, hysteresis: 5 },
+      disk: { warning: 85, error: 95, duration: 0, hysteresis: 1 },
+    };
+    const changes: string[] = [];
+    const unsubscribe = serverAlertService.subscribe(alert => changes.push(`${alert.state}:${alert.severity}`));
+
+    serverAlertService.evaluate(createMetrics(0, { diskUsage: 90 }), thresholds);
+    serverAlertService.evaluate(createMetrics(1, { diskUsage: 90 }), thresholds);
+    serverAlertService.evaluate(createMetrics(2, { diskUsage: 96 }), thresholds);
+    unsubscribe();
+
+    expect(changes).toEqual(['open:warning', 'open:error']);
+    expect(serverAlertService.getOpenAlert('db-1', 'disk')).toMatchObject({ severity: 'error', threshold: 95, peak: 96 });
+  });
+
+  it('keeps the level of a metric the source did not report', () => {
+    const thresholds = serverAlertService.resolveThresholds({});
+
+    serverAlertService.evaluate(createMetrics(0, { diskUsage: 92 }), thresholds);
+    const status = serverAlertService.evaluate(createMetrics(1, { diskUsage: 0 }), thresholds, ['disk']);
+
+    expect(status).toBe('error');
+    expect(serverAlertService.getOpenAlert('db-1', 'disk')).not.toBeNull();
+  });
+});
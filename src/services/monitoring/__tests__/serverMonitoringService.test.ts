@@ -0,0 +1,423 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { server } from '@/test/mocks/server';
+import { createNetdataHandlers, DEFAULT_NETDATA_CHARTS } from '@/test/mocks/netdata';
+import { createNodeExporterMetrics, createPrometheusVector } from '@/test/mocks/prometheus';
+import { timeSeriesService } from '@/services/storage/timeSeriesService';
+import { serverMonitoringService } from '../serverMonitoringService';
+import { netdataClient } from '../netdataClient';
+import { serverAlertService } from '../serverAlertService';
+import { buildUsageQueries } from '../prometheusClient';
+import type { ServerTarget } from '@/types';
+
+const NETDATA = 'http://web-1.example.net:19999';
+const EXPORTER = 'http://web-1.example.net:9100/metrics';
+const PROMETHEUS = 'http://prometheus.example.net:9090';
+
+const createTarget = (overrides: Partial<ServerTarget> = {}): ServerTarget => ({
+  id: 'web-1',
+  name: 'Web Server',
+  ip: '192.168.1.101',
+  netdataUrl: NETDATA,
+  isActive: true,
+  timeout: 1000,
+  ...overrides,
+});
+
+describe('serverMonitoringService', () => {
+  afterEach(async () => {
+    await serverMonitoringService.stopAll();
+    await timeSeriesService.clear();
+    serverMonitoringService.clear();
+    serverAlertService.clear();
+    netdataClient.clear();
+  });
+
+  it('fills in defaults for servers that only have a name, ip and Netdata URL', () => {
+    const [target] = serverMonitoringService.resolveTargets({
+      instances: [{ name: 'Web Server', ip: '192.168.1.101', netdataUrl: NETDATA }],
+    });
+
+    expect(target).toEqual({
+      id: NETDATA,
+      name: 'Web Server',
+      ip: '192.168.1.101',
+      netdataUrl: NETDATA,
+      isActive: true,
+      interval: 30000,
+      timeout: 10000,
+      thresholds: {
+        cpu: { warning: 60, error: 80, duration: 0, hysteresis: 5 },
+        memory: { warning: 60, error: 80, duration: 0, hysteresis: 5 },
+        disk: { warning: 60, error: 80, duration: 0, hysteresis: 5 },
+      },
+      diskForecastHorizon: 14,
+    });
+  });
+
+  it('maps Netdata charts into measured server metrics', async () => {
+    server.use(...createNetdataHandlers(NETDATA));
+
+    const metrics = await serverMonitoringService.checkServerHealth(createTarget());
+
+    expect(metrics).toMatchObject({
+      targetId: 'web-1',
+      status: 'healthy',
+      cpuUsage: 32,
+      memoryUsage: 50,
+      diskUsage: 40,
+      networkIn: 1200.5,
+      networkOut: 300.3,
+      uptime: 273600,
+      agent: 'Netdata v1.44.3',
+    });
+    expect(metrics.error).toBeUndefined();
+    expect(serverMonitoringService.getLatestMetrics('web-1')).toBe(metrics);
+  });
+
+  it('only sums physical interfaces', async () => {
+    const requested: string[] = [];
+    server.use(
+      http.get(`${NETDATA}/api/v1/data`, ({ request }) => {
+        requested.push(new URL(request.url).searchParams.get('chart') ?? '');
+        return undefined;
+      }),
+      ...createNetdataHandlers(NETDATA)
+    );
+
+    await serverMonitoringService.checkServerHealth(createTarget());
+
+    expect(requested.filter(chart => chart.startsWith('net.'))).toEqual(['net.eth0']);
+  });
+
+  it('routes requests through the proxy path when one is configured', async () => {
+    server.use(
+      ...createNetdataHandlers('/netdata/web-1', { version: 'v2.0.3' }),
+      http.get(`${NETDATA}/*`, () => HttpResponse.error())
+    );
+
+    const metrics = await serverMonitoringService.checkServerHealth(createTarget({ proxyPath: '/netdata/web-1/' }));
+
+    expect(metrics).toMatchObject({ status: 'healthy', cpuUsage: 32, agent: 'Netdata v2.0.3' });
+  });
+
+  it('grades usage against the warning and error levels', async () => {
+    server.use(...createNetdataHandlers(NETDATA, {
+      charts: { ...DEFAULT_NETDATA_CHARTS, 'system.cpu': { user: 70, system: 15.5 } },
+    }));
+    const busy = await serverMonitoringService.checkServerHealth(createTarget());
+
+    server.use(...createNetdataHandlers(NETDATA, {
+      charts: { ...DEFAULT_NETDATA_CHARTS, 'disk_space._': { avail: 35, used: 65 } },
+    }));
+    const filling = await serverMonitoringService.checkServerHealth(createTarget());
+
+    expect(busy).toMatchObject({ status: 'error', cpuUsage: 85.5 });
+    expect(filling).toMatchObject({ status: 'warning', diskUsage: 65 });
+    expect(serverAlertService.getAlerts({ targetId: 'web-1', metric: 'cpu' })).toMatchObject([
+      { state: 'resolved', severity: 'error', threshold: 80, peak: 85.5 },
+    ]);
+    expect(serverAlertService.getOpenAlert('web-1', 'disk')).toMatchObject({ severity: 'warning', threshold: 60, peak: 65 });
+  });
+
+  it('warns when the agent does not collect a chart', async () => {
+    const charts = { ...DEFAULT_NETDATA_CHARTS };
+    delete charts['disk_space._'];
+    server.use(...createNetdataHandlers(NETDATA, { charts }));
+
+    const metrics = await serverMonitoringService.checkServerHealth(createTarget());
+
+    expect(metrics).toMatchObject({
+      status: 'warning',
+      diskUsage: 0,
+      error: 'Netdata does not collect disk_space._',
+    });
+  });
+
+  it('reports unreachable agents and keeps them out of the usage averages', async () => {
+    server.use(...createNetdataHandlers(NETDATA));
+    const healthy = await serverMonitoringService.checkServerHealth(createTarget());
+
+    server.use(http.get(`${NETDATA}/api/v1/info`, () => new HttpResponse(null, { status: 502 })));
+    const failed = await serverMonitoringService.checkServerHealth(createTarget());
+
+    const stats = await serverMonitoringService.getServerStats('web-1', '24h');
+
+    expect(failed).toMatchObject({ status: 'error', cpuUsage: 0, error: 'Netdata responded with HTTP 502' });
+    expect(failed.agent).toBeUndefined();
+    expect(stats).toEqual({
+      targetId: 'web-1',
+      averageCpuUsage: 32,
+      averageMemoryUsage: 50,
+      averageDiskUsage: 40,
+      totalUptime: 50,
+      lastSeen: healthy.timestamp,
+      summaries: expect.objectContaining({ cpu: { min: 32, avg: 32, max: 32, p95: 32 } }),
+    });
+  });
+
+  it('builds history points and min/avg/max/p95 summaries from the recorded checks', async () => {
+    const now = Date.UTC(2024, 0, 15, 12, 0);
+    const minute = 60 * 1000;
+    await timeSeriesService.record('server:web-1', { up: 0 }, now - 30 * minute);
+    for (let i = 1; i <= 20; i++) {
+      await timeSeriesService.record('server:web-1', { up: 1, cpu: i * 5, networkIn: 100 }, now - (21 - i) * minute);
+    }
+
+    const history = await serverMonitoringService.getServerHistory('web-1', '1h', now);
+    const stats = await serverMonitoringService.getServerStats('web-1', '1h', now);
+
+    expect(history).toHaveLength(21);
+    expect(history[0]).toEqual({ timestamp: now - 30 * minute, up: 0 });
+    expect(history[20]).toEqual({ timestamp: now - minute, up: 1, cpu: 100, networkIn: 100 });
+    expect(stats.summaries).toEqual({
+      cpu: { min: 5, avg: 52.5, max: 100, p95: 95 },
+      networkIn: { min: 100, avg: 100, max: 100, p95: 100 },
+    });
+    expect(stats.totalUptime).toBeCloseTo(95.24, 2);
+  });
+
+  it('offers the periods that fit the metrics retention', () => {
+    expect(serverMonitoringService.getHistoryPeriods(7)).toEqual(['1h', '6h', '24h', '7d']);
+    expect(serverMonitoringService.getHistoryPeriods()).toEqual(['1h', '6h', '24h', '7d', '30d']);
+  });
+
+  it('groups servers by tag with a worst-of status and averages over the servers that answered', async () => {
+    const DATABASE = 'http://db-1.example.net:19999';
+    server.use(
+      ...createNetdataHandlers(NETDATA),
+      ...createNetdataHandlers(DATABASE, {
+        charts: { ...DEFAULT_NETDATA_CHARTS, 'system.cpu': { user: 70, system: 15.5 } },
+      })
+    );
+    const targets = [
+      createTarget({ tags: ['env:prod', 'role:web'] }),
+      createTarget({ id: 'db-1', netdataUrl: DATABASE, tags: ['env:prod', 'role:db'] }),
+      createTarget({ id: 'cache-1', netdataUrl: '' }),
+    ];
+    await Promise.all(targets.map(target => serverMonitoringService.checkServerHealth(target)));
+
+    expect(serverMonitoringService.getServerGroups(targets, 'env')).toEqual([
+      {
+        tag: 'env:prod',
+        targetIds: ['web-1', 'db-1'],
+        status: 'error',
+        statusCounts: { healthy: 1, warning: 0, error: 1, inactive: 0 },
+        reporting: 2,
+        averageCpuUsage: 58.8,
+        averageMemoryUsage: 50,
+        averageDiskUsage: 40,
+      },
+      {
+        tag: '',
+        targetIds: ['cache-1'],
+        status: 'inactive',
+        statusCounts: { healthy: 0, warning: 0, error: 0, inactive: 1 },
+        reporting: 0,
+        averageCpuUsage: 0,
+        averageMemoryUsage: 0,
+        averageDiskUsage: 0,
+      },
+    ]);
+    expect(serverMonitoringService.getServerGroups(targets).map(({ tag, targetIds }) => [tag, targetIds])).toEqual([
+      ['env:prod', ['web-1', 'db-1']],
+      ['role:db', ['db-1']],
+      ['role:web', ['web-1']],
+      ['', ['cache-1']],
+    ]);
+  });
+
+  it('warns when the disk is forecast to fill up within the horizon', async () => {
+    const hour = 60 * 60 * 1000;
+    const now = Date.now();
+    // Disk usage grew by 12 points a day over the last day
+    for (let i = 24; i >= 1; i--) {
+      await timeSeriesService.record('server:web-1', { up: 1, disk: 40 - (12 * i) / 24 }, now - i * hour);
+    }
+    server.use(...createNetdataHandlers(NETDATA));
+
+    const soon = await serverMonitoringService.checkServerHealth(createTarget({ diskForecastHorizon: 14 }));
+
+    expect(soon.status).toBe('warning');
+    expect(soon.diskForecast).toMatchObject({ method: 'linear', growth: 12 });
+    expect(soon.diskForecast?.daysUntilFull).toBeCloseTo(5, 0);
+    expect(soon.error).toMatch(/^Disk forecast to be full in 5(\.\d)? days$/);
+
+    const later = await serverMonitoringService.checkServerHealth(createTarget({ diskForecastHorizon: 3 }));
+    expect(later).toMatchObject({ status: 'healthy', diskForecast: soon.diskForecast });
+    expect(later.error).toBeUndefined();
+  });
+
+  describe('Prometheus sources', () => {
+    const serveQueries = (values: Partial<Record<keyof ReturnType<typeof buildUsageQueries>, number>>) => {
+      const queries = buildUsageQueries('192.168.1.101:9100');
+      server.use(
+        http.get(`${PROMETHEUS}/api/v1/status/buildinfo`, () =>
+          HttpResponse.json({ status: 'success', data: { version: '2.48.0' } })
+        ),
+        http.get(`${PROMETHEUS}/api/v1/query`, ({ request }) => {
+          const query = new URL(request.url).searchParams.get('query');
+          const field = (Object.keys(queries) as Array<keyof typeof queries>).find(key => queries[key] === query);
+          return HttpResponse.json(createPrometheusVector(field ? values[field] ?? null : null));
+        })
+      );
+    };
+
+    it('keeps the source of servers that do not use Netdata', () => {
+      const source = { kind: 'prometheus-exporter', url: EXPORTER } as const;
+      const [target] = serverMonitoringService.resolveTargets({
+        instances: [{ id: 'web-1', name: 'Web Server', ip: '192.168.1.101', netdataUrl: '', source }],
+      });
+
+      expect(target?.source).toEqual(source);
+    });
+
+    it('scrapes node_exporter and reads the root filesystem', async () => {
+      server.use(http.get(EXPORTER, () => HttpResponse.text(createNodeExporterMetrics())));
+
+      const metrics = await serverMonitoringService.checkServerHealth(
+        createTarget({ netdataUrl: '', source: { kind: 'prometheus-exporter', url: EXPORTER } })
+      );
+
+      // CPU is the share since boot until a second scrape gives a rate
+      expect(metrics).toMatchObject({
+        status: 'healthy',
+        cpuUsage: 20,
+        memoryUsage: 25,
+        diskUsage: 47.4,
+        networkIn: 0,
+        networkOut: 0,
+        uptime: 273600,
+        agent: 'node_exporter 1.7.0',
+      });
+    });
+
+    it('scrapes node_exporter through the proxy path', async () => {
+      server.use(http.get('/node/web-1/metrics', () => HttpResponse.text(createNodeExporterMetrics())));
+
+      const metrics = await serverMonitoringService.checkServerHealth(
+        createTarget({ netdataUrl: '', source: { kind: 'prometheus-exporter', url: EXPORTER }, proxyPath: '/node/web-1' })
+      );
+
+      expect(metrics.agent).toBe('node_exporter 1.7.0');
+    });
+
+    it('queries Prometheus for a host by its instance label', async () => {
+      serveQueries({ cpuUsage: 42.123, memoryUsage: 61, diskUsage: 12.5, networkIn: 800, networkOut: 120, uptime: 86400.4 });
+
+      const metrics = await serverMonitoringService.checkServerHealth(
+        createTarget({ netdataUrl: '', source: { kind: 'prometheus-query', url: PROMETHEUS, instance: '192.168.1.101:9100' } })
+      );
+
+      expect(metrics).toMatchObject({
+        status: 'warning',
+        cpuUsage: 42.1,
+        memoryUsage: 61,
+        diskUsage: 12.5,
+        networkIn: 800,
+        networkOut: 120,
+        uptime: 86400,
+        agent: 'Prometheus 2.48.0',
+      });
+      expect(metrics.error).toBeUndefined();
+    });
+
+    it('names the metrics Prometheus has no data for', async () => {
+      serveQueries({ cpuUsage: 10, memoryUsage: 20, diskUsage: 30, uptime: 60 });
+
+      const metrics = await serverMonitoringService.checkServerHealth(
+        createTarget({ netdataUrl: '', source: { kind: 'prometheus-query', url: PROMETHEUS, instance: '192.168.1.101:9100' } })
+      );
+
+      expect(metrics).toMatchObject({
+        status: 'warning',
+        error: 'Prometheus does not collect node_network_receive_bytes_total, node_network_transmit_bytes_total',
+      });
+    });
+  });
+
+  describe('TCP probes', () => {
+    const createProbeTarget = (banner?: string) => createTarget({
+      netdataUrl: '',
+      port: 22,
+      source: { kind: 'tcp', ...(banner && { banner }) },
+    });
+
+    it('times the handshake and matches the banner', async () => {
+      const metrics = await serverMonitoringService.checkServerHealth(createProbeTarget('^SSH-2\\.0'));
+
+      expect(metrics).toMatchObject({
+        status: 'healthy',
+        agent: 'TCP port 22',
+        latency: 12.5,
+        banner: 'SSH-2.0-OpenSSH_9.6',
+      });
+      expect(metrics.error).toBeUndefined();
+    });
+
+    it('fails when the greeting does not match the banner', async () => {
+      const metrics = await serverMonitoringService.checkServerHealth(createProbeTarget('^220 .*ESMTP'));
+
+      expect(metrics).toMatchObject({
+        status: 'error',
+        error: 'Banner "SSH-2.0-OpenSSH_9.6" does not match ^220 .*ESMTP',
+      });
+    });
+
+    it('warns about slow handshakes and fails on refused connections', async () => {
+      server.use(http.post('*/probe/tcp', () => HttpResponse.json({ host: '192.168.1.101', port: 22, latency: 1500 })));
+      expect(await serverMonitoringService.checkServerHealth(createProbeTarget())).toMatchObject({
+        status: 'warning',
+        error: 'TCP handshake took 1500ms',
+      });
+
+      server.use(http.post('*/probe/tcp', () => HttpResponse.json({ error: 'connect ECONNREFUSED' }, { status: 502 })));
+      const refused = await serverMonitoringService.checkServerHealth(createProbeTarget());
+      expect(refused.status).toBe('error');
+      expect(refused.agent).toBeUndefined();
+    });
+
+    it('needs a port', async () => {
+      const metrics = await serverMonitoringService.checkServerHealth(
+        createTarget({ netdataUrl: '', source: { kind: 'tcp' } })
+      );
+
+      expect(metrics).toMatchObject({ status: 'inactive', error: 'No port configured' });
+    });
+
+    it('records the handshake instead of usage and stays out of the usage averages', async () => {
+      const target = createProbeTarget();
+      await serverMonitoringService.checkServerHealth(target);
+
+      const stats = await serverMonitoringService.getServerStats(target.id, '1h');
+      const [group] = serverMonitoringService.getServerGroups([target]);
+
+      expect(stats.summaries.latency).toMatchObject({ min: 12.5, max: 12.5 });
+      expect(stats.summaries.cpu).toBeUndefined();
+      expect(stats.totalUptime).toBe(100);
+      expect(group).toMatchObject({ reporting: 0, statusCounts: { healthy: 1 } });
+    });
+  });
+
+  it('checks immediately when monitoring starts', async () => {
+    server.use(...createNetdataHandlers(NETDATA));
+
+    await serverMonitoringService.startMonitoring(createTarget());
+
+    expect(serverMonitoringService.isMonitoring('web-1')).toBe(true);
+    expect(serverMonitoringService.getLatestMetrics('web-1')?.status).toBe('healthy');
+  });
+
+  it('keeps no schedule when starts and a stop for a server overlap', async () => {
+    server.use(...createNetdataHandlers(NETDATA));
+
+    const starts = [
+      serverMonitoringService.startMonitoring(createTarget()),
+      serverMonitoringService.startMonitoring(createTarget()),
+    ];
+    await serverMonitoringService.stopMonitoring('web-1');
+    await Promise.all(starts);
+
+    expect(serverMonitoringService.isMonitoring('web-1')).toBe(false);
+  });
+});
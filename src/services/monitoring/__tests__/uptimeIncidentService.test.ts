@@ -0,0 +1,95 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { uptimeIncidentService } from '../uptimeIncidentService';
+import { STORAGE_CONFIG } from '@/config';
+import { TIME_CONSTANTS } from '@/constants';
+import type { StatusType, UptimeStatus } from '@/types';
+
+const START = Date.now() - TIME_CONSTANTS.HOUR;
+
+const check = (minute: number, status: StatusType, error?: string): UptimeStatus => ({
+  id: `check-${minute}`,
+  targetId: 'api',
+  status,
+  responseTime: 100,
+  statusCode: status === 'error' ? 503 : 200,
+  timestamp: new Date(START + minute * 60000),
+  ...(error && { error }),
+});
+
+describe('uptimeIncidentService', () => {
+  afterEach(() => {
+    uptimeIncidentService.clear();
+  });
+
+  it('opens an incident only after the threshold of consecutive failures', () => {
+    expect(uptimeIncidentService.recordCheck(check(0, 'error', 'Expected HTTP 200, received 503'), 3)).toBeNull();
+    expect(uptimeIncidentService.recordCheck(check(1, 'error', 'Request timed out after 10000ms'), 3)).toBeNull();
+
+    const incident = uptimeIncidentService.recordCheck(check(2, 'error'), 3);
+
+    expect(incident).toMatchObject({
+      targetId: 'api',
+      state: 'open',
+      startedAt: new Date(START),
+      firstError: 'Expected HTTP 200, received 503',
+      affectedChecks: 3,
+    });
+    expect(uptimeIncidentService.getOpenIncident('api')).toBe(incident);
+  });
+
+  it('does not open an incident when failures are interrupted by a passing check', () => {
+    uptimeIncidentService.recordCheck(check(0, 'error'), 2);
+    uptimeIncidentService.recordCheck(check(1, 'healthy'), 2);
+    uptimeIncidentService.recordCheck(check(2, 'error'), 2);
+
+    expect(uptimeIncidentService.getIncidents()).toHaveLength(0);
+  });
+
+  it('resolves on recovery with end, duration and affected checks', () => {
+    uptimeIncidentService.recordCheck(check(0, 'error', 'down'), 2);
+    uptimeIncidentService.recordCheck(check(1, 'error'), 2);
+    uptimeIncidentService.recordCheck(check(2, 'error'), 2);
+
+    const resolved = uptimeIncidentService.recordCheck(check(5, 'warning'), 2);
+
+    expect(resolved).toMatchObject({
+      state: 'resolved',
+      endedAt: new Date(START + 5 * 60000),
+      duration: 5 * 60000,
+      affectedChecks: 3,
+    });
+    expect(uptimeIncidentService.getOpenIncident('api')).toBeNull();
+  });
+
+  it('filters incidents by state and notifies subscribers', () => {
+    const listener = vi.fn();
+    const unsubscribe = uptimeIncidentService.subscribe(listener);
+
+    uptimeIncidentService.recordCheck(check(0, 'error'), 1);
+    uptimeIncidentService.recordCheck(check(1, 'healthy'), 1);
+    uptimeIncidentService.recordCheck(check(2, 'error'), 1);
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(3);
+    expect(uptimeIncidentService.getIncidents({ state: 'open' })).toHaveLength(1);
+    expect(uptimeIncidentService.getIncidents({ state: 'resolved' })).toHaveLength(1);
+    expect(uptimeIncidentService.getIncidents({ targetId: 'other' })).toHaveLength(0);
+  });
+
+  it('drops resolved incidents past the retention window', () => {
+    const longAgo = START - STORAGE_CONFIG.incidents.retention - TIME_CONSTANTS.DAY;
+    uptimeIncidentService.recordCheck({ ...check(0, 'error'), timestamp: new Date(longAgo) }, 1);
+    uptimeIncidentService.recordCheck({ ...check(1, 'healthy'), timestamp: new Date(longAgo + 60000) }, 1);
+
+    expect(uptimeIncidentService.getIncidents()).toHaveLength(0);
+  });
+
+  it('persists incidents to localStorage', () => {
+    uptimeIncidentService.recordCheck(check(0, 'error', 'down'), 1);
+
+    const stored = JSON.parse(localStorage.getItem(STORAGE_CONFIG.keys.uptimeIncidents) || '[]');
+
+    expect(stored).toHaveLength(1);
+    expect(stored[0]).toMatchObject({ targetId: 'api', state: 'open', firstError: 'down' });
+  });
+});
@@ -0,0 +1,652 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { http, HttpResponse, delay } from 'msw';
+import { TIME_CONSTANTS } from '@/constants';
+import { server } from '@/test/mocks/server';
+import { uptimeMonitoringService } from '../uptimeMonitoringService';
+import { uptimeIncidentService } from '../uptimeIncidentService';
+import { probeAgentClient } from '../probeAgentClient';
+import { timeSeriesService } from '@/services/storage/timeSeriesService';
+import type { UptimeTarget } from '@/types';
+
+const createTarget = (overrides: Partial<UptimeTarget> = {}): UptimeTarget => ({
+  id: 'status-page',
+  name: 'Status Page',
+  url: 'https://status.example.com/health',
+  method: 'GET',
+  timeout: 1000,
+  interval: 60000,
+  expectedStatus: 200,
+  isActive: true,
+  ...overrides,
+});
+
+describe('uptimeMonitoringService', () => {
+  afterEach(async () => {
+    await uptimeMonitoringService.stopAll();
+    uptimeMonitoringService.clearCertificates();
+    await timeSeriesService.clear();
+    uptimeIncidentService.clear();
+    vi.useRealTimers();
+  });
+
+  describe('resolveTargets', () => {
+    it('fills in defaults for websites that only have a name and url', () => {
+      const [target] = uptimeMonitoringService.resolveTargets({
+        websites: [{ name: 'Main Website', url: 'https://example.com' }],
+      });
+
+      expect(target).toEqual({
+        id: 'https://example.com',
+        name: 'Main Website',
+        url: 'https://example.com',
+        method: 'GET',
+        timeout: 10000,
+        interval: 60000,
+        expectedStatus: 200,
+        isActive: true,
+        incidentThreshold: 3,
+        certificateExpiry: { warningDays: 21, errorDays: 7 },
+      });
+    });
+
+    it('only checks certificates for https targets', () => {
+      const [target] = uptimeMonitoringService.resolveTargets({
+        websites: [{ name: 'Intranet', url: 'http://intranet.local' }],
+      });
+
+      expect(target?.certificateExpiry).toBeUndefined();
+    });
+
+    it('keeps the transport of plain targets', () => {
+      const [agent, browser] = uptimeMonitoringService.resolveTargets({
+        websites: [
+          { name: 'Intranet', url: 'http://intranet.local', transport: 'agent' },
+          { name: 'Main Website', url: 'https://example.com' },
+        ],
+      });
+
+      expect(agent?.transport).toBe('agent');
+      expect(browser?.transport).toBeUndefined();
+    });
+
+    it('prefers section defaults over the built-in ones', () => {
+      const [target] = uptimeMonitoringService.resolveTargets({
+        websites: [{ name: 'API', url: 'https://api.example.com' }],
+        defaultTimeout: 5000,
+        defaultInterval: 30000,
+      });
+
+      expect(target?.timeout).toBe(5000);
+      expect(target?.interval).toBe(30000);
+    });
+  });
+
+  describe('checkWebsite', () => {
+    it('reports healthy when the status code matches the expectation', async () => {
+      server.use(http.get('https://status.example.com/health', () => new HttpResponse('ok', { status: 200 })));
+
+      const status = await uptimeMonitoringService.checkWebsite(createTarget());
+
+      expect(status.status).toBe('healthy');
+      expect(status.statusCode).toBe(200);
+      expect(status.responseTime).toBeGreaterThanOrEqual(0);
+      expect(status.error).toBeUndefined();
+    });
+
+    it('reports an error when the status code differs from the expectation', async () => {
+      server.use(http.get('https://status.example.com/health', () => new HttpResponse(null, { status: 503 })));
+
+      const status = await uptimeMonitoringService.checkWebsite(createTarget());
+
+      expect(status.status).toBe('error');
+      expect(status.statusCode).toBe(503);
+      expect(status.error).toBe('Expected HTTP 200, received 503');
+    });
+
+    it('uses the configured HTTP method', async () => {
+      const methods: string[] = [];
+      server.use(http.all('https://status.example.com/health', ({ request }) => {
+        methods.push(request.method);
+        return new HttpResponse(null, { status: 204 });
+      }));
+
+      const status = await uptimeMonitoringService.checkWebsite(createTarget({ method: 'HEAD', expectedStatus: 204 }));
+
+      expect(methods).toEqual(['HEAD']);
+      expect(status.status).toBe('healthy');
+    });
+
+    it('reports an error when the request exceeds the timeout', async () => {
+      server.use(http.get('https://status.example.com/health', async () => {
+        await delay(500);
+        return new HttpResponse(null, { status: 200 });
+      }));
+
+      const status = await uptimeMonitoringService.checkWebsite(createTarget({ timeout: 50 }));
+
+      expect(status.status).toBe('error');
+      expect(status.statusCode).toBe(0);
+      expect(status.error).toBe('Request timed out after 50ms');
+    });
+
+    it('sends the request through the probe agent with the agent transport', async () => {
+      const relayed: unknown[] = [];
+      server.use(http.post('*/probe/http', async ({ request }) => {
+        relayed.push(await request.json());
+        return HttpResponse.json({ status: 200, headers: { 'content-type': 'text/html' }, setCookies: [], body: 'All systems go' });
+      }));
+
+      const status = await uptimeMonitoringService.checkWebsite(createTarget({
+        url: 'http://intranet.example.com/health',
+        transport: 'agent',
+        assertions: [{ type: 'bodyContains', value: 'All systems go' }],
+      }));
+
+      expect(relayed).toEqual([{ url: 'http://intranet.example.com/health', method: 'GET', timeout: 1000 }]);
+      expect(status.status).toBe('healthy');
+      expect(status.statusCode).toBe(200);
+    });
+
+    it('reports an error when the host is unreachable', async () => {
+      server.use(http.get('https://status.example.com/health', () => HttpResponse.error()));
+
+      const status = await uptimeMonitoringService.checkWebsite(createTarget());
+
+      expect(status.status).toBe('error');
+      expect(status.statusCode).toBe(0);
+    });
+  });
+
+  describe('content assertions', () => {
+    it('stays healthy when every assertion passes', async () => {
+      server.use(http.get('https://status.example.com/health', () =>
+        HttpResponse.json({ status: 'ok', checks: [{ name: 'db', ok: true }] }, { headers: { 'X-Served-By': 'web-1' } })
+      ));
+
+      const status = await uptimeMonitoringService.checkWebsite(createTarget({
+        assertions: [
+          { type: 'bodyContains', value: '"status":"ok"' },
+          { type: 'bodyNotContains', value: 'Internal Server Error' },
+          { type: 'bodyMatches', pattern: 'STATUS', flags: 'i' },
+          { type: 'jsonPath', path: '$.checks[0].ok', equals: true },
+          { type: 'header', name: 'x-served-by' },
+        ],
+      }));
+
+      expect(status.status).toBe('healthy');
+      expect(status.error).toBeUndefined();
+    });
+
+    it('turns a 200 error page into an error with a readable reason', async () => {
+      server.use(http.get('https://status.example.com/health', () =>
+        new HttpResponse('<h1>Something went wrong</h1>', { status: 200 })
+      ));
+
+      const status = await uptimeMonitoringService.checkWebsite(createTarget({
+        assertions: [
+          { type: 'bodyContains', value: 'Welcome' },
+          { type: 'bodyNotContains', value: 'went wrong' },
+        ],
+      }));
+
+      expect(status.status).toBe('error');
+      expect(status.statusCode).toBe(200);
+      expect(status.error).toBe('Response body does not contain "Welcome"; Response body contains "went wrong"');
+    });
+
+    it('reports a warning when only warning assertions fail', async () => {
+      server.use(http.get('https://status.example.com/health', () =>
+        HttpResponse.json({ status: 'degraded' })
+      ));
+
+      const status = await uptimeMonitoringService.checkWebsite(createTarget({
+        assertions: [
+          { type: 'jsonPath', path: '$.status', equals: 'ok', severity: 'warning' },
+          { type: 'header', name: 'Cache-Control', severity: 'warning' },
+        ],
+      }));
+
+      expect(status.status).toBe('warning');
+      expect(status.error).toBe('Expected $.status to equal "ok", found "degraded"; Missing response header Cache-Control');
+    });
+
+    it('fails JSONPath assertions when the body is not JSON', async () => {
+      server.use(http.get('https://status.example.com/health', () => new HttpResponse('ok', { status: 200 })));
+
+      const status = await uptimeMonitoringService.checkWebsite(createTarget({
+        assertions: [{ type: 'jsonPath', path: '$.status', equals: 'ok' }],
+      }));
+
+      expect(status.status).toBe('error');
+      expect(status.error).toBe('Response body is not valid JSON');
+    });
+
+    it('checks header values when one is given', async () => {
+      server.use(http.get('https://status.example.com/health', () =>
+        new HttpResponse(null, { status: 200, headers: { 'Content-Type': 'text/html' } })
+      ));
+
+      const status = await uptimeMonitoringService.checkWebsite(createTarget({
+        assertions: [{ type: 'header', name: 'content-type', value: 'application/json' }],
+      }));
+
+      expect(status.error).toBe('Expected header content-type to be "application/json", received "text/html"');
+    });
+
+    it('counts warnings as up in the uptime stats', async () => {
+      server.use(http.get('https://status.example.com/health', () => new HttpResponse('slow', { status: 200 })));
+
+      await uptimeMonitoringService.checkWebsite(createTarget({
+        assertions: [{ type: 'bodyContains', value: 'fast', severity: 'warning' }],
+      }));
+      const stats = await uptimeMonitoringService.getUptimeStats('status-page', '24h');
+
+      expect(stats.successfulChecks).toBe(1);
+    });
+  });
+
+  describe('transactions', () => {
+    const createTransaction = (overrides: Partial<UptimeTarget> = {}) => createTarget({
+      id: 'login-flow',
+      kind: 'transaction',
+      url: 'http://auth.example.com/login',
+      steps: [
+        {
+          name: 'Log in',
+          url: 'http://auth.example.com/login',
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: '{"user":"probe"}',
+          captures: [
+            { name: 'token', from: 'json', path: '$.access_token' },
+            { name: 'region', from: 'header', path: 'X-Region' },
+          ],
+        },
+        {
+          name: 'Call API',
+          url: 'http://api.example.com/{{region}}/projects',
+          method: 'GET',
+          headers: { Authorization: 'Bearer {{token}}' },
+          assertions: [{ type: 'jsonPath', path: '$.count', equals: 2 }],
+        },
+      ],
+      ...overrides,
+    });
+
+    it('passes captured values to later steps and passes when every step does', async () => {
+      const authorizations: Array<string | null> = [];
+      server.use(
+        http.post('http://auth.example.com/login', async ({ request }) => {
+          expect(await request.json()).toEqual({ user: 'probe' });
+          return HttpResponse.json({ access_token: 'abc123' }, { headers: { 'X-Region': 'eu' } });
+        }),
+        http.get('http://api.example.com/eu/projects', ({ request }) => {
+          authorizations.push(request.headers.get('Authorization'));
+          return HttpResponse.json({ count: 2 });
+        })
+      );
+
+      const status = await uptimeMonitoringService.checkWebsite(createTransaction());
+
+      expect(authorizations).toEqual(['Bearer abc123']);
+      expect(status.status).toBe('healthy');
+      expect(status.steps?.map(step => step.status)).toEqual(['healthy', 'healthy']);
+      expect(status.error).toBeUndefined();
+    });
+
+    it('stops at the first failing step and names it in the error', async () => {
+      let apiCalled = false;
+      server.use(
+        http.post('http://auth.example.com/login', () => new HttpResponse(null, { status: 401 })),
+        http.get('http://api.example.com/*', () => {
+          apiCalled = true;
+          return HttpResponse.json({ count: 2 });
+        })
+      );
+
+      const status = await uptimeMonitoringService.checkWebsite(createTransaction());
+
+      expect(apiCalled).toBe(false);
+      expect(status.status).toBe('error');
+      expect(status.statusCode).toBe(401);
+      expect(status.steps).toHaveLength(1);
+      expect(status.error).toBe('Step 1 (Log in): Expected HTTP 200, received 401');
+    });
+
+    it('fails a step when a value cannot be captured', async () => {
+      server.use(http.post('http://auth.example.com/login', () => HttpResponse.json({ error: 'locked' })));
+
+      const status = await uptimeMonitoringService.checkWebsite(createTransaction());
+
+      expect(status.status).toBe('error');
+      expect(status.error).toBe('Step 1 (Log in): Could not capture token from json $.access_token');
+    });
+
+    it('rejects cookie captures without the agent transport before sending anything', async () => {
+      let requested = false;
+      server.use(http.post('http://auth.example.com/login', () => {
+        requested = true;
+        return HttpResponse.json({}, { headers: { 'Set-Cookie': 'session=s3cr3t' } });
+      }));
+
+      const status = await uptimeMonitoringService.checkWebsite(createTransaction({
+        steps: [
+          {
+            name: 'Log in',
+            url: 'http://auth.example.com/login',
+            method: 'POST',
+            captures: [{ name: 'session', from: 'cookie', path: 'session' }],
+          },
+        ],
+      }));
+
+      expect(requested).toBe(false);
+      expect(status.status).toBe('error');
+      expect(status.steps).toBeUndefined();
+      expect(status.error).toBe('Step 1 (Log in): cookies can only be captured with the agent transport');
+    });
+
+    it('captures cookies when relaying through the probe agent', async () => {
+      const relayed: Array<{ url: string; headers?: Record<string, string> }> = [];
+      const authorizations: Array<string | null> = [];
+      probeAgentClient.setToken('probe-token');
+      server.use(http.post('*/probe/http', async ({ request }) => {
+        const body = await request.json() as { url: string; headers?: Record<string, string> };
+        relayed.push(body);
+        authorizations.push(request.headers.get('Authorization'));
+        return HttpResponse.json(body.url.endsWith('/login')
+          ? { status: 200, headers: {}, setCookies: ['session=s3cr3t; Path=/; HttpOnly'], body: '' }
+          : { status: 200, headers: { 'content-type': 'text/html' }, setCookies: [], body: 'Welcome back' });
+      }));
+
+      const status = await uptimeMonitoringService.checkWebsite(createTransaction({
+        transport: 'agent',
+        steps: [
+          {
+            name: 'Log in',
+            url: 'http://auth.example.com/login',
+            method: 'POST',
+            captures: [{ name: 'session', from: 'cookie', path: 'session' }],
+          },
+          {
+            name: 'Dashboard',
+            url: 'http://auth.example.com/dashboard',
+            method: 'GET',
+            headers: { Cookie: 'session={{session}}' },
+            assertions: [{ type: 'bodyContains', value: 'Welcome' }],
+          },
+        ],
+      }));
+
+      expect(status.status).toBe('healthy');
+      expect(relayed[1]?.headers).toEqual({ Cookie: 'session=s3cr3t' });
+      expect(authorizations).toEqual(['Bearer probe-token', 'Bearer probe-token']);
+    });
+
+    it('keeps transaction settings when resolving targets', () => {
+      const [target] = uptimeMonitoringService.resolveTargets({
+        websites: [{ name: 'Login', url: 'https://auth.example.com', kind: 'transaction', steps: [] }],
+      });
+
+      expect(target).toMatchObject({ kind: 'transaction', steps: [], transport: 'browser' });
+    });
+  });
+
+  describe('checkCertificate', () => {
+    const thresholds = { warningDays: 21, errorDays: 7 };
+
+    // Returns the URL of every certificate read
+    const useCertificate = (daysRemaining: number, overrides: Record<string, unknown> = {}) => {
+      const reads: URL[] = [];
+      server.use(http.get('*/probe/tls', ({ request }) => {
+        const url = new URL(request.url);
+        reads.push(url);
+        return HttpResponse.json({
+          host: url.searchParams.get('host'),
+          port: Number(url.searchParams.get('port')),
+          subject: 'status.example.com',
+          issuer: 'Example CA',
+          subjectAltNames: ['status.example.com'],
+          validFrom: new Date(Date.now() - 60 * TIME_CONSTANTS.DAY).toISOString(),
+          notAfter: new Date(Date.now() + daysRemaining * TIME_CONSTANTS.DAY + TIME_CONSTANTS.HOUR).toISOString(),
+          chainValid: true,
+          ...overrides,
+        });
+      }));
+      return reads;
+    };
+
+    it('records certificate details for healthy certificates', async () => {
+      useCertificate(90);
+
+      const result = await uptimeMonitoringService.checkCertificate(createTarget(), thresholds);
+
+      expect(result.status).toBe('healthy');
+      expect(result.host).toBe('status.example.com');
+      expect(result.daysRemaining).toBe(90);
+      expect(result.certificate?.issuer).toBe('Example CA');
+      expect(result.certificate?.port).toBe(443);
+      expect(result.certificate?.notAfter).toBeInstanceOf(Date);
+    });
+
+    it('warns and then errors as expiry approaches', async () => {
+      useCertificate(14);
+      const warning = await uptimeMonitoringService.checkCertificate(createTarget(), thresholds);
+      expect(warning.status).toBe('warning');
+      expect(warning.error).toBe('Certificate expires in 14 days');
+
+      useCertificate(3);
+      const error = await uptimeMonitoringService.checkCertificate(createTarget(), thresholds);
+      expect(error.status).toBe('error');
+    });
+
+    it('reports expired and untrusted certificates as errors', async () => {
+      useCertificate(-2);
+      const expired = await uptimeMonitoringService.checkCertificate(createTarget(), thresholds);
+      expect(expired.status).toBe('error');
+      expect(expired.error).toMatch(/^Certificate expired on /);
+
+      useCertificate(90, { chainValid: false, chainError: 'UNABLE_TO_VERIFY_LEAF_SIGNATURE' });
+      const untrusted = await uptimeMonitoringService.checkCertificate(createTarget(), thresholds);
+      expect(untrusted.status).toBe('error');
+      expect(untrusted.error).toBe('Certificate is not trusted: UNABLE_TO_VERIFY_LEAF_SIGNATURE');
+    });
+
+    it('marks the certificate inactive when the probe agent is unavailable', async () => {
+      server.use(http.get('*/probe/tls', () => new HttpResponse(null, { status: 502 })));
+
+      const result = await uptimeMonitoringService.checkCertificate(createTarget(), thresholds);
+
+      expect(result.status).toBe('inactive');
+      expect(result.error).toMatch(/^Certificate unavailable: /);
+    });
+
+    it('attaches the certificate to the probe status and takes the worse of the two', async () => {
+      useCertificate(3);
+      server.use(http.get('https://status.example.com:8443/health', () => new HttpResponse('ok', { status: 200 })));
+
+      const status = await uptimeMonitoringService.checkWebsite(
+        createTarget({ url: 'https://status.example.com:8443/health', certificateExpiry: thresholds })
+      );
+
+      expect(status.status).toBe('error');
+      expect(status.error).toBe('Certificate expires in 3 days');
+      expect(status.certificate?.status).toBe('error');
+      expect(status.certificate?.certificate?.port).toBe(8443);
+    });
+
+    it('reuses a certificate read across probes until the read interval passes', async () => {
+      const reads = useCertificate(14);
+      server.use(http.get('https://status.example.com/health', () => new HttpResponse('ok', { status: 200 })));
+      const target = createTarget({ certificateExpiry: thresholds });
+
+      await uptimeMonitoringService.checkWebsite(target);
+      const cached = await uptimeMonitoringService.checkWebsite(target);
+      expect(reads).toHaveLength(1);
+      expect(cached.certificate).toMatchObject({ status: 'warning', daysRemaining: 14 });
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.now() + 6 * TIME_CONSTANTS.HOUR);
+      await uptimeMonitoringService.checkWebsite(target);
+      expect(reads).toHaveLength(2);
+    });
+
+    it('tries a certificate that could not be read again after the retry interval', async () => {
+      let reads = 0;
+      server.use(
+        http.get('*/probe/tls', () => {
+          reads++;
+          return new HttpResponse(null, { status: 502 });
+        }),
+        http.get('https://status.example.com/health', () => new HttpResponse('ok', { status: 200 }))
+      );
+      const target = createTarget({ certificateExpiry: thresholds });
+
+      await uptimeMonitoringService.checkWebsite(target);
+      await uptimeMonitoringService.checkWebsite(target);
+      expect(reads).toBe(1);
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.now() + 5 * TIME_CONSTANTS.MINUTE);
+      await uptimeMonitoringService.checkWebsite(target);
+      expect(reads).toBe(2);
+    });
+
+    it('keeps a failing probe status and adds the certificate warning to its error', async () => {
+      useCertificate(14);
+      server.use(http.get('https://status.example.com/health', () => new HttpResponse('down', { status: 503 })));
+
+      const status = await uptimeMonitoringService.checkWebsite(createTarget({ certificateExpiry: thresholds }));
+
+      expect(status.status).toBe('error');
+      expect(status.error).toBe('Expected HTTP 200, received 503; Certificate expires in 14 days');
+    });
+
+    it('leaves the probe status alone when the certificate cannot be read', async () => {
+      server.use(
+        http.get('*/probe/tls', () => new HttpResponse(null, { status: 502 })),
+        http.get('https://status.example.com/health', () => new HttpResponse('ok', { status: 200 }))
+      );
+
+      const status = await uptimeMonitoringService.checkWebsite(createTarget({ certificateExpiry: thresholds }));
+
+      expect(status.status).toBe('healthy');
+      expect(status.error).toBeUndefined();
+      expect(status.certificate?.status).toBe('inactive');
+    });
+  });
+
+  describe('startMonitoring', () => {
+    it('probes immediately and then on every interval', async () => {
+      let requests = 0;
+      server.use(http.get('https://status.example.com/health', () => {
+        requests++;
+        return new HttpResponse(null, { status: 200 });
+      }));
+
+      vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+      await uptimeMonitoringService.startMonitoring(createTarget({ interval: 1000 }));
+      expect(requests).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await vi.waitFor(() => expect(requests).toBe(2));
+
+      expect(uptimeMonitoringService.getLatestStatus('status-page')?.status).toBe('healthy');
+    });
+
+    it('keeps one schedule when starts and stops for a target overlap', async () => {
+      let requests = 0;
+      server.use(http.get('https://status.example.com/health', () => {
+        requests++;
+        return new HttpResponse(null, { status: 200 });
+      }));
+
+      vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+      const starts = [
+        uptimeMonitoringService.startMonitoring(createTarget({ interval: 1000 })),
+        uptimeMonitoringService.startMonitoring(createTarget({ interval: 1000 })),
+      ];
+      await uptimeMonitoringService.stopMonitoring('status-page');
+      await Promise.all(starts);
+      requests = 0;
+
+      await vi.advanceTimersByTimeAsync(3000);
+
+      expect(uptimeMonitoringService.isMonitoring('status-page')).toBe(false);
+      expect(requests).toBe(0);
+    });
+
+    it('does not schedule inactive targets', async () => {
+      await uptimeMonitoringService.startMonitoring(createTarget({ isActive: false }));
+
+      expect(uptimeMonitoringService.isMonitoring('status-page')).toBe(false);
+    });
+
+    it('notifies subscribers and stops when requested', async () => {
+      server.use(http.get('https://status.example.com/health', () => new HttpResponse(null, { status: 200 })));
+      const listener = vi.fn();
+      const unsubscribe = uptimeMonitoringService.subscribe(listener);
+
+      await uptimeMonitoringService.startMonitoring(createTarget());
+      await uptimeMonitoringService.stopMonitoring('status-page');
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ targetId: 'status-page', status: 'healthy' }));
+      expect(uptimeMonitoringService.isMonitoring('status-page')).toBe(false);
+    });
+  });
+
+  describe('incidents', () => {
+    it('opens an incident after consecutive failed checks and resolves it on recovery', async () => {
+      let healthy = false;
+      server.use(http.get('https://status.example.com/health', () =>
+        new HttpResponse(null, { status: healthy ? 200 : 502 })
+      ));
+
+      const target = createTarget({ incidentThreshold: 2 });
+      await uptimeMonitoringService.checkWebsite(target);
+      expect(uptimeIncidentService.getOpenIncident('status-page')).toBeNull();
+
+      await uptimeMonitoringService.checkWebsite(target);
+      expect(uptimeIncidentService.getOpenIncident('status-page')?.firstError).toBe('Expected HTTP 200, received 502');
+
+      healthy = true;
+      await uptimeMonitoringService.checkWebsite(target);
+      const [incident] = uptimeIncidentService.getIncidents({ targetId: 'status-page' });
+      expect(incident?.state).toBe('resolved');
+      expect(incident?.affectedChecks).toBe(2);
+    });
+  });
+
+  describe('getUptimeStats', () => {
+    it('computes stats from the recorded check history', async () => {
+      let healthy = true;
+      server.use(http.get('https://status.example.com/health', () => {
+        const status = healthy ? 200 : 500;
+        healthy = !healthy;
+        return new HttpResponse(null, { status });
+      }));
+
+      const target = createTarget();
+      await uptimeMonitoringService.checkWebsite(target);
+      await uptimeMonitoringService.checkWebsite(target);
+      await uptimeMonitoringService.checkWebsite(target);
+      await uptimeMonitoringService.checkWebsite(target);
+
+      const stats = await uptimeMonitoringService.getUptimeStats('status-page', '24h');
+
+      expect(stats.targetId).toBe('status-page');
+      expect(stats.totalChecks).toBe(4);
+      expect(stats.successfulChecks).toBe(2);
+      expect(stats.uptime).toBe(50);
+      expect(stats.downtime).toBe(50);
+    });
+
+    it('returns empty stats for targets without history', async () => {
+      const stats = await uptimeMonitoringService.getUptimeStats('never-checked', '30d');
+
+      expect(stats.totalChecks).toBe(0);
+      expect(stats.uptime).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+// Disk capacity forecasting
+// Fits a trend to a server's disk usage history and projects when it reaches 100%
+
+import { MONITORING_CONFIG } from '@/config';
+import { TIME_CONSTANTS } from '@/constants';
+import type { DiskForecast, DiskForecastMethod, ServerHistoryPoint } from '@/types';
+
+export interface DiskForecastOptions {
+  method: DiskForecastMethod;
+  minPoints: number;
+  maxDays: number;
+  resetDrop: number;
+  confidenceZ: number;
+  smoothing: { level: number; trend: number };
+}
+
+interface UsagePoint {
+  day: number;   // days relative to now, so history is negative
+  usage: number; // percent
+}
+
+interface TrendFit {
+  usage: number;  // fitted usage now
+  growth: number; // per day
+  error: number;  // standard deviation of the fit error
+}
+
+/**
+ * Least squares line through the points
+ */
+export const fitLinear = (points: UsagePoint[]): TrendFit => {
+  const n = points.length;
+  const meanDay = points.reduce((total, point) => total + point.day, 0) / n;
+  const meanUsage = points.reduce((total, point) => total + point.usage, 0) / n;
+  const covariance = points.reduce((total, point) => total + (point.day - meanDay) * (point.usage - meanUsage), 0);
+  const variance = points.reduce((total, point) => total + (point.day - meanDay) ** 2, 0);
+
+  const growth = variance > 0 ? covariance / variance : 0;
+  const intercept = meanUsage - growth * meanDay;
+  const squaredError = points.reduce((total, point) => total + (point.usage - (intercept + growth * point.day)) ** 2, 0);
+
+  return {
+    usage: intercept,
+    growth,
+    error: n > 2 ? Math.sqrt(squaredError / (n - 2)) : 0,
+  };
+};
+
+/**
+ * Holt's linear trend smoothing, which follows a change in growth faster than a line through all points.
+ * Points need not be evenly spaced: the trend is kept per day and each step scales it by the gap.
+ */
+export const fitHolt = (points: UsagePoint[], smoothing: DiskForecastOptions['smoothing']): TrendFit => {
+  const [first, second] = points;
+  if (!first || !second) {
+    return { usage: first?.usage ?? 0, growth: 0, error: 0 };
+  }
+
+  let level = first.usage;
+  let trend = second.day > first.day ? (second.usage - first.usage) / (second.day - first.day) : 0;
+  let squaredError = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const point = points[i] as UsagePoint;
+    const gap = point.day - (points[i - 1] as UsagePoint).day;
+    const predicted = level + trend * gap;
+    squaredError += (point.usage - predicted) ** 2;
+
+    const previousLevel = level;
+    level = smoothing.level * point.usage + (1 - smoothing.level) * predicted;
+    if (gap > 0) {
+      trend = smoothing.trend * ((level - previousLevel) / gap) + (1 - smoothing.trend) * trend;
+    }
+  }
+
+  const last = points[points.length - 1] as UsagePoint;
+  return {
+    usage: level + trend * (0 - last.day),
+    growth: trend,
+    error: Math.sqrt(squaredError / (points.length - 1)),
+  };
+};
+
+/**
+ * Days until a line starting at `usage` and growing by `growth` per day reaches 100%
+ */
+const daysUntil = (usage: number, growth: number, maxDays: number): number | null => {
+  if (growth <= 0) return null;
+  const days = Math.max(0, (100 - usage) / growth);
+  return days > maxDays ? null : Math.round(days * 10) / 10;
+};
+
+/**
+ * Forecast when the disk fills up from history points with a disk average.
+ * Points before the last cleanup, a drop of at least `resetDrop` points, are ignored.
+ * Returns null until enough points are left to fit a trend.
+ */
+export const forecastDiskFull = (
+  history: ServerHistoryPoint[],
+  now: number = Date.now(),
+  options: DiskForecastOptions = MONITORING_CONFIG.diskForecast
+): DiskForecast | null => {
+  let points: UsagePoint[] = history
+    .filter(point => point.disk !== undefined)
+    .map(point => ({ day: (point.timestamp - now) / TIME_CONSTANTS.DAY, usage: point.disk as number }));
+
+  const lastReset = points.reduce(
+    (reset, point, index) => index > 0 && (points[index - 1] as UsagePoint).usage - point.usage >= options.resetDrop ? index : reset,
+    0
+  );
+  points = points.slice(lastReset);
+
+  if (points.length < options.minPoints) return null;
+
+  const fit = options.method === 'holt' ? fitHolt(points, options.smoothing) : fitLinear(points);
+  const margin = options.confidenceZ * fit.error;
+  const usage = Math.min(100, Math.max(0, fit.usage));
+
+  return {
+    method: options.method,
+    usage: Math.round(usage * 10) / 10,
+    growth: Math.round(fit.growth * 100) / 100,
+    daysUntilFull: daysUntil(usage, fit.growth, options.maxDays),
+    // The band runs from where the upper error bound reaches 100% to where the lower one does
+    lower: daysUntil(usage + margin, fit.growth, options.maxDays),
+    upper: daysUntil(usage - margin, fit.growth, options.maxDays),
+    points: points.length,
+  };
+};
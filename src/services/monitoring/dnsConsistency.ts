@@ -0,0 +1,249 @@
+// DNS consistency
+// Compares what each nameserver serves: answer mismatches, propagation of new values,
+// SOA serial skew and lame delegations
+
+import { queryNameserver } from './dnsResolver';
+import type {
+  DnsAnswerGroup,
+  DnsDelegationResult,
+  DnsNameserverHealth,
+  DnsNameserverResult,
+  DnsPropagation,
+  DnsPropagationServer,
+  DnsSerialResult,
+  DnsTarget,
+} from '@/types';
+
+interface HealthProblem {
+  level: 'warning' | 'error';
+  message: string;
+}
+
+const sortedValues = (result: DnsNameserverResult): string[] => result.answers.map(answer => answer.value).sort();
+
+const sameSet = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every(value => b.includes(value));
+
+/**
+ * Group the nameservers that answered by the record set they served, largest group first.
+ * Ties keep the order of the configured nameservers.
+ */
+export const groupAnswers = (results: DnsNameserverResult[]): DnsAnswerGroup[] => {
+  const groups: DnsAnswerGroup[] = [];
+
+  results
+    .filter(result => result.status === 'healthy')
+    .forEach(result => {
+      const values = sortedValues(result);
+      const group = groups.find(candidate => sameSet(candidate.values, values));
+      if (group) {
+        group.nameservers.push(result.nameserver);
+      } else {
+        groups.push({ values, nameservers: [result.nameserver] });
+      }
+    });
+
+  return groups.sort((a, b) => b.nameservers.length - a.nameservers.length);
+};
+
+/**
+ * Describe disagreeing nameservers, e.g. "Nameservers disagree: ns-a serves 10.0.0.5; ns-b serves 10.0.0.6"
+ */
+export const describeMismatch = (groups: DnsAnswerGroup[]): string => {
+  const parts = groups.map(group => {
+    const verb = group.nameservers.length === 1 ? 'serves' : 'serve';
+    return `${group.nameservers.join(', ')} ${verb} ${group.values.join(', ')}`;
+  });
+  return `Nameservers disagree: ${parts.join('; ')}`;
+};
+
+/**
+ * Advance the propagation of a record with the latest answers.
+ * A record set that is neither the current nor the previous one starts a new propagation; while
+ * nameservers disagree on first sight, the minority set is taken to be the new one.
+ */
+export const updatePropagation = (
+  state: DnsPropagation | null,
+  results: DnsNameserverResult[],
+  now: Date
+): DnsPropagation | null => {
+  const groups = groupAnswers(results);
+  const [majority, minority] = groups;
+  if (!majority) return state;
+
+  let next: DnsPropagation;
+  let carried: DnsPropagationServer[] = [];
+  if (!state) {
+    next = minority
+      ? { values: minority.values, previous: majority.values, startedAt: now, nameservers: [] }
+      : { values: majority.values, startedAt: now, nameservers: [] };
+  } else {
+    const newer = groups.find(
+      group => !sameSet(group.values, state.values) && !(state.previous && sameSet(group.values, state.previous))
+    );
+    if (newer) {
+      next = { values: newer.values, previous: state.values, startedAt: now, nameservers: [] };
+    } else {
+      next = state;
+      carried = state.nameservers;
+    }
+  }
+
+  const nameservers = results.map(result => {
+    const serving = result.status === 'healthy' && sameSet(sortedValues(result), next.values);
+    const before = carried.find(server => server.nameserver === result.nameserver);
+
+    return {
+      nameserver: result.nameserver,
+      serving,
+      ...(serving && { since: before?.serving && before.since ? before.since : now }),
+    };
+  });
+  const fullyPropagated = nameservers.every(server => server.serving);
+  const { fullyPropagatedAt, ...base } = next;
+
+  return {
+    ...base,
+    nameservers,
+    ...(fullyPropagated && { fullyPropagatedAt: fullyPropagatedAt ?? now }),
+  };
+};
+
+/**
+ * Find the zone a domain belongs to by walking up its labels until the nameservers return an SOA
+ */
+export const findZone = async (
+  domain: string,
+  nameservers: string[],
+  timeout: number
+): Promise<{ zone: string; results: DnsNameserverResult[] } | null> => {
+  const labels = domain.replace(/\.$/, '').split('.');
+
+  for (let i = 0; i < labels.length - 1; i++) {
+    const candidate = labels.slice(i).join('.');
+    const results = await Promise.all(
+      nameservers.map(nameserver => queryNameserver(nameserver, candidate, 'SOA', timeout))
+    );
+
+    if (results.some(result => result.status === 'healthy')) {
+      return { zone: candidate, results };
+    }
+    // Only keep walking up while the nameservers answer definitively
+    if (!results.some(result => result.rcode === 'NOERROR' || result.rcode === 'NXDOMAIN')) {
+      return null;
+    }
+  }
+
+  return null;
+};
+
+const readSerial = (result: DnsNameserverResult): DnsSerialResult => {
+  const serial = Number(result.answers[0]?.value.split(/\s+/)[2]);
+
+  if (result.status !== 'healthy' || Number.isNaN(serial)) {
+    return { nameserver: result.nameserver, serial: null, error: result.error || 'No SOA serial in answer' };
+  }
+  return { nameserver: result.nameserver, serial };
+};
+
+/**
+ * Ask a nameserver from the zone's NS records about the zone directly. It is lame when it
+ * answers without authority for the zone.
+ */
+const checkDelegation = async (host: string, zone: string, timeout: number): Promise<DnsDelegationResult> => {
+  const result = await queryNameserver(`udp://${host}`, zone, 'SOA', timeout, { recursionDesired: false });
+
+  if (!result.rcode) {
+    return { host, state: 'unreachable', ...(result.error && { error: result.error }) };
+  }
+  if (result.rcode === 'NOERROR' && result.authoritative && result.answers.length > 0) {
+    return { host, state: 'ok', rcode: result.rcode };
+  }
+  return {
+    host,
+    state: 'lame',
+    rcode: result.rcode,
+    error: result.rcode === 'NOERROR' ? 'Answered without authority' : `Answered ${result.rcode}`,
+  };
+};
+
+/**
+ * Check the SOA serials served by each configured nameserver and the delegation of the zone.
+ * Delegation is checked through the probe agent; when it cannot be reached at all the
+ * delegation is reported as unchecked rather than failing.
+ */
+export const checkNameserverHealth = async (
+  target: DnsTarget,
+  nameservers: string[],
+  timeout: number
+): Promise<DnsNameserverHealth> => {
+  const checkedAt = new Date();
+  const found = await findZone(target.domain, nameservers, timeout);
+
+  if (!found) {
+    return {
+      targetId: target.id,
+      zone: '',
+      status: 'error',
+      checkedAt,
+      serials: [],
+      serialSkew: 0,
+      delegation: [],
+      issues: [`Could not find the SOA record for ${target.domain}`],
+    };
+  }
+
+  const { zone, results } = found;
+  const problems: HealthProblem[] = [];
+
+  const serials = results.map(readSerial);
+  serials.filter(serial => serial.serial === null).forEach(serial => {
+    problems.push({ level: 'warning', message: `${serial.nameserver}: ${serial.error}` });
+  });
+
+  const known = serials.filter(serial => serial.serial !== null);
+  const numbers = known.map(serial => serial.serial ?? 0);
+  const serialSkew = numbers.length > 0 ? Math.max(...numbers) - Math.min(...numbers) : 0;
+  if (serialSkew > 0) {
+    problems.push({
+      level: 'warning',
+      message: `SOA serials differ: ${known.map(serial => `${serial.nameserver} ${serial.serial}`).join(', ')}`,
+    });
+  }
+
+  const resolver = results.find(result => result.status === 'healthy')?.nameserver ?? nameservers[0] ?? '';
+  const nsRecords = await queryNameserver(resolver, zone, 'NS', timeout);
+  const hosts = nsRecords.answers.map(answer => answer.value).sort();
+  const delegation = await Promise.all(hosts.map(host => checkDelegation(host, zone, timeout)));
+
+  const unreachable = delegation.filter(result => result.state === 'unreachable');
+  const delegationError = hosts.length === 0
+    ? `Could not read the NS records of ${zone}: ${nsRecords.error}`
+    : unreachable.length === delegation.length
+      ? `Delegation could not be checked: ${unreachable[0]?.error ?? 'no nameserver answered'}`
+      : undefined;
+
+  if (!delegationError) {
+    delegation.forEach(result => {
+      if (result.state === 'lame') {
+        problems.push({ level: 'error', message: `Lame delegation: ${result.host} (${result.error})` });
+      } else if (result.state === 'unreachable') {
+        problems.push({ level: 'warning', message: `${result.host} did not answer: ${result.error}` });
+      }
+    });
+  }
+
+  return {
+    targetId: target.id,
+    zone,
+    status: problems.some(problem => problem.level === 'error')
+      ? 'error'
+      : problems.length > 0 ? 'warning' : 'healthy',
+    checkedAt,
+    serials,
+    serialSkew,
+    delegation,
+    ...(delegationError && { delegationError }),
+    issues: problems.map(problem => problem.message),
+  };
+};
@@ -0,0 +1,52 @@
+// DNS expectations
+// Compares observed record sets with the values a target declares for them
+
+import type { DnsDrift, DnsRecordExpectation } from '@/types';
+
+// Record types whose values start with a priority that expectations may leave out
+const PRIORITY_TYPES = new Set(['MX', 'SRV']);
+
+const normalize = (value: string): string => value.trim().toLowerCase().replace(/\.$/, '');
+
+/**
+ * Check whether an observed value satisfies an expected one, ignoring case and trailing dots.
+ * For MX and SRV an expected host alone matches the target of the observed value.
+ */
+export const valueMatches = (type: string, expected: string, observed: string): boolean => {
+  const want = normalize(expected);
+  const have = normalize(observed);
+
+  if (want === have) return true;
+  if (!PRIORITY_TYPES.has(type.toUpperCase()) || want.includes(' ')) return false;
+
+  return have.split(/\s+/).pop() === want;
+};
+
+/**
+ * Compare an observed record set with its expectation, returning the drift or null when it matches
+ */
+export const evaluateExpectation = (expectation: DnsRecordExpectation, values: string[]): DnsDrift | null => {
+  const match = expectation.match ?? 'exact';
+  const missing = expectation.values.filter(
+    expected => !values.some(observed => valueMatches(expectation.type, expected, observed))
+  );
+  const unexpected = match === 'exact'
+    ? values.filter(observed => !expectation.values.some(expected => valueMatches(expectation.type, expected, observed)))
+    : [];
+
+  if (missing.length === 0 && unexpected.length === 0) {
+    return null;
+  }
+  return { match, expected: expectation.values, missing, unexpected };
+};
+
+/**
+ * Describe a drift for display, e.g. "A record drifted: missing 10.0.0.5; unexpected 10.0.0.6"
+ */
+export const describeDrift = (type: string, drift: DnsDrift): string => {
+  const parts = [
+    ...(drift.missing.length > 0 ? [`missing ${drift.missing.join(', ')}`] : []),
+    ...(drift.unexpected.length > 0 ? [`unexpected ${drift.unexpected.join(', ')}`] : []),
+  ];
+  return `${type} record drifted: ${parts.join('; ')}`;
+};
@@ -0,0 +1,191 @@
+// DNS history service
+// Keeps the history of observed record sets and emits a change whenever a set differs from the last one
+
+import { logger } from '@/lib/logger';
+import { generateId } from '@/lib/utils';
+import { isLocalStorageAvailable, safeJsonParse } from '@/lib/storage';
+import { STORAGE_CONFIG } from '@/config';
+import type { DnsObservation, DnsRecordChange } from '@/types';
+
+type ChangeListener = (change: DnsRecordChange) => void;
+
+interface ChangeFilter {
+  targetId?: string;
+  type?: string;
+  since?: Date;
+}
+
+interface StoredHistory {
+  observations: Array<Omit<DnsObservation, 'firstSeen' | 'lastSeen'> & { firstSeen: string; lastSeen: string }>;
+  changes: Array<Omit<DnsRecordChange, 'detectedAt'> & { detectedAt: string }>;
+}
+
+const sameSet = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every(value => b.includes(value));
+
+class DnsHistoryService {
+  private observations: DnsObservation[] = [];
+  private changes: DnsRecordChange[] = [];
+  private listeners: ChangeListener[] = [];
+
+  constructor() {
+    this.loadHistory();
+  }
+
+  /**
+   * Record the set observed for a record type. Returns the change when it differs from the
+   * previous observation; the first observation of a record only starts its history.
+   */
+  recordObservation(
+    targetId: string,
+    domain: string,
+    type: string,
+    values: string[],
+    observedAt: Date = new Date()
+  ): DnsRecordChange | null {
+    const current = [...values].sort();
+    const last = this.getLatestObservation(targetId, type);
+
+    if (last && sameSet(last.values, current)) {
+      last.lastSeen = observedAt;
+      this.saveHistory();
+      return null;
+    }
+
+    this.observations.push({ targetId, type, values: current, firstSeen: observedAt, lastSeen: observedAt });
+
+    if (!last) {
+      this.saveHistory();
+      return null;
+    }
+
+    const change: DnsRecordChange = {
+      id: generateId(),
+      targetId,
+      domain,
+      type,
+      previous: last.values,
+      current,
+      added: current.filter(value => !last.values.includes(value)),
+      removed: last.values.filter(value => !current.includes(value)),
+      detectedAt: observedAt,
+    };
+    this.changes.push(change);
+    this.saveHistory();
+
+    logger.warn(
+      `${type} record for ${domain} changed from [${change.previous.join(', ')}] to [${current.join(', ')}]`,
+      'DnsHistoryService'
+    );
+    this.notify(change);
+
+    return change;
+  }
+
+  /**
+   * Get the observed sets of a target, oldest first
+   */
+  getObservations(targetId: string, type?: string): DnsObservation[] {
+    return this.observations.filter(
+      observation => observation.targetId === targetId && (!type || observation.type === type)
+    );
+  }
+
+  getLatestObservation(targetId: string, type: string): DnsObservation | null {
+    return this.getObservations(targetId, type).pop() || null;
+  }
+
+  /**
+   * Get record set changes, newest first
+   */
+  getChanges(filter: ChangeFilter = {}): DnsRecordChange[] {
+    return this.changes
+      .filter(change => !filter.targetId || change.targetId === filter.targetId)
+      .filter(change => !filter.type || change.type === filter.type)
+      .filter(change => !filter.since || change.detectedAt >= filter.since)
+      .sort((a, b) => b.detectedAt.getTime() - a.detectedAt.getTime());
+  }
+
+  /**
+   * Subscribe to record set changes, returning an unsubscribe function
+   */
+  subscribe(listener: ChangeListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Forget every observation and change
+   */
+  clear(): void {
+    this.observations = [];
+    this.changes = [];
+    this.saveHistory();
+  }
+
+  private notify(change: DnsRecordChange): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(change);
+      } catch (error) {
+        logger.error('DNS change listener failed', 'DnsHistoryService', error);
+      }
+    });
+  }
+
+  private loadHistory(): void {
+    if (!isLocalStorageAvailable()) return;
+
+    const stored = safeJsonParse<StoredHistory>(
+      localStorage.getItem(STORAGE_CONFIG.keys.dnsHistory) || '{}',
+      { observations: [], changes: [] }
+    );
+
+    this.observations = (stored.observations || []).map(({ firstSeen, lastSeen, ...observation }) => ({
+      ...observation,
+      firstSeen: new Date(firstSeen),
+      lastSeen: new Date(lastSeen),
+    }));
+    this.changes = (stored.changes || []).map(({ detectedAt, ...change }) => ({
+      ...change,
+      detectedAt: new Date(detectedAt),
+    }));
+    this.pruneHistory();
+  }
+
+  /**
+   * Drop entries past the retention window, always keeping the latest observation of each record
+   * so that changes are still detected after a long pause
+   */
+  private pruneHistory(): void {
+    const { retention, maxObservations, maxChanges } = STORAGE_CONFIG.dnsHistory;
+    const cutoff = Date.now() - retention;
+    const latest = new Map<string, DnsObservation>();
+    this.observations.forEach(observation => latest.set(`${observation.targetId}:${observation.type}`, observation));
+    const kept = new Set(latest.values());
+
+    this.observations = this.observations
+      .filter(observation => kept.has(observation) || observation.lastSeen.getTime() >= cutoff)
+      .slice(-maxObservations);
+    this.changes = this.changes.filter(change => change.detectedAt.getTime() >= cutoff).slice(-maxChanges);
+  }
+
+  private saveHistory(): void {
+    this.pruneHistory();
+    if (!isLocalStorageAvailable()) return;
+
+    try {
+      localStorage.setItem(
+        STORAGE_CONFIG.keys.dnsHistory,
+        JSON.stringify({ observations: this.observations, changes: this.changes })
+      );
+    } catch (error) {
+      logger.warn('Failed to persist DNS history', 'DnsHistoryService', error);
+    }
+  }
+}
+
+export const dnsHistoryService = new DnsHistoryService();
+export type { DnsObservation, DnsRecordChange };
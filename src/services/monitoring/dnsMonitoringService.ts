@@ -1,76 +1,422 @@
 // DNS monitoring service
 // This service handles DNS record monitoring and domain health checks
 
-import type { DnsTarget, DnsRecord, DnsStats } from '@/types';
+import { logger } from '@/lib/logger';
+import { MONITORING_CONFIG } from '@/config';
+import { TIME_CONSTANTS } from '@/constants';
+import { timeSeriesService } from '@/services/storage/timeSeriesService';
+import { queryNameserver } from './dnsResolver';
+import { describeDrift, evaluateExpectation } from './dnsExpectations';
+import { dnsHistoryService } from './dnsHistoryService';
+import { checkNameserverHealth, describeMismatch, groupAnswers, updatePropagation } from './dnsConsistency';
+import { auditDomainSecurity } from './dnsSecurity';
+import { domainRegistrationService } from './domainRegistrationService';
+import { MonitoringScheduler } from './monitoringScheduler';
+import type {
+  DnsTarget,
+  DnsRecord,
+  DnsStats,
+  DnsNameserverResult,
+  DnsNameserverHealth,
+  DnsPropagation,
+  DnsSecurityAudit,
+  Settings,
+} from '@/types';
+
+type DnsListener = (record: DnsRecord) => void;
+type NameserverHealthListener = (health: DnsNameserverHealth) => void;
+type SecurityAuditListener = (audit: DnsSecurityAudit) => void;
+
+// A configured domain as stored in settings, where only domain and recordTypes are guaranteed
+type DnsDomainSetting = Pick<DnsTarget, 'domain'> &
+  Partial<Omit<DnsTarget, 'recordTypes'>> & { recordTypes: readonly string[] };
+
+type DnsPeriod = '24h' | '7d' | '30d';
+
+const PERIOD_WINDOWS: Record<DnsPeriod, number> = {
+  '24h': TIME_CONSTANTS.DAY,
+  '7d': TIME_CONSTANTS.WEEK,
+  '30d': TIME_CONSTANTS.MONTH,
+};
+
+const describeFailures = (results: DnsNameserverResult[]): string =>
+  results.map(result => `${result.nameserver}: ${result.error}`).join('; ');
 
 class DnsMonitoringService {
-  async checkDnsRecord(domain: string, recordType: string): Promise<DnsRecord> {
-    // Placeholder implementation
-    // In a real implementation, this would perform DNS lookups
-    return {
-      id: `${domain}-${recordType}`,
-      domain,
-      type: recordType,
-      name: domain,
-      value: this.getMockValueForRecordType(recordType, domain),
-      ttl: 300,
-      status: 'healthy',
-      lastCheck: new Date(),
-      responseTime: Math.floor(Math.random() * 100) + 10
+  private scheduler = new MonitoringScheduler<DnsTarget>(
+    target => this.runChecks(target),
+    target => `DNS ${target.domain}`,
+    'DnsMonitoringService'
+  );
+  private latestRecords: Map<string, DnsRecord> = new Map();
+  private propagations: Map<string, DnsPropagation> = new Map();
+  private nameserverHealth: Map<string, DnsNameserverHealth> = new Map();
+  private listeners: DnsListener[] = [];
+  private healthListeners: NameserverHealthListener[] = [];
+  private securityAudits: Map<string, DnsSecurityAudit> = new Map();
+  private securityListeners: SecurityAuditListener[] = [];
+
+  /**
+   * Build fully populated targets from the DNS settings, filling in defaults
+   */
+  resolveTargets(
+    dnsSettings: Partial<Omit<Settings['dns'], 'domains'>> & { domains: readonly DnsDomainSetting[] }
+  ): DnsTarget[] {
+    const defaults = MONITORING_CONFIG.dns;
+    const registrationExpiry = dnsSettings.registrationExpiry || {
+      warningDays: MONITORING_CONFIG.rdap.expiryWarningDays,
+      errorDays: MONITORING_CONFIG.rdap.expiryErrorDays,
     };
+    const defaultNameservers =
+      dnsSettings.defaultNameservers && dnsSettings.defaultNameservers.length > 0
+        ? dnsSettings.defaultNameservers
+        : [...defaults.defaultNameservers];
+
+    return dnsSettings.domains.map(domain => ({
+      id: domain.id || domain.domain,
+      domain: domain.domain,
+      recordTypes: domain.recordTypes.map(type => type.toUpperCase()),
+      nameservers: domain.nameservers && domain.nameservers.length > 0 ? domain.nameservers : defaultNameservers,
+      isActive: domain.isActive ?? true,
+      interval: domain.interval || MONITORING_CONFIG.polling.dnsCheck,
+      timeout: domain.timeout || dnsSettings.queryTimeout || defaults.defaultTimeout,
+      ...(domain.expectations && domain.expectations.length > 0 && {
+        expectations: domain.expectations.map(expectation => ({
+          ...expectation,
+          type: expectation.type.toUpperCase(),
+        })),
+      }),
+      ...(domain.dnssec && { dnssec: true }),
+      ...(domain.emailSecurity && { emailSecurity: true }),
+      ...(domain.dkimSelectors && domain.dkimSelectors.length > 0 && { dkimSelectors: domain.dkimSelectors }),
+      registrationExpiry: domain.registrationExpiry || registrationExpiry,
+    }));
+  }
+
+  /**
+   * Query every nameserver of a target for one record type and record the combined result.
+   * The record takes the set most nameservers agree on. It errors when no nameserver answers
+   * or the answer drifts from its expectation, and warns when nameservers fail or disagree.
+   */
+  async checkDnsRecord(target: DnsTarget, recordType: string): Promise<DnsRecord> {
+    const type = recordType.toUpperCase();
+    const id = `${target.id}:${type}`;
+    const timestamp = new Date();
+
+    const results = await Promise.all(
+      this.getNameservers(target).map(nameserver =>
+        queryNameserver(nameserver, target.domain, type, this.getTimeout(target))
+      )
+    );
+    const answered = results.filter(result => result.status === 'healthy');
+    const failed = results.filter(result => result.status !== 'healthy');
+    const groups = groupAnswers(results);
+
+    const propagation = updatePropagation(this.propagations.get(id) ?? null, results, timestamp);
+    if (propagation) {
+      this.propagations.set(id, propagation);
+    }
+
+    const base = {
+      id,
+      targetId: target.id,
+      domain: target.domain,
+      type,
+      nameservers: results,
+      timestamp,
+      ...(propagation && { propagation }),
+    };
+
+    const [majority] = groups;
+    const first = majority && answered.find(result => majority.nameservers.includes(result.nameserver));
+    if (!majority || !first) {
+      return this.recordResult(target, {
+        ...base,
+        value: '',
+        values: [],
+        ttl: 0,
+        status: 'error',
+        responseTime: Math.min(...results.map(result => result.responseTime)),
+        error: results.length === 1
+          ? failed[0]?.error || 'Query failed'
+          : `All nameservers failed: ${describeFailures(failed)}`,
+      });
+    }
+
+    const values = majority.values;
+    const priorities = first.answers.flatMap(answer => (answer.priority !== undefined ? [answer.priority] : []));
+    const expectation = target.expectations?.find(candidate => candidate.type === type);
+    const drift = expectation ? evaluateExpectation(expectation, values) : null;
+    const failures = failed.length > 0
+      ? `${failed.length} of ${results.length} nameservers failed: ${describeFailures(failed)}`
+      : null;
+    const mismatch = groups.length > 1 ? describeMismatch(groups) : null;
+    const errors = [drift && describeDrift(type, drift), mismatch, failures].filter(
+      (error): error is string => !!error
+    );
+
+    return this.recordResult(target, {
+      ...base,
+      value: values.join(', '),
+      values,
+      ttl: Math.min(...first.answers.map(answer => answer.ttl)),
+      ...(priorities.length > 0 && { priority: Math.min(...priorities) }),
+      status: drift ? 'error' : failures || mismatch ? 'warning' : 'healthy',
+      responseTime: Math.min(...answered.map(result => result.responseTime)),
+      ...(drift && { drift }),
+      ...(groups.length > 1 && { answerGroups: groups }),
+      ...(errors.length > 0 && { error: errors.join('; ') }),
+    });
   }
 
+  /**
+   * Check every configured record type of a target
+   */
   async checkAllRecords(target: DnsTarget): Promise<DnsRecord[]> {
-    // Placeholder implementation
-    const records: DnsRecord[] = [];
-    
-    for (const recordType of target.recordTypes) {
-      const record = await this.checkDnsRecord(target.domain, recordType);
-      records.push(record);
+    return Promise.all(target.recordTypes.map(recordType => this.checkDnsRecord(target, recordType)));
+  }
+
+  /**
+   * Compare SOA serials across the target's nameservers and check the zone's delegation for lame nameservers
+   */
+  async checkNameservers(target: DnsTarget): Promise<DnsNameserverHealth> {
+    const health = await checkNameserverHealth(target, this.getNameservers(target), this.getTimeout(target));
+    this.nameserverHealth.set(target.id, health);
+
+    if (health.status !== 'healthy') {
+      logger.warn(`Nameserver check for ${target.domain}: ${health.issues.join('; ')}`, 'DnsMonitoringService');
+    }
+
+    this.healthListeners.forEach(listener => {
+      try {
+        listener(health);
+      } catch (error) {
+        logger.error('Nameserver health listener failed', 'DnsMonitoringService', error);
+      }
+    });
+
+    return health;
+  }
+
+  /**
+   * Audit DNSSEC and email security records for a target, as enabled on it.
+   * Returns null when the target has neither audit enabled.
+   */
+  async auditSecurity(target: DnsTarget): Promise<DnsSecurityAudit | null> {
+    if (!target.dnssec && !target.emailSecurity) {
+      return null;
+    }
+
+    const audit = await auditDomainSecurity(target, MONITORING_CONFIG.dns.validatingResolver, this.getTimeout(target));
+    this.securityAudits.set(target.id, audit);
+
+    if (audit.status !== 'healthy') {
+      const problems = audit.findings.filter(item => item.severity !== 'info').map(item => item.message);
+      logger.warn(`Security audit for ${target.domain}: ${problems.join('; ')}`, 'DnsMonitoringService');
     }
-    
-    return records;
+
+    this.securityListeners.forEach(listener => {
+      try {
+        listener(audit);
+      } catch (error) {
+        logger.error('Security audit listener failed', 'DnsMonitoringService', error);
+      }
+    });
+
+    return audit;
   }
 
-  async getDnsStats(targetId: string, period: '24h' | '7d' | '30d'): Promise<DnsStats> {
-    // Placeholder implementation
+  /**
+   * Compute query stats for a target, or for one of its nameservers, from the recorded history
+   */
+  async getDnsStats(targetId: string, period: DnsPeriod, nameserver?: string): Promise<DnsStats> {
+    const summary = await timeSeriesService.summarize(this.getSeriesKey(targetId, nameserver), PERIOD_WINDOWS[period]);
+    const totalQueries = summary.count;
+    const successfulQueries = summary.fields.up?.sum || 0;
+    const responseTimes = summary.fields.responseTime;
+
     return {
-      totalQueries: 2880,
-      successfulQueries: 2875,
-      failedQueries: 5,
-      averageResponseTime: 45,
-      healthPercentage: 99.83
+      targetId,
+      totalQueries,
+      successfulQueries,
+      averageResponseTime: responseTimes ? Math.round(responseTimes.sum / responseTimes.count) : 0,
+      errorRate: totalQueries > 0 ? ((totalQueries - successfulQueries) / totalQueries) * 100 : 0,
     };
   }
 
+  /**
+   * Start periodic checks of a target, replacing any existing schedule for it
+   */
   async startMonitoring(target: DnsTarget): Promise<void> {
-    // Placeholder implementation
-    // In a real implementation, this would start periodic DNS monitoring
+    if (!target.isActive) {
+      await this.stopMonitoring(target.id);
+      logger.debug(`Skipping inactive DNS target ${target.id}`, 'DnsMonitoringService');
+      return;
+    }
+
+    const interval = target.interval || MONITORING_CONFIG.polling.dnsCheck;
+    logger.info(`Started DNS monitoring for ${target.domain} every ${interval}ms`, 'DnsMonitoringService');
+    // Query immediately instead of waiting a full interval for the first result
+    await this.scheduler.schedule(target.id, target, interval);
   }
 
   async stopMonitoring(targetId: string): Promise<void> {
-    // Placeholder implementation
-    // In a real implementation, this would stop periodic DNS monitoring
-  }
-
-  private getMockValueForRecordType(type: string, domain: string): string {
-    switch (type.toLowerCase()) {
-      case 'a':
-        return '192.168.1.1';
-      case 'aaaa':
-        return '2001:db8::1';
-      case 'cname':
-        return `www.${domain}`;
-      case 'mx':
-        return `10 mail.${domain}`;
-      case 'txt':
-        return 'v=spf1 include:_spf.google.com ~all';
-      case 'ns':
-        return `ns1.${domain}`;
-      default:
-        return 'unknown';
+    const target = this.scheduler.cancel(targetId);
+    if (target) {
+      logger.info(`Stopped DNS monitoring for ${target.domain}`, 'DnsMonitoringService');
+    }
+  }
+
+  /**
+   * Stop every running schedule
+   */
+  async stopAll(): Promise<void> {
+    this.scheduler.cancelAll();
+  }
+
+  /**
+   * Check whether a target currently has a running schedule
+   */
+  isMonitoring(targetId: string): boolean {
+    return this.scheduler.has(targetId);
+  }
+
+  /**
+   * Get the most recent result for each record type of a target
+   */
+  getLatestRecords(targetId: string): DnsRecord[] {
+    return Array.from(this.latestRecords.values()).filter(record => record.targetId === targetId);
+  }
+
+  /**
+   * Subscribe to every recorded result, returning an unsubscribe function
+   */
+  subscribe(listener: DnsListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Get the latest nameserver health check of a target
+   */
+  getNameserverHealth(targetId: string): DnsNameserverHealth | null {
+    return this.nameserverHealth.get(targetId) || null;
+  }
+
+  /**
+   * Subscribe to nameserver health results, returning an unsubscribe function
+   */
+  subscribeNameserverHealth(listener: NameserverHealthListener): () => void {
+    this.healthListeners.push(listener);
+    return () => {
+      this.healthListeners = this.healthListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Get the latest security audit of a target
+   */
+  getSecurityAudit(targetId: string): DnsSecurityAudit | null {
+    return this.securityAudits.get(targetId) || null;
+  }
+
+  /**
+   * Subscribe to security audit results, returning an unsubscribe function
+   */
+  subscribeSecurityAudits(listener: SecurityAuditListener): () => void {
+    this.securityListeners.push(listener);
+    return () => {
+      this.securityListeners = this.securityListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Run every scheduled check of a target once
+   */
+  private async runChecks(target: DnsTarget): Promise<void> {
+    await Promise.all([
+      this.checkAllRecords(target),
+      this.checkNameservers(target),
+      this.auditSecurity(target),
+      // Registries rate limit RDAP, so registration is checked far less often than records
+      domainRegistrationService.isDue(target.id) ? domainRegistrationService.checkRegistration(target) : null,
+    ]);
+  }
+
+  private getNameservers(target: DnsTarget): string[] {
+    return target.nameservers && target.nameservers.length > 0
+      ? target.nameservers
+      : [...MONITORING_CONFIG.dns.defaultNameservers];
+  }
+
+  private getTimeout(target: DnsTarget): number {
+    return target.timeout || MONITORING_CONFIG.dns.defaultTimeout;
+  }
+
+  private getSeriesKey(targetId: string, nameserver?: string): string {
+    return nameserver ? `dns:${targetId}@${nameserver}` : `dns:${targetId}`;
+  }
+
+  /**
+   * The record set a check observed, or null when no nameserver gave a definite answer.
+   * NXDOMAIN and empty answers observe an empty set, so records disappearing count as a change.
+   */
+  private getObservedValues(record: DnsRecord): string[] | null {
+    if (record.nameservers.some(result => result.status === 'healthy')) {
+      return record.values;
     }
+    return record.nameservers.some(result => result.rcode === 'NOERROR' || result.rcode === 'NXDOMAIN')
+      ? []
+      : null;
+  }
+
+  /**
+   * Store a record as the latest for its target and type, add it to the history,
+   * record every query and notify listeners
+   */
+  private recordResult(target: DnsTarget, record: DnsRecord): DnsRecord {
+    this.latestRecords.set(record.id, record);
+
+    const observed = this.getObservedValues(record);
+    if (observed) {
+      dnsHistoryService.recordObservation(target.id, record.domain, record.type, observed, record.timestamp);
+    }
+
+    // Each nameserver query is one sample, both for the target and for that nameserver
+    record.nameservers.forEach(result => {
+      const values = {
+        up: result.status === 'healthy' ? 1 : 0,
+        ...(result.rcode && { responseTime: result.responseTime }),
+      };
+      void timeSeriesService.record(this.getSeriesKey(target.id), values, record.timestamp.getTime());
+      void timeSeriesService.record(this.getSeriesKey(target.id, result.nameserver), values, record.timestamp.getTime());
+    });
+
+    if (record.status !== 'healthy') {
+      logger.warn(`DNS check failed for ${record.type} ${record.domain}: ${record.error}`, 'DnsMonitoringService');
+    }
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(record);
+      } catch (error) {
+        logger.error('DNS record listener failed', 'DnsMonitoringService', error);
+      }
+    });
+
+    return record;
   }
 }
 
 export const dnsMonitoringService = new DnsMonitoringService();
+export type {
+  DnsTarget,
+  DnsRecord,
+  DnsStats,
+  DnsNameserverResult,
+  DnsNameserverHealth,
+  DnsPropagation,
+  DnsSecurityAudit,
+};
@@ -0,0 +1,263 @@
+// DNS resolver
+// Sends a single question to one nameserver over DoH (wire or JSON) or through the probe agent over UDP/TCP
+
+import { MONITORING_CONFIG } from '@/config';
+import { getErrorMessage } from '@/lib/error';
+import { probeAgentClient } from './probeAgentClient';
+import {
+  DNS_RCODES,
+  decodeMessage,
+  encodeQuery,
+  fromBase64,
+  getTypeCode,
+  getTypeName,
+  toBase64,
+  toBase64Url,
+  type DnsMessage,
+} from './dnsWireFormat';
+import type { DnsAnswer, DnsNameserver, DnsNameserverResult } from '@/types';
+
+// Response of the DoH JSON API (application/dns-json)
+interface DohJsonResponse {
+  Status: number;
+  TC?: boolean;
+  AD?: boolean;
+  Answer?: Array<{ name: string; type: number; TTL: number; data: string }>;
+}
+
+export interface QueryOptions {
+  // Clear to ask an authoritative server about its own zone; DoH resolvers always recurse
+  recursionDesired?: boolean;
+  // Ask for RRSIG records; validating resolvers then also report whether the answer is authenticated
+  dnssecOk?: boolean;
+}
+
+// Record types whose data contains domain names, which the JSON API writes fully qualified
+const NAME_TYPES = new Set(['CNAME', 'NS', 'PTR', 'MX', 'SOA', 'SRV', 'RRSIG']);
+
+/**
+ * Parse a configured nameserver. DoH endpoints are URLs; `https+json://` selects the JSON API.
+ * Anything else is a plain server reached through the probe agent, as `udp://host:port`,
+ * `tcp://host:port` or a bare host, with IPv6 addresses in brackets when a port is given.
+ */
+export const parseNameserver = (spec: string): DnsNameserver => {
+  const trimmed = spec.trim();
+
+  if (/^https:\/\//i.test(trimmed)) {
+    return { address: trimmed, protocol: 'doh' };
+  }
+  if (/^https\+json:\/\//i.test(trimmed)) {
+    return { address: trimmed.replace(/^https\+json:/i, 'https:'), protocol: 'doh-json' };
+  }
+
+  const match = /^(udp|tcp):\/\/(.+)$/i.exec(trimmed);
+  const protocol = match?.[1]?.toLowerCase() === 'tcp' ? 'tcp' : 'udp';
+  const hostPort = (match?.[2] ?? trimmed).replace(/\/$/, '');
+
+  const bracketed = /^\[([^\]]+)\](?::(\d+))?$/.exec(hostPort);
+  const withPort = /^([^:]+):(\d+)$/.exec(hostPort);
+  const [address, port] = bracketed
+    ? [bracketed[1] ?? '', bracketed[2]]
+    : withPort
+      ? [withPort[1] ?? '', withPort[2]]
+      : [hostPort, undefined];
+
+  if (!address) {
+    throw new Error(`Invalid nameserver ${spec}`);
+  }
+
+  return { address, protocol, port: port ? Number(port) : MONITORING_CONFIG.dns.defaultPort };
+};
+
+/**
+ * Read the character strings of TXT data as written by the JSON API, e.g. "part one" "part two"
+ */
+const unquoteTxt = (data: string): string => {
+  const chunks = Array.from(data.matchAll(/"((?:[^"\\]|\\.)*)"/g), match =>
+    (match[1] ?? '').replace(/\\(.)/g, '$1')
+  );
+  return chunks.length > 0 ? chunks.join('') : data;
+};
+
+/**
+ * Bring JSON API record data to the same presentation format the wire decoder produces
+ */
+const normalizeJsonAnswer = (answer: NonNullable<DohJsonResponse['Answer']>[number]): DnsAnswer => {
+  const type = getTypeName(answer.type);
+  const base = { name: answer.name.replace(/\.$/, ''), type, ttl: answer.TTL };
+
+  if (type === 'TXT') {
+    return { ...base, value: unquoteTxt(answer.data) };
+  }
+
+  const tokens = answer.data.trim().split(/\s+/);
+  // Some resolvers write the covered type of a signature in lower case
+  if (type === 'RRSIG' && tokens[0]) {
+    tokens[0] = tokens[0].toUpperCase();
+  }
+  const value = NAME_TYPES.has(type)
+    ? tokens.map(token => token.replace(/(.)\.$/, '$1')).join(' ')
+    : tokens.join(' ');
+  const priority = type === 'MX' || type === 'SRV' ? Number(tokens[0]) : NaN;
+
+  return { ...base, value, ...(!Number.isNaN(priority) && { priority }) };
+};
+
+const fetchDoh = async (url: string, accept: string, timeout: number): Promise<Response> => {
+  const response = await fetch(url, {
+    headers: { Accept: accept },
+    cache: 'no-store',
+    signal: AbortSignal.timeout(timeout),
+  });
+
+  if (!response.ok) {
+    throw new Error(`DoH server responded with HTTP ${response.status}`);
+  }
+  return response;
+};
+
+const queryDohWire = async (
+  nameserver: DnsNameserver,
+  name: string,
+  type: string,
+  timeout: number,
+  options: QueryOptions
+): Promise<DnsMessage> => {
+  const separator = nameserver.address.includes('?') ? '&' : '?';
+  const query = encodeQuery(name, type, { ...(options.dnssecOk && { dnssecOk: true }) });
+  const url = `${nameserver.address}${separator}dns=${toBase64Url(query)}`;
+  const response = await fetchDoh(url, 'application/dns-message', timeout);
+
+  return decodeMessage(new Uint8Array(await response.arrayBuffer()));
+};
+
+const queryDohJson = async (
+  nameserver: DnsNameserver,
+  name: string,
+  type: string,
+  timeout: number,
+  options: QueryOptions
+): Promise<DnsMessage> => {
+  const url = new URL(nameserver.address);
+  url.searchParams.set('name', name);
+  url.searchParams.set('type', String(getTypeCode(type)));
+  if (options.dnssecOk) {
+    url.searchParams.set('do', '1');
+  }
+
+  const response = await fetchDoh(url.toString(), 'application/dns-json', timeout);
+  const data = (await response.json()) as DohJsonResponse;
+
+  return {
+    id: 0,
+    rcode: DNS_RCODES[data.Status] ?? `RCODE${data.Status}`,
+    truncated: data.TC === true,
+    authoritative: false,
+    authenticated: data.AD === true,
+    answers: (data.Answer ?? []).map(normalizeJsonAnswer),
+    authority: [],
+  };
+};
+
+const queryThroughAgent = async (
+  nameserver: DnsNameserver,
+  name: string,
+  type: string,
+  timeout: number,
+  transport: 'udp' | 'tcp',
+  options: QueryOptions
+): Promise<DnsMessage> => {
+  const id = Math.floor(Math.random() * 0x10000);
+  const response = await probeAgentClient.queryDns({
+    server: nameserver.address,
+    port: nameserver.port ?? MONITORING_CONFIG.dns.defaultPort,
+    transport,
+    query: toBase64(encodeQuery(name, type, { id, ...options })),
+    timeout,
+  });
+  const message = decodeMessage(fromBase64(response));
+
+  if (message.id !== id) {
+    throw new Error('Nameserver answered with a mismatched query id');
+  }
+  // A truncated UDP answer is incomplete, so ask again over TCP
+  if (message.truncated && transport === 'udp') {
+    return queryThroughAgent(nameserver, name, type, timeout, 'tcp', options);
+  }
+  return message;
+};
+
+const sendQuery = (
+  nameserver: DnsNameserver,
+  name: string,
+  type: string,
+  timeout: number,
+  options: QueryOptions
+): Promise<DnsMessage> => {
+  switch (nameserver.protocol) {
+    case 'doh':
+      return queryDohWire(nameserver, name, type, timeout, options);
+    case 'doh-json':
+      return queryDohJson(nameserver, name, type, timeout, options);
+    case 'udp':
+    case 'tcp':
+      return queryThroughAgent(nameserver, name, type, timeout, nameserver.protocol, options);
+  }
+};
+
+/**
+ * Ask one nameserver for the records of a type and grade the answer.
+ * Only answers of the requested type count, so a CNAME on its own does not satisfy an A query.
+ * With `dnssecOk` the signatures covering those answers are returned separately.
+ */
+export const queryNameserver = async (
+  spec: string,
+  name: string,
+  type: string,
+  timeout: number,
+  options: QueryOptions = {}
+): Promise<DnsNameserverResult> => {
+  const startTime = performance.now();
+  const elapsed = () => Math.round(performance.now() - startTime);
+  let nameserver: DnsNameserver | null = null;
+
+  try {
+    nameserver = parseNameserver(spec);
+    const message = await sendQuery(nameserver, name, type.toUpperCase(), timeout, options);
+    const responseTime = elapsed();
+    const answers = message.answers.filter(answer => answer.type === type.toUpperCase());
+    const signatures = message.answers.filter(
+      answer => answer.type === 'RRSIG' && answer.value.split(' ')[0] === type.toUpperCase()
+    );
+    const base = {
+      nameserver: spec,
+      protocol: nameserver.protocol,
+      rcode: message.rcode,
+      responseTime,
+      answers,
+      authoritative: message.authoritative,
+      authenticated: message.authenticated,
+      ...(options.dnssecOk && { signatures }),
+    };
+
+    if (message.rcode !== 'NOERROR') {
+      return { ...base, status: 'error', error: `Nameserver returned ${message.rcode}` };
+    }
+    if (answers.length === 0) {
+      return { ...base, status: 'error', error: `No ${type.toUpperCase()} records found` };
+    }
+    return { ...base, status: 'healthy' };
+  } catch (error) {
+    const timedOut = error instanceof DOMException && error.name === 'TimeoutError';
+
+    return {
+      nameserver: spec,
+      protocol: nameserver?.protocol ?? 'udp',
+      status: 'error',
+      rcode: '',
+      responseTime: elapsed(),
+      answers: [],
+      error: timedOut ? `Query timed out after ${timeout}ms` : getErrorMessage(error),
+    };
+  }
+};
@@ -0,0 +1,421 @@
+// DNS security
+// DNSSEC validation through a validating resolver, and audits of the SPF, DMARC, DKIM and
+// MTA-STS records that protect a domain's mail
+
+import { MONITORING_CONFIG } from '@/config';
+import { TIME_CONSTANTS } from '@/constants';
+import { formatDate } from '@/lib/date';
+import { queryNameserver } from './dnsResolver';
+import { findZone } from './dnsConsistency';
+import type {
+  DnsDkimResult,
+  DnsDmarcResult,
+  DnsDnssecResult,
+  DnsMtaStsResult,
+  DnsSecurityAudit,
+  DnsSecurityCategory,
+  DnsSecurityFinding,
+  DnsSignature,
+  DnsSpfResult,
+  DnsTarget,
+} from '@/types';
+
+interface TxtLookup {
+  values: string[];
+  error?: string;
+}
+
+interface SpfCount {
+  lookups: number;
+  problems: string[];
+}
+
+// RFC 7208 section 4.6.4: evaluating a record may take at most 10 DNS lookups
+export const SPF_LOOKUP_LIMIT = 10;
+
+// Terms that cost a DNS lookup; include and redirect are followed as well
+const SPF_LOOKUP_TERM = /^[+\-~?]?(?:a|mx|ptr)(?:[:/]|$)|^[+\-~?]?exists:/i;
+
+const isSpf = (value: string): boolean => /^v=spf1(\s|$)/i.test(value);
+
+const finding = (
+  category: DnsSecurityCategory,
+  severity: DnsSecurityFinding['severity'],
+  message: string
+): DnsSecurityFinding => ({ category, severity, message });
+
+/**
+ * Parse a tag list such as "v=DMARC1; p=reject; rua=mailto:…" into lower-cased tags
+ */
+export const parseTags = (record: string): Record<string, string> =>
+  Object.fromEntries(
+    record
+      .split(';')
+      .map(part => part.trim())
+      .filter(part => part.includes('='))
+      .map(part => {
+        const index = part.indexOf('=');
+        return [part.slice(0, index).trim().toLowerCase(), part.slice(index + 1).trim()];
+      })
+  );
+
+/**
+ * Look up the TXT records of a name. A name without TXT records is not an error.
+ */
+const lookupTxt = async (resolver: string, name: string, timeout: number): Promise<TxtLookup> => {
+  const result = await queryNameserver(resolver, name, 'TXT', timeout);
+
+  if (result.status === 'healthy' || result.rcode === 'NOERROR' || result.rcode === 'NXDOMAIN') {
+    return { values: result.answers.map(answer => answer.value) };
+  }
+  return { values: [], error: result.error || 'Lookup failed' };
+};
+
+/**
+ * Count the DNS lookups an SPF record needs, following include and redirect terms.
+ * `ancestors` holds the domains on the include path down to this record, so a domain included
+ * from two branches is counted twice, as receivers do, while one that includes itself is a loop.
+ */
+const countSpfLookups = async (
+  record: string,
+  resolver: string,
+  timeout: number,
+  ancestors: ReadonlySet<string>
+): Promise<SpfCount> => {
+  let lookups = 0;
+  const problems: string[] = [];
+
+  for (const term of record.split(/\s+/).slice(1)) {
+    const nested = /^[+\-~?]?include:(.+)$/i.exec(term)?.[1] ?? /^redirect=(.+)$/i.exec(term)?.[1];
+
+    if (!nested) {
+      if (SPF_LOOKUP_TERM.test(term)) lookups++;
+      continue;
+    }
+
+    lookups++;
+    const domain = nested.toLowerCase().replace(/\.$/, '');
+    // Macros expand per message, so their records cannot be looked up ahead of time
+    if (domain.includes('%{')) continue;
+    if (ancestors.has(domain)) {
+      problems.push(`SPF lookups loop back to ${domain}`);
+      continue;
+    }
+
+    const { values, error } = await lookupTxt(resolver, domain, timeout);
+    const nestedRecord = values.find(isSpf);
+    if (!nestedRecord) {
+      problems.push(error ? `Could not look up SPF for ${domain}: ${error}` : `${domain} has no SPF record`);
+      continue;
+    }
+
+    const count = await countSpfLookups(nestedRecord, resolver, timeout, new Set([...ancestors, domain]));
+    lookups += count.lookups;
+    problems.push(...count.problems);
+  }
+
+  return { lookups, problems };
+};
+
+const auditSpf = async (
+  domain: string,
+  lookup: TxtLookup,
+  resolver: string,
+  timeout: number,
+  findings: DnsSecurityFinding[]
+): Promise<DnsSpfResult | null> => {
+  const records = lookup.values.filter(isSpf);
+
+  if (lookup.error) {
+    findings.push(finding('spf', 'warning', `Could not look up the SPF record: ${lookup.error}`));
+    return null;
+  }
+  if (records.length === 0) {
+    findings.push(finding('spf', 'warning', `No SPF record for ${domain}`));
+    return null;
+  }
+  if (records.length > 1) {
+    findings.push(finding('spf', 'error', `${records.length} SPF records found; receivers treat this as a permanent error`));
+  }
+
+  const record = records[0] ?? '';
+  const { lookups, problems } = await countSpfLookups(record, resolver, timeout, new Set([domain.toLowerCase()]));
+  const terms = record.toLowerCase().split(/\s+/);
+
+  if (lookups > SPF_LOOKUP_LIMIT) {
+    findings.push(
+      finding('spf', 'error', `SPF record needs ${lookups} DNS lookups, more than the limit of ${SPF_LOOKUP_LIMIT}`)
+    );
+  }
+  problems.forEach(problem => findings.push(finding('spf', 'warning', problem)));
+  if (terms.includes('+all') || terms.includes('all')) {
+    findings.push(finding('spf', 'error', 'SPF record ends with +all, which authorizes every sender'));
+  } else if (!terms.some(term => /^[~\-?]all$/.test(term) || term.startsWith('redirect='))) {
+    findings.push(finding('spf', 'warning', 'SPF record has no all mechanism, so unlisted senders are not rejected'));
+  }
+
+  return { record, lookups };
+};
+
+const auditDmarc = (domain: string, lookup: TxtLookup, findings: DnsSecurityFinding[]): DnsDmarcResult | null => {
+  const records = lookup.values.filter(value => /^v=DMARC1\s*(;|$)/i.test(value));
+
+  if (lookup.error) {
+    findings.push(finding('dmarc', 'warning', `Could not look up the DMARC record: ${lookup.error}`));
+    return null;
+  }
+  if (records.length === 0) {
+    findings.push(finding('dmarc', 'warning', `No DMARC record at _dmarc.${domain}`));
+    return null;
+  }
+  if (records.length > 1) {
+    findings.push(finding('dmarc', 'error', `${records.length} DMARC records found; receivers ignore all of them`));
+  }
+
+  const record = records[0] ?? '';
+  const tags = parseTags(record);
+  const policy = (tags.p ?? '').toLowerCase();
+  const percent = tags.pct === undefined ? 100 : Number(tags.pct);
+
+  if (!policy) {
+    findings.push(finding('dmarc', 'error', 'DMARC record has no policy (p=)'));
+  } else if (policy === 'none') {
+    findings.push(finding('dmarc', 'warning', 'DMARC policy is p=none, so mail failing authentication is still delivered'));
+  }
+  if (policy && policy !== 'none' && percent < 100) {
+    findings.push(finding('dmarc', 'warning', `DMARC policy only applies to ${percent}% of failing mail`));
+  }
+  if (!tags.rua) {
+    findings.push(finding('dmarc', 'info', 'DMARC record has no rua= address, so no aggregate reports are sent'));
+  }
+
+  return { record, policy, percent };
+};
+
+const auditDkim = (
+  domain: string,
+  selectors: string[],
+  lookups: TxtLookup[],
+  findings: DnsSecurityFinding[]
+): DnsDkimResult[] => {
+  if (selectors.length === 0) {
+    findings.push(finding('dkim', 'info', 'No DKIM selectors configured, so DKIM keys are not checked'));
+  }
+
+  return selectors.map((selector, index) => {
+    const lookup = lookups[index] ?? { values: [] };
+    const record = lookup.values.find(value => /^v=DKIM1\s*(;|$)/i.test(value) || 'p' in parseTags(value)) ?? null;
+
+    if (lookup.error) {
+      findings.push(finding('dkim', 'warning', `Could not look up DKIM selector ${selector}: ${lookup.error}`));
+    } else if (!record) {
+      findings.push(finding('dkim', 'error', `DKIM selector ${selector} has no key at ${selector}._domainkey.${domain}`));
+    } else if (!parseTags(record).p) {
+      findings.push(finding('dkim', 'warning', `DKIM selector ${selector} has an empty key and is revoked`));
+    }
+
+    return { selector, record };
+  });
+};
+
+const auditMtaSts = (lookup: TxtLookup, findings: DnsSecurityFinding[]): DnsMtaStsResult | null => {
+  const record = lookup.values.find(value => /^v=STSv1\s*(;|$)/i.test(value));
+
+  if (lookup.error) {
+    findings.push(finding('mta-sts', 'warning', `Could not look up the MTA-STS record: ${lookup.error}`));
+    return null;
+  }
+  if (!record) {
+    findings.push(finding('mta-sts', 'info', 'No MTA-STS record, so TLS is not enforced for incoming mail'));
+    return null;
+  }
+
+  const id = parseTags(record).id ?? '';
+  if (!id) {
+    findings.push(finding('mta-sts', 'error', 'MTA-STS record has no id='));
+  }
+  return { record, id };
+};
+
+/**
+ * Read an RRSIG timestamp, written as YYYYMMDDHHmmSS or, by some JSON APIs, as seconds since the epoch
+ */
+const parseSignatureTime = (value: string): Date => {
+  const parts = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/.exec(value);
+  if (!parts) {
+    return new Date(Number(value) * 1000);
+  }
+
+  const [year, month, day, hours, minutes, seconds] = parts.slice(1).map(Number);
+  return new Date(Date.UTC(year ?? 0, (month ?? 1) - 1, day, hours, minutes, seconds));
+};
+
+const parseSignature = (name: string, value: string): DnsSignature => {
+  const [typeCovered = '', , , , expiration = '', inception = '', keyTag = '', signer = ''] = value.split(' ');
+
+  return {
+    name,
+    typeCovered,
+    keyTag: Number(keyTag),
+    signer,
+    inception: parseSignatureTime(inception),
+    expiration: parseSignatureTime(expiration),
+  };
+};
+
+// A validating resolver answers SERVFAIL when signatures do not validate
+const bogusMessage = (resolver: string, name: string): string =>
+  `${resolver} returned SERVFAIL for ${name}; its signatures likely do not validate`;
+
+/**
+ * Check that the target's zone is signed, that its chain of trust validates and that no
+ * signature is about to expire
+ */
+const auditDnssec = async (
+  target: DnsTarget,
+  resolver: string,
+  timeout: number,
+  now: Date,
+  findings: DnsSecurityFinding[]
+): Promise<DnsDnssecResult | undefined> => {
+  const found = await findZone(target.domain, [resolver], timeout);
+  if (!found) {
+    const probe = await queryNameserver(resolver, target.domain, 'SOA', timeout, { dnssecOk: true });
+    findings.push(
+      probe.rcode === 'SERVFAIL'
+        ? finding('dnssec', 'error', bogusMessage(resolver, target.domain))
+        : finding('dnssec', 'error', `Could not find the zone of ${target.domain} through ${resolver}`)
+    );
+    return undefined;
+  }
+
+  const { zone } = found;
+  const signed = [
+    { name: zone, type: 'SOA' },
+    ...target.recordTypes.map(type => ({ name: target.domain, type })),
+  ];
+  const [ds, dnskey, ...records] = await Promise.all([
+    queryNameserver(resolver, zone, 'DS', timeout, { dnssecOk: true }),
+    queryNameserver(resolver, zone, 'DNSKEY', timeout, { dnssecOk: true }),
+    ...signed.map(({ name, type }) => queryNameserver(resolver, name, type, timeout, { dnssecOk: true })),
+  ]);
+  const results = [ds, dnskey, ...records];
+
+  const signatures = results.flatMap(result =>
+    (result.signatures ?? []).map(signature => parseSignature(signature.name, signature.value))
+  );
+  const answered = results.filter(result => result.status === 'healthy');
+  const validated = answered.length > 0 && answered.every(result => result.authenticated === true);
+  const dnssec: DnsDnssecResult = {
+    resolver,
+    zone,
+    validated,
+    ds: ds.answers.map(answer => answer.value),
+    dnskeys: dnskey.answers.map(answer => answer.value),
+    signatures,
+    ...(signatures.length > 0 && {
+      nextExpiration: new Date(Math.min(...signatures.map(signature => signature.expiration.getTime()))),
+    }),
+  };
+
+  const failed = results.find(result => result.rcode === 'SERVFAIL' || !result.rcode);
+  if (failed) {
+    findings.push(
+      failed.rcode
+        ? finding('dnssec', 'error', bogusMessage(resolver, zone))
+        : finding('dnssec', 'warning', `Could not check DNSSEC: ${failed.error}`)
+    );
+    return dnssec;
+  }
+
+  if (dnssec.ds.length === 0 && dnssec.dnskeys.length === 0) {
+    findings.push(finding('dnssec', 'error', `${zone} is not signed: no DS or DNSKEY records`));
+    return dnssec;
+  }
+  if (dnssec.ds.length === 0) {
+    findings.push(finding('dnssec', 'error', `${zone} has DNSKEY records but no DS record at its parent, so the chain of trust is broken`));
+  } else if (dnssec.dnskeys.length === 0) {
+    findings.push(finding('dnssec', 'error', `${zone} has a DS record at its parent but publishes no DNSKEY records`));
+  }
+  if (signatures.length === 0) {
+    findings.push(finding('dnssec', 'error', `No RRSIG records returned for ${zone}`));
+  } else if (!validated) {
+    findings.push(finding('dnssec', 'error', `${resolver} did not validate the chain of trust (AD flag not set)`));
+  }
+
+  // A record set stays valid as long as one of its signatures does
+  const latestBySet = new Map<string, DnsSignature>();
+  signatures.forEach(signature => {
+    const key = `${signature.typeCovered} ${signature.name}`;
+    const latest = latestBySet.get(key);
+    if (!latest || signature.expiration > latest.expiration) {
+      latestBySet.set(key, signature);
+    }
+  });
+
+  const warningDays = MONITORING_CONFIG.dns.signatureWarningDays;
+  latestBySet.forEach((signature, key) => {
+    const daysRemaining = Math.floor((signature.expiration.getTime() - now.getTime()) / TIME_CONSTANTS.DAY);
+
+    if (signature.expiration <= now) {
+      findings.push(finding('dnssec', 'error', `RRSIG for ${key} expired on ${formatDate(signature.expiration)}`));
+    } else if (daysRemaining < warningDays) {
+      findings.push(
+        finding('dnssec', 'warning', `RRSIG for ${key} expires in ${daysRemaining} ${daysRemaining === 1 ? 'day' : 'days'}`)
+      );
+    }
+  });
+
+  return dnssec;
+};
+
+/**
+ * Audit the DNSSEC and email security records of a target, as enabled on it.
+ * All lookups go through the validating resolver, since the target's own nameservers
+ * may not recurse into the domains SPF records include.
+ */
+export const auditDomainSecurity = async (
+  target: DnsTarget,
+  resolver: string,
+  timeout: number
+): Promise<DnsSecurityAudit> => {
+  const checkedAt = new Date();
+  const findings: DnsSecurityFinding[] = [];
+  const domain = target.domain.replace(/\.$/, '');
+  const selectors = target.dkimSelectors ?? [];
+
+  const [dnssec, email] = await Promise.all([
+    target.dnssec ? auditDnssec(target, resolver, timeout, checkedAt, findings) : Promise.resolve(undefined),
+    target.emailSecurity
+      ? Promise.all([
+          lookupTxt(resolver, domain, timeout),
+          lookupTxt(resolver, `_dmarc.${domain}`, timeout),
+          lookupTxt(resolver, `_mta-sts.${domain}`, timeout),
+          Promise.all(selectors.map(selector => lookupTxt(resolver, `${selector}._domainkey.${domain}`, timeout))),
+        ])
+      : Promise.resolve(null),
+  ]);
+
+  let emailResults: Pick<DnsSecurityAudit, 'spf' | 'dmarc' | 'dkim' | 'mtaSts'> = {};
+  if (email) {
+    const [apex, dmarc, mtaSts, dkim] = email;
+    emailResults = {
+      spf: await auditSpf(domain, apex, resolver, timeout, findings),
+      dmarc: auditDmarc(domain, dmarc, findings),
+      dkim: auditDkim(domain, selectors, dkim, findings),
+      mtaSts: auditMtaSts(mtaSts, findings),
+    };
+  }
+
+  return {
+    targetId: target.id,
+    domain,
+    status: findings.some(item => item.severity === 'error')
+      ? 'error'
+      : findings.some(item => item.severity === 'warning') ? 'warning' : 'healthy',
+    checkedAt,
+    ...(dnssec && { dnssec }),
+    ...emailResults,
+    findings,
+  };
+};
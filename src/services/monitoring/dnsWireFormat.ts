@@ -0,0 +1,361 @@
+// DNS wire format
+// Encodes queries and decodes responses in the RFC 1035 message format used by RFC 8484 DoH
+
+import type { DnsAnswer } from '@/types';
+
+export const DNS_TYPE_CODES: Record<string, number> = {
+  A: 1,
+  NS: 2,
+  CNAME: 5,
+  SOA: 6,
+  PTR: 12,
+  MX: 15,
+  TXT: 16,
+  AAAA: 28,
+  SRV: 33,
+  DS: 43,
+  RRSIG: 46,
+  DNSKEY: 48,
+  CAA: 257,
+};
+
+const DNS_TYPE_NAMES: Record<number, string> = Object.fromEntries(
+  Object.entries(DNS_TYPE_CODES).map(([name, code]) => [code, name])
+);
+
+export const DNS_RCODES: Record<number, string> = {
+  0: 'NOERROR',
+  1: 'FORMERR',
+  2: 'SERVFAIL',
+  3: 'NXDOMAIN',
+  4: 'NOTIMP',
+  5: 'REFUSED',
+};
+
+const CLASS_IN = 1;
+const TYPE_OPT = 41;
+const EDNS_UDP_SIZE = 1232;
+
+export interface DnsMessage {
+  id: number;
+  rcode: string;
+  truncated: boolean;
+  authoritative: boolean; // AA flag, set by the zone's own nameservers
+  authenticated: boolean; // AD flag, set by validating resolvers
+  answers: DnsAnswer[];
+  authority: DnsAnswer[];
+}
+
+export interface DnsQueryOptions {
+  id?: number; // RFC 8484 recommends 0 so that DoH responses can be cached
+  recursionDesired?: boolean;
+  dnssecOk?: boolean; // DO bit, asks for RRSIG records alongside the answers
+}
+
+/**
+ * Look up the numeric code for a record type name such as MX
+ */
+export const getTypeCode = (type: string): number => {
+  const code = DNS_TYPE_CODES[type.toUpperCase()];
+  if (code === undefined) {
+    throw new Error(`Unsupported DNS record type ${type}`);
+  }
+  return code;
+};
+
+/**
+ * Look up the name of a numeric record type, falling back to the RFC 3597 TYPEnn form
+ */
+export const getTypeName = (code: number): string => DNS_TYPE_NAMES[code] ?? `TYPE${code}`;
+
+const encodeName = (name: string): number[] => {
+  const bytes: number[] = [];
+  const encoder = new TextEncoder();
+
+  name.replace(/\.$/, '').split('.').filter(Boolean).forEach(label => {
+    const encoded = encoder.encode(label);
+    if (encoded.length > 63) {
+      throw new Error(`DNS label too long in ${name}`);
+    }
+    bytes.push(encoded.length, ...encoded);
+  });
+  bytes.push(0);
+
+  return bytes;
+};
+
+/**
+ * Build a query message for a single question, with an EDNS0 OPT record
+ */
+export const encodeQuery = (name: string, type: string, options: DnsQueryOptions = {}): Uint8Array => {
+  const id = options.id ?? 0;
+  const flags = options.recursionDesired === false ? 0 : 0x0100;
+  const ednsFlags = options.dnssecOk ? 0x8000 : 0;
+
+  const bytes = [
+    id >> 8, id & 0xff,
+    flags >> 8, flags & 0xff,
+    0, 1, // questions
+    0, 0, // answers
+    0, 0, // authority
+    0, 1, // additional (OPT)
+    ...encodeName(name),
+    ...[getTypeCode(type)].flatMap(code => [code >> 8, code & 0xff]),
+    0, CLASS_IN,
+    // OPT pseudo-record: root name, type, UDP payload size, extended rcode/version/flags, no options
+    0,
+    0, TYPE_OPT,
+    EDNS_UDP_SIZE >> 8, EDNS_UDP_SIZE & 0xff,
+    0, 0, ednsFlags >> 8, ednsFlags & 0xff,
+    0, 0,
+  ];
+
+  return new Uint8Array(bytes);
+};
+
+export const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+export const fromBase64 = (encoded: string): Uint8Array => Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+
+/**
+ * Encode bytes as unpadded base64url, as required for the RFC 8484 `dns` query parameter
+ */
+export const toBase64Url = (bytes: Uint8Array): string =>
+  toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+class MessageReader {
+  private view: DataView;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  uint8(offset: number): number {
+    this.assertAvailable(offset, 1);
+    return this.view.getUint8(offset);
+  }
+
+  uint16(offset: number): number {
+    this.assertAvailable(offset, 2);
+    return this.view.getUint16(offset);
+  }
+
+  uint32(offset: number): number {
+    this.assertAvailable(offset, 4);
+    return this.view.getUint32(offset);
+  }
+
+  slice(offset: number, length: number): Uint8Array {
+    this.assertAvailable(offset, length);
+    return this.bytes.subarray(offset, offset + length);
+  }
+
+  /**
+   * Read a possibly compressed domain name, returning it and the offset just past it
+   */
+  name(offset: number): { name: string; next: number } {
+    const labels: string[] = [];
+    const decoder = new TextDecoder();
+    let position = offset;
+    let next = -1;
+    let jumps = 0;
+
+    for (;;) {
+      const length = this.uint8(position);
+
+      if ((length & 0xc0) === 0xc0) {
+        if (++jumps > 64) throw new Error('DNS name compression loop');
+        if (next === -1) next = position + 2;
+        position = this.uint16(position) & 0x3fff;
+        continue;
+      }
+
+      if (length === 0) {
+        if (next === -1) next = position + 1;
+        break;
+      }
+
+      labels.push(decoder.decode(this.slice(position + 1, length)));
+      position += length + 1;
+    }
+
+    return { name: labels.join('.') || '.', next };
+  }
+
+  private assertAvailable(offset: number, length: number): void {
+    if (offset + length > this.bytes.length) {
+      throw new Error('Truncated DNS message');
+    }
+  }
+}
+
+/**
+ * Format an IPv6 address in RFC 5952 canonical form
+ */
+const formatIpv6 = (bytes: Uint8Array): string => {
+  const groups: number[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(((bytes[i] ?? 0) << 8) | (bytes[i + 1] ?? 0));
+  }
+
+  // Find the longest run of zero groups (at least two) to collapse
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < groups.length; i++) {
+    let length = 0;
+    while (groups[i + length] === 0) length++;
+    if (length > bestLength && length >= 2) {
+      bestStart = i;
+      bestLength = length;
+    }
+    i += length;
+  }
+
+  const hex = groups.map(group => group.toString(16));
+  if (bestStart === -1) {
+    return hex.join(':');
+  }
+  return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`;
+};
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Format an RRSIG timestamp as YYYYMMDDHHmmSS (RFC 4034 section 3.2)
+ */
+const formatSignatureTime = (seconds: number): string =>
+  new Date(seconds * 1000).toISOString().replace(/[-:T]/g, '').slice(0, 14);
+
+const readCharacterStrings = (data: Uint8Array): string[] => {
+  const decoder = new TextDecoder();
+  const strings: string[] = [];
+  let position = 0;
+
+  while (position < data.length) {
+    const length = data[position] ?? 0;
+    strings.push(decoder.decode(data.subarray(position + 1, position + 1 + length)));
+    position += length + 1;
+  }
+
+  return strings;
+};
+
+/**
+ * Render record data in presentation format, without trailing dots on names
+ */
+const formatRdata = (
+  reader: MessageReader,
+  type: number,
+  offset: number,
+  length: number
+): Pick<DnsAnswer, 'value' | 'priority'> => {
+  const data = reader.slice(offset, length);
+
+  switch (DNS_TYPE_NAMES[type]) {
+    case 'A':
+      return { value: Array.from(data).join('.') };
+    case 'AAAA':
+      return { value: formatIpv6(data) };
+    case 'CNAME':
+    case 'NS':
+    case 'PTR':
+      return { value: reader.name(offset).name };
+    case 'MX': {
+      const priority = reader.uint16(offset);
+      return { value: `${priority} ${reader.name(offset + 2).name}`, priority };
+    }
+    case 'TXT':
+      return { value: readCharacterStrings(data).join('') };
+    case 'SOA': {
+      const mname = reader.name(offset);
+      const rname = reader.name(mname.next);
+      const numbers = [0, 4, 8, 12, 16].map(step => reader.uint32(rname.next + step));
+      return { value: [mname.name, rname.name, ...numbers].join(' ') };
+    }
+    case 'SRV': {
+      const priority = reader.uint16(offset);
+      const weight = reader.uint16(offset + 2);
+      const port = reader.uint16(offset + 4);
+      return { value: `${priority} ${weight} ${port} ${reader.name(offset + 6).name}`, priority };
+    }
+    case 'CAA': {
+      const flags = data[0] ?? 0;
+      const tagLength = data[1] ?? 0;
+      const decoder = new TextDecoder();
+      const tag = decoder.decode(data.subarray(2, 2 + tagLength));
+      const value = decoder.decode(data.subarray(2 + tagLength));
+      return { value: `${flags} ${tag} "${value}"` };
+    }
+    case 'DS':
+      return { value: `${reader.uint16(offset)} ${data[2]} ${data[3]} ${toHex(data.subarray(4)).toUpperCase()}` };
+    case 'DNSKEY':
+      return { value: `${reader.uint16(offset)} ${data[2]} ${data[3]} ${toBase64(data.subarray(4))}` };
+    case 'RRSIG': {
+      const signer = reader.name(offset + 18);
+      const fields = [
+        getTypeName(reader.uint16(offset)),
+        data[2],
+        data[3],
+        reader.uint32(offset + 4),
+        formatSignatureTime(reader.uint32(offset + 8)),
+        formatSignatureTime(reader.uint32(offset + 12)),
+        reader.uint16(offset + 16),
+        signer.name,
+        toBase64(reader.slice(signer.next, offset + length - signer.next)),
+      ];
+      return { value: fields.join(' ') };
+    }
+    default:
+      return { value: toHex(data) };
+  }
+};
+
+/**
+ * Decode a response message into its answer and authority records
+ */
+export const decodeMessage = (bytes: Uint8Array): DnsMessage => {
+  const reader = new MessageReader(bytes);
+  const flags = reader.uint16(2);
+  const counts = [4, 6, 8].map(offset => reader.uint16(offset));
+  const [questionCount = 0, answerCount = 0, authorityCount = 0] = counts;
+
+  let offset = 12;
+  for (let i = 0; i < questionCount; i++) {
+    offset = reader.name(offset).next + 4;
+  }
+
+  const readRecords = (count: number): DnsAnswer[] => {
+    const records: DnsAnswer[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const { name, next } = reader.name(offset);
+      const type = reader.uint16(next);
+      const ttl = reader.uint32(next + 4);
+      const length = reader.uint16(next + 8);
+      const dataOffset = next + 10;
+
+      records.push({
+        name,
+        type: getTypeName(type),
+        ttl,
+        ...formatRdata(reader, type, dataOffset, length),
+      });
+      offset = dataOffset + length;
+    }
+
+    return records;
+  };
+
+  const answers = readRecords(answerCount);
+  const authority = readRecords(authorityCount);
+
+  return {
+    id: reader.uint16(0),
+    rcode: DNS_RCODES[flags & 0x0f] ?? `RCODE${flags & 0x0f}`,
+    truncated: (flags & 0x0200) !== 0,
+    authoritative: (flags & 0x0400) !== 0,
+    authenticated: (flags & 0x0020) !== 0,
+    answers,
+    authority,
+  };
+};
@@ -0,0 +1,194 @@
+// Domain registration service
+// Tracks registrar, expiry, EPP status flags and registry delegation of monitored domains over RDAP
+
+import { logger } from '@/lib/logger';
+import { getErrorMessage } from '@/lib/error';
+import { formatDate } from '@/lib/date';
+import { MONITORING_CONFIG } from '@/config';
+import { TIME_CONSTANTS } from '@/constants';
+import { queryNameserver } from './dnsResolver';
+import { rdapClient, type RdapLookup } from './rdapClient';
+import type { DnsTarget, DomainExpiryThresholds, DomainRegistration, DomainRegistrationStatus } from '@/types';
+
+type RegistrationListener = (status: DomainRegistrationStatus) => void;
+
+interface RegistrationIssue {
+  level: 'warning' | 'error';
+  message: string;
+}
+
+// Statuses under which the registry withdraws the delegation or is about to release the domain
+const HOLD_STATUSES = ['clientHold', 'serverHold'];
+const DELETION_STATUSES = ['pendingDelete', 'redemptionPeriod', 'pendingRestore'];
+
+const sameSet = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every(value => b.includes(value));
+
+class DomainRegistrationService {
+  private lookup: RdapLookup = rdapClient;
+  private statuses: Map<string, DomainRegistrationStatus> = new Map();
+  private listeners: RegistrationListener[] = [];
+
+  /**
+   * Swap the RDAP lookup, e.g. for one backed by fixtures
+   */
+  setLookup(lookup: RdapLookup): void {
+    this.lookup = lookup;
+  }
+
+  /**
+   * Whether a target's registration has not been checked within the check interval,
+   * or within the much shorter retry interval when the last lookup failed
+   */
+  isDue(targetId: string, now: Date = new Date()): boolean {
+    const last = this.statuses.get(targetId);
+    if (!last) return true;
+
+    const interval = last.error ? MONITORING_CONFIG.rdap.retryInterval : MONITORING_CONFIG.rdap.checkInterval;
+    return now.getTime() - last.checkedAt.getTime() >= interval;
+  }
+
+  /**
+   * Look up the registration of a target's domain and grade it against the expiry thresholds,
+   * its status flags and the nameservers its zone actually serves
+   */
+  async checkRegistration(target: DnsTarget): Promise<DomainRegistrationStatus> {
+    const checkedAt = new Date();
+    const base = { targetId: target.id, domain: target.domain, checkedAt };
+    let status: DomainRegistrationStatus;
+
+    try {
+      const registration = await this.findRegistration(target.domain);
+      status = registration
+        ? await this.grade(target, registration, checkedAt)
+        : { ...base, status: 'inactive', issues: [], error: `No RDAP registration found for ${target.domain}` };
+    } catch (error) {
+      status = { ...base, status: 'inactive', issues: [], error: `Registration lookup failed: ${getErrorMessage(error)}` };
+    }
+
+    this.statuses.set(target.id, status);
+    if (status.status === 'warning' || status.status === 'error') {
+      logger.warn(`Registration check for ${target.domain}: ${status.issues.join('; ')}`, 'DomainRegistrationService');
+    }
+    this.notify(status);
+
+    return status;
+  }
+
+  /**
+   * Get the latest registration result of a target
+   */
+  getRegistration(targetId: string): DomainRegistrationStatus | null {
+    return this.statuses.get(targetId) || null;
+  }
+
+  /**
+   * Subscribe to registration results, returning an unsubscribe function
+   */
+  subscribe(listener: RegistrationListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Forget every result, e.g. between tests
+   */
+  clear(): void {
+    this.statuses.clear();
+  }
+
+  /**
+   * Find the registered domain by walking up from the monitored name, since subdomains have no registration
+   */
+  private async findRegistration(domain: string): Promise<DomainRegistration | null> {
+    const labels = domain.toLowerCase().replace(/\.$/, '').split('.');
+
+    for (let i = 0; i < labels.length - 1; i++) {
+      const registration = await this.lookup.lookupDomain(labels.slice(i).join('.'), MONITORING_CONFIG.rdap.timeout);
+      if (registration) return registration;
+    }
+    return null;
+  }
+
+  private async grade(
+    target: DnsTarget,
+    registration: DomainRegistration,
+    checkedAt: Date
+  ): Promise<DomainRegistrationStatus> {
+    const thresholds: DomainExpiryThresholds = target.registrationExpiry || {
+      warningDays: MONITORING_CONFIG.rdap.expiryWarningDays,
+      errorDays: MONITORING_CONFIG.rdap.expiryErrorDays,
+    };
+    const issues: RegistrationIssue[] = [];
+    const { expiresAt, statuses } = registration;
+    const daysRemaining = expiresAt
+      ? Math.floor((expiresAt.getTime() - checkedAt.getTime()) / TIME_CONSTANTS.DAY)
+      : undefined;
+
+    if (!expiresAt || daysRemaining === undefined) {
+      issues.push({ level: 'warning', message: 'Registry did not report an expiry date' });
+    } else if (daysRemaining < 0) {
+      issues.push({ level: 'error', message: `Registration expired on ${formatDate(expiresAt)}` });
+    } else if (daysRemaining <= Math.max(thresholds.warningDays, thresholds.errorDays)) {
+      issues.push({
+        level: daysRemaining <= thresholds.errorDays ? 'error' : 'warning',
+        message: `Registration expires in ${daysRemaining} ${daysRemaining === 1 ? 'day' : 'days'}`,
+      });
+    }
+
+    const held = statuses.filter(status => HOLD_STATUSES.includes(status));
+    held.forEach(status => {
+      issues.push({ level: 'error', message: `Domain is on ${status}, so the registry does not publish its delegation` });
+    });
+    statuses.filter(status => DELETION_STATUSES.includes(status)).forEach(status => {
+      issues.push({ level: 'error', message: `Domain is in ${status} and about to be released` });
+    });
+
+    // Compare the registry's delegation with the NS records the zone itself serves
+    const nameserver = target.nameservers?.[0] ?? MONITORING_CONFIG.dns.defaultNameservers[0];
+    const timeout = target.timeout || MONITORING_CONFIG.dns.defaultTimeout;
+    const zone = await queryNameserver(nameserver, registration.domain, 'NS', timeout);
+    const zoneNameservers = zone.answers.map(answer => answer.value.toLowerCase()).sort();
+
+    if (held.length === 0 && registration.nameservers.length === 0) {
+      issues.push({ level: 'warning', message: `Registry lists no nameservers for ${registration.domain}` });
+    } else if (
+      zone.status === 'healthy' &&
+      registration.nameservers.length > 0 &&
+      !sameSet(registration.nameservers, zoneNameservers)
+    ) {
+      issues.push({
+        level: 'warning',
+        message: `Registry delegates to ${registration.nameservers.join(', ')} but the zone lists ${zoneNameservers.join(', ')}`,
+      });
+    }
+
+    return {
+      targetId: target.id,
+      domain: target.domain,
+      status: issues.some(issue => issue.level === 'error')
+        ? 'error'
+        : issues.length > 0 ? 'warning' : 'healthy',
+      checkedAt,
+      ...(daysRemaining !== undefined && { daysRemaining }),
+      registration,
+      ...(zone.status === 'healthy' && { zoneNameservers }),
+      issues: issues.map(issue => issue.message),
+    };
+  }
+
+  private notify(status: DomainRegistrationStatus): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        logger.error('Registration listener failed', 'DomainRegistrationService', error);
+      }
+    });
+  }
+}
+
+export const domainRegistrationService = new DomainRegistrationService();
+export type { DomainRegistration, DomainRegistrationStatus };
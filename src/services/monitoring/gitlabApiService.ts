@@ -3,6 +3,9 @@
 
 import { apiClient } from '@/lib/api';
 import { logger } from '@/lib/logger';
+import { MONITORING_CONFIG } from '@/config';
+import { gitlabSettingsService } from '@/services/settings/gitlabSettingsService';
+import { gitlabCacheService } from '@/services/storage/gitlabCacheService';
 import {
   validateGitlabInstance,
   sanitizeGitlabInstance,
@@ -10,8 +13,17 @@ import {
   createDefaultFetchOptions
 } from '@/lib/validation';
 import type {
+  GitlabGroup,
   GitlabInstance,
+  GitlabJob,
+  GitlabMergeRequest,
+  GitlabMergeRequestApprovals,
+  GitlabNamespaceNode,
+  GitlabPipeline,
+  GitlabPipelineStatus,
   GitlabProject,
+  GitlabProjectMetrics,
+  GitlabUser,
   GitlabSettings,
   ApiResponse,
   ApiRequestOptions,
@@ -20,6 +32,7 @@ import type {
 
 // GitLab API specific types
 interface GitlabApiConfig {
+  instanceId: string; // keys the responses kept for revalidation
   baseUrl: string;
   token: string;
   version: 'v4'; // GitLab API version
@@ -35,12 +48,198 @@ interface RateLimitInfo {
   retryAfter?: number;
 }
 
+// A pipeline as the API describes it, before its jobs are read
+type GitlabPipelineDetails = Omit<GitlabPipeline, 'stages' | 'failedJobs' | 'stuck'>;
+
+// A merge request as the API describes it, before its approvals are read
+type GitlabMergeRequestDetails = Omit<GitlabMergeRequest, 'approvals' | 'reviewState' | 'stale' | 'blockedByPipeline'>;
+
+// A project as GET /projects returns it. Counts and permissions are left out when the token cannot read them.
+interface GitlabProjectResponse {
+  id: number;
+  name: string;
+  description: string | null;
+  visibility: GitlabProject['visibility'];
+  default_branch?: string | null;
+  created_at: string;
+  updated_at: string;
+  last_activity_at?: string;
+  web_url?: string;
+  ssh_url_to_repo?: string;
+  http_url_to_repo?: string;
+  star_count?: number;
+  forks_count?: number;
+  open_issues_count?: number;
+  merge_requests_count?: number;
+  permissions?: {
+    project_access?: { access_level: number } | null;
+    group_access?: { access_level: number } | null;
+  };
+  pipeline?: { status: NonNullable<GitlabProject['pipelineStatus']> } | null;
+}
+
+// A pipeline as GET /projects/:id/pipelines/:pipeline_id returns it. The list leaves out durations and timestamps.
+interface GitlabPipelineResponse {
+  id: number;
+  iid: number;
+  project_id: number;
+  status: GitlabPipelineStatus;
+  ref?: string | null;
+  sha?: string | null;
+  source?: string | null;
+  duration?: number | null;
+  queued_duration?: number | null;
+  created_at: string;
+  updated_at: string;
+  started_at?: string | null;
+  finished_at?: string | null;
+  web_url?: string;
+}
+
+// A job as GET /projects/:id/pipelines/:pipeline_id/jobs returns it
+interface GitlabJobResponse {
+  id: number;
+  name: string;
+  stage: string;
+  status: GitlabPipelineStatus;
+  allow_failure?: boolean;
+  failure_reason?: string | null;
+  duration?: number | null;
+  queued_duration?: number | null;
+  created_at: string;
+  started_at?: string | null;
+  finished_at?: string | null;
+  web_url?: string;
+}
+
+// A user as merge requests and approvals embed it
+interface GitlabUserResponse {
+  id: number;
+  username: string;
+  name?: string;
+  avatar_url?: string | null;
+}
+
+// A merge request as GET /projects/:id/merge_requests/:iid returns it. The list leaves out head_pipeline.
+interface GitlabMergeRequestResponse {
+  id: number;
+  iid: number;
+  project_id: number;
+  title?: string;
+  source_branch?: string;
+  target_branch?: string;
+  author?: GitlabUserResponse | null;
+  reviewers?: GitlabUserResponse[];
+  draft?: boolean;
+  work_in_progress?: boolean; // instances before GitLab 14
+  has_conflicts?: boolean;
+  head_pipeline?: { status: GitlabPipelineStatus } | null;
+  created_at: string;
+  updated_at: string;
+  web_url?: string;
+}
+
+// GET /projects/:id/merge_requests/:iid/approvals
+interface GitlabApprovalsResponse {
+  approvals_required?: number;
+  approvals_left?: number;
+  approved_by?: Array<{ user: GitlabUserResponse }>;
+}
+
+// A commit as GET /projects/:id/repository/commits returns it
+interface GitlabCommitResponse {
+  id: string;
+  message?: string;
+  author_name?: string;
+  author_email?: string;
+  committed_date: string;
+  web_url?: string;
+}
+
+// A group as GET /groups returns it
+interface GitlabGroupResponse {
+  id: number;
+  name?: string;
+  path: string;
+  full_name?: string;
+  full_path?: string;
+  parent_id?: number | null;
+  description?: string | null;
+  visibility?: GitlabGroup['visibility'];
+  web_url?: string;
+}
+
+interface PaginationOptions {
+  perPage?: number;
+  limit?: number;    // stop once this many items have been read
+  keyset?: boolean;  // only for endpoints and orderings GitLab offers keyset pagination on, e.g. projects by id
+}
+
+/**
+ * Read the URLs of a Link header by relation, e.g. `<https://...&page=2>; rel="next"` into { next: 'https://...&page=2' }
+ */
+const parseLinkHeader = (header: string | null): Record<string, string> => {
+  if (!header) return {};
+
+  return Object.fromEntries(header.split(',').flatMap(link => {
+    const match = link.match(/<([^>]+)>\s*;\s*rel="?([^";]+)"?/);
+    return match ? [[match[2] as string, match[1] as string]] : [];
+  }));
+};
+
+/**
+ * Read a numeric header such as X-Total, which GitLab leaves out for very large collections and keyset pages
+ */
+const readNumberHeader = (headers: Headers | undefined, name: string): number | undefined => {
+  const value = headers?.get(name);
+  return value ? parseInt(value) : undefined;
+};
+
+/**
+ * Set query parameters on an endpoint that may already have some
+ */
+const withQuery = (endpoint: string, params: Record<string, string | number>): string => {
+  const url = new URL(endpoint, 'http://gitlab.invalid');
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, String(value)));
+  return `${url.pathname}${url.search}`;
+};
+
+/**
+ * Read a project's path from the URL of something in it, e.g. group/project from
+ * https://gitlab.example.com/group/project/-/pipelines/42
+ */
+const getProjectPath = (webUrl: string, fallback: string): string => {
+  try {
+    const path = new URL(webUrl).pathname.split('/-/')[0] ?? '';
+    return path.replace(/^\//, '') || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * Arrange groups into their hierarchy. A subgroup whose parent is not listed, e.g. because the token
+ * cannot see it, becomes a root.
+ */
+const buildNamespaceTree = (groups: readonly GitlabGroup[]): GitlabNamespaceNode[] => {
+  const nodes = new Map(groups.map(group => [group.id, { group, subgroups: [] as GitlabNamespaceNode[] }]));
+  const roots: GitlabNamespaceNode[] = [];
+
+  nodes.forEach(node => {
+    const parent = node.group.parentId !== null ? nodes.get(node.group.parentId) : undefined;
+    (parent ? parent.subgroups : roots).push(node);
+  });
+
+  return roots;
+};
+
 enum GitlabErrorType {
   AUTHENTICATION_ERROR = 'AUTHENTICATION_ERROR',
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
   NETWORK_ERROR = 'NETWORK_ERROR',
   API_ERROR = 'API_ERROR',
-  VALIDATION_ERROR = 'VALIDATION_ERROR'
+  VALIDATION_ERROR = 'VALIDATION_ERROR',
+  GRAPHQL_UNSUPPORTED = 'GRAPHQL_UNSUPPORTED'
 }
 
 class GitlabApiError extends Error {
@@ -116,7 +315,8 @@ class GitlabApiClient {
   }
 
   /**
-   * Make an authenticated request to GitLab API
+   * Make an authenticated request to GitLab API.
+   * A GET sends the validators of the last response for its URL, and a 304 Not Modified is answered from that response.
    */
   private async makeAuthenticatedRequest<T>(
     endpoint: string,
@@ -126,9 +326,13 @@ class GitlabApiClient {
     await this.waitForRateLimit();
 
     const url = `${this.config.baseUrl}/api/${this.config.version}${endpoint}`;
+    const revalidates = (options.method ?? 'GET') === 'GET';
+    const cached = revalidates ? gitlabCacheService.getResponse(this.config.instanceId, url) : null;
     const headers = {
       'Authorization': `Bearer ${this.config.token}`,
       'User-Agent': 'GitLab-DashWatch/1.0.0',
+      ...(cached?.etag && { 'If-None-Match': cached.etag }),
+      ...(cached?.lastModified && { 'If-Modified-Since': cached.lastModified }),
       ...options.headers,
     };
 
@@ -139,11 +343,24 @@ class GitlabApiClient {
         timeout: this.config.timeout,
         retries: this.config.retryAttempts,
         retryDelay: this.config.retryDelay,
+        ...(cached && { acceptStatuses: [304] }),
       });
 
       // Update rate limit info from response headers
       this.updateRateLimitInfo(response.headers);
 
+      if (!revalidates) return response;
+
+      if (cached && response.status === 304) {
+        gitlabCacheService.recordResponse(this.config.instanceId, true);
+        // A 304 has no body and may leave out headers such as pagination links, so both come from the kept response
+        const cachedHeaders = new Headers(cached.headers);
+        response.headers.forEach((value, name) => cachedHeaders.set(name, value));
+        return { ...response, data: cached.data as T, headers: cachedHeaders };
+      }
+
+      gitlabCacheService.recordResponse(this.config.instanceId, false);
+      gitlabCacheService.setResponse(this.config.instanceId, url, response);
       return response;
     } catch (error) {
       // Handle rate limiting
@@ -203,6 +420,64 @@ class GitlabApiClient {
     return this.makeAuthenticatedRequest<T>(endpoint, { ...options, method: 'GET' });
   }
 
+  /**
+   * Page through a list endpoint, following the next link GitLab returns until it runs out or `limit` items were read.
+   * Offset pagination reports the next page in Link and X-Next-Page; keyset pagination only in Link.
+   */
+  async *paginate<T>(
+    endpoint: string,
+    options: PaginationOptions = {},
+    requestOptions?: ApiRequestOptions
+  ): AsyncGenerator<ApiResponse<T[]>, void, undefined> {
+    let next: string | null = withQuery(endpoint, {
+      per_page: options.perPage ?? MONITORING_CONFIG.gitlab.perPage,
+      ...(options.keyset && { pagination: 'keyset' }),
+    });
+    let read = 0;
+
+    while (next) {
+      const response: ApiResponse<T[]> = await this.get<T[]>(next, requestOptions);
+      const remaining = options.limit !== undefined ? options.limit - read : Infinity;
+      const page = response.data.length > remaining ? response.data.slice(0, remaining) : response.data;
+
+      read += page.length;
+      yield { ...response, data: page };
+
+      const following = this.getNextEndpoint(next, response.headers);
+      // Stop on an empty page or a link back to the same page rather than looping forever
+      next = read < (options.limit ?? Infinity) && page.length > 0 && following !== next ? following : null;
+    }
+  }
+
+  /**
+   * Read every item of a list endpoint, up to `limit`
+   */
+  async getAll<T>(endpoint: string, options: PaginationOptions = {}, requestOptions?: ApiRequestOptions): Promise<T[]> {
+    const items: T[] = [];
+    for await (const page of this.paginate<T>(endpoint, options, requestOptions)) {
+      items.push(...page.data);
+    }
+    return items;
+  }
+
+  /**
+   * The endpoint of the page after a response, relative to the API root like the endpoints callers pass in
+   */
+  private getNextEndpoint(endpoint: string, headers: Headers): string | null {
+    const link = parseLinkHeader(headers.get('Link')).next;
+    if (link) {
+      const { pathname, search } = new URL(link, this.config.baseUrl);
+      const root = `/api/${this.config.version}`;
+      const index = pathname.indexOf(root);
+      if (index >= 0) {
+        return `${pathname.slice(index + root.length)}${search}`;
+      }
+    }
+
+    const nextPage = headers.get('X-Next-Page');
+    return nextPage ? withQuery(endpoint, { page: nextPage }) : null;
+  }
+
   /**
    * POST request to GitLab API
    */
@@ -268,8 +543,146 @@ class GitlabApiClient {
   }
 }
 
+interface GraphqlResponse<T> {
+  data?: T | null;
+  errors?: Array<{ message: string; path?: Array<string | number> }>;
+}
+
+// How a GraphQL API older than the query, or none at all, answers it
+const UNSUPPORTED_GRAPHQL_PATTERN = /doesn't exist on type|Unknown argument|Unknown type|HTTP 404/i;
+
+// What a project list entry leaves out, for a batch of projects at once
+const PROJECT_METRICS_QUERY = `
+  query ProjectMetrics($ids: [ID!], $first: Int, $branchLimit: Int!) {
+    projects(ids: $ids, first: $first) {
+      nodes {
+        id
+        openIssuesCount
+        mergeRequests(state: opened) { count }
+        statistics { commitCount repositorySize }
+        repository {
+          branchNames(searchPattern: "*", offset: 0, limit: $branchLimit)
+          tree { lastCommit { sha message authorName authorEmail committedDate webUrl } }
+        }
+        pipelines(first: 1) { nodes { status } }
+      }
+    }
+  }
+`;
+
+// A project node of PROJECT_METRICS_QUERY. repository and statistics are null when the token cannot read them.
+interface ProjectMetricsNode {
+  id: string; // global ID, e.g. gid://gitlab/Project/42
+  openIssuesCount: number | null;
+  mergeRequests: { count: number } | null;
+  statistics: { commitCount: number; repositorySize: number } | null;
+  repository: {
+    branchNames: string[] | null;
+    tree: {
+      lastCommit: {
+        sha: string;
+        message: string | null;
+        authorName: string | null;
+        authorEmail: string | null;
+        committedDate: string;
+        webUrl: string | null;
+      } | null;
+    } | null;
+  } | null;
+  pipelines: { nodes: Array<{ status: string }> } | null;
+}
+
+const PROJECT_PIPELINE_STATUSES = ['success', 'failed', 'running', 'pending', 'canceled', 'skipped'] as const;
+
+/**
+ * Narrow a pipeline status, upper case from GraphQL, to those a project shows. Statuses still waiting to run count as pending.
+ */
+const toProjectPipelineStatus = (status: string): NonNullable<GitlabProject['pipelineStatus']> => {
+  const normalized = status.toLowerCase();
+  return PROJECT_PIPELINE_STATUSES.find(known => known === normalized) ?? 'pending';
+};
+
+/**
+ * The total item count of a list response, from X-Total, which GitLab leaves out past 10,000 items
+ */
+const readTotal = (response: ApiResponse<unknown[]>): number =>
+  Number(response.headers.get('X-Total') ?? response.data.length);
+
+const applyProjectMetrics = (project: GitlabProject, metrics: GitlabProjectMetrics): GitlabProject => ({
+  ...project,
+  branches: metrics.branchCount,
+  branchCount: metrics.branchCount,
+  commitCount: metrics.commitCount ?? project.commitCount,
+  ...(metrics.repositorySize !== null && { repositorySize: metrics.repositorySize }),
+  openIssues: metrics.openIssuesCount,
+  pullRequests: metrics.openMergeRequestsCount,
+  openMergeRequestsCount: metrics.openMergeRequestsCount,
+  ...(metrics.pipelineStatus && { pipelineStatus: metrics.pipelineStatus }),
+  ...(metrics.lastCommit && { lastCommitInfo: metrics.lastCommit }),
+});
+
+class GitlabGraphqlClient {
+  private config: GitlabApiConfig;
+
+  constructor(config: GitlabApiConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Update the API configuration
+   */
+  updateConfig(config: Partial<GitlabApiConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Run a query against the instance's GraphQL API. Errors next to data, e.g. a field the token may not read,
+   * are logged and the data returned; errors without data throw, as GRAPHQL_UNSUPPORTED when the schema lacks
+   * what the query asks for.
+   */
+  async query<T>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
+    const url = `${this.config.baseUrl}/api/graphql`;
+
+    let response: ApiResponse<GraphqlResponse<T>>;
+    try {
+      response = await apiClient.post<GraphqlResponse<T>>(url, { query, variables }, {
+        headers: {
+          'Authorization': `Bearer ${this.config.token}`,
+          'User-Agent': 'GitLab-DashWatch/1.0.0',
+        },
+        timeout: this.config.timeout,
+        retries: this.config.retryAttempts,
+        retryDelay: this.config.retryDelay,
+      });
+    } catch (error) {
+      if (error instanceof Error && UNSUPPORTED_GRAPHQL_PATTERN.test(error.message)) {
+        throw new GitlabApiError('GraphQL API not available', GitlabErrorType.GRAPHQL_UNSUPPORTED, 404);
+      }
+      throw error;
+    }
+
+    const { data, errors = [] } = response.data;
+    const message = errors.map(error => error.message).join('; ');
+
+    if (!data) {
+      const type = UNSUPPORTED_GRAPHQL_PATTERN.test(message) ? GitlabErrorType.GRAPHQL_UNSUPPORTED : GitlabErrorType.API_ERROR;
+      throw new GitlabApiError(message || 'GraphQL query returned no data', type, response.status, undefined, { errors });
+    }
+    if (errors.length > 0) {
+      logger.warn(`GraphQL query returned partial data: ${message}`, 'GitlabGraphqlClient', { errors });
+    }
+
+    return data;
+  }
+}
+
 class GitlabApiService {
   private clients: Map<string, GitlabApiClient> = new Map();
+  private graphqlClients: Map<string, GitlabGraphqlClient> = new Map();
+  // Instances whose GraphQL API is too old for the metrics query, read through REST instead
+  private graphqlUnsupported: Set<string> = new Set();
+  // Last project IDs read for each selected group, by `${instanceId}:${groupId}`
+  private groupProjects: Map<string, number[]> = new Map();
 
   /**
    * Validate and sanitize a GitLab instance before use
@@ -294,26 +707,50 @@ class GitlabApiService {
     const key = sanitizedInstance.id;
 
     if (!this.clients.has(key)) {
-      const config: GitlabApiConfig = {
-        baseUrl: sanitizedInstance.url,
-        token: sanitizedInstance.token,
-        version: 'v4',
-        timeout: 30000, // 30 seconds
-        retryAttempts: 3,
-        retryDelay: 1000, // 1 second
-      };
-
-      this.clients.set(key, new GitlabApiClient(config));
+      this.clients.set(key, new GitlabApiClient(this.createClientConfig(sanitizedInstance)));
     }
 
     return this.clients.get(key)!;
   }
 
+  /**
+   * Get or create a GitLab GraphQL client for an instance
+   */
+  private getGraphqlClient(instance: GitlabInstance): GitlabGraphqlClient {
+    const sanitizedInstance = this.validateAndSanitizeInstance(instance);
+    const key = sanitizedInstance.id;
+
+    let client = this.graphqlClients.get(key);
+    if (!client) {
+      client = new GitlabGraphqlClient(this.createClientConfig(sanitizedInstance));
+      this.graphqlClients.set(key, client);
+    }
+
+    return client;
+  }
+
+  private createClientConfig(instance: GitlabInstance): GitlabApiConfig {
+    return {
+      instanceId: instance.id,
+      baseUrl: instance.url,
+      token: instance.token,
+      version: 'v4',
+      timeout: 30000, // 30 seconds
+      retryAttempts: 3,
+      retryDelay: 1000, // 1 second
+    };
+  }
+
   /**
    * Remove a client (useful when instance is deleted or token changes)
    */
   removeClient(instanceId: string): void {
     this.clients.delete(instanceId);
+    this.graphqlClients.delete(instanceId);
+    this.graphqlUnsupported.delete(instanceId);
+    Array.from(this.groupProjects.keys())
+      .filter(key => key.startsWith(`${instanceId}:`))
+      .forEach(key => this.groupProjects.delete(key));
     logger.info(`Removed GitLab API client for instance: ${instanceId}`, 'GitlabApiService');
   }
 
@@ -323,6 +760,12 @@ class GitlabApiService {
   updateClientConfig(instance: GitlabInstance): void {
     const sanitizedInstance = this.validateAndSanitizeInstance(instance);
     const client = this.clients.get(sanitizedInstance.id);
+    this.graphqlClients.get(sanitizedInstance.id)?.updateConfig({
+      baseUrl: sanitizedInstance.url,
+      token: sanitizedInstance.token,
+    });
+    // The instance may have been upgraded or moved, so try GraphQL again
+    this.graphqlUnsupported.delete(sanitizedInstance.id);
     if (client) {
       client.updateConfig({
         baseUrl: sanitizedInstance.url,
@@ -420,11 +863,14 @@ class GitlabApiService {
   }
 
   /**
-   * Get projects with advanced filtering and pagination
+   * Get projects with advanced filtering and pagination.
+   * With a page, only that page is read. Without one, pages are followed up to `maxProjects`,
+   * by default the cap from the GitLab settings; ordering by id uses keyset pagination.
    */
   async getProjectsWithOptions(
     instance: GitlabInstance,
-    options: FetchOptions = {}
+    options: FetchOptions = {},
+    maxProjects: number = gitlabSettingsService.getSettings().maxProjects
   ): Promise<{
     projects: GitlabProject[];
     totalCount?: number;
@@ -437,35 +883,24 @@ class GitlabApiService {
     const client = this.getClient(instance);
 
     try {
-      // Build query string
-      const queryParams: Record<string, string | number | boolean> = {};
-
-      if (options.page) queryParams.page = options.page;
-      if (options.perPage) queryParams.per_page = options.perPage;
-      if (options.orderBy) queryParams.order_by = options.orderBy;
-      if (options.sort) queryParams.sort = options.sort;
-      if (options.search) queryParams.search = options.search;
-      if (options.visibility) queryParams.visibility = options.visibility;
-      if (options.owned !== undefined) queryParams.owned = options.owned;
-      if (options.membership !== undefined) queryParams.membership = options.membership;
-      if (options.starred !== undefined) queryParams.starred = options.starred;
-      if (options.statistics !== undefined) queryParams.statistics = options.statistics;
-
-      // Build query string manually
-      const queryString = Object.keys(queryParams).length > 0
-        ? '?' + Object.entries(queryParams)
-            .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
-            .join('&')
-        : '';
-
-      const response = await client.get(`/projects${queryString}`);
-
-      // Get total count from headers if available
-      const totalCount = response.headers.get('X-Total') ? parseInt(response.headers.get('X-Total')!) : undefined;
-      const totalPages = response.headers.get('X-Total-Pages') ? parseInt(response.headers.get('X-Total-Pages')!) : undefined;
+      const endpoint = withQuery(
+        options.groupId ? `/groups/${options.groupId}/projects` : '/projects',
+        this.buildProjectQuery(options)
+      );
+      const pages = options.page
+        ? [await client.get<GitlabProjectResponse[]>(endpoint)]
+        : await this.readPages(client.paginate<GitlabProjectResponse>(endpoint, {
+            ...(options.perPage && { perPage: options.perPage }),
+            limit: maxProjects,
+            keyset: options.orderBy === 'id',
+          }));
+      const headers = pages[0]?.headers;
+
+      const totalCount = readNumberHeader(headers, 'X-Total');
+      const totalPages = readNumberHeader(headers, 'X-Total-Pages');
 
       // Transform and sanitize projects
-      const projects = (response.data as any[]).map((project: any) => {
+      const projects = pages.flatMap(page => page.data).map(project => {
         const transformedProject = this.transformGitlabProject(project, instance);
         return sanitizeGitlabProject(transformedProject);
       });
@@ -503,17 +938,326 @@ class GitlabApiService {
     }
   }
 
+  /**
+   * Map fetch options to the query parameters of GET /projects
+   */
+  private buildProjectQuery(options: FetchOptions): Record<string, string | number> {
+    const queryParams: Record<string, string | number> = {};
+
+    if (options.page) queryParams.page = options.page;
+    if (options.perPage) queryParams.per_page = options.perPage;
+    if (options.orderBy) queryParams.order_by = options.orderBy;
+    if (options.sort) queryParams.sort = options.sort;
+    if (options.search) queryParams.search = options.search;
+    if (options.visibility) queryParams.visibility = options.visibility;
+    if (options.owned !== undefined) queryParams.owned = String(options.owned);
+    if (options.membership !== undefined) queryParams.membership = String(options.membership);
+    if (options.starred !== undefined) queryParams.starred = String(options.starred);
+    if (options.statistics !== undefined) queryParams.statistics = String(options.statistics);
+    if (options.withIssuesEnabled !== undefined) queryParams.with_issues_enabled = String(options.withIssuesEnabled);
+    if (options.withMergeRequestsEnabled !== undefined) {
+      queryParams.with_merge_requests_enabled = String(options.withMergeRequestsEnabled);
+    }
+    if (options.groupId) queryParams.include_subgroups = 'true';
+
+    return queryParams;
+  }
+
+  /**
+   * Collect every page of a paginated request
+   */
+  private async readPages<T>(pages: AsyncGenerator<ApiResponse<T[]>, void, undefined>): Promise<ApiResponse<T[]>[]> {
+    const responses: ApiResponse<T[]>[] = [];
+    for await (const page of pages) {
+      responses.push(page);
+    }
+    return responses;
+  }
+
+  /**
+   * Get the groups and subgroups the token's user is a member of, ordered by path.
+   * Public groups the user is not in are left out; on gitlab.com they would crowd out the user's own.
+   */
+  async getGroups(instance: GitlabInstance, maxGroups: number = MONITORING_CONFIG.gitlab.maxGroups): Promise<GitlabGroup[]> {
+    const client = this.getClient(instance);
+
+    try {
+      const groups = await client.getAll<GitlabGroupResponse>(
+        withQuery('/groups', { min_access_level: 10, order_by: 'path', sort: 'asc' }),
+        { limit: maxGroups }
+      );
+      return groups.map(group => this.transformGitlabGroup(group, instance));
+    } catch (error) {
+      logger.error(`Failed to fetch groups from ${instance.url}`, 'GitlabApiService', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the groups and subgroups of an instance arranged into their hierarchy
+   */
+  async getNamespaceTree(instance: GitlabInstance): Promise<GitlabNamespaceNode[]> {
+    return buildNamespaceTree(await this.getGroups(instance));
+  }
+
+  /**
+   * Get the IDs of the unarchived projects in a group and its subgroups
+   */
+  async getGroupProjectIds(
+    instance: GitlabInstance,
+    groupId: number,
+    maxProjects: number = gitlabSettingsService.getSettings().maxProjects
+  ): Promise<number[]> {
+    const client = this.getClient(instance);
+
+    try {
+      const projects = await client.getAll<{ id: number }>(
+        withQuery(`/groups/${groupId}/projects`, { include_subgroups: 'true', archived: 'false', simple: 'true' }),
+        { limit: maxProjects }
+      );
+      return projects.map(project => project.id);
+    } catch (error) {
+      logger.error(`Failed to fetch projects of group ${groupId} from ${instance.url}`, 'GitlabApiService', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the IDs of every project an instance monitors: the selected projects and those of the selected groups.
+   * Group projects are read again on every call, so projects added to a group are picked up on the next sync.
+   * A group that cannot be read keeps the projects it had last time.
+   */
+  async getMonitoredProjectIds(instance: GitlabInstance): Promise<number[]> {
+    const groupProjectIds = await Promise.all((instance.selectedGroups ?? []).map(async groupId => {
+      const key = `${instance.id}:${groupId}`;
+      try {
+        const projectIds = await this.getGroupProjectIds(instance, groupId);
+        this.groupProjects.set(key, projectIds);
+        return projectIds;
+      } catch (error) {
+        logger.warn(`Failed to read projects of group ${groupId} on ${instance.name}`, 'GitlabApiService', error);
+        return this.groupProjects.get(key) ?? [];
+      }
+    }));
+
+    return Array.from(new Set([...instance.selectedProjects, ...groupProjectIds.flat()]));
+  }
+
+  /**
+   * Get a project's most recent pipelines, newest first. The list leaves out durations and start and finish times.
+   */
+  async getPipelines(
+    instance: GitlabInstance,
+    projectId: number,
+    limit: number = MONITORING_CONFIG.gitlab.recentPipelines
+  ): Promise<GitlabPipelineDetails[]> {
+    const client = this.getClient(instance);
+
+    try {
+      const response = await client.get<GitlabPipelineResponse[]>(
+        withQuery(`/projects/${projectId}/pipelines`, { per_page: limit, order_by: 'id', sort: 'desc' })
+      );
+      return response.data.map(pipeline => this.transformGitlabPipeline(pipeline, instance));
+    } catch (error) {
+      logger.error(`Failed to fetch pipelines for project ${projectId} from ${instance.url}`, 'GitlabApiService', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get one pipeline with its durations and start and finish times
+   */
+  async getPipeline(instance: GitlabInstance, projectId: number, pipelineId: number): Promise<GitlabPipelineDetails> {
+    const client = this.getClient(instance);
+
+    try {
+      const response = await client.get<GitlabPipelineResponse>(`/projects/${projectId}/pipelines/${pipelineId}`);
+      return this.transformGitlabPipeline(response.data, instance);
+    } catch (error) {
+      logger.error(`Failed to fetch pipeline ${pipelineId} of project ${projectId}`, 'GitlabApiService', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every job of a pipeline, leaving out retried attempts
+   */
+  async getPipelineJobs(instance: GitlabInstance, projectId: number, pipelineId: number): Promise<GitlabJob[]> {
+    const client = this.getClient(instance);
+
+    try {
+      const jobs = await client.getAll<GitlabJobResponse>(`/projects/${projectId}/pipelines/${pipelineId}/jobs`);
+      return jobs.map(job => this.transformGitlabJob(job));
+    } catch (error) {
+      logger.error(`Failed to fetch jobs of pipeline ${pipelineId} of project ${projectId}`, 'GitlabApiService', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a project's open merge requests, most recently updated first. The list leaves out the head pipeline.
+   */
+  async getMergeRequests(
+    instance: GitlabInstance,
+    projectId: number,
+    limit: number = MONITORING_CONFIG.gitlab.mergeRequestsPerProject
+  ): Promise<GitlabMergeRequestDetails[]> {
+    const client = this.getClient(instance);
+
+    try {
+      const mergeRequests = await client.getAll<GitlabMergeRequestResponse>(
+        withQuery(`/projects/${projectId}/merge_requests`, { state: 'opened', order_by: 'updated_at', sort: 'desc' }),
+        { perPage: Math.min(limit, MONITORING_CONFIG.gitlab.perPage), limit }
+      );
+      return mergeRequests.map(mergeRequest => this.transformGitlabMergeRequest(mergeRequest, instance));
+    } catch (error) {
+      logger.error(`Failed to fetch merge requests for project ${projectId} from ${instance.url}`, 'GitlabApiService', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get one merge request with the status of its head pipeline
+   */
+  async getMergeRequest(instance: GitlabInstance, projectId: number, iid: number): Promise<GitlabMergeRequestDetails> {
+    const client = this.getClient(instance);
+
+    try {
+      const response = await client.get<GitlabMergeRequestResponse>(`/projects/${projectId}/merge_requests/${iid}`);
+      return this.transformGitlabMergeRequest(response.data, instance);
+    } catch (error) {
+      logger.error(`Failed to fetch merge request !${iid} of project ${projectId}`, 'GitlabApiService', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get how many approvals a merge request needs and who approved it
+   */
+  async getMergeRequestApprovals(
+    instance: GitlabInstance,
+    projectId: number,
+    iid: number
+  ): Promise<GitlabMergeRequestApprovals> {
+    const client = this.getClient(instance);
+
+    try {
+      const { data } = await client.get<GitlabApprovalsResponse>(`/projects/${projectId}/merge_requests/${iid}/approvals`);
+      return {
+        required: data.approvals_required ?? 0,
+        left: data.approvals_left ?? 0,
+        approvedBy: (data.approved_by ?? []).map(approval => this.transformGitlabUser(approval.user)),
+      };
+    } catch (error) {
+      logger.error(`Failed to fetch approvals of merge request !${iid} of project ${projectId}`, 'GitlabApiService', error);
+      throw error;
+    }
+  }
+
+  private transformGitlabPipeline(pipelineData: GitlabPipelineResponse, instance: GitlabInstance): GitlabPipelineDetails {
+    const webUrl = pipelineData.web_url || '';
+
+    return {
+      id: pipelineData.id,
+      iid: pipelineData.iid,
+      instanceId: instance.id,
+      projectId: pipelineData.project_id,
+      projectPath: getProjectPath(webUrl, String(pipelineData.project_id)),
+      status: pipelineData.status,
+      ref: pipelineData.ref || '',
+      sha: pipelineData.sha || '',
+      source: pipelineData.source || '',
+      duration: pipelineData.duration ?? null,
+      queuedDuration: pipelineData.queued_duration ?? null,
+      createdAt: new Date(pipelineData.created_at),
+      updatedAt: new Date(pipelineData.updated_at),
+      ...(pipelineData.started_at && { startedAt: new Date(pipelineData.started_at) }),
+      ...(pipelineData.finished_at && { finishedAt: new Date(pipelineData.finished_at) }),
+      webUrl,
+    };
+  }
+
+  private transformGitlabJob(jobData: GitlabJobResponse): GitlabJob {
+    return {
+      id: jobData.id,
+      name: jobData.name,
+      stage: jobData.stage,
+      status: jobData.status,
+      allowFailure: Boolean(jobData.allow_failure),
+      ...(jobData.failure_reason && { failureReason: jobData.failure_reason }),
+      duration: jobData.duration ?? null,
+      queuedDuration: jobData.queued_duration ?? null,
+      createdAt: new Date(jobData.created_at),
+      ...(jobData.started_at && { startedAt: new Date(jobData.started_at) }),
+      ...(jobData.finished_at && { finishedAt: new Date(jobData.finished_at) }),
+      webUrl: jobData.web_url || '',
+    };
+  }
+
+  private transformGitlabMergeRequest(
+    mergeRequestData: GitlabMergeRequestResponse,
+    instance: GitlabInstance
+  ): GitlabMergeRequestDetails {
+    const webUrl = mergeRequestData.web_url || '';
+
+    return {
+      id: mergeRequestData.id,
+      iid: mergeRequestData.iid,
+      instanceId: instance.id,
+      projectId: mergeRequestData.project_id,
+      projectPath: getProjectPath(webUrl, String(mergeRequestData.project_id)),
+      title: mergeRequestData.title || '',
+      sourceBranch: mergeRequestData.source_branch || '',
+      targetBranch: mergeRequestData.target_branch || '',
+      author: this.transformGitlabUser(mergeRequestData.author),
+      reviewers: (mergeRequestData.reviewers ?? []).map(reviewer => this.transformGitlabUser(reviewer)),
+      // Instances before GitLab 14 only report work_in_progress
+      draft: Boolean(mergeRequestData.draft ?? mergeRequestData.work_in_progress),
+      hasConflicts: Boolean(mergeRequestData.has_conflicts),
+      pipelineStatus: mergeRequestData.head_pipeline?.status ?? null,
+      createdAt: new Date(mergeRequestData.created_at),
+      updatedAt: new Date(mergeRequestData.updated_at),
+      webUrl,
+    };
+  }
+
+  private transformGitlabGroup(groupData: GitlabGroupResponse, instance: GitlabInstance): GitlabGroup {
+    return {
+      id: groupData.id,
+      name: groupData.name || groupData.path || '',
+      fullName: groupData.full_name || groupData.name || '',
+      fullPath: groupData.full_path || groupData.path || '',
+      parentId: groupData.parent_id ?? null,
+      description: groupData.description || '',
+      visibility: groupData.visibility || 'private',
+      webUrl: groupData.web_url || '',
+      instanceId: instance.id,
+    };
+  }
+
+  private transformGitlabUser(userData: GitlabUserResponse | null | undefined): GitlabUser {
+    return {
+      id: userData?.id ?? 0,
+      username: userData?.username || '',
+      name: userData?.name || userData?.username || '',
+      ...(userData?.avatar_url && { avatarUrl: userData.avatar_url }),
+    };
+  }
+
   /**
    * Transform GitLab API project data to our internal format
    */
-  private transformGitlabProject(projectData: any, instance: GitlabInstance): GitlabProject {
+  private transformGitlabProject(projectData: GitlabProjectResponse, instance: GitlabInstance): GitlabProject {
+    const projectAccess = projectData.permissions?.project_access?.access_level;
+    const groupAccess = projectData.permissions?.group_access?.access_level;
+
     return {
       id: projectData.id,
       name: projectData.name,
       description: projectData.description || '',
       status: 'healthy' as const, // Will be enhanced with activity analysis
       openIssues: projectData.open_issues_count || 0,
-      branches: 0, // Will be fetched separately if needed
+      branches: 0, // Filled in by withProjectMetrics
       pullRequests: projectData.merge_requests_count || 0,
       lastCommit: projectData.last_activity_at || '',
       instanceUrl: instance.url,
@@ -528,16 +1272,16 @@ class GitlabApiService {
       httpUrl: projectData.http_url_to_repo || '',
       starCount: projectData.star_count || 0,
       forkCount: projectData.forks_count || 0,
-      commitCount: 0, // Will be fetched separately if needed
+      commitCount: 0, // Filled in by withProjectMetrics
       lastActivityAt: new Date(projectData.last_activity_at || projectData.updated_at),
       openMergeRequestsCount: projectData.merge_requests_count || 0,
-      branchCount: 0, // Will be fetched separately if needed
+      branchCount: 0, // Filled in by withProjectMetrics
       permissions: {
-        projectAccess: projectData.permissions?.project_access?.access_level,
-        groupAccess: projectData.permissions?.group_access?.access_level,
+        ...(projectAccess !== undefined && { projectAccess }),
+        ...(groupAccess !== undefined && { groupAccess }),
       },
-      pipelineStatus: projectData.pipeline?.status,
-      // Latest commit info will be populated separately
+      ...(projectData.pipeline && { pipelineStatus: projectData.pipeline.status }),
+      // Latest commit info is filled in by withProjectMetrics
     };
   }
 
@@ -591,11 +1335,17 @@ class GitlabApiService {
     }
   }
 
-  async getProjects(instance: GitlabInstance): Promise<GitlabProject[]> {
+  /**
+   * Get an instance's projects, following pages up to `maxProjects`, by default the cap from the GitLab settings
+   */
+  async getProjects(
+    instance: GitlabInstance,
+    maxProjects: number = gitlabSettingsService.getSettings().maxProjects
+  ): Promise<GitlabProject[]> {
     const client = this.getClient(instance);
 
     try {
-      const response = await client.get('/projects', {
+      const projects = await client.getAll<GitlabProjectResponse>('/projects', { limit: maxProjects }, {
         headers: {
           // Request additional fields
           'X-GitLab-Feature-Flags': 'statistics',
@@ -603,45 +1353,146 @@ class GitlabApiService {
       });
 
       // Transform GitLab API response to our internal format
-      const projects = response.data as any[];
-      return projects.map((project: any) => ({
-        id: project.id,
-        name: project.name,
-        description: project.description || '',
-        status: 'healthy' as const, // Will be determined by activity
-        openIssues: project.open_issues_count || 0,
-        branches: project.branches?.length || 0,
-        pullRequests: project.merge_requests_count || 0,
-        lastCommit: project.last_activity_at || '',
-        instanceUrl: instance.url,
-        instanceId: instance.id,
-        visibility: project.visibility,
-        defaultBranch: project.default_branch || 'main',
-        createdAt: new Date(project.created_at),
-        updatedAt: new Date(project.updated_at),
-        // Enhanced fields from GitLab API
-        webUrl: project.web_url || '',
-        sshUrl: project.ssh_url_to_repo || '',
-        httpUrl: project.http_url_to_repo || '',
-        starCount: project.star_count || 0,
-        forkCount: project.forks_count || 0,
-        commitCount: 0, // Will be fetched separately if needed
-        lastActivityAt: new Date(project.last_activity_at || project.updated_at),
-        openMergeRequestsCount: project.merge_requests_count || 0,
-        branchCount: project.branches?.length || 0,
-        permissions: {
-          projectAccess: project.permissions?.project_access?.access_level,
-          groupAccess: project.permissions?.group_access?.access_level,
-        },
-        pipelineStatus: project.pipeline?.status,
-        // Latest commit info will be populated separately
-      }));
+      return projects.map(project => this.transformGitlabProject(project, instance));
     } catch (error) {
       logger.error(`Failed to fetch projects from ${instance.url}`, 'GitlabApiService', error);
       throw error;
     }
   }
 
+  /**
+   * Read the metrics a project list leaves out for many projects at once: branch and commit counts, open issues and
+   * merge requests, the latest pipeline and the last commit. GraphQL reads `graphqlBatchSize` projects per request.
+   * Instances whose GraphQL API lacks the fields are read through REST, five requests per project.
+   */
+  async getProjectMetrics(
+    instance: GitlabInstance,
+    projectIds: readonly number[]
+  ): Promise<Map<number, GitlabProjectMetrics>> {
+    const metrics: Map<number, GitlabProjectMetrics> = new Map();
+    const { graphqlBatchSize } = MONITORING_CONFIG.gitlab;
+
+    for (let start = 0; start < projectIds.length; start += graphqlBatchSize) {
+      const batch = projectIds.slice(start, start + graphqlBatchSize);
+      const batchMetrics = this.graphqlUnsupported.has(instance.id)
+        ? await this.getProjectMetricsFromRest(instance, batch)
+        : await this.getProjectMetricsFromGraphql(instance, batch).catch(error => {
+            if (!(error instanceof GitlabApiError && error.type === GitlabErrorType.GRAPHQL_UNSUPPORTED)) throw error;
+            logger.warn(`GraphQL API of ${instance.url} cannot read project metrics, using REST`, 'GitlabApiService', error);
+            this.graphqlUnsupported.add(instance.id);
+            return this.getProjectMetricsFromRest(instance, batch);
+          });
+
+      batchMetrics.forEach(entry => metrics.set(entry.projectId, entry));
+    }
+
+    return metrics;
+  }
+
+  /**
+   * Fill in the metrics a project list leaves out. Projects whose metrics cannot be read are returned as they are.
+   */
+  async withProjectMetrics(instance: GitlabInstance, projects: GitlabProject[]): Promise<GitlabProject[]> {
+    try {
+      const metrics = await this.getProjectMetrics(instance, projects.map(project => project.id));
+      return projects.map(project => {
+        const projectMetrics = metrics.get(project.id);
+        return projectMetrics ? applyProjectMetrics(project, projectMetrics) : project;
+      });
+    } catch (error) {
+      logger.warn(`Failed to read project metrics from ${instance.url}`, 'GitlabApiService', error);
+      return projects;
+    }
+  }
+
+  private async getProjectMetricsFromGraphql(
+    instance: GitlabInstance,
+    projectIds: readonly number[]
+  ): Promise<GitlabProjectMetrics[]> {
+    const data = await this.getGraphqlClient(instance).query<{ projects: { nodes: ProjectMetricsNode[] } | null }>(PROJECT_METRICS_QUERY, {
+      ids: projectIds.map(projectId => `gid://gitlab/Project/${projectId}`),
+      first: projectIds.length,
+      branchLimit: MONITORING_CONFIG.gitlab.branchCountLimit,
+    });
+
+    return (data.projects?.nodes ?? []).map(node => this.transformGraphqlProjectMetrics(node));
+  }
+
+  private async getProjectMetricsFromRest(
+    instance: GitlabInstance,
+    projectIds: readonly number[]
+  ): Promise<GitlabProjectMetrics[]> {
+    const client = this.getClient(instance);
+
+    const metrics = await Promise.all(projectIds.map(async (projectId): Promise<GitlabProjectMetrics[]> => {
+      try {
+        const [project, branches, commits, pipelines, mergeRequests] = await Promise.all([
+          client.get<GitlabProjectResponse & { statistics?: { commit_count: number; repository_size: number } }>(
+            withQuery(`/projects/${projectId}`, { statistics: 'true' })
+          ),
+          client.get<unknown[]>(withQuery(`/projects/${projectId}/repository/branches`, { per_page: 1 })),
+          client.get<GitlabCommitResponse[]>(withQuery(`/projects/${projectId}/repository/commits`, { per_page: 1 })),
+          client.get<GitlabPipelineResponse[]>(withQuery(`/projects/${projectId}/pipelines`, { per_page: 1 })),
+          client.get<unknown[]>(withQuery(`/projects/${projectId}/merge_requests`, { state: 'opened', per_page: 1 })),
+        ]);
+        const commit = commits.data[0];
+        const pipeline = pipelines.data[0];
+
+        return [{
+          projectId,
+          branchCount: readTotal(branches),
+          commitCount: project.data.statistics?.commit_count ?? null,
+          repositorySize: project.data.statistics?.repository_size ?? null,
+          openIssuesCount: project.data.open_issues_count ?? 0,
+          openMergeRequestsCount: readTotal(mergeRequests),
+          ...(pipeline && { pipelineStatus: toProjectPipelineStatus(pipeline.status) }),
+          ...(commit && {
+            lastCommit: {
+              id: commit.id,
+              message: commit.message || '',
+              authorName: commit.author_name || '',
+              authorEmail: commit.author_email || '',
+              committedDate: new Date(commit.committed_date),
+              webUrl: commit.web_url || '',
+            },
+          }),
+        }];
+      } catch (error) {
+        logger.warn(`Failed to read metrics of project ${projectId} from ${instance.url}`, 'GitlabApiService', error);
+        return [];
+      }
+    }));
+
+    return metrics.flat();
+  }
+
+  private transformGraphqlProjectMetrics(projectData: ProjectMetricsNode): GitlabProjectMetrics {
+    const commit = projectData.repository?.tree?.lastCommit;
+    const pipeline = projectData.pipelines?.nodes?.[0];
+
+    return {
+      // Global IDs look like gid://gitlab/Project/42
+      projectId: Number(projectData.id.split('/').pop()),
+      // repository and statistics are null when the token cannot read them
+      branchCount: projectData.repository?.branchNames?.length ?? 0,
+      commitCount: projectData.statistics?.commitCount ?? null,
+      repositorySize: projectData.statistics?.repositorySize ?? null,
+      openIssuesCount: projectData.openIssuesCount ?? 0,
+      openMergeRequestsCount: projectData.mergeRequests?.count ?? 0,
+      ...(pipeline && { pipelineStatus: toProjectPipelineStatus(pipeline.status) }),
+      ...(commit && {
+        lastCommit: {
+          id: commit.sha,
+          message: commit.message || '',
+          authorName: commit.authorName || '',
+          authorEmail: commit.authorEmail || '',
+          committedDate: new Date(commit.committedDate),
+          webUrl: commit.webUrl || '',
+        },
+      }),
+    };
+  }
+
   async getProjectDetails(instance: GitlabInstance, projectId: number): Promise<GitlabProject | null> {
     const client = this.getClient(instance);
 
@@ -670,7 +1521,7 @@ class GitlabApiService {
         httpUrl: project.http_url_to_repo || '',
         starCount: project.star_count || 0,
         forkCount: project.forks_count || 0,
-        commitCount: 0, // Will be fetched separately if needed
+        commitCount: 0, // Filled in by withProjectMetrics
         lastActivityAt: new Date(project.last_activity_at || project.updated_at),
         openMergeRequestsCount: project.merge_requests_count || 0,
         branchCount: project.branches?.length || 0,
@@ -679,7 +1530,7 @@ class GitlabApiService {
           groupAccess: project.permissions?.group_access?.access_level,
         },
         pipelineStatus: project.pipeline?.status,
-        // Latest commit info will be populated separately
+        // Latest commit info is filled in by withProjectMetrics
       };
     } catch (error) {
       if (error instanceof GitlabApiError && error.statusCode === 404) {
@@ -703,5 +1554,5 @@ class GitlabApiService {
 }
 
 export const gitlabApiService = new GitlabApiService();
-export { GitlabApiClient, GitlabApiError, GitlabErrorType };
-export type { GitlabApiConfig, RateLimitInfo };
+export { GitlabApiClient, GitlabGraphqlClient, GitlabApiError, GitlabErrorType, buildNamespaceTree };
+export type { GitlabApiConfig, RateLimitInfo, PaginationOptions, GitlabPipelineDetails, GitlabMergeRequestDetails };
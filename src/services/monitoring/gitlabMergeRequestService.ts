@@ -0,0 +1,246 @@
+// GitLab merge request service
+// Reads the open merge requests of the selected projects on every GitLab instance and flags the ones that need attention
+
+import { logger } from '@/lib/logger';
+import { getErrorMessage } from '@/lib/error';
+import { MONITORING_CONFIG } from '@/config';
+import { gitlabApiService, type GitlabMergeRequestDetails } from './gitlabApiService';
+import { isActivePipeline } from './gitlabPipelineService';
+import type {
+  GitlabInstance,
+  GitlabMergeRequest,
+  GitlabMergeRequestApprovals,
+  GitlabMergeRequestReviewState,
+} from '@/types';
+
+type GitlabMergeRequestListener = (mergeRequests: GitlabMergeRequest[]) => void;
+
+// What the merge request board highlights a merge request for
+type GitlabMergeRequestFlag = 'stale' | 'blocked' | 'awaiting_review';
+
+interface GitlabMergeRequestFilter {
+  instanceId?: string;
+  projectId?: number;
+  flag?: GitlabMergeRequestFlag;
+}
+
+interface GitlabMergeRequestError {
+  instanceId: string;
+  projectId: number;
+  message: string;
+}
+
+interface GitlabMergeRequestOverview {
+  mergeRequests: GitlabMergeRequest[];
+  errors: GitlabMergeRequestError[];
+}
+
+interface CachedMergeRequest {
+  updatedAt: number; // of the list entry both parts were read for
+  details: GitlabMergeRequestDetails | null;     // null when it could not be read
+  approvals: GitlabMergeRequestApprovals | null; // null when it could not be read
+}
+
+/**
+ * A merge request waits for review until it has every approval it needs, or any approval when none is required
+ */
+const getReviewState = (
+  draft: boolean,
+  approvals: GitlabMergeRequestApprovals | null
+): GitlabMergeRequestReviewState => {
+  if (draft) return 'draft';
+  if (!approvals) return 'unknown';
+  if (approvals.left > 0 || (approvals.required === 0 && approvals.approvedBy.length === 0)) return 'awaiting_review';
+  return 'approved';
+};
+
+export const hasMergeRequestFlag = (mergeRequest: GitlabMergeRequest, flag: GitlabMergeRequestFlag): boolean => {
+  switch (flag) {
+    case 'stale':
+      return mergeRequest.stale;
+    case 'blocked':
+      return mergeRequest.blockedByPipeline;
+    case 'awaiting_review':
+      return mergeRequest.reviewState === 'awaiting_review';
+  }
+};
+
+class GitlabMergeRequestService {
+  private mergeRequests: Map<string, GitlabMergeRequest[]> = new Map();
+  private errors: Map<string, GitlabMergeRequestError> = new Map();
+  private cache: Map<string, CachedMergeRequest> = new Map();
+  private listeners: GitlabMergeRequestListener[] = [];
+
+  /**
+   * Read the open merge requests of every monitored project on the active instances,
+   * the selected ones and those in selected groups.
+   * A project that cannot be read keeps its last merge requests and is reported in `errors`.
+   */
+  async refresh(instances: readonly GitlabInstance[], now: number = Date.now()): Promise<GitlabMergeRequestOverview> {
+    const projects = (await Promise.all(instances
+      .filter(instance => instance.isActive)
+      .map(async instance => (await gitlabApiService.getMonitoredProjectIds(instance))
+        .map(projectId => ({ instance, projectId })))
+    )).flat();
+
+    await Promise.all(projects.map(async ({ instance, projectId }) => {
+      const key = this.getProjectKey(instance.id, projectId);
+      try {
+        await this.refreshProject(instance, projectId, now);
+        this.errors.delete(key);
+      } catch (error) {
+        this.errors.set(key, { instanceId: instance.id, projectId, message: getErrorMessage(error) });
+        logger.warn(`Failed to read merge requests of project ${projectId} on ${instance.name}`, 'GitlabMergeRequestService', error);
+      }
+    }));
+
+    // Forget projects that are no longer selected
+    const selected = new Set(projects.map(({ instance, projectId }) => this.getProjectKey(instance.id, projectId)));
+    Array.from(this.mergeRequests.keys()).filter(key => !selected.has(key)).forEach(key => this.mergeRequests.delete(key));
+    Array.from(this.errors.keys()).filter(key => !selected.has(key)).forEach(key => this.errors.delete(key));
+    Array.from(this.cache.keys())
+      .filter(key => !selected.has(key.slice(0, key.lastIndexOf(':'))))
+      .forEach(key => this.cache.delete(key));
+
+    const mergeRequests = this.getMergeRequests();
+    this.notify(mergeRequests);
+
+    return { mergeRequests, errors: Array.from(this.errors.values()) };
+  }
+
+  /**
+   * Read a project's open merge requests with their head pipeline and approvals.
+   * Both are only read again for merge requests updated since the last read, or whose head pipeline was still running:
+   * a pipeline finishing does not move updated_at. A part that cannot be read leaves the rest of the merge request
+   * on the board and is tried again on the next refresh.
+   */
+  async refreshProject(instance: GitlabInstance, projectId: number, now: number = Date.now()): Promise<GitlabMergeRequest[]> {
+    const open = await gitlabApiService.getMergeRequests(instance, projectId);
+
+    const mergeRequests = await Promise.all(open.map(async summary => {
+      const key = this.getMergeRequestKey(instance.id, projectId, summary.iid);
+      const cached = this.cache.get(key);
+      const pipelineStatus = cached?.details?.pipelineStatus;
+      const changed = !cached
+        || cached.updatedAt !== summary.updatedAt.getTime()
+        || (!!pipelineStatus && isActivePipeline({ status: pipelineStatus }));
+
+      const [details, approvals] = await Promise.all([
+        changed || !cached?.details ? this.readDetails(instance, projectId, summary.iid) : cached.details,
+        changed || !cached?.approvals ? this.readApprovals(instance, projectId, summary.iid) : cached.approvals,
+      ]);
+      this.cache.set(key, { updatedAt: summary.updatedAt.getTime(), details, approvals });
+
+      return this.toMergeRequest(details ?? summary, approvals, now);
+    }));
+
+    // Drop cached merge requests that were merged or closed
+    const keep = new Set(open.map(summary => this.getMergeRequestKey(instance.id, projectId, summary.iid)));
+    const prefix = `${this.getProjectKey(instance.id, projectId)}:`;
+    Array.from(this.cache.keys())
+      .filter(key => key.startsWith(prefix) && !keep.has(key))
+      .forEach(key => this.cache.delete(key));
+
+    this.mergeRequests.set(this.getProjectKey(instance.id, projectId), mergeRequests);
+    return mergeRequests;
+  }
+
+  /**
+   * Get the merge requests read so far, most recently updated first
+   */
+  getMergeRequests(filter: GitlabMergeRequestFilter = {}): GitlabMergeRequest[] {
+    return Array.from(this.mergeRequests.values())
+      .flat()
+      .filter(mergeRequest => !filter.instanceId || mergeRequest.instanceId === filter.instanceId)
+      .filter(mergeRequest => filter.projectId === undefined || mergeRequest.projectId === filter.projectId)
+      .filter(mergeRequest => !filter.flag || hasMergeRequestFlag(mergeRequest, filter.flag))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  /**
+   * Projects whose merge requests could not be read on the last refresh
+   */
+  getErrors(): GitlabMergeRequestError[] {
+    return Array.from(this.errors.values());
+  }
+
+  /**
+   * Subscribe to every refresh, returning an unsubscribe function
+   */
+  subscribe(listener: GitlabMergeRequestListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Forget every merge request read so far
+   */
+  clear(): void {
+    this.mergeRequests.clear();
+    this.errors.clear();
+    this.cache.clear();
+  }
+
+  private async readDetails(
+    instance: GitlabInstance,
+    projectId: number,
+    iid: number
+  ): Promise<GitlabMergeRequestDetails | null> {
+    try {
+      return await gitlabApiService.getMergeRequest(instance, projectId, iid);
+    } catch (error) {
+      logger.warn(`Failed to read merge request !${iid} of project ${projectId} on ${instance.name}`, 'GitlabMergeRequestService', error);
+      return null;
+    }
+  }
+
+  private async readApprovals(
+    instance: GitlabInstance,
+    projectId: number,
+    iid: number
+  ): Promise<GitlabMergeRequestApprovals | null> {
+    try {
+      return await gitlabApiService.getMergeRequestApprovals(instance, projectId, iid);
+    } catch (error) {
+      logger.warn(`Failed to read approvals of merge request !${iid} of project ${projectId} on ${instance.name}`, 'GitlabMergeRequestService', error);
+      return null;
+    }
+  }
+
+  private toMergeRequest(
+    details: GitlabMergeRequestDetails,
+    approvals: GitlabMergeRequestApprovals | null,
+    now: number
+  ): GitlabMergeRequest {
+    return {
+      ...details,
+      approvals,
+      reviewState: getReviewState(details.draft, approvals),
+      stale: now - details.updatedAt.getTime() > MONITORING_CONFIG.gitlab.staleMergeRequestAfter,
+      blockedByPipeline: details.pipelineStatus === 'failed',
+    };
+  }
+
+  private getProjectKey(instanceId: string, projectId: number): string {
+    return `${instanceId}:${projectId}`;
+  }
+
+  private getMergeRequestKey(instanceId: string, projectId: number, iid: number): string {
+    return `${this.getProjectKey(instanceId, projectId)}:${iid}`;
+  }
+
+  private notify(mergeRequests: GitlabMergeRequest[]): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(mergeRequests);
+      } catch (error) {
+        logger.error('Merge request listener failed', 'GitlabMergeRequestService', error);
+      }
+    });
+  }
+}
+
+export const gitlabMergeRequestService = new GitlabMergeRequestService();
+export type { GitlabMergeRequest, GitlabMergeRequestFlag, GitlabMergeRequestError, GitlabMergeRequestOverview };
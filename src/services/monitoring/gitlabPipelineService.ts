@@ -0,0 +1,244 @@
+// GitLab pipeline service
+// Reads the recent pipelines of the selected projects on every GitLab instance, with their stages and jobs
+
+import { logger } from '@/lib/logger';
+import { getErrorMessage } from '@/lib/error';
+import { MONITORING_CONFIG } from '@/config';
+import { gitlabApiService, type GitlabPipelineDetails } from './gitlabApiService';
+import type {
+  GitlabInstance,
+  GitlabJob,
+  GitlabPipeline,
+  GitlabPipelineStage,
+  GitlabPipelineStatus,
+} from '@/types';
+
+type GitlabPipelineListener = (pipelines: GitlabPipeline[]) => void;
+
+// What the pipelines view lists a pipeline under
+type GitlabPipelineState = 'running' | 'failed' | 'stuck';
+
+interface GitlabPipelineFilter {
+  instanceId?: string;
+  projectId?: number;
+  state?: GitlabPipelineState;
+}
+
+interface GitlabPipelineError {
+  instanceId: string;
+  projectId: number;
+  message: string;
+}
+
+interface GitlabPipelineOverview {
+  pipelines: GitlabPipeline[];
+  errors: GitlabPipelineError[];
+}
+
+interface CachedPipeline {
+  details: GitlabPipelineDetails;
+  jobs: GitlabJob[];
+  fetchedAt: number;
+}
+
+const ACTIVE_STATUSES: readonly GitlabPipelineStatus[] = ['created', 'waiting_for_resource', 'preparing', 'pending', 'running'];
+
+// A stage takes the first of these statuses that any of its jobs has
+const STAGE_STATUS_ORDER: readonly GitlabPipelineStatus[] = [
+  'failed',
+  'running',
+  'pending',
+  'preparing',
+  'waiting_for_resource',
+  'created',
+  'scheduled',
+  'manual',
+  'canceled',
+  'success',
+  'skipped',
+];
+
+export const isActivePipeline = (pipeline: Pick<GitlabPipeline, 'status'>): boolean =>
+  ACTIVE_STATUSES.includes(pipeline.status);
+
+/**
+ * Group jobs into stages in the order they run, which is the order GitLab created their first jobs in.
+ * A job allowed to fail counts as passed for its stage.
+ */
+const buildStages = (jobs: readonly GitlabJob[]): GitlabPipelineStage[] => {
+  const stages: Map<string, GitlabJob[]> = new Map();
+  [...jobs].sort((a, b) => a.id - b.id).forEach(job => {
+    stages.set(job.stage, [...(stages.get(job.stage) ?? []), job]);
+  });
+
+  return Array.from(stages.entries()).map(([name, stageJobs]) => {
+    const statuses = stageJobs.map(job => (job.status === 'failed' && job.allowFailure ? 'success' : job.status));
+    return {
+      name,
+      status: STAGE_STATUS_ORDER.find(status => statuses.includes(status)) ?? 'created',
+      jobs: stageJobs,
+    };
+  });
+};
+
+class GitlabPipelineService {
+  private pipelines: Map<string, GitlabPipeline[]> = new Map();
+  private cache: Map<string, CachedPipeline> = new Map();
+  private errors: Map<string, GitlabPipelineError> = new Map();
+  private listeners: GitlabPipelineListener[] = [];
+
+  /**
+   * Read the recent pipelines of every monitored project on the active instances,
+   * the selected ones and those in selected groups.
+   * A project that cannot be read keeps its last pipelines and is reported in `errors`.
+   */
+  async refresh(instances: readonly GitlabInstance[], now: number = Date.now()): Promise<GitlabPipelineOverview> {
+    const projects = (await Promise.all(instances
+      .filter(instance => instance.isActive)
+      .map(async instance => (await gitlabApiService.getMonitoredProjectIds(instance))
+        .map(projectId => ({ instance, projectId })))
+    )).flat();
+
+    await Promise.all(projects.map(async ({ instance, projectId }) => {
+      const key = this.getProjectKey(instance.id, projectId);
+      try {
+        await this.refreshProject(instance, projectId, now);
+        this.errors.delete(key);
+      } catch (error) {
+        this.errors.set(key, { instanceId: instance.id, projectId, message: getErrorMessage(error) });
+        logger.warn(`Failed to read pipelines of project ${projectId} on ${instance.name}`, 'GitlabPipelineService', error);
+      }
+    }));
+
+    // Forget projects that are no longer selected
+    const selected = new Set(projects.map(({ instance, projectId }) => this.getProjectKey(instance.id, projectId)));
+    Array.from(this.pipelines.keys()).filter(key => !selected.has(key)).forEach(key => this.pipelines.delete(key));
+    Array.from(this.errors.keys()).filter(key => !selected.has(key)).forEach(key => this.errors.delete(key));
+
+    const pipelines = this.getPipelines();
+    this.notify(pipelines);
+
+    return { pipelines, errors: Array.from(this.errors.values()) };
+  }
+
+  /**
+   * Read a project's recent pipelines with their jobs. Jobs are only read again for pipelines updated since the last read.
+   */
+  async refreshProject(instance: GitlabInstance, projectId: number, now: number = Date.now()): Promise<GitlabPipeline[]> {
+    const recent = await gitlabApiService.getPipelines(instance, projectId);
+
+    const pipelines = await Promise.all(recent.map(async summary => {
+      const key = this.getPipelineKey(instance.id, projectId, summary.id);
+      let cached = this.cache.get(key);
+
+      if (!cached || cached.details.updatedAt.getTime() !== summary.updatedAt.getTime()) {
+        const [details, jobs] = await Promise.all([
+          gitlabApiService.getPipeline(instance, projectId, summary.id),
+          gitlabApiService.getPipelineJobs(instance, projectId, summary.id),
+        ]);
+        cached = { details, jobs, fetchedAt: now };
+        this.cache.set(key, cached);
+      }
+
+      return this.toPipeline(cached, now);
+    }));
+
+    // Drop cached pipelines that fell out of the recent list
+    const keep = new Set(recent.map(summary => this.getPipelineKey(instance.id, projectId, summary.id)));
+    const prefix = `${this.getProjectKey(instance.id, projectId)}:`;
+    Array.from(this.cache.keys())
+      .filter(key => key.startsWith(prefix) && !keep.has(key))
+      .forEach(key => this.cache.delete(key));
+
+    this.pipelines.set(this.getProjectKey(instance.id, projectId), pipelines);
+    return pipelines;
+  }
+
+  /**
+   * Get the pipelines read so far, newest first.
+   * Running pipelines are active and not stuck; failed ones are the newest pipeline of their ref, as a later
+   * pipeline on the ref supersedes them.
+   */
+  getPipelines(filter: GitlabPipelineFilter = {}): GitlabPipeline[] {
+    return Array.from(this.pipelines.values())
+      .flatMap(projectPipelines => projectPipelines.filter(pipeline =>
+        !filter.state || this.getState(pipeline, projectPipelines) === filter.state
+      ))
+      .filter(pipeline => !filter.instanceId || pipeline.instanceId === filter.instanceId)
+      .filter(pipeline => filter.projectId === undefined || pipeline.projectId === filter.projectId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Projects whose pipelines could not be read on the last refresh
+   */
+  getErrors(): GitlabPipelineError[] {
+    return Array.from(this.errors.values());
+  }
+
+  /**
+   * Subscribe to every refresh, returning an unsubscribe function
+   */
+  subscribe(listener: GitlabPipelineListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Forget every pipeline read so far
+   */
+  clear(): void {
+    this.pipelines.clear();
+    this.cache.clear();
+    this.errors.clear();
+  }
+
+  private getState(pipeline: GitlabPipeline, projectPipelines: readonly GitlabPipeline[]): GitlabPipelineState | null {
+    if (pipeline.stuck) return 'stuck';
+    if (isActivePipeline(pipeline)) return 'running';
+
+    const newestOnRef = projectPipelines.find(other => other.ref === pipeline.ref);
+    return pipeline.status === 'failed' && newestOnRef?.id === pipeline.id ? 'failed' : null;
+  }
+
+  /**
+   * Assemble a pipeline from its details and jobs. A pending job has been waiting for a runner
+   * since it was read, less the queue time it had by then.
+   */
+  private toPipeline({ details, jobs, fetchedAt }: CachedPipeline, now: number): GitlabPipeline {
+    const { stuckAfter } = MONITORING_CONFIG.gitlab;
+    const waitingSince = (job: GitlabJob) => job.queuedDuration !== null
+      ? fetchedAt - job.queuedDuration * 1000
+      : job.createdAt.getTime();
+
+    return {
+      ...details,
+      stages: buildStages(jobs),
+      failedJobs: jobs.filter(job => job.status === 'failed' && !job.allowFailure),
+      stuck: isActivePipeline(details) && jobs.some(job => job.status === 'pending' && now - waitingSince(job) > stuckAfter),
+    };
+  }
+
+  private getProjectKey(instanceId: string, projectId: number): string {
+    return `${instanceId}:${projectId}`;
+  }
+
+  private getPipelineKey(instanceId: string, projectId: number, pipelineId: number): string {
+    return `${this.getProjectKey(instanceId, projectId)}:${pipelineId}`;
+  }
+
+  private notify(pipelines: GitlabPipeline[]): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(pipelines);
+      } catch (error) {
+        logger.error('Pipeline listener failed', 'GitlabPipelineService', error);
+      }
+    });
+  }
+}
+
+export const gitlabPipelineService = new GitlabPipelineService();
+export type { GitlabPipeline, GitlabPipelineState, GitlabPipelineError, GitlabPipelineOverview };
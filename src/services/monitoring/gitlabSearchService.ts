@@ -2,6 +2,7 @@
 // Provides sophisticated search capabilities and advanced filtering options
 
 import { logger } from '@/lib/logger';
+import { gitlabMergeRequestService, hasMergeRequestFlag, type GitlabMergeRequestFlag } from './gitlabMergeRequestService';
 import type { GitlabProject } from '@/types';
 
 // Search and filter configuration
@@ -57,6 +58,7 @@ interface SearchFilters {
   owner?: string[];
   tags?: string[];
   pipelineStatus?: ('success' | 'failed' | 'running' | 'pending' | 'canceled' | 'skipped')[];
+  mergeRequests?: GitlabMergeRequestFlag[]; // projects with an open merge request flagged any of these
   branch?: string;
   defaultBranch?: string;
 }
@@ -83,6 +85,7 @@ interface SearchFacets {
   owners: { [key: string]: number };
   licenses: { [key: string]: number };
   pipelineStatus: { [key: string]: number };
+  mergeRequests: { [key: string]: number };
   activityRanges: { [key: string]: number };
 }
 
@@ -387,6 +390,18 @@ class GitlabSearchService {
         }
       }
 
+      // Merge request filter, from the merge requests read for the selected projects
+      if (filters.mergeRequests && filters.mergeRequests.length > 0) {
+        const flags = filters.mergeRequests;
+        const mergeRequests = gitlabMergeRequestService.getMergeRequests({
+          instanceId: project.instanceId,
+          projectId: project.id,
+        });
+        if (!mergeRequests.some(mergeRequest => flags.some(flag => hasMergeRequestFlag(mergeRequest, flag)))) {
+          return false;
+        }
+      }
+
       return true;
     });
   }
@@ -453,6 +468,7 @@ class GitlabSearchService {
       owners: {},
       licenses: {},
       pipelineStatus: {},
+      mergeRequests: {},
       activityRanges: {},
     };
 
@@ -468,6 +484,17 @@ class GitlabSearchService {
         facets.pipelineStatus[project.pipelineStatus] = (facets.pipelineStatus[project.pipelineStatus] || 0) + 1;
       }
 
+      // Merge request facet, counting projects rather than merge requests
+      const mergeRequests = gitlabMergeRequestService.getMergeRequests({
+        instanceId: project.instanceId,
+        projectId: project.id,
+      });
+      (['stale', 'blocked', 'awaiting_review'] as const)
+        .filter(flag => mergeRequests.some(mergeRequest => hasMergeRequestFlag(mergeRequest, flag)))
+        .forEach(flag => {
+          facets.mergeRequests[flag] = (facets.mergeRequests[flag] || 0) + 1;
+        });
+
       // Activity ranges (simplified)
       const lastActivity = new Date(project.lastActivityAt);
       const now = new Date();
@@ -807,6 +834,13 @@ class GitlabSearchService {
         },
         description: 'Projects that have open issues',
       },
+      {
+        name: 'Merge Requests Needing Attention',
+        filters: {
+          mergeRequests: ['stale', 'blocked', 'awaiting_review'],
+        },
+        description: 'Projects with stale, blocked or unreviewed merge requests',
+      },
       {
         name: 'Recently Created',
         filters: {
@@ -2,11 +2,25 @@
 export { gitlabApiService } from './gitlabApiService';
 export type { GitlabInstance, GitlabProject } from './gitlabApiService';
 
+export { gitlabPipelineService } from './gitlabPipelineService';
+export type { GitlabPipeline, GitlabPipelineState, GitlabPipelineError } from './gitlabPipelineService';
+export { gitlabMergeRequestService } from './gitlabMergeRequestService';
+export type { GitlabMergeRequest, GitlabMergeRequestFlag, GitlabMergeRequestError } from './gitlabMergeRequestService';
+
 export { uptimeMonitoringService } from './uptimeMonitoringService';
 export type { UptimeTarget, UptimeStatus, UptimeStats } from './uptimeMonitoringService';
 
+export { uptimeIncidentService } from './uptimeIncidentService';
+export type { UptimeIncident, UptimeIncidentState } from './uptimeIncidentService';
+
 export { dnsMonitoringService } from './dnsMonitoringService';
-export type { DnsTarget, DnsRecord, DnsStats } from './dnsMonitoringService';
+export type { DnsTarget, DnsRecord, DnsStats, DnsNameserverResult } from './dnsMonitoringService';
+
+export { dnsHistoryService } from './dnsHistoryService';
+export type { DnsObservation, DnsRecordChange } from './dnsHistoryService';
+
+export { domainRegistrationService } from './domainRegistrationService';
+export type { DomainRegistration, DomainRegistrationStatus } from './domainRegistrationService';
 
 export { serverMonitoringService } from './serverMonitoringService';
 export type { ServerTarget, ServerMetrics, ServerStats } from './serverMonitoringService';
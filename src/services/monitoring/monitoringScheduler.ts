@@ -0,0 +1,74 @@
+// Monitoring scheduler
+// Runs a check for every monitored target on its own interval, skipping a tick while the previous check still runs
+
+import { logger } from '@/lib/logger';
+
+interface ScheduledJob<T> {
+  target: T;
+  timer: ReturnType<typeof setInterval>;
+  inFlight: boolean;
+}
+
+export class MonitoringScheduler<T> {
+  private jobs: Map<string, ScheduledJob<T>> = new Map();
+
+  constructor(
+    private readonly check: (target: T) => Promise<unknown>,
+    private readonly describe: (target: T) => string,
+    private readonly context: string
+  ) {}
+
+  /**
+   * Replace a target's schedule and run its first check right away.
+   * The old timer is cleared and the new one registered before anything is awaited,
+   * so starts and stops that overlap for one target never leave a timer behind.
+   */
+  schedule(id: string, target: T, interval: number): Promise<void> {
+    this.cancel(id);
+
+    const job: ScheduledJob<T> = {
+      target,
+      inFlight: false,
+      timer: setInterval(() => {
+        void this.run(job);
+      }, interval),
+    };
+    this.jobs.set(id, job);
+
+    return this.run(job);
+  }
+
+  /**
+   * Stop a target's schedule, returning the target it ran for, or null when it had none
+   */
+  cancel(id: string): T | null {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+
+    clearInterval(job.timer);
+    this.jobs.delete(id);
+    return job.target;
+  }
+
+  cancelAll(): void {
+    Array.from(this.jobs.keys()).forEach(id => this.cancel(id));
+  }
+
+  has(id: string): boolean {
+    return this.jobs.has(id);
+  }
+
+  private async run(job: ScheduledJob<T>): Promise<void> {
+    if (job.inFlight) {
+      logger.debug(`Previous check for ${this.describe(job.target)} still running, skipping`, this.context);
+      return;
+    }
+
+    job.inFlight = true;
+    try {
+      await this.check(job.target);
+    } finally {
+      job.inFlight = false;
+    }
+  }
+}
@@ -0,0 +1,228 @@
+// Netdata client
+// Reads system metrics from a Netdata agent's REST API. v2 agents still serve the v1 endpoints used here.
+
+import { MONITORING_CONFIG } from '@/config';
+import type { ServerMetricsReading } from '@/types';
+
+export interface NetdataInfoResponse {
+  version?: string;
+  mirrored_hosts?: string[];
+}
+
+export interface NetdataChartsResponse {
+  charts?: Record<string, { context?: string; family?: string; chart_labels?: Record<string, string> }>;
+}
+
+export interface NetdataDataResponse {
+  labels?: string[];
+  data?: Array<Array<number | null>>;
+}
+
+export interface NetdataInfo {
+  version: string;
+  majorVersion: number;
+  hostname?: string;
+}
+
+/**
+ * Average of every dimension of a chart over the sample window, keyed by dimension name
+ */
+export type NetdataChartValues = Record<string, number>;
+
+/**
+ * The charts a server check reads. A chart the agent does not collect is null.
+ */
+export interface NetdataSnapshot {
+  info: NetdataInfo;
+  cpu: NetdataChartValues | null;
+  ram: NetdataChartValues | null;
+  disk: NetdataChartValues | null;
+  uptime: NetdataChartValues | null;
+  interfaces: Record<string, NetdataChartValues>;
+}
+
+interface InterfaceCharts {
+  charts: string[];
+  discoveredAt: number;
+}
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const toPercentage = (part: number, whole: number): number =>
+  whole > 0 ? round(Math.min(100, Math.max(0, (part / whole) * 100))) : 0;
+
+/**
+ * Read the major version from a Netdata version string such as "v1.44.3" or "v2.0.1"
+ */
+export const parseMajorVersion = (version: string): number => Number(/^v?(\d+)/.exec(version)?.[1] ?? 0);
+
+/**
+ * Map the first row of a data response onto its dimension names, skipping the time column
+ */
+export const parseChartValues = (data: NetdataDataResponse): NetdataChartValues => {
+  const labels = data.labels ?? [];
+  const row = data.data?.[0] ?? [];
+  const values: NetdataChartValues = {};
+
+  labels.forEach((label, index) => {
+    const value = row[index];
+    if (label !== 'time' && typeof value === 'number') {
+      values[label] = value;
+    }
+  });
+  return values;
+};
+
+/**
+ * Derive the usage fields of ServerMetrics from a snapshot.
+ * CPU is every system.cpu dimension except idle, memory is the used share of system.ram,
+ * disk is used over used plus available space of the root filesystem (as df reports it)
+ * and network is the kilobit rate summed over the physical interfaces.
+ */
+export const toServerUsage = (snapshot: NetdataSnapshot): ServerMetricsReading => {
+  const { info, cpu, ram, disk, uptime, interfaces } = snapshot;
+  const rates = Object.values(interfaces);
+  const missing = [
+    ...(cpu ? [] : ['system.cpu']),
+    ...(ram ? [] : ['system.ram']),
+    ...(disk ? [] : ['disk_space._']),
+  ];
+
+  return {
+    cpuUsage: cpu
+      ? round(Math.min(100, sum(Object.entries(cpu).filter(([name]) => name !== 'idle').map(([, value]) => value))))
+      : 0,
+    memoryUsage: ram ? toPercentage(ram.used ?? 0, sum(Object.values(ram))) : 0,
+    diskUsage: disk ? toPercentage(disk.used ?? 0, (disk.used ?? 0) + (disk.avail ?? 0)) : 0,
+    // Netdata charts sent traffic as negative values
+    networkIn: round(sum(rates.map(rate => Math.abs(rate.received ?? 0)))),
+    networkOut: round(sum(rates.map(rate => Math.abs(rate.sent ?? 0)))),
+    uptime: Math.round(uptime?.uptime ?? 0),
+    agent: `Netdata ${info.version}`,
+    missing,
+    unreported: [
+      ...(cpu ? [] : ['cpu' as const]),
+      ...(ram ? [] : ['memory' as const]),
+      ...(disk ? [] : ['disk' as const]),
+    ],
+  };
+};
+
+class NetdataClient {
+  private interfaceCharts: Map<string, InterfaceCharts> = new Map();
+
+  /**
+   * Read the agent's version and hostname from /api/v1/info
+   */
+  async getInfo(baseUrl: string, timeout: number): Promise<NetdataInfo> {
+    const info = await this.request<NetdataInfoResponse>(baseUrl, '/api/v1/info', timeout);
+    if (!info) {
+      throw new Error('Netdata API not found; check the Netdata URL or proxy path');
+    }
+
+    const version = info.version ?? 'unknown';
+    const hostname = info.mirrored_hosts?.[0];
+    return {
+      version,
+      majorVersion: parseMajorVersion(version),
+      ...(hostname && { hostname }),
+    };
+  }
+
+  /**
+   * Average every dimension of a chart over the configured sample window.
+   * Resolves to null when the agent does not collect the chart.
+   */
+  async getChart(baseUrl: string, chart: string, timeout: number): Promise<NetdataChartValues | null> {
+    const params = new URLSearchParams({
+      chart,
+      after: String(-MONITORING_CONFIG.netdata.sampleSeconds),
+      points: '1',
+      group: 'average',
+      format: 'json',
+    });
+    const data = await this.request<NetdataDataResponse>(baseUrl, `/api/v1/data?${params}`, timeout);
+    return data ? parseChartValues(data) : null;
+  }
+
+  /**
+   * List the net.* charts of physical interfaces, reusing the list for the discovery interval
+   */
+  async getInterfaceCharts(baseUrl: string, timeout: number, now: number = Date.now()): Promise<string[]> {
+    const cached = this.interfaceCharts.get(baseUrl);
+    if (cached && now - cached.discoveredAt < MONITORING_CONFIG.netdata.chartDiscoveryInterval) {
+      return cached.charts;
+    }
+
+    const response = await this.request<NetdataChartsResponse>(baseUrl, '/api/v1/charts', timeout);
+    const charts = Object.entries(response?.charts ?? {})
+      .filter(([id, chart]) =>
+        id.startsWith('net.') &&
+        (chart.context ?? 'net.net') === 'net.net' &&
+        chart.family !== 'lo' &&
+        chart.chart_labels?.interface_type !== 'virtual'
+      )
+      .map(([id]) => id)
+      .sort();
+
+    this.interfaceCharts.set(baseUrl, { charts, discoveredAt: now });
+    return charts;
+  }
+
+  /**
+   * Read every chart a server check needs in one go
+   */
+  async getSnapshot(baseUrl: string, timeout: number): Promise<NetdataSnapshot> {
+    const info = await this.getInfo(baseUrl, timeout);
+    const [cpu, ram, disk, uptime, interfaceCharts] = await Promise.all([
+      this.getChart(baseUrl, 'system.cpu', timeout),
+      this.getChart(baseUrl, 'system.ram', timeout),
+      this.getChart(baseUrl, 'disk_space._', timeout),
+      this.getChart(baseUrl, 'system.uptime', timeout),
+      this.getInterfaceCharts(baseUrl, timeout),
+    ]);
+    const rates = await Promise.all(interfaceCharts.map(chart => this.getChart(baseUrl, chart, timeout)));
+
+    const interfaces: Record<string, NetdataChartValues> = {};
+    interfaceCharts.forEach((chart, index) => {
+      const values = rates[index];
+      if (values) interfaces[chart.slice('net.'.length)] = values;
+    });
+
+    return { info, cpu, ram, disk, uptime, interfaces };
+  }
+
+  /**
+   * Forget the discovered interface charts, e.g. between tests
+   */
+  clear(): void {
+    this.interfaceCharts.clear();
+  }
+
+  private async request<T>(baseUrl: string, path: string, timeout: number): Promise<T | null> {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+        cache: 'no-store',
+        signal: AbortSignal.timeout(timeout),
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'TimeoutError') {
+        throw new Error(`Netdata did not answer within ${timeout}ms`);
+      }
+      throw error;
+    }
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Netdata responded with HTTP ${response.status}`);
+    }
+    return (await response.json()) as T;
+  }
+}
+
+export const netdataClient = new NetdataClient();
@@ -0,0 +1,128 @@
+// Probe agent client
+// Talks to the companion probe agent for checks that browsers cannot perform themselves
+
+import { apiClient } from '@/lib/api';
+import { MONITORING_CONFIG, env } from '@/config';
+import type { TlsCertificateInfo } from '@/types';
+
+interface TlsCertificateResponse extends Omit<TlsCertificateInfo, 'validFrom' | 'notAfter'> {
+  validFrom: string;
+  notAfter: string;
+}
+
+export interface ProbeRelayRequest {
+  url: string;
+  method: string;
+  headers?: Record<string, string>;
+  body?: string;
+  timeout: number;
+}
+
+export interface ProbeRelayResponse {
+  status: number;
+  headers: Record<string, string>;
+  setCookies: string[];
+  body: string;
+}
+
+export interface ProbeDnsRequest {
+  server: string;
+  port: number;
+  transport: 'udp' | 'tcp';
+  query: string; // base64 encoded wire-format message
+  timeout: number;
+}
+
+export interface ProbeTcpRequest {
+  host: string;
+  port: number;
+  timeout: number;
+  readBanner: boolean;
+}
+
+export interface ProbeTcpResponse {
+  host: string;
+  port: number;
+  address: string; // the address connected to, after resolving a host name
+  latency: number; // handshake in milliseconds
+  banner?: string; // first line the server sent, when asked for and sent before the timeout
+}
+
+class ProbeAgentClient {
+  private basePath: string = MONITORING_CONFIG.probeAgent.basePath;
+  private token: string = env.probeAgentToken;
+
+  /**
+   * Point the client at a different agent, e.g. one not served from the same origin
+   */
+  setBasePath(basePath: string): void {
+    this.basePath = basePath.replace(/\/$/, '');
+  }
+
+  /**
+   * Set the shared token the agent expects, overriding VITE_PROBE_AGENT_TOKEN
+   */
+  setToken(token: string): void {
+    this.token = token;
+  }
+
+  private get headers(): Record<string, string> {
+    return { Authorization: `Bearer ${this.token}` };
+  }
+
+  /**
+   * Fetch the certificate presented by a TLS endpoint
+   */
+  async getCertificate(host: string, port: number): Promise<TlsCertificateInfo> {
+    const params = new URLSearchParams({ host, port: String(port) });
+    const { data } = await apiClient.get<TlsCertificateResponse>(`${this.basePath}/tls?${params}`, {
+      headers: this.headers,
+      timeout: MONITORING_CONFIG.probeAgent.timeout,
+    });
+
+    return {
+      ...data,
+      validFrom: new Date(data.validFrom),
+      notAfter: new Date(data.notAfter),
+    };
+  }
+
+  /**
+   * Have the agent make an HTTP request, bypassing browser restrictions on cookies and CORS
+   */
+  async relay(request: ProbeRelayRequest): Promise<ProbeRelayResponse> {
+    const { data } = await apiClient.post<ProbeRelayResponse>(`${this.basePath}/http`, request, {
+      headers: this.headers,
+      // Leave the agent time to report its own timeout before giving up on it
+      timeout: request.timeout + MONITORING_CONFIG.probeAgent.timeout,
+    });
+
+    return data;
+  }
+
+  /**
+   * Have the agent send a wire-format DNS query over UDP or TCP and return the base64 encoded response
+   */
+  async queryDns(request: ProbeDnsRequest): Promise<string> {
+    const { data } = await apiClient.post<{ response: string }>(`${this.basePath}/dns`, request, {
+      headers: this.headers,
+      timeout: request.timeout + MONITORING_CONFIG.probeAgent.timeout,
+    });
+
+    return data.response;
+  }
+
+  /**
+   * Have the agent open a TCP connection, timing the handshake and optionally reading the server's greeting
+   */
+  async connectTcp(request: ProbeTcpRequest): Promise<ProbeTcpResponse> {
+    const { data } = await apiClient.post<ProbeTcpResponse>(`${this.basePath}/tcp`, request, {
+      headers: this.headers,
+      timeout: request.timeout + MONITORING_CONFIG.probeAgent.timeout,
+    });
+
+    return data;
+  }
+}
+
+export const probeAgentClient = new ProbeAgentClient();
@@ -0,0 +1,302 @@
+// Prometheus client
+// Scrapes node_exporter's text exposition format and runs PromQL against a Prometheus server's HTTP API
+
+import type { ServerAlertMetric, ServerMetricsReading } from '@/types';
+
+export interface PrometheusSample {
+  name: string;
+  labels: Record<string, string>;
+  value: number;
+}
+
+/**
+ * One scrape of an exporter. Counters need two scrapes to become rates.
+ */
+export interface ExporterScrape {
+  samples: PrometheusSample[];
+  scrapedAt: number;
+}
+
+export interface PrometheusQueryResponse {
+  status: 'success' | 'error';
+  error?: string;
+  data?: {
+    resultType: string;
+    result: Array<{ metric: Record<string, string>; value: [number, string] }>;
+  };
+}
+
+export interface PrometheusBuildInfoResponse {
+  status: 'success' | 'error';
+  data?: { version?: string };
+}
+
+// Network devices left out of the traffic totals, as they double count what physical interfaces carry
+const VIRTUAL_DEVICE_PATTERN = 'lo|veth.*|docker.*|br-.*|virbr.*|cni.*|flannel.*|cali.*';
+const VIRTUAL_DEVICE = new RegExp(`^(${VIRTUAL_DEVICE_PATTERN})$`);
+
+const ROOT_MOUNTPOINT = '/';
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const toPercentage = (part: number, whole: number): number =>
+  whole > 0 ? round(Math.min(100, Math.max(0, (part / whole) * 100))) : 0;
+
+const parseValue = (value: string): number => {
+  if (value === '+Inf') return Infinity;
+  if (value === '-Inf') return -Infinity;
+  return Number(value);
+};
+
+const unescapeLabel = (value: string): string =>
+  value.replace(/\\(["\\n])/g, (_, char: string) => (char === 'n' ? '\n' : char));
+
+/**
+ * Parse the Prometheus text exposition format, skipping comments and malformed lines
+ */
+export const parseExposition = (text: string): PrometheusSample[] => {
+  const samples: PrometheusSample[] = [];
+
+  text.split('\n').forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const match = /^([a-zA-Z_:][a-zA-Z0-9_:]*)(?:\{(.*)\})?\s+(\S+)(?:\s+-?\d+)?$/.exec(line);
+    if (!match) return;
+
+    const [, name = '', labelText = '', value = ''] = match;
+    const labels: Record<string, string> = {};
+    for (const label of labelText.matchAll(/([a-zA-Z_][a-zA-Z0-9_]*)="((?:[^"\\]|\\.)*)"/g)) {
+      labels[label[1] ?? ''] = unescapeLabel(label[2] ?? '');
+    }
+
+    samples.push({ name, labels, value: parseValue(value) });
+  });
+
+  return samples;
+};
+
+const select = (samples: PrometheusSample[], name: string, labels: Record<string, string> = {}): PrometheusSample[] =>
+  samples.filter(sample =>
+    sample.name === name && Object.entries(labels).every(([label, value]) => sample.labels[label] === value)
+  );
+
+const total = (samples: PrometheusSample[], name: string, labels?: Record<string, string>): number | undefined => {
+  const matching = select(samples, name, labels);
+  return matching.length > 0 ? sum(matching.map(sample => sample.value)) : undefined;
+};
+
+const physicalTotal = (samples: PrometheusSample[], name: string): number =>
+  sum(select(samples, name).filter(sample => !VIRTUAL_DEVICE.test(sample.labels.device ?? '')).map(sample => sample.value));
+
+/**
+ * Derive the usage fields of ServerMetrics from a node_exporter scrape.
+ * CPU and network are rates against the previous scrape; without one (or after a counter reset)
+ * CPU falls back to the share since boot and network to zero.
+ */
+export const toExporterUsage = (current: ExporterScrape, previous?: ExporterScrape): ServerMetricsReading => {
+  const { samples } = current;
+  const cpuTotal = total(samples, 'node_cpu_seconds_total');
+  const cpuIdle = total(samples, 'node_cpu_seconds_total', { mode: 'idle' }) ?? 0;
+  const memTotal = total(samples, 'node_memory_MemTotal_bytes');
+  const memAvailable = total(samples, 'node_memory_MemAvailable_bytes');
+  const fsSize = total(samples, 'node_filesystem_size_bytes', { mountpoint: ROOT_MOUNTPOINT });
+  const fsFree = total(samples, 'node_filesystem_free_bytes', { mountpoint: ROOT_MOUNTPOINT }) ?? 0;
+  const fsAvail = total(samples, 'node_filesystem_avail_bytes', { mountpoint: ROOT_MOUNTPOINT }) ?? 0;
+  const bootTime = total(samples, 'node_boot_time_seconds');
+  const time = total(samples, 'node_time_seconds') ?? current.scrapedAt / 1000;
+  const version = select(samples, 'node_exporter_build_info')[0]?.labels.version;
+
+  let cpuUsage = cpuTotal !== undefined ? toPercentage(cpuTotal - cpuIdle, cpuTotal) : 0;
+  let networkIn = 0;
+  let networkOut = 0;
+
+  const elapsed = previous ? (current.scrapedAt - previous.scrapedAt) / 1000 : 0;
+  if (previous && elapsed > 0 && cpuTotal !== undefined) {
+    const deltaTotal = cpuTotal - (total(previous.samples, 'node_cpu_seconds_total') ?? 0);
+    const deltaIdle = cpuIdle - (total(previous.samples, 'node_cpu_seconds_total', { mode: 'idle' }) ?? 0);
+    const received = physicalTotal(samples, 'node_network_receive_bytes_total') -
+      physicalTotal(previous.samples, 'node_network_receive_bytes_total');
+    const transmitted = physicalTotal(samples, 'node_network_transmit_bytes_total') -
+      physicalTotal(previous.samples, 'node_network_transmit_bytes_total');
+
+    // Counters only go down when the host restarted, so the previous scrape is no baseline
+    if (deltaTotal > 0 && deltaIdle >= 0 && received >= 0 && transmitted >= 0) {
+      cpuUsage = toPercentage(deltaTotal - deltaIdle, deltaTotal);
+      networkIn = round((received * 8) / 1000 / elapsed);
+      networkOut = round((transmitted * 8) / 1000 / elapsed);
+    }
+  }
+
+  return {
+    cpuUsage,
+    memoryUsage: memTotal !== undefined && memAvailable !== undefined
+      ? toPercentage(memTotal - memAvailable, memTotal)
+      : 0,
+    diskUsage: fsSize !== undefined ? toPercentage(fsSize - fsFree, fsSize - fsFree + fsAvail) : 0,
+    networkIn,
+    networkOut,
+    uptime: bootTime !== undefined ? Math.round(time - bootTime) : 0,
+    agent: version ? `node_exporter ${version}` : 'node_exporter',
+    missing: [
+      ...(cpuTotal === undefined ? ['node_cpu_seconds_total'] : []),
+      ...(memAvailable === undefined ? ['node_memory_MemAvailable_bytes'] : []),
+      ...(fsSize === undefined ? ['node_filesystem_size_bytes{mountpoint="/"}'] : []),
+    ],
+    unreported: [
+      ...(cpuTotal === undefined ? ['cpu' as const] : []),
+      ...(memTotal === undefined || memAvailable === undefined ? ['memory' as const] : []),
+      ...(fsSize === undefined ? ['disk' as const] : []),
+    ],
+  };
+};
+
+/**
+ * PromQL for every usage field, selecting one host by its instance label
+ */
+export const buildUsageQueries = (instance: string): Record<keyof Omit<ServerMetricsReading, 'agent' | 'missing' | 'unreported'>, string> => {
+  const host = `instance="${instance.replace(/["\\]/g, '\\$&')}"`;
+  const root = `${host},mountpoint="${ROOT_MOUNTPOINT}"`;
+  const devices = `${host},device!~"${VIRTUAL_DEVICE_PATTERN}"`;
+
+  return {
+    cpuUsage: `100 * (1 - avg(rate(node_cpu_seconds_total{${host},mode="idle"}[5m])))`,
+    memoryUsage: `100 * (1 - node_memory_MemAvailable_bytes{${host}} / node_memory_MemTotal_bytes{${host}})`,
+    diskUsage:
+      `100 * (node_filesystem_size_bytes{${root}} - node_filesystem_free_bytes{${root}}) / ` +
+      `(node_filesystem_size_bytes{${root}} - node_filesystem_free_bytes{${root}} + node_filesystem_avail_bytes{${root}})`,
+    networkIn: `sum(rate(node_network_receive_bytes_total{${devices}}[5m])) * 8 / 1000`,
+    networkOut: `sum(rate(node_network_transmit_bytes_total{${devices}}[5m])) * 8 / 1000`,
+    uptime: `node_time_seconds{${host}} - node_boot_time_seconds{${host}}`,
+  };
+};
+
+// The metric a query reads, named when Prometheus has no data for it
+const QUERY_METRICS: Record<keyof ReturnType<typeof buildUsageQueries>, string> = {
+  cpuUsage: 'node_cpu_seconds_total',
+  memoryUsage: 'node_memory_MemAvailable_bytes',
+  diskUsage: 'node_filesystem_size_bytes',
+  networkIn: 'node_network_receive_bytes_total',
+  networkOut: 'node_network_transmit_bytes_total',
+  uptime: 'node_boot_time_seconds',
+};
+
+// Usage fields that thresholds are evaluated against
+const USAGE_METRICS: Partial<Record<keyof typeof QUERY_METRICS, ServerAlertMetric>> = {
+  cpuUsage: 'cpu',
+  memoryUsage: 'memory',
+  diskUsage: 'disk',
+};
+
+class PrometheusClient {
+  /**
+   * Fetch and parse an exporter's metrics page
+   */
+  async scrape(url: string, timeout: number): Promise<ExporterScrape> {
+    const response = await this.request(url, timeout, 'Exporter', { Accept: 'text/plain;version=0.0.4' });
+    return { samples: parseExposition(await response.text()), scrapedAt: Date.now() };
+  }
+
+  /**
+   * Run an instant PromQL query, resolving to the value of the first series or null without data
+   */
+  async query(baseUrl: string, promql: string, timeout: number): Promise<number | null> {
+    const response = await this.request(
+      `${baseUrl.replace(/\/$/, '')}/api/v1/query?${new URLSearchParams({ query: promql })}`,
+      timeout,
+      'Prometheus'
+    );
+    const body = (await response.json()) as PrometheusQueryResponse;
+    if (body.status !== 'success') {
+      throw new Error(`Prometheus query failed: ${body.error || 'unknown error'}`);
+    }
+
+    const value = body.data?.result[0]?.value[1];
+    return value !== undefined ? parseValue(value) : null;
+  }
+
+  /**
+   * Read every usage field of a host from Prometheus
+   */
+  async queryUsage(baseUrl: string, instance: string, timeout: number): Promise<ServerMetricsReading> {
+    const queries = buildUsageQueries(instance);
+    const fields = Object.keys(queries) as Array<keyof typeof queries>;
+    const [version, ...values] = await Promise.all([
+      this.getVersion(baseUrl, timeout),
+      ...fields.map(field => this.query(baseUrl, queries[field], timeout)),
+    ]);
+
+    const reading: ServerMetricsReading = {
+      cpuUsage: 0,
+      memoryUsage: 0,
+      diskUsage: 0,
+      networkIn: 0,
+      networkOut: 0,
+      uptime: 0,
+      agent: version ? `Prometheus ${version}` : 'Prometheus',
+      missing: [],
+      unreported: [],
+    };
+    fields.forEach((field, index) => {
+      const value = values[index];
+      if (value === null || value === undefined || !Number.isFinite(value)) {
+        reading.missing.push(QUERY_METRICS[field]);
+        const metric = USAGE_METRICS[field];
+        if (metric) reading.unreported.push(metric);
+      } else if (field === 'uptime') {
+        reading.uptime = Math.round(value);
+      } else if (field === 'networkIn' || field === 'networkOut') {
+        reading[field] = round(Math.max(0, value));
+      } else {
+        reading[field] = round(Math.min(100, Math.max(0, value)));
+      }
+    });
+
+    // Both network queries read from the same exporter, so name a missing one once
+    reading.missing = Array.from(new Set(reading.missing));
+    return reading;
+  }
+
+  /**
+   * Read the server version from its build info, which compatible stores may not serve
+   */
+  private async getVersion(baseUrl: string, timeout: number): Promise<string | undefined> {
+    try {
+      const response = await this.request(`${baseUrl.replace(/\/$/, '')}/api/v1/status/buildinfo`, timeout, 'Prometheus');
+      const body = (await response.json()) as PrometheusBuildInfoResponse;
+      return body.data?.version;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async request(
+    url: string,
+    timeout: number,
+    source: 'Exporter' | 'Prometheus',
+    headers?: Record<string, string>
+  ): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        cache: 'no-store',
+        signal: AbortSignal.timeout(timeout),
+        ...(headers && { headers }),
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'TimeoutError') {
+        throw new Error(`${source} did not answer within ${timeout}ms`);
+      }
+      throw error;
+    }
+
+    if (!response.ok) {
+      throw new Error(`${source} responded with HTTP ${response.status}`);
+    }
+    return response;
+  }
+}
+
+export const prometheusClient = new PrometheusClient();
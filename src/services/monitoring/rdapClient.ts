@@ -0,0 +1,123 @@
+// RDAP client
+// Looks up domain registration data (RFC 9083) from an RDAP server or bootstrap redirector
+
+import { MONITORING_CONFIG } from '@/config';
+import type { DomainRegistration } from '@/types';
+
+interface RdapEvent {
+  eventAction: string;
+  eventDate: string;
+}
+
+interface RdapEntity {
+  objectClassName?: string;
+  roles?: string[];
+  handle?: string;
+  // jCard: ['vcard', [[name, params, type, value], …]]
+  vcardArray?: [string, Array<[string, Record<string, unknown>, string, unknown]>];
+  publicIds?: Array<{ type: string; identifier: string }>;
+}
+
+export interface RdapDomainResponse {
+  objectClassName?: string;
+  ldhName?: string;
+  status?: string[];
+  events?: RdapEvent[];
+  entities?: RdapEntity[];
+  nameservers?: Array<{ objectClassName?: string; ldhName?: string }>;
+  links?: Array<{ rel?: string; href?: string }>;
+}
+
+/**
+ * Anything that can look up the registration of a domain. Resolves to null when the
+ * registry has no such domain, e.g. because it is a subdomain.
+ */
+export interface RdapLookup {
+  lookupDomain(domain: string, timeout: number): Promise<DomainRegistration | null>;
+}
+
+/**
+ * Convert an RDAP status ("client transfer prohibited") to its EPP code ("clientTransferProhibited")
+ */
+export const toEppStatus = (status: string): string => {
+  const words = status.trim().split(/\s+/);
+  if (words.length === 1) return words[0] ?? '';
+
+  return words
+    .map((word, index) => (index === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()))
+    .join('');
+};
+
+const findEventDate = (events: RdapEvent[], action: string): Date | undefined => {
+  const event = events.find(candidate => candidate.eventAction.toLowerCase() === action);
+  const date = event ? new Date(event.eventDate) : undefined;
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+};
+
+const readRegistrar = (entities: RdapEntity[]): Pick<DomainRegistration, 'registrar' | 'registrarIanaId'> => {
+  const registrar = entities.find(entity => entity.roles?.includes('registrar'));
+  if (!registrar) return {};
+
+  const fn = registrar.vcardArray?.[1].find(([property]) => property === 'fn')?.[3];
+  const name = typeof fn === 'string' ? fn : registrar.handle;
+  const ianaId = registrar.publicIds?.find(id => /iana/i.test(id.type))?.identifier;
+
+  return {
+    ...(name && { registrar: name }),
+    ...(ianaId && { registrarIanaId: ianaId }),
+  };
+};
+
+/**
+ * Read the parts of an RDAP domain object that matter for monitoring
+ */
+export const parseRdapDomain = (data: RdapDomainResponse, source: string): DomainRegistration => {
+  const events = data.events ?? [];
+  const createdAt = findEventDate(events, 'registration');
+  const expiresAt = findEventDate(events, 'expiration');
+  const updatedAt = findEventDate(events, 'last changed');
+
+  return {
+    domain: (data.ldhName ?? '').toLowerCase().replace(/\.$/, ''),
+    ...readRegistrar(data.entities ?? []),
+    ...(createdAt && { createdAt }),
+    ...(expiresAt && { expiresAt }),
+    ...(updatedAt && { updatedAt }),
+    statuses: (data.status ?? []).map(toEppStatus),
+    nameservers: (data.nameservers ?? [])
+      .map(nameserver => (nameserver.ldhName ?? '').toLowerCase().replace(/\.$/, ''))
+      .filter(Boolean)
+      .sort(),
+    source: data.links?.find(link => link.rel === 'self')?.href || source,
+  };
+};
+
+class RdapClient implements RdapLookup {
+  private baseUrl: string = MONITORING_CONFIG.rdap.baseUrl;
+
+  /**
+   * Point the client at a different RDAP server, e.g. a registry's own or a local fixture server
+   */
+  setBaseUrl(baseUrl: string): void {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  async lookupDomain(domain: string, timeout: number): Promise<DomainRegistration | null> {
+    const url = `${this.baseUrl}/domain/${encodeURIComponent(domain)}`;
+    const response = await fetch(url, {
+      headers: { Accept: 'application/rdap+json' },
+      signal: AbortSignal.timeout(timeout),
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`RDAP server responded with HTTP ${response.status}`);
+    }
+
+    return parseRdapDomain((await response.json()) as RdapDomainResponse, response.url || url);
+  }
+}
+
+export const rdapClient = new RdapClient();
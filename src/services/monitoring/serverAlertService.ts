@@ -0,0 +1,299 @@
+// Server alert service
+// Evaluates server usage against per-server thresholds and keeps the alerts their breaches raise
+
+import { logger } from '@/lib/logger';
+import { generateId } from '@/lib/utils';
+import { isLocalStorageAvailable, safeJsonParse } from '@/lib/storage';
+import { MONITORING_CONFIG, STORAGE_CONFIG } from '@/config';
+import type {
+  ServerAlert,
+  ServerAlertMetric,
+  ServerAlertState,
+  ServerMetricThreshold,
+  ServerMetrics,
+  ServerThresholdSetting,
+  ServerThresholds,
+  Settings,
+  StatusType,
+} from '@/types';
+
+type ServerAlertListener = (alert: ServerAlert) => void;
+
+type AlertLevel = 'healthy' | 'warning' | 'error';
+
+// Where a target's metric stands and since when it has been above each level
+interface MetricState {
+  level: AlertLevel;
+  warningSince?: number;
+  errorSince?: number;
+}
+
+interface ServerAlertFilter {
+  targetId?: string;
+  metric?: ServerAlertMetric;
+  state?: ServerAlertState;
+  since?: Date; // include alerts still open or ended after this time
+}
+
+type StoredAlert = Omit<ServerAlert, 'startedAt' | 'endedAt'> & {
+  startedAt: string;
+  endedAt?: string;
+};
+
+export const SERVER_ALERT_METRICS: Record<ServerAlertMetric, keyof Pick<ServerMetrics, 'cpuUsage' | 'memoryUsage' | 'diskUsage'>> = {
+  cpu: 'cpuUsage',
+  memory: 'memoryUsage',
+  disk: 'diskUsage',
+};
+
+const LEVEL_RANK: Record<AlertLevel, number> = { healthy: 0, warning: 1, error: 2 };
+
+/**
+ * Apply one threshold setting on top of another threshold
+ */
+const applyThreshold = (threshold: ServerMetricThreshold, setting: ServerThresholdSetting | undefined): ServerMetricThreshold => {
+  if (setting === undefined) return threshold;
+  if (typeof setting === 'number') {
+    return { ...threshold, error: setting, warning: Math.round(setting * MONITORING_CONFIG.servers.warningRatio) };
+  }
+  return { ...threshold, ...setting };
+};
+
+class ServerAlertService {
+  private alerts: ServerAlert[] = [];
+  private states: Map<string, MetricState> = new Map();
+  private listeners: ServerAlertListener[] = [];
+
+  constructor() {
+    this.loadAlerts();
+  }
+
+  /**
+   * Merge the configured defaults, the server settings and the overrides of each of a server's tags,
+   * later tags winning. A bare number sets the error level and derives the warning level from it.
+   */
+  resolveThresholds(serverSettings: Partial<Omit<Settings['servers'], 'instances'>>, tags: readonly string[] = []): ServerThresholds {
+    const config = MONITORING_CONFIG.servers;
+    const metrics = Object.keys(SERVER_ALERT_METRICS) as ServerAlertMetric[];
+
+    return Object.fromEntries(metrics.map(metric => {
+      const base: ServerMetricThreshold = {
+        error: config.alertThresholds[metric],
+        warning: Math.round(config.alertThresholds[metric] * config.warningRatio),
+        duration: serverSettings.alertDuration ?? config.alertDuration,
+        hysteresis: serverSettings.alertHysteresis ?? config.alertHysteresis,
+      };
+      const overrides = [
+        serverSettings.alertThresholds?.[metric],
+        ...tags.map(tag => serverSettings.tagThresholds?.[tag]?.[metric]),
+      ];
+
+      return [metric, overrides.reduce<ServerMetricThreshold>(applyThreshold, base)];
+    })) as ServerThresholds;
+  }
+
+  /**
+   * Feed a check into the alert lifecycle of its target and return the status its usage earns.
+   * Metrics in `unreported` keep their current level, as their value is not a measurement.
+   */
+  evaluate(metrics: ServerMetrics, thresholds: ServerThresholds, unreported: readonly ServerAlertMetric[] = []): StatusType {
+    let worst: AlertLevel = 'healthy';
+
+    (Object.keys(SERVER_ALERT_METRICS) as ServerAlertMetric[]).forEach(metric => {
+      const level = unreported.includes(metric)
+        ? this.states.get(this.getStateKey(metrics.targetId, metric))?.level ?? 'healthy'
+        : this.evaluateMetric(metrics, metric, thresholds[metric]);
+
+      if (LEVEL_RANK[level] > LEVEL_RANK[worst]) {
+        worst = level;
+      }
+    });
+
+    return worst;
+  }
+
+  /**
+   * Get alerts, newest first
+   */
+  getAlerts(filter: ServerAlertFilter = {}): ServerAlert[] {
+    return this.alerts
+      .filter(alert => !filter.targetId || alert.targetId === filter.targetId)
+      .filter(alert => !filter.metric || alert.metric === filter.metric)
+      .filter(alert => !filter.state || alert.state === filter.state)
+      .filter(alert => !filter.since || !alert.endedAt || alert.endedAt >= filter.since)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  getOpenAlert(targetId: string, metric: ServerAlertMetric): ServerAlert | null {
+    return this.alerts.find(alert =>
+      alert.targetId === targetId && alert.metric === metric && alert.state === 'open'
+    ) || null;
+  }
+
+  /**
+   * Subscribe to alerts being opened, escalated or resolved, returning an unsubscribe function
+   */
+  subscribe(listener: ServerAlertListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Forget every alert and breach in progress
+   */
+  clear(): void {
+    this.alerts = [];
+    this.states.clear();
+    this.saveAlerts();
+  }
+
+  /**
+   * A level is reached once the value has stayed above it for the threshold's duration,
+   * and is kept until the value drops below it by the hysteresis margin.
+   */
+  private evaluateMetric(metrics: ServerMetrics, metric: ServerAlertMetric, threshold: ServerMetricThreshold): AlertLevel {
+    const key = this.getStateKey(metrics.targetId, metric);
+    const state: MetricState = this.states.get(key) || { level: 'healthy' };
+    const value = metrics[SERVER_ALERT_METRICS[metric]];
+    const now = metrics.timestamp.getTime();
+
+    const errorSince = value > threshold.error ? state.errorSince ?? now : undefined;
+    const warningSince = value > threshold.warning ? state.warningSince ?? now : undefined;
+    const sustained = (since?: number) => since !== undefined && now - since >= threshold.duration;
+
+    let level: AlertLevel = 'healthy';
+    if (sustained(errorSince) || (state.level === 'error' && value > threshold.error - threshold.hysteresis)) {
+      level = 'error';
+    } else if (sustained(warningSince) || (state.level !== 'healthy' && value > threshold.warning - threshold.hysteresis)) {
+      level = 'warning';
+    }
+
+    this.states.set(key, {
+      level,
+      ...(warningSince !== undefined && { warningSince }),
+      ...(errorSince !== undefined && { errorSince }),
+    });
+    this.updateAlert(metrics, metric, level, threshold, warningSince ?? errorSince ?? now);
+
+    return level;
+  }
+
+  private updateAlert(
+    metrics: ServerMetrics,
+    metric: ServerAlertMetric,
+    level: AlertLevel,
+    threshold: ServerMetricThreshold,
+    breachedAt: number
+  ): void {
+    const alert = this.getOpenAlert(metrics.targetId, metric);
+    const value = metrics[SERVER_ALERT_METRICS[metric]];
+
+    if (level === 'healthy') {
+      if (alert) this.resolveAlert(alert, metrics.timestamp);
+      return;
+    }
+
+    if (!alert) {
+      this.openAlert({
+        id: generateId(),
+        targetId: metrics.targetId,
+        metric,
+        state: 'open',
+        severity: level,
+        threshold: threshold[level],
+        peak: value,
+        startedAt: new Date(breachedAt),
+      });
+      return;
+    }
+
+    const escalated = level === 'error' && alert.severity === 'warning';
+    if (!escalated && value <= alert.peak) return;
+
+    if (escalated) {
+      alert.severity = 'error';
+      alert.threshold = threshold.error;
+      logger.warn(`Server alert for ${alert.targetId} ${metric} escalated to error at ${value}%`, 'ServerAlertService');
+    }
+    alert.peak = Math.max(alert.peak, value);
+
+    this.saveAlerts();
+    this.notify(alert);
+  }
+
+  private openAlert(alert: ServerAlert): void {
+    this.alerts.push(alert);
+    this.saveAlerts();
+    logger.warn(
+      `Server alert opened for ${alert.targetId}: ${alert.metric} at ${alert.peak}% above ${alert.threshold}%`,
+      'ServerAlertService'
+    );
+    this.notify(alert);
+  }
+
+  private resolveAlert(alert: ServerAlert, endedAt: Date): void {
+    alert.state = 'resolved';
+    alert.endedAt = endedAt;
+    alert.duration = endedAt.getTime() - alert.startedAt.getTime();
+
+    this.saveAlerts();
+    logger.info(`Server alert resolved for ${alert.targetId} ${alert.metric} after ${alert.duration}ms`, 'ServerAlertService');
+    this.notify(alert);
+  }
+
+  private getStateKey(targetId: string, metric: ServerAlertMetric): string {
+    return `${targetId}:${metric}`;
+  }
+
+  private notify(alert: ServerAlert): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(alert);
+      } catch (error) {
+        logger.error('Server alert listener failed', 'ServerAlertService', error);
+      }
+    });
+  }
+
+  /**
+   * Restore persisted alerts, dropping resolved ones past the retention window
+   */
+  private loadAlerts(): void {
+    if (!isLocalStorageAvailable()) return;
+
+    const stored = safeJsonParse<StoredAlert[]>(
+      localStorage.getItem(STORAGE_CONFIG.keys.serverAlerts) || '[]',
+      []
+    );
+
+    this.alerts = stored.map(({ startedAt, endedAt, ...alert }) => ({
+      ...alert,
+      startedAt: new Date(startedAt),
+      ...(endedAt && { endedAt: new Date(endedAt) }),
+    }));
+    this.pruneAlerts();
+  }
+
+  private pruneAlerts(): void {
+    const cutoff = Date.now() - STORAGE_CONFIG.serverAlerts.retention;
+    this.alerts = this.alerts
+      .filter(alert => !alert.endedAt || alert.endedAt.getTime() >= cutoff)
+      .slice(-STORAGE_CONFIG.serverAlerts.maxEntries);
+  }
+
+  private saveAlerts(): void {
+    this.pruneAlerts();
+    if (!isLocalStorageAvailable()) return;
+
+    try {
+      localStorage.setItem(STORAGE_CONFIG.keys.serverAlerts, JSON.stringify(this.alerts));
+    } catch (error) {
+      logger.warn('Failed to persist server alerts', 'ServerAlertService', error);
+    }
+  }
+}
+
+export const serverAlertService = new ServerAlertService();
+export type { ServerAlert, ServerAlertState, ServerThresholds };
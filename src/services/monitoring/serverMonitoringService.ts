@@ -1,57 +1,554 @@
 // Server monitoring service
-// This service handles server health monitoring and system metrics integration
+// This service reads system metrics of each configured server from Netdata, node_exporter or Prometheus,
+// or checks that a server without a metrics agent accepts TCP connections
 
-import type { ServerTarget, ServerMetrics, ServerStats } from '@/types';
+import { logger } from '@/lib/logger';
+import { generateId } from '@/lib/utils';
+import { getErrorMessage } from '@/lib/error';
+import { MONITORING_CONFIG, STORAGE_CONFIG } from '@/config';
+import { TIME_CONSTANTS } from '@/constants';
+import { timeSeriesService, TimeSeriesService } from '@/services/storage/timeSeriesService';
+import { netdataClient, toServerUsage, type NetdataSnapshot } from './netdataClient';
+import { prometheusClient, toExporterUsage, type ExporterScrape } from './prometheusClient';
+import { probeAgentClient } from './probeAgentClient';
+import { serverAlertService } from './serverAlertService';
+import { forecastDiskFull } from './diskForecast';
+import { MonitoringScheduler } from './monitoringScheduler';
+import type {
+  DiskForecast,
+  ServerTarget,
+  ServerGroup,
+  ServerHistoryField,
+  ServerHistoryPoint,
+  ServerMetrics,
+  ServerMetricsReading,
+  ServerMetricsSource,
+  ServerMetricsSourceKind,
+  ServerPeriod,
+  ServerStats,
+  Settings,
+  StatusType,
+  TimeSeriesBucket,
+} from '@/types';
+
+type ServerMetricsListener = (metrics: ServerMetrics) => void;
+
+// A configured server as stored in settings, where only name, ip and netdataUrl are guaranteed
+type ServerInstanceSetting = Pick<ServerTarget, 'name' | 'ip' | 'netdataUrl'> & Partial<ServerTarget>;
+
+const SOURCE_LABELS: Record<ServerMetricsSourceKind, string> = {
+  netdata: 'Netdata',
+  'prometheus-exporter': 'node_exporter',
+  'prometheus-query': 'Prometheus',
+  tcp: 'TCP',
+};
+
+export const PERIOD_WINDOWS: Record<ServerPeriod, number> = {
+  '1h': TIME_CONSTANTS.HOUR,
+  '6h': 6 * TIME_CONSTANTS.HOUR,
+  '24h': TIME_CONSTANTS.DAY,
+  '7d': TIME_CONSTANTS.WEEK,
+  '30d': TIME_CONSTANTS.MONTH,
+};
+
+// How bad a status is when picking the worst of a group
+const STATUS_SEVERITY: Record<StatusType, number> = { inactive: 0, healthy: 1, warning: 2, error: 3 };
+
+const HISTORY_FIELDS: ServerHistoryField[] = ['cpu', 'memory', 'disk', 'networkIn', 'networkOut', 'latency'];
+
+/**
+ * Average every field of a rollup bucket into a history point
+ */
+const toHistoryPoint = (bucket: TimeSeriesBucket): ServerHistoryPoint => {
+  const average = (field: string): number | undefined => {
+    const aggregate = bucket.fields[field];
+    return aggregate && aggregate.count > 0 ? aggregate.sum / aggregate.count : undefined;
+  };
+
+  return HISTORY_FIELDS.reduce<ServerHistoryPoint>((point, field) => {
+    const value = average(field);
+    return value === undefined ? point : { ...point, [field]: value };
+  }, { timestamp: bucket.start, up: average('up') ?? 0 });
+};
+
+/**
+ * The part of a tag before its colon, so `env:prod` and `env:staging` share the key `env`.
+ * A tag without a value is its own key.
+ */
+export const getTagKey = (tag: string): string => {
+  const separator = tag.indexOf(':');
+  return separator > 0 ? tag.slice(0, separator) : tag;
+};
+
+/**
+ * Match a server's greeting against a banner pattern, taken literally when it is not a valid regular expression
+ */
+const matchesBanner = (greeting: string, pattern: string): boolean => {
+  try {
+    return new RegExp(pattern).test(greeting);
+  } catch {
+    return greeting.includes(pattern);
+  }
+};
+
+/**
+ * Nearest-rank percentile of a list of values
+ */
+const percentile = (values: number[], rank: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.max(0, Math.ceil((rank / 100) * sorted.length) - 1)] ?? 0;
+};
 
 class ServerMonitoringService {
+  private scheduler = new MonitoringScheduler<ServerTarget>(
+    target => this.checkServerHealth(target),
+    target => target.name,
+    'ServerMonitoringService'
+  );
+  private latestMetrics: Map<string, ServerMetrics> = new Map();
+  private lastSeen: Map<string, Date> = new Map();
+  private previousScrapes: Map<string, ExporterScrape> = new Map();
+  private forecasts: Map<string, { forecast: DiskForecast | null; computedAt: number }> = new Map();
+  private listeners: ServerMetricsListener[] = [];
+
+  /**
+   * Build fully populated targets from the server settings, filling in defaults
+   */
+  resolveTargets(
+    serverSettings: Partial<Omit<Settings['servers'], 'instances'>> & { instances: readonly ServerInstanceSetting[] }
+  ): ServerTarget[] {
+    return serverSettings.instances.map(instance => ({
+      id: instance.id || instance.netdataUrl || instance.ip,
+      name: instance.name,
+      ip: instance.ip,
+      netdataUrl: instance.netdataUrl,
+      ...(instance.source && instance.source.kind !== 'netdata' && { source: instance.source }),
+      ...(instance.proxyPath && { proxyPath: instance.proxyPath }),
+      ...(instance.port && { port: instance.port }),
+      isActive: instance.isActive ?? true,
+      ...(instance.tags && instance.tags.length > 0 && { tags: instance.tags }),
+      interval: instance.interval || MONITORING_CONFIG.polling.serverMetrics,
+      timeout: instance.timeout || MONITORING_CONFIG.servers.timeout,
+      thresholds: instance.thresholds ?? serverAlertService.resolveThresholds(serverSettings, instance.tags),
+      diskForecastHorizon: instance.diskForecastHorizon
+        ?? serverSettings.diskForecastHorizon
+        ?? MONITORING_CONFIG.diskForecast.horizonDays,
+    }));
+  }
+
+  /**
+   * Read a server's metrics from its source once and record them
+   */
   async checkServerHealth(target: ServerTarget): Promise<ServerMetrics> {
-    // Placeholder implementation
-    // In a real implementation, this would connect to Netdata or other monitoring APIs
-    return {
+    const base = {
+      id: generateId(),
       targetId: target.id,
-      status: 'healthy',
-      cpuUsage: Math.random() * 100,
-      memoryUsage: Math.random() * 100,
-      diskUsage: Math.random() * 100,
-      networkIn: Math.random() * 1000,
-      networkOut: Math.random() * 1000,
-      uptime: Math.random() * 100,
-      lastCheck: new Date(),
-      responseTime: Math.floor(Math.random() * 200) + 50
+      cpuUsage: 0,
+      memoryUsage: 0,
+      diskUsage: 0,
+      networkIn: 0,
+      networkOut: 0,
+      uptime: 0,
+      timestamp: new Date(),
     };
+
+    const source = this.getSource(target);
+    const label = SOURCE_LABELS[source.kind];
+
+    if (source.kind === 'tcp') {
+      return this.checkPort(target, source.banner, base);
+    }
+
+    if (!target.proxyPath && !this.getSourceUrl(target)) {
+      return this.recordMetrics({ ...base, status: 'inactive', error: `No ${label} URL configured` });
+    }
+
+    try {
+      const { missing, unreported, ...usage } = await this.readSource(target);
+      const metrics: ServerMetrics = { ...base, ...usage, status: 'healthy' };
+      const status = serverAlertService.evaluate(
+        metrics,
+        target.thresholds ?? serverAlertService.resolveThresholds({}, target.tags),
+        unreported
+      );
+      const forecast = unreported.includes('disk') ? null : await this.getDiskForecast(target.id, base.timestamp.getTime());
+      const horizon = target.diskForecastHorizon ?? MONITORING_CONFIG.diskForecast.horizonDays;
+      const daysUntilFull = forecast?.daysUntilFull ?? null;
+
+      const problems = [
+        ...(missing.length > 0 ? [`${label} does not collect ${missing.join(', ')}`] : []),
+        ...(daysUntilFull !== null && daysUntilFull < horizon ? [`Disk forecast to be full in ${daysUntilFull} days`] : []),
+      ];
+
+      return this.recordMetrics({
+        ...metrics,
+        // Without a metric, or with a disk about to fill, the server cannot be judged healthy
+        status: problems.length > 0 && status === 'healthy' ? 'warning' : status,
+        ...(problems.length > 0 && { error: problems.join('; ') }),
+        ...(forecast && { diskForecast: forecast }),
+      });
+    } catch (error) {
+      return this.recordMetrics({ ...base, status: 'error', error: getErrorMessage(error) });
+    }
+  }
+
+  /**
+   * Read the charts behind a server's metrics, through its proxy path when one is configured
+   */
+  async getNetdataMetrics(target: ServerTarget): Promise<NetdataSnapshot> {
+    return netdataClient.getSnapshot(
+      this.resolveUrl(target.netdataUrl, target.proxyPath),
+      target.timeout || MONITORING_CONFIG.servers.timeout
+    );
+  }
+
+  /**
+   * The source a target reads its metrics from, Netdata unless configured otherwise
+   */
+  getSource(target: ServerTarget): ServerMetricsSource {
+    return target.source ?? { kind: 'netdata' };
   }
 
-  async getServerStats(targetId: string, period: '24h' | '7d' | '30d'): Promise<ServerStats> {
-    // Placeholder implementation
+  /**
+   * Compute stats for a target from its recorded metrics.
+   * Min, max and average cover every check; p95 is taken over the history points of the period.
+   */
+  async getServerStats(targetId: string, period: ServerPeriod, now: number = Date.now()): Promise<ServerStats> {
+    const [summary, history] = await Promise.all([
+      timeSeriesService.summarize(this.getSeriesKey(targetId), PERIOD_WINDOWS[period], now),
+      this.getServerHistory(targetId, period, now),
+    ]);
+    const average = (field: string): number => {
+      const aggregate = summary.fields[field];
+      return aggregate && aggregate.count > 0 ? aggregate.sum / aggregate.count : 0;
+    };
+    const summaries: ServerStats['summaries'] = {};
+    HISTORY_FIELDS.forEach(field => {
+      const aggregate = summary.fields[field];
+      if (!aggregate || aggregate.count === 0) return;
+
+      summaries[field] = {
+        min: aggregate.min,
+        avg: aggregate.sum / aggregate.count,
+        max: aggregate.max,
+        p95: percentile(history.flatMap(point => point[field] ?? []), 95),
+      };
+    });
+    const lastSeen = this.lastSeen.get(targetId);
+
     return {
-      averageCpuUsage: 45.2,
-      averageMemoryUsage: 67.8,
-      averageDiskUsage: 23.4,
-      totalUptime: 99.95,
-      healthPercentage: 99.2
+      targetId,
+      averageCpuUsage: average('cpu'),
+      averageMemoryUsage: average('memory'),
+      averageDiskUsage: average('disk'),
+      totalUptime: summary.count > 0 ? ((summary.fields.up?.sum || 0) / summary.count) * 100 : 0,
+      ...(lastSeen && { lastSeen }),
+      summaries,
     };
   }
 
-  async getNetdataMetrics(netdataUrl: string): Promise<Record<string, unknown>> {
-    // Placeholder implementation
-    // In a real implementation, this would fetch metrics from Netdata API
-    return {};
+  /**
+   * Forecast when a target's disk fills up from its recorded history, reusing a recent forecast
+   */
+  async getDiskForecast(targetId: string, now: number = Date.now()): Promise<DiskForecast | null> {
+    const cached = this.forecasts.get(targetId);
+    if (cached && now - cached.computedAt < MONITORING_CONFIG.diskForecast.refreshInterval) {
+      return cached.forecast;
+    }
+
+    const history = await this.getServerHistory(targetId, MONITORING_CONFIG.diskForecast.period, now);
+    const forecast = forecastDiskFull(history, now);
+    this.forecasts.set(targetId, { forecast, computedAt: now });
+
+    return forecast;
+  }
+
+  /**
+   * Periods whose history is kept, given the retention in days from the server settings
+   */
+  getHistoryPeriods(metricsRetention?: number): ServerPeriod[] {
+    const days = metricsRetention && metricsRetention > 0 ? metricsRetention : MONITORING_CONFIG.servers.metricsRetention;
+    const retention = Math.min(days * TIME_CONSTANTS.DAY, STORAGE_CONFIG.timeSeries.retention.day);
+
+    return (Object.keys(PERIOD_WINDOWS) as ServerPeriod[]).filter(period => PERIOD_WINDOWS[period] <= retention);
+  }
+
+  /**
+   * Recorded metrics of a target over a period, one point per rollup bucket:
+   * minutes up to a day, hours up to a week and days beyond
+   */
+  async getServerHistory(targetId: string, period: ServerPeriod, now: number = Date.now()): Promise<ServerHistoryPoint[]> {
+    const window = PERIOD_WINDOWS[period];
+    const buckets = await timeSeriesService.getBuckets(
+      this.getSeriesKey(targetId),
+      TimeSeriesService.resolutionForWindow(window),
+      now - window,
+      now
+    );
+
+    return buckets.map(toHistoryPoint);
+  }
+
+  /**
+   * Group targets by tag and summarise each group from its servers' latest checks, untagged servers last.
+   * With a key, each server joins the group of its first tag with that key; without one,
+   * it joins the group of every tag it has.
+   */
+  getServerGroups(targets: readonly ServerTarget[], tagKey?: string): ServerGroup[] {
+    const members: Map<string, ServerTarget[]> = new Map();
+    const join = (tag: string, target: ServerTarget) => {
+      members.set(tag, [...(members.get(tag) ?? []), target]);
+    };
+
+    targets.forEach(target => {
+      const tags = (target.tags ?? []).filter(tag => !tagKey || getTagKey(tag) === tagKey);
+      if (tags.length === 0) {
+        join('', target);
+      } else if (tagKey) {
+        join(tags[0] as string, target);
+      } else {
+        tags.forEach(tag => join(tag, target));
+      }
+    });
+
+    return Array.from(members.entries())
+      .sort(([a], [b]) => (a === '' ? 1 : b === '' ? -1 : a.localeCompare(b)))
+      .map(([tag, group]) => this.summarizeGroup(tag, group));
   }
 
+  /**
+   * Start periodic checks of a server, replacing any existing schedule for it
+   */
   async startMonitoring(target: ServerTarget): Promise<void> {
-    // Placeholder implementation
-    // In a real implementation, this would start periodic server monitoring
+    if (!target.isActive) {
+      await this.stopMonitoring(target.id);
+      logger.debug(`Skipping inactive server ${target.id}`, 'ServerMonitoringService');
+      return;
+    }
+
+    const interval = target.interval || MONITORING_CONFIG.polling.serverMetrics;
+    logger.info(`Started server monitoring for ${target.name} every ${interval}ms`, 'ServerMonitoringService');
+    // Check immediately instead of waiting a full interval for the first result
+    await this.scheduler.schedule(target.id, target, interval);
   }
 
   async stopMonitoring(targetId: string): Promise<void> {
-    // Placeholder implementation
-    // In a real implementation, this would stop periodic server monitoring
+    const target = this.scheduler.cancel(targetId);
+    if (target) {
+      logger.info(`Stopped server monitoring for ${target.name}`, 'ServerMonitoringService');
+    }
+  }
+
+  /**
+   * Stop every running schedule
+   */
+  async stopAll(): Promise<void> {
+    this.scheduler.cancelAll();
+  }
+
+  /**
+   * Check whether a target currently has a running schedule
+   */
+  isMonitoring(targetId: string): boolean {
+    return this.scheduler.has(targetId);
+  }
+
+  /**
+   * Get the most recent metrics recorded for a target
+   */
+  getLatestMetrics(targetId: string): ServerMetrics | null {
+    return this.latestMetrics.get(targetId) || null;
   }
 
   async getAllMetrics(): Promise<ServerMetrics[]> {
-    // Placeholder implementation
-    return [];
+    return Array.from(this.latestMetrics.values());
+  }
+
+  /**
+   * Subscribe to every recorded check, returning an unsubscribe function
+   */
+  subscribe(listener: ServerMetricsListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Forget every recorded result, e.g. between tests
+   */
+  clear(): void {
+    this.latestMetrics.clear();
+    this.lastSeen.clear();
+    this.previousScrapes.clear();
+    this.forecasts.clear();
+  }
+
+  private async readSource(target: ServerTarget): Promise<ServerMetricsReading> {
+    const source = this.getSource(target);
+    const timeout = target.timeout || MONITORING_CONFIG.servers.timeout;
+
+    switch (source.kind) {
+      case 'prometheus-exporter': {
+        const scrape = await prometheusClient.scrape(this.resolveUrl(source.url, target.proxyPath), timeout);
+        const previous = this.previousScrapes.get(target.id);
+        this.previousScrapes.set(target.id, scrape);
+        return toExporterUsage(scrape, previous);
+      }
+      case 'prometheus-query':
+        return prometheusClient.queryUsage(this.resolveUrl(source.url, target.proxyPath), source.instance, timeout);
+      default:
+        return toServerUsage(await this.getNetdataMetrics(target));
+    }
+  }
+
+  /**
+   * Connect to a target's port through the probe agent and time the handshake.
+   * A slow handshake is a warning; a greeting that does not match the expected banner is an error.
+   */
+  private async checkPort(target: ServerTarget, banner: string | undefined, base: Omit<ServerMetrics, 'status'>): Promise<ServerMetrics> {
+    if (!target.port) {
+      return this.recordMetrics({ ...base, status: 'inactive', error: 'No port configured' });
+    }
+
+    try {
+      const result = await probeAgentClient.connectTcp({
+        host: target.ip,
+        port: target.port,
+        timeout: target.timeout || MONITORING_CONFIG.servers.timeout,
+        readBanner: Boolean(banner),
+      });
+      const metrics = {
+        ...base,
+        agent: `TCP port ${target.port}`,
+        latency: result.latency,
+        ...(result.banner !== undefined && { banner: result.banner }),
+      };
+
+      if (banner && !matchesBanner(result.banner ?? '', banner)) {
+        return this.recordMetrics({
+          ...metrics,
+          status: 'error',
+          error: result.banner === undefined
+            ? `No banner received on port ${target.port}`
+            : `Banner "${result.banner}" does not match ${banner}`,
+        });
+      }
+
+      const slow = result.latency > MONITORING_CONFIG.servers.slowConnect;
+      return this.recordMetrics({
+        ...metrics,
+        status: slow ? 'warning' : 'healthy',
+        ...(slow && { error: `TCP handshake took ${Math.round(result.latency)}ms` }),
+      });
+    } catch (error) {
+      return this.recordMetrics({ ...base, status: 'error', error: getErrorMessage(error) });
+    }
+  }
+
+  private getSourceUrl(target: ServerTarget): string {
+    const source = this.getSource(target);
+    return 'url' in source ? source.url : target.netdataUrl;
+  }
+
+  /**
+   * A proxy path stands in for the origin of the source URL, keeping its path and query
+   */
+  private resolveUrl(url: string, proxyPath?: string): string {
+    if (!proxyPath) return url;
+
+    const proxy = proxyPath.replace(/\/$/, '');
+    try {
+      const { pathname, search } = new URL(url);
+      return `${proxy}${pathname === '/' ? '' : pathname}${search}`;
+    } catch {
+      return proxy;
+    }
+  }
+
+  private summarizeGroup(tag: string, targets: ServerTarget[]): ServerGroup {
+    const statusCounts: Record<StatusType, number> = { healthy: 0, warning: 0, error: 0, inactive: 0 };
+    const reporting: ServerMetrics[] = [];
+
+    targets.forEach(target => {
+      const latest = this.latestMetrics.get(target.id);
+      statusCounts[latest?.status ?? 'inactive']++;
+      // Usage of a server whose source did not answer, or that is only probed over TCP, is not a measurement
+      if (latest?.agent !== undefined && latest.latency === undefined) {
+        reporting.push(latest);
+      }
+    });
+
+    const average = (field: 'cpuUsage' | 'memoryUsage' | 'diskUsage'): number => reporting.length > 0
+      ? Math.round((reporting.reduce((total, metrics) => total + metrics[field], 0) / reporting.length) * 10) / 10
+      : 0;
+
+    return {
+      tag,
+      targetIds: targets.map(target => target.id),
+      status: (Object.keys(statusCounts) as StatusType[]).reduce<StatusType>(
+        (worst, status) => statusCounts[status] > 0 && STATUS_SEVERITY[status] > STATUS_SEVERITY[worst] ? status : worst,
+        'inactive'
+      ),
+      statusCounts,
+      reporting: reporting.length,
+      averageCpuUsage: average('cpuUsage'),
+      averageMemoryUsage: average('memoryUsage'),
+      averageDiskUsage: average('diskUsage'),
+    };
+  }
+
+  private getSeriesKey(targetId: string): string {
+    return `server:${targetId}`;
+  }
+
+  /**
+   * Store metrics as the latest for their target, record them and notify listeners
+   */
+  private recordMetrics(metrics: ServerMetrics): ServerMetrics {
+    this.latestMetrics.set(metrics.targetId, metrics);
+
+    // Usage is only meaningful when the source answered
+    const reachable = metrics.agent !== undefined;
+    if (reachable) {
+      this.lastSeen.set(metrics.targetId, metrics.timestamp);
+    }
+    if (metrics.status !== 'inactive') {
+      void timeSeriesService.record(
+        this.getSeriesKey(metrics.targetId),
+        {
+          up: reachable ? 1 : 0,
+          // A TCP probe only measures its handshake
+          ...(reachable && (metrics.latency !== undefined
+            ? { latency: metrics.latency }
+            : {
+                cpu: metrics.cpuUsage,
+                memory: metrics.memoryUsage,
+                disk: metrics.diskUsage,
+                networkIn: metrics.networkIn,
+                networkOut: metrics.networkOut,
+              })),
+        },
+        metrics.timestamp.getTime()
+      );
+    }
+
+    if (metrics.error) {
+      logger.warn(`Server check for ${metrics.targetId}: ${metrics.error}`, 'ServerMonitoringService');
+    }
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(metrics);
+      } catch (error) {
+        logger.error('Server metrics listener failed', 'ServerMonitoringService', error);
+      }
+    });
+
+    return metrics;
   }
 }
 
 export const serverMonitoringService = new ServerMonitoringService();
+export type { ServerTarget, ServerMetrics, ServerStats, ServerPeriod, ServerHistoryPoint, ServerGroup };
@@ -0,0 +1,170 @@
+// Uptime content assertions
+// Evaluates body, JSON and header expectations against a probe response
+
+import type { StatusType, UptimeAssertion, UptimeAssertionSeverity } from '@/types';
+
+export interface UptimeAssertionFailure {
+  assertion: UptimeAssertion;
+  severity: UptimeAssertionSeverity;
+  reason: string;
+}
+
+export interface UptimeAssertionResult {
+  status: StatusType;
+  failures: UptimeAssertionFailure[];
+  error?: string;
+}
+
+const NOT_FOUND = Symbol('not-found');
+
+/**
+ * Check whether any of the assertions need the response body
+ */
+export const assertionsNeedBody = (assertions: UptimeAssertion[]): boolean =>
+  assertions.some(assertion => assertion.type !== 'header');
+
+/**
+ * Split a JSONPath expression such as `$.data.items[0]['name']` into its segments.
+ * Only plain member and index access is supported.
+ */
+const parseJsonPath = (path: string): Array<string | number> | null => {
+  if (!path.startsWith('$')) return null;
+
+  const segments: Array<string | number> = [];
+  const tokenPattern = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\['([^']*)'\]|\["([^"]*)"\]/y;
+  let position = 1;
+
+  while (position < path.length) {
+    tokenPattern.lastIndex = position;
+    const match = tokenPattern.exec(path);
+    if (!match) return null;
+
+    const [token, member, index, singleQuoted, doubleQuoted] = match;
+    if (index !== undefined) {
+      segments.push(Number(index));
+    } else {
+      segments.push(member ?? singleQuoted ?? doubleQuoted ?? '');
+    }
+    position += token.length;
+  }
+
+  return segments;
+};
+
+/**
+ * Resolve a JSONPath expression against a parsed document
+ */
+export const readJsonPath = (document: unknown, path: string): unknown => {
+  const segments = parseJsonPath(path);
+  if (!segments) {
+    throw new Error(`Unsupported JSONPath expression ${path}`);
+  }
+
+  let current: unknown = document;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object' || !(segment in current)) {
+      return NOT_FOUND;
+    }
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+
+  return current;
+};
+
+const describeValue = (value: unknown): string =>
+  value === NOT_FOUND ? 'nothing' : JSON.stringify(value) ?? String(value);
+
+/**
+ * Evaluate a single assertion, returning the reason it failed or null if it passed
+ */
+const evaluateAssertion = (
+  assertion: UptimeAssertion,
+  headers: Headers,
+  getBody: () => string,
+  getJson: () => unknown
+): string | null => {
+  switch (assertion.type) {
+    case 'bodyContains':
+      return getBody().includes(assertion.value)
+        ? null
+        : `Response body does not contain "${assertion.value}"`;
+
+    case 'bodyNotContains':
+      return getBody().includes(assertion.value)
+        ? `Response body contains "${assertion.value}"`
+        : null;
+
+    case 'bodyMatches': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(assertion.pattern, assertion.flags);
+      } catch {
+        return `Invalid pattern /${assertion.pattern}/${assertion.flags ?? ''}`;
+      }
+      return pattern.test(getBody()) ? null : `Response body does not match ${pattern}`;
+    }
+
+    case 'jsonPath': {
+      let actual: unknown;
+      try {
+        actual = readJsonPath(getJson(), assertion.path);
+      } catch (error) {
+        return error instanceof Error ? error.message : 'Could not read JSON response';
+      }
+      return actual === assertion.equals
+        ? null
+        : `Expected ${assertion.path} to equal ${describeValue(assertion.equals)}, found ${describeValue(actual)}`;
+    }
+
+    case 'header': {
+      const actual = headers.get(assertion.name);
+      if (actual === null) {
+        return `Missing response header ${assertion.name}`;
+      }
+      if (assertion.value !== undefined && actual !== assertion.value) {
+        return `Expected header ${assertion.name} to be "${assertion.value}", received "${actual}"`;
+      }
+      return null;
+    }
+  }
+};
+
+/**
+ * Evaluate every assertion against a response. The resulting status is the most
+ * severe failure, or healthy when all assertions pass.
+ */
+export const evaluateAssertions = (
+  assertions: UptimeAssertion[],
+  headers: Headers,
+  body: string
+): UptimeAssertionResult => {
+  let json: { value: unknown } | null = null;
+  const getJson = () => {
+    if (!json) {
+      try {
+        json = { value: JSON.parse(body) };
+      } catch {
+        throw new Error('Response body is not valid JSON');
+      }
+    }
+    return json.value;
+  };
+
+  const failures: UptimeAssertionFailure[] = [];
+  assertions.forEach(assertion => {
+    const reason = evaluateAssertion(assertion, headers, () => body, getJson);
+    if (reason) {
+      failures.push({ assertion, severity: assertion.severity ?? 'error', reason });
+    }
+  });
+
+  if (failures.length === 0) {
+    return { status: 'healthy', failures };
+  }
+
+  return {
+    status: failures.some(failure => failure.severity === 'error') ? 'error' : 'warning',
+    failures,
+    error: failures.map(failure => failure.reason).join('; '),
+  };
+};
@@ -0,0 +1,186 @@
+// Uptime incident service
+// Turns streaks of failed uptime checks into incidents with a start, end and duration
+
+import { logger } from '@/lib/logger';
+import { generateId } from '@/lib/utils';
+import { isLocalStorageAvailable, safeJsonParse } from '@/lib/storage';
+import { STORAGE_CONFIG } from '@/config';
+import type { UptimeIncident, UptimeIncidentState, UptimeStatus } from '@/types';
+
+type IncidentListener = (incident: UptimeIncident) => void;
+
+interface FailureStreak {
+  startedAt: Date;
+  firstError: string;
+  checks: number;
+}
+
+interface IncidentFilter {
+  targetId?: string;
+  state?: UptimeIncidentState;
+  since?: Date; // include incidents still open or ended after this time
+}
+
+type StoredIncident = Omit<UptimeIncident, 'startedAt' | 'endedAt'> & {
+  startedAt: string;
+  endedAt?: string;
+};
+
+class UptimeIncidentService {
+  private incidents: UptimeIncident[] = [];
+  private streaks: Map<string, FailureStreak> = new Map();
+  private listeners: IncidentListener[] = [];
+
+  constructor() {
+    this.loadIncidents();
+  }
+
+  /**
+   * Feed a check result into the incident lifecycle for its target.
+   * An incident opens once `threshold` consecutive checks fail and resolves on the next passing check.
+   */
+  recordCheck(status: UptimeStatus, threshold: number): UptimeIncident | null {
+    const openIncident = this.getOpenIncident(status.targetId);
+
+    if (status.status !== 'error') {
+      this.streaks.delete(status.targetId);
+      return openIncident ? this.resolveIncident(openIncident, status.timestamp) : null;
+    }
+
+    if (openIncident) {
+      openIncident.affectedChecks++;
+      this.saveIncidents();
+      this.notify(openIncident);
+      return openIncident;
+    }
+
+    const streak = this.streaks.get(status.targetId) || {
+      startedAt: status.timestamp,
+      firstError: status.error || 'Check failed',
+      checks: 0,
+    };
+    streak.checks++;
+    this.streaks.set(status.targetId, streak);
+
+    if (streak.checks < threshold) {
+      return null;
+    }
+
+    this.streaks.delete(status.targetId);
+    return this.openIncident(status.targetId, streak);
+  }
+
+  /**
+   * Get incidents, newest first
+   */
+  getIncidents(filter: IncidentFilter = {}): UptimeIncident[] {
+    return this.incidents
+      .filter(incident => !filter.targetId || incident.targetId === filter.targetId)
+      .filter(incident => !filter.state || incident.state === filter.state)
+      .filter(incident => !filter.since || !incident.endedAt || incident.endedAt >= filter.since)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  getOpenIncident(targetId: string): UptimeIncident | null {
+    return this.incidents.find(incident => incident.targetId === targetId && incident.state === 'open') || null;
+  }
+
+  /**
+   * Subscribe to incidents being opened, extended or resolved, returning an unsubscribe function
+   */
+  subscribe(listener: IncidentListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Forget every incident and failure streak
+   */
+  clear(): void {
+    this.incidents = [];
+    this.streaks.clear();
+    this.saveIncidents();
+  }
+
+  private openIncident(targetId: string, streak: FailureStreak): UptimeIncident {
+    const incident: UptimeIncident = {
+      id: generateId(),
+      targetId,
+      state: 'open',
+      startedAt: streak.startedAt,
+      firstError: streak.firstError,
+      affectedChecks: streak.checks,
+    };
+
+    this.incidents.push(incident);
+    this.saveIncidents();
+    logger.warn(`Incident opened for ${targetId}: ${incident.firstError}`, 'UptimeIncidentService');
+    this.notify(incident);
+
+    return incident;
+  }
+
+  private resolveIncident(incident: UptimeIncident, endedAt: Date): UptimeIncident {
+    incident.state = 'resolved';
+    incident.endedAt = endedAt;
+    incident.duration = endedAt.getTime() - incident.startedAt.getTime();
+
+    this.saveIncidents();
+    logger.info(`Incident resolved for ${incident.targetId} after ${incident.duration}ms`, 'UptimeIncidentService');
+    this.notify(incident);
+
+    return incident;
+  }
+
+  private notify(incident: UptimeIncident): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(incident);
+      } catch (error) {
+        logger.error('Incident listener failed', 'UptimeIncidentService', error);
+      }
+    });
+  }
+
+  /**
+   * Restore persisted incidents, dropping resolved ones past the retention window
+   */
+  private loadIncidents(): void {
+    if (!isLocalStorageAvailable()) return;
+
+    const stored = safeJsonParse<StoredIncident[]>(
+      localStorage.getItem(STORAGE_CONFIG.keys.uptimeIncidents) || '[]',
+      []
+    );
+
+    this.incidents = stored.map(({ startedAt, endedAt, ...incident }) => ({
+      ...incident,
+      startedAt: new Date(startedAt),
+      ...(endedAt && { endedAt: new Date(endedAt) }),
+    }));
+    this.pruneIncidents();
+  }
+
+  private pruneIncidents(): void {
+    const cutoff = Date.now() - STORAGE_CONFIG.incidents.retention;
+    this.incidents = this.incidents
+      .filter(incident => !incident.endedAt || incident.endedAt.getTime() >= cutoff)
+      .slice(-STORAGE_CONFIG.incidents.maxEntries);
+  }
+
+  private saveIncidents(): void {
+    this.pruneIncidents();
+    if (!isLocalStorageAvailable()) return;
+
+    try {
+      localStorage.setItem(STORAGE_CONFIG.keys.uptimeIncidents, JSON.stringify(this.incidents));
+    } catch (error) {
+      logger.warn('Failed to persist uptime incidents', 'UptimeIncidentService', error);
+    }
+  }
+}
+
+export const uptimeIncidentService = new UptimeIncidentService();
+export type { UptimeIncident, UptimeIncidentState };
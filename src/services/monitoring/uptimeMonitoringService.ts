@@ -1,46 +1,504 @@
 // Uptime monitoring service
 // This service handles website uptime monitoring and health checks
 
-import type { UptimeTarget, UptimeStatus, UptimeStats } from '@/types';
+import { logger } from '@/lib/logger';
+import { generateId } from '@/lib/utils';
+import { MONITORING_CONFIG } from '@/config';
+import { TIME_CONSTANTS } from '@/constants';
+import { timeSeriesService } from '@/services/storage/timeSeriesService';
+import { getErrorMessage } from '@/lib/error';
+import { formatDate } from '@/lib/date';
+import { assertionsNeedBody, evaluateAssertions } from './uptimeAssertions';
+import { probeAgentClient } from './probeAgentClient';
+import { uptimeIncidentService } from './uptimeIncidentService';
+import { MonitoringScheduler } from './monitoringScheduler';
+import {
+  runTransaction,
+  validateTransaction,
+  type TransactionRequest,
+  type TransactionResponse,
+} from './uptimeTransactions';
+import type {
+  UptimeTarget,
+  UptimeStatus,
+  UptimeStats,
+  UptimeCheckPoint,
+  UptimeCertificateStatus,
+  CertificateExpiryThresholds,
+  TlsCertificateInfo,
+  Settings,
+  StatusType,
+} from '@/types';
+
+type UptimeListener = (status: UptimeStatus) => void;
+
+// A configured website as stored in settings, where only name and url are guaranteed
+type UptimeWebsiteSetting = Pick<UptimeTarget, 'name' | 'url'> & Partial<UptimeTarget>;
+
+type UptimePeriod = '24h' | '7d' | '30d';
+
+const PERIOD_WINDOWS: Record<UptimePeriod, number> = {
+  '24h': TIME_CONSTANTS.DAY,
+  '7d': TIME_CONSTANTS.WEEK,
+  '30d': TIME_CONSTANTS.MONTH,
+};
+
+// How bad a status is when folding the certificate into a check
+const STATUS_SEVERITY: Record<StatusType, number> = { inactive: 0, healthy: 1, warning: 2, error: 3 };
+
+// A certificate as the probe agent last read it, or why it could not
+interface CertificateRead {
+  certificate?: TlsCertificateInfo;
+  error?: string;
+  readAt: Date;
+}
+
+const getCertificateEndpoint = (target: UptimeTarget): { host: string; port: number } => {
+  const url = new URL(target.url);
+  return { host: url.hostname, port: Number(url.port) || 443 };
+};
+
+/**
+ * Grade a certificate read against the expiry thresholds, counting the days left from now
+ */
+const gradeCertificate = (
+  host: string,
+  { certificate, error, readAt }: CertificateRead,
+  thresholds: CertificateExpiryThresholds,
+  now: number
+): UptimeCertificateStatus => {
+  if (!certificate) {
+    return { host, status: 'inactive', checkedAt: readAt, error: `Certificate unavailable: ${error}` };
+  }
+
+  const daysRemaining = Math.floor((certificate.notAfter.getTime() - now) / TIME_CONSTANTS.DAY);
+  const base = { host, checkedAt: readAt, daysRemaining, certificate };
+
+  if (!certificate.chainValid) {
+    return {
+      ...base,
+      status: 'error',
+      error: `Certificate is not trusted: ${certificate.chainError || 'chain validation failed'}`,
+    };
+  }
+  if (daysRemaining < 0) {
+    return { ...base, status: 'error', error: `Certificate expired on ${formatDate(certificate.notAfter)}` };
+  }
+  if (daysRemaining <= Math.max(thresholds.warningDays, thresholds.errorDays)) {
+    return {
+      ...base,
+      status: daysRemaining <= thresholds.errorDays ? 'error' : 'warning',
+      error: `Certificate expires in ${daysRemaining} ${daysRemaining === 1 ? 'day' : 'days'}`,
+    };
+  }
+
+  return { ...base, status: 'healthy' };
+};
+
+/**
+ * A certificate that is expiring, expired or untrusted makes the check at least as bad, and adds its reason to the error.
+ * One that could not be read is inactive and leaves the check alone.
+ */
+const withCertificateStatus = (status: UptimeStatus): UptimeStatus => {
+  const { certificate } = status;
+  if (!certificate || STATUS_SEVERITY[certificate.status] <= STATUS_SEVERITY.healthy) {
+    return status;
+  }
+
+  return {
+    ...status,
+    status: STATUS_SEVERITY[certificate.status] > STATUS_SEVERITY[status.status] ? certificate.status : status.status,
+    error: [status.error, certificate.error].filter(Boolean).join('; '),
+  };
+};
 
 class UptimeMonitoringService {
+  private scheduler = new MonitoringScheduler<UptimeTarget>(
+    target => this.checkWebsite(target),
+    target => target.url,
+    'UptimeMonitoringService'
+  );
+  private latestStatuses: Map<string, UptimeStatus> = new Map();
+  private certificates: Map<string, CertificateRead> = new Map(); // by host:port
+  private listeners: UptimeListener[] = [];
+
+  /**
+   * Build fully populated targets from the uptime settings, filling in defaults
+   */
+  resolveTargets(
+    uptimeSettings: Partial<Omit<Settings['uptime'], 'websites'>> & { websites: UptimeWebsiteSetting[] }
+  ): UptimeTarget[] {
+    const defaults = MONITORING_CONFIG.uptime;
+    const certificateExpiry = uptimeSettings.certificateExpiry || {
+      warningDays: defaults.certificateWarningDays,
+      errorDays: defaults.certificateErrorDays,
+    };
+
+    return uptimeSettings.websites.map(website => ({
+      id: website.id || website.url,
+      name: website.name,
+      url: website.url,
+      method: website.method || defaults.defaultMethod,
+      timeout: website.timeout || uptimeSettings.defaultTimeout || defaults.defaultTimeout,
+      interval: website.interval || uptimeSettings.defaultInterval || MONITORING_CONFIG.polling.uptimeCheck,
+      expectedStatus: website.expectedStatus || defaults.defaultExpectedStatus,
+      isActive: website.isActive ?? true,
+      ...(website.assertions && website.assertions.length > 0 && { assertions: website.assertions }),
+      incidentThreshold: website.incidentThreshold || uptimeSettings.incidentThreshold || defaults.incidentThreshold,
+      ...(website.transport && { transport: website.transport }),
+      ...(website.kind === 'transaction' && {
+        kind: website.kind,
+        steps: website.steps || [],
+        transport: website.transport || 'browser',
+      }),
+      ...(website.url.startsWith('https:') && {
+        certificateExpiry: website.certificateExpiry || certificateExpiry,
+      }),
+    }));
+  }
+
+  /**
+   * Probe a website once and record the measured status.
+   * With the agent transport the request is sent by the probe agent, so sites without CORS can be checked.
+   */
   async checkWebsite(target: UptimeTarget): Promise<UptimeStatus> {
-    // Placeholder implementation
-    // In a real implementation, this would make HTTP requests to check website status
-    return {
+    if (target.kind === 'transaction') {
+      return this.checkTransaction(target);
+    }
+
+    const startTime = performance.now();
+    const certificatePending = this.startCertificateCheck(target);
+
+    try {
+      const assertions = target.assertions ?? [];
+      const response = target.transport === 'agent'
+        ? await this.relayThroughAgent({ url: target.url, method: target.method, timeout: target.timeout })
+        : await this.probeFromBrowser(target, assertionsNeedBody(assertions));
+      const matchesExpected = response.status === target.expectedStatus;
+      const responseTime = Math.round(performance.now() - startTime);
+      const certificate = await certificatePending;
+
+      if (!matchesExpected) {
+        return this.recordStatus(target, {
+          id: generateId(),
+          targetId: target.id,
+          status: 'error',
+          responseTime,
+          statusCode: response.status,
+          timestamp: new Date(),
+          error: `Expected HTTP ${target.expectedStatus}, received ${response.status}`,
+          ...(certificate && { certificate }),
+        });
+      }
+
+      const result = evaluateAssertions(assertions, response.headers, response.body);
+
+      return this.recordStatus(target, {
+        id: generateId(),
+        targetId: target.id,
+        status: result.status,
+        responseTime,
+        statusCode: response.status,
+        timestamp: new Date(),
+        ...(result.error && { error: result.error }),
+        ...(certificate && { certificate }),
+      });
+    } catch (error) {
+      const responseTime = Math.round(performance.now() - startTime);
+      const timedOut = error instanceof DOMException && error.name === 'TimeoutError';
+      const certificate = await certificatePending;
+
+      return this.recordStatus(target, {
+        id: generateId(),
+        targetId: target.id,
+        status: 'error',
+        responseTime,
+        statusCode: 0,
+        timestamp: new Date(),
+        error: timedOut
+          ? `Request timed out after ${target.timeout}ms`
+          : error instanceof Error ? error.message : 'Unknown network error',
+        ...(certificate && { certificate }),
+      });
+    }
+  }
+
+  /**
+   * Run every step of a transaction target once and record the combined status
+   */
+  async checkTransaction(target: UptimeTarget): Promise<UptimeStatus> {
+    const invalid = validateTransaction(target.steps ?? [], target.transport ?? 'browser');
+    if (invalid) {
+      return this.recordStatus(target, {
+        id: generateId(),
+        targetId: target.id,
+        status: 'error',
+        responseTime: 0,
+        statusCode: 0,
+        timestamp: new Date(),
+        error: invalid,
+      });
+    }
+
+    const certificatePending = this.startCertificateCheck(target);
+    const result = await runTransaction(target.steps ?? [], target.timeout, request =>
+      target.transport === 'agent' ? this.relayThroughAgent(request) : this.sendFromBrowser(request)
+    );
+    const certificate = await certificatePending;
+
+    return this.recordStatus(target, {
+      id: generateId(),
       targetId: target.id,
-      status: 'healthy',
-      uptime: 99.98,
-      responseTime: 187,
-      lastCheck: new Date()
-    };
+      status: result.status,
+      responseTime: result.responseTime,
+      statusCode: result.statusCode,
+      timestamp: new Date(),
+      steps: result.steps,
+      ...(result.error && { error: result.error }),
+      ...(certificate && { certificate }),
+    });
   }
 
-  async getUptimeStats(targetId: string, period: '24h' | '7d' | '30d'): Promise<UptimeStats> {
-    // Placeholder implementation
+  /**
+   * Read the certificate served for an https target now and grade it against the expiry thresholds.
+   * Probes reuse the read for `certificateReadInterval`, or `certificateRetryInterval` when it failed.
+   */
+  async checkCertificate(
+    target: UptimeTarget,
+    thresholds: CertificateExpiryThresholds
+  ): Promise<UptimeCertificateStatus> {
+    const { host, port } = getCertificateEndpoint(target);
+    const readAt = new Date();
+    let read: CertificateRead;
+
+    try {
+      read = { certificate: await probeAgentClient.getCertificate(host, port), readAt };
+    } catch (error) {
+      logger.debug(`Could not read certificate for ${host}`, 'UptimeMonitoringService', error);
+      read = { error: getErrorMessage(error), readAt };
+    }
+
+    this.certificates.set(`${host}:${port}`, read);
+    return gradeCertificate(host, read, thresholds, readAt.getTime());
+  }
+
+  /**
+   * Forget the certificates read so far, so the next probe of each target reads its certificate again
+   */
+  clearCertificates(): void {
+    this.certificates.clear();
+  }
+
+  /**
+   * Compute stats for a target from its recorded check history
+   */
+  async getUptimeStats(targetId: string, period: UptimePeriod): Promise<UptimeStats> {
+    const summary = await timeSeriesService.summarize(this.getSeriesKey(targetId), PERIOD_WINDOWS[period]);
+    const totalChecks = summary.count;
+    const successfulChecks = summary.fields.up?.sum || 0;
+    const responseTimes = summary.fields.responseTime;
+    const uptime = totalChecks > 0 ? (successfulChecks / totalChecks) * 100 : 0;
+
     return {
-      totalChecks: 1440,
-      successfulChecks: 1438,
-      failedChecks: 2,
-      averageResponseTime: 195,
-      uptimePercentage: 99.86
+      targetId,
+      totalChecks,
+      successfulChecks,
+      averageResponseTime: responseTimes ? Math.round(responseTimes.sum / responseTimes.count) : 0,
+      uptime,
+      downtime: totalChecks > 0 ? 100 - uptime : 0,
     };
   }
 
+  /**
+   * Get the individual checks recorded for a target within a window ending now
+   */
+  async getCheckHistory(targetId: string, windowMs: number): Promise<UptimeCheckPoint[]> {
+    const samples = await timeSeriesService.getSamples(this.getSeriesKey(targetId), Date.now() - windowMs);
+
+    return samples.map(sample => ({
+      timestamp: new Date(sample.timestamp),
+      up: sample.values.up === 1,
+      ...(sample.values.responseTime !== undefined && { responseTime: sample.values.responseTime }),
+    }));
+  }
+
+  /**
+   * Start periodic probing of a target, replacing any existing schedule for it
+   */
   async startMonitoring(target: UptimeTarget): Promise<void> {
-    // Placeholder implementation
-    // In a real implementation, this would start periodic monitoring
+    if (!target.isActive) {
+      await this.stopMonitoring(target.id);
+      logger.debug(`Skipping inactive uptime target ${target.id}`, 'UptimeMonitoringService');
+      return;
+    }
+
+    logger.info(`Started uptime monitoring for ${target.url} every ${target.interval}ms`, 'UptimeMonitoringService');
+    // Probe immediately instead of waiting a full interval for the first result
+    await this.scheduler.schedule(target.id, target, target.interval);
   }
 
   async stopMonitoring(targetId: string): Promise<void> {
-    // Placeholder implementation
-    // In a real implementation, this would stop periodic monitoring
+    const target = this.scheduler.cancel(targetId);
+    if (target) {
+      logger.info(`Stopped uptime monitoring for ${target.url}`, 'UptimeMonitoringService');
+    }
+  }
+
+  /**
+   * Stop every running schedule
+   */
+  async stopAll(): Promise<void> {
+    this.scheduler.cancelAll();
+  }
+
+  /**
+   * Check whether a target currently has a running schedule
+   */
+  isMonitoring(targetId: string): boolean {
+    return this.scheduler.has(targetId);
+  }
+
+  /**
+   * Get the most recent status recorded for a target
+   */
+  getLatestStatus(targetId: string): UptimeStatus | null {
+    return this.latestStatuses.get(targetId) || null;
   }
 
   async getAllStatuses(): Promise<UptimeStatus[]> {
-    // Placeholder implementation
-    return [];
+    return Array.from(this.latestStatuses.values());
+  }
+
+  /**
+   * Subscribe to every recorded status, returning an unsubscribe function
+   */
+  subscribe(listener: UptimeListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Run a scheduled probe, skipping it if the previous one has not finished yet
+   */
+  /**
+   * The certificate is read by the probe agent, so it can run alongside the request
+   */
+  private startCertificateCheck(target: UptimeTarget): Promise<UptimeCertificateStatus | undefined> {
+    if (!target.certificateExpiry) {
+      return Promise.resolve(undefined);
+    }
+
+    const { host, port } = getCertificateEndpoint(target);
+    const cached = this.certificates.get(`${host}:${port}`);
+    const now = Date.now();
+    const maxAge = cached?.certificate
+      ? MONITORING_CONFIG.uptime.certificateReadInterval
+      : MONITORING_CONFIG.uptime.certificateRetryInterval;
+
+    return cached && now - cached.readAt.getTime() < maxAge
+      ? Promise.resolve(gradeCertificate(host, cached, target.certificateExpiry, now))
+      : this.checkCertificate(target, target.certificateExpiry);
+  }
+
+  /**
+   * Fetch a plain target from the browser. Without body assertions only the status line matters,
+   * so the body is released right away.
+   */
+  private async probeFromBrowser(target: UptimeTarget, needsBody: boolean): Promise<TransactionResponse> {
+    const response = await fetch(target.url, {
+      method: target.method,
+      cache: 'no-store',
+      redirect: 'follow',
+      signal: AbortSignal.timeout(target.timeout),
+    });
+    const readBody = needsBody && response.status === target.expectedStatus;
+
+    const body = readBody ? await response.text() : '';
+    if (!readBody) {
+      void response.body?.cancel().catch(() => undefined);
+    }
+    return { status: response.status, headers: response.headers, body };
+  }
+
+  private async sendFromBrowser(request: TransactionRequest): Promise<TransactionResponse> {
+    try {
+      const response = await fetch(request.url, {
+        method: request.method,
+        cache: 'no-store',
+        credentials: 'include',
+        redirect: 'follow',
+        signal: AbortSignal.timeout(request.timeout),
+        ...(request.headers && { headers: request.headers }),
+        ...(request.body !== undefined && { body: request.body }),
+      });
+
+      return {
+        status: response.status,
+        headers: response.headers,
+        body: request.method === 'HEAD' ? '' : await response.text(),
+      };
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'TimeoutError') {
+        throw new Error(`Request timed out after ${request.timeout}ms`);
+      }
+      throw error;
+    }
+  }
+
+  private async relayThroughAgent(request: TransactionRequest): Promise<TransactionResponse> {
+    const response = await probeAgentClient.relay(request);
+
+    return {
+      status: response.status,
+      headers: new Headers(response.headers),
+      setCookies: response.setCookies,
+      body: response.body,
+    };
+  }
+
+  private getSeriesKey(targetId: string): string {
+    return `uptime:${targetId}`;
+  }
+
+  /**
+   * Fold the certificate into a status, store it as the latest for its target, update its incidents and notify listeners
+   */
+  private recordStatus(target: UptimeTarget, checked: UptimeStatus): UptimeStatus {
+    const status = withCertificateStatus(checked);
+    this.latestStatuses.set(status.targetId, status);
+    uptimeIncidentService.recordCheck(
+      status,
+      target.incidentThreshold || MONITORING_CONFIG.uptime.incidentThreshold
+    );
+
+    // A warning still served the page, so only errors count as downtime.
+    // Response times are only meaningful when the target actually answered.
+    void timeSeriesService.record(
+      this.getSeriesKey(status.targetId),
+      {
+        up: status.status === 'error' ? 0 : 1,
+        ...(status.statusCode > 0 && { responseTime: status.responseTime }),
+      },
+      status.timestamp.getTime()
+    );
+
+    if (status.status !== 'healthy') {
+      logger.warn(`Uptime check failed for ${status.targetId}: ${status.error}`, 'UptimeMonitoringService');
+    }
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        logger.error('Uptime status listener failed', 'UptimeMonitoringService', error);
+      }
+    });
+
+    return status;
   }
 }
 
 export const uptimeMonitoringService = new UptimeMonitoringService();
+export type { UptimeTarget, UptimeStatus, UptimeStats, UptimeCheckPoint, UptimeCertificateStatus };
@@ -0,0 +1,212 @@
+// Uptime transactions
+// Runs multi-step synthetic checks, passing captured values from one step to the next
+
+import { getErrorMessage } from '@/lib/error';
+import { evaluateAssertions, readJsonPath } from './uptimeAssertions';
+import type { StatusType, UptimeCapture, UptimeStepResult, UptimeTransactionStep, UptimeTransport } from '@/types';
+import type { ProbeRelayRequest } from './probeAgentClient';
+
+export type TransactionRequest = ProbeRelayRequest;
+
+export interface TransactionResponse {
+  status: number;
+  headers: Headers;
+  setCookies?: string[]; // only the probe agent can read Set-Cookie headers
+  body: string;
+}
+
+export type TransactionSender = (request: TransactionRequest) => Promise<TransactionResponse>;
+
+export interface TransactionResult {
+  status: StatusType;
+  statusCode: number;
+  responseTime: number;
+  steps: UptimeStepResult[];
+  error?: string;
+}
+
+const SEVERITY: Record<StatusType, number> = { inactive: 0, healthy: 1, warning: 2, error: 3 };
+
+/**
+ * Replace {{name}} placeholders with captured values
+ */
+export const interpolate = (template: string, variables: Record<string, string>): string =>
+  template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Unknown variable {{${name}}}`);
+    }
+    return variables[name] ?? '';
+  });
+
+/**
+ * Find a cookie value among the Set-Cookie headers of a response
+ */
+const readCookie = (setCookies: string[], name: string): string | null => {
+  for (const setCookie of setCookies) {
+    const [pair = ''] = setCookie.split(';');
+    const separator = pair.indexOf('=');
+    if (separator > 0 && pair.slice(0, separator).trim() === name) {
+      return pair.slice(separator + 1).trim();
+    }
+  }
+  return null;
+};
+
+/**
+ * Extract a captured value from a step response
+ */
+const captureValue = (capture: UptimeCapture, response: TransactionResponse): string => {
+  let value: unknown = null;
+
+  switch (capture.from) {
+    case 'json': {
+      let document: unknown;
+      try {
+        document = JSON.parse(response.body);
+      } catch {
+        throw new Error(`Could not capture ${capture.name}: response body is not valid JSON`);
+      }
+      const found = readJsonPath(document, capture.path);
+      value = typeof found === 'string' || typeof found === 'number' || typeof found === 'boolean' ? found : null;
+      break;
+    }
+    case 'header':
+      value = response.headers.get(capture.path);
+      break;
+    case 'cookie':
+      value = readCookie(response.setCookies ?? [], capture.path);
+      break;
+  }
+
+  if (value === null) {
+    throw new Error(`Could not capture ${capture.name} from ${capture.from} ${capture.path}`);
+  }
+  return String(value);
+};
+
+const buildRequest = (
+  step: UptimeTransactionStep,
+  variables: Record<string, string>,
+  timeout: number
+): TransactionRequest => ({
+  url: interpolate(step.url, variables),
+  method: step.method,
+  timeout,
+  ...(step.headers && {
+    headers: Object.fromEntries(
+      Object.entries(step.headers).map(([name, value]) => [name, interpolate(value, variables)])
+    ),
+  }),
+  ...(step.body !== undefined && { body: interpolate(step.body, variables) }),
+});
+
+/**
+ * Run a single step, returning its result and the values it captured
+ */
+const runStep = async (
+  step: UptimeTransactionStep,
+  variables: Record<string, string>,
+  timeout: number,
+  send: TransactionSender
+): Promise<{ result: UptimeStepResult; captured: Record<string, string> }> => {
+  const startTime = performance.now();
+  const fail = (statusCode: number, error: string) => ({
+    result: {
+      name: step.name,
+      status: 'error' as const,
+      statusCode,
+      responseTime: Math.round(performance.now() - startTime),
+      error,
+    },
+    captured: {},
+  });
+
+  let response: TransactionResponse;
+  try {
+    response = await send(buildRequest(step, variables, timeout));
+  } catch (error) {
+    return fail(0, getErrorMessage(error));
+  }
+  const responseTime = Math.round(performance.now() - startTime);
+
+  const expectedStatus = step.expectedStatus ?? 200;
+  if (response.status !== expectedStatus) {
+    return fail(response.status, `Expected HTTP ${expectedStatus}, received ${response.status}`);
+  }
+
+  const assertions = evaluateAssertions(step.assertions ?? [], response.headers, response.body);
+  const captured: Record<string, string> = {};
+  try {
+    (step.captures ?? []).forEach(capture => {
+      captured[capture.name] = captureValue(capture, response);
+    });
+  } catch (error) {
+    return fail(response.status, getErrorMessage(error));
+  }
+
+  return {
+    result: {
+      name: step.name,
+      status: assertions.status,
+      statusCode: response.status,
+      responseTime,
+      ...(assertions.error && { error: assertions.error }),
+    },
+    captured,
+  };
+};
+
+/**
+ * Find what keeps a transaction from running over a transport, or null when nothing does.
+ * Browsers hide Set-Cookie headers from scripts, so cookies can only be captured through the probe agent.
+ */
+export const validateTransaction = (steps: UptimeTransactionStep[], transport: UptimeTransport): string | null => {
+  if (transport === 'agent') return null;
+
+  const index = steps.findIndex(step => step.captures?.some(capture => capture.from === 'cookie'));
+  const step = steps[index];
+  return step
+    ? `Step ${index + 1} (${step.name}): cookies can only be captured with the agent transport`
+    : null;
+};
+
+/**
+ * Run every step in order. The transaction stops at the first step that errors,
+ * and its status is that of its worst step.
+ */
+export const runTransaction = async (
+  steps: UptimeTransactionStep[],
+  timeout: number,
+  send: TransactionSender
+): Promise<TransactionResult> => {
+  if (steps.length === 0) {
+    return { status: 'error', statusCode: 0, responseTime: 0, steps: [], error: 'Transaction has no steps' };
+  }
+
+  const variables: Record<string, string> = {};
+  const results: UptimeStepResult[] = [];
+
+  for (const step of steps) {
+    const { result, captured } = await runStep(step, variables, timeout, send);
+    results.push(result);
+    Object.assign(variables, captured);
+
+    if (result.status === 'error') break;
+  }
+
+  const status = results.reduce<StatusType>(
+    (worst, result) => (SEVERITY[result.status] > SEVERITY[worst] ? result.status : worst),
+    'healthy'
+  );
+  const errors = results
+    .map((result, index) => (result.error ? `Step ${index + 1} (${result.name}): ${result.error}` : null))
+    .filter((error): error is string => error !== null);
+
+  return {
+    status,
+    statusCode: results[results.length - 1]?.statusCode ?? 0,
+    responseTime: results.reduce((total, result) => total + result.responseTime, 0),
+    steps: results,
+    ...(errors.length > 0 && { error: errors.join('; ') }),
+  };
+};
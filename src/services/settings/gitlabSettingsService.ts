@@ -196,6 +196,9 @@ class GitlabSettingsService {
       if (updatedInstance.rateLimitInfo !== undefined) {
         instanceToValidate.rateLimitInfo = updatedInstance.rateLimitInfo;
       }
+      if (updatedInstance.selectedGroups !== undefined) {
+        instanceToValidate.selectedGroups = updatedInstance.selectedGroups;
+      }
 
       const validation = validateGitlabInstance(instanceToValidate);
       if (!validation.isValid) {
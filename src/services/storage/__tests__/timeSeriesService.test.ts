@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TimeSeriesService, MemoryTimeSeriesBackend } from '../timeSeriesService';
+import { TIME_CONSTANTS } from '@/constants';
+
+const NOW = Date.UTC(2024, 0, 15, 12, 0, 0);
+
+describe('TimeSeriesService', () => {
+  let service: TimeSeriesService;
+
+  beforeEach(() => {
+    service = new TimeSeriesService(new MemoryTimeSeriesBackend());
+  });
+
+  it('aligns timestamps to bucket boundaries', () => {
+    const timestamp = Date.UTC(2024, 0, 15, 12, 34, 56, 789);
+
+    expect(TimeSeriesService.bucketStart(timestamp, 'minute')).toBe(Date.UTC(2024, 0, 15, 12, 34));
+    expect(TimeSeriesService.bucketStart(timestamp, 'hour')).toBe(Date.UTC(2024, 0, 15, 12));
+    expect(TimeSeriesService.bucketStart(timestamp, 'day')).toBe(Date.UTC(2024, 0, 15));
+  });
+
+  it('picks a rollup resolution that fits the window', () => {
+    expect(TimeSeriesService.resolutionForWindow(TIME_CONSTANTS.DAY)).toBe('minute');
+    expect(TimeSeriesService.resolutionForWindow(TIME_CONSTANTS.WEEK)).toBe('hour');
+    expect(TimeSeriesService.resolutionForWindow(TIME_CONSTANTS.MONTH)).toBe('day');
+  });
+
+  it('stores raw samples and folds them into every rollup', async () => {
+    await service.record('uptime:api', { up: 1, responseTime: 100 }, NOW - 30 * TIME_CONSTANTS.SECOND);
+    await service.record('uptime:api', { up: 0 }, NOW - 20 * TIME_CONSTANTS.SECOND);
+    await service.record('uptime:api', { up: 1, responseTime: 300 }, NOW - 10 * TIME_CONSTANTS.SECOND);
+
+    const samples = await service.getSamples('uptime:api', NOW - TIME_CONSTANTS.MINUTE, NOW);
+    expect(samples).toHaveLength(3);
+
+    const [minuteBucket] = await service.getBuckets('uptime:api', 'minute', NOW - TIME_CONSTANTS.MINUTE, NOW);
+    expect(minuteBucket?.count).toBe(3);
+    expect(minuteBucket?.fields.up).toEqual({ count: 3, sum: 2, min: 0, max: 1 });
+    expect(minuteBucket?.fields.responseTime).toEqual({ count: 2, sum: 400, min: 100, max: 300 });
+
+    const [dayBucket] = await service.getBuckets('uptime:api', 'day', NOW - TIME_CONSTANTS.DAY, NOW);
+    expect(dayBucket?.count).toBe(3);
+  });
+
+  it('summarises a window from the matching rollup', async () => {
+    await service.record('uptime:api', { up: 1, responseTime: 100 }, NOW - 2 * TIME_CONSTANTS.HOUR);
+    await service.record('uptime:api', { up: 1, responseTime: 200 }, NOW - 3 * TIME_CONSTANTS.DAY);
+    await service.record('uptime:other', { up: 0 }, NOW - TIME_CONSTANTS.HOUR);
+
+    const daySummary = await service.summarize('uptime:api', TIME_CONSTANTS.DAY, NOW);
+    expect(daySummary.resolution).toBe('minute');
+    expect(daySummary.count).toBe(1);
+
+    const weekSummary = await service.summarize('uptime:api', TIME_CONSTANTS.WEEK, NOW);
+    expect(weekSummary.resolution).toBe('hour');
+    expect(weekSummary.count).toBe(2);
+    expect(weekSummary.fields.responseTime?.sum).toBe(300);
+  });
+
+  it('leaves out the bucket the window starts in, as it also holds samples from before the window', async () => {
+    const windowStart = NOW - 30 * TIME_CONSTANTS.DAY;
+    await service.record('uptime:api', { up: 0 }, windowStart - TIME_CONSTANTS.HOUR);
+    await service.record('uptime:api', { up: 0 }, windowStart + TIME_CONSTANTS.HOUR);
+    await service.record('uptime:api', { up: 1 }, NOW - 10 * TIME_CONSTANTS.DAY);
+
+    const summary = await service.summarize('uptime:api', 30 * TIME_CONSTANTS.DAY, NOW);
+
+    expect(summary.resolution).toBe('day');
+    expect(summary.from).toBe(TimeSeriesService.bucketStart(windowStart, 'day') + TIME_CONSTANTS.DAY);
+    expect(summary.count).toBe(1);
+    expect(summary.fields.up?.sum).toBe(1);
+  });
+
+  it('prunes each resolution according to its retention', async () => {
+    await service.record('uptime:api', { up: 1 }, NOW - 3 * TIME_CONSTANTS.DAY);
+    await service.record('uptime:api', { up: 1 }, NOW);
+
+    await service.prune(NOW);
+
+    expect(await service.getSamples('uptime:api', 0, NOW)).toHaveLength(1);
+    expect(await service.getBuckets('uptime:api', 'minute', 0, NOW)).toHaveLength(1);
+    expect(await service.getBuckets('uptime:api', 'hour', 0, NOW)).toHaveLength(2);
+    expect(await service.getBuckets('uptime:api', 'day', 0, NOW)).toHaveLength(2);
+  });
+});
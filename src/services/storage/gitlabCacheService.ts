@@ -6,7 +6,8 @@ import type {
   GitlabProject,
   GitlabInstance,
   GitlabCacheEntry,
-  GitlabCacheStats
+  GitlabCacheStats,
+  GitlabRevalidationStats
 } from '@/types';
 
 // Cache configuration
@@ -17,10 +18,21 @@ interface CacheConfig {
   cleanupInterval: number; // Cleanup interval in minutes
   enablePersistence: boolean; // Whether to persist cache across sessions
   persistenceKey: string; // LocalStorage key for persistence
+  responseTTL: number; // How long an unused API response is kept for revalidation, in minutes
+  maxResponses: number; // Maximum number of API responses kept for revalidation
+}
+
+// A GET response as makeAuthenticatedRequest passes it in
+interface CacheableResponse {
+  data: unknown;
+  headers: Headers;
 }
 
 class GitlabCacheService {
   private cache: Map<string, GitlabCacheEntry> = new Map();
+  // API responses by instance and URL, kept in memory only as pages of large lists would not fit in localStorage
+  private responses: Map<string, GitlabCacheEntry<unknown>> = new Map();
+  private revalidationStats: Map<string, GitlabRevalidationStats> = new Map();
   private stats: GitlabCacheStats;
   private config: CacheConfig;
   private cleanupTimer: NodeJS.Timeout | null = null;
@@ -33,6 +45,8 @@ class GitlabCacheService {
       cleanupInterval: 15, // 15 minutes
       enablePersistence: true,
       persistenceKey: 'gitlab-cache-data',
+      responseTTL: 24 * 60, // 1 day
+      maxResponses: 500,
       ...config,
     };
 
@@ -162,7 +176,7 @@ class GitlabCacheService {
   /**
    * Check if cache entry is expired
    */
-  private isExpired(entry: GitlabCacheEntry): boolean {
+  private isExpired(entry: GitlabCacheEntry<unknown>): boolean {
     return new Date() > entry.expiresAt;
   }
 
@@ -182,6 +196,12 @@ class GitlabCacheService {
       }
     }
 
+    for (const [key, entry] of this.responses.entries()) {
+      if (this.isExpired(entry)) {
+        this.responses.delete(key);
+      }
+    }
+
     if (removedCount > 0) {
       this.stats.memoryUsage -= freedMemory;
       this.updateStats();
@@ -283,6 +303,79 @@ class GitlabCacheService {
     return entry.data;
   }
 
+  /**
+   * Keep a GET response with its ETag and Last-Modified validators, to revalidate it with a conditional request
+   * next time. Responses without either are not kept, as they cannot be revalidated.
+   */
+  setResponse(instanceId: string, url: string, response: CacheableResponse): void {
+    const etag = response.headers.get('ETag');
+    const lastModified = response.headers.get('Last-Modified');
+    if (!etag && !lastModified) return;
+
+    const key = `${instanceId}:${url}`;
+    this.responses.delete(key);
+    if (this.responses.size >= this.config.maxResponses) {
+      // Maps keep insertion order and reads re-insert, so the first key is the least recently used
+      const oldest = this.responses.keys().next().value;
+      if (oldest !== undefined) this.responses.delete(oldest);
+    }
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+
+    this.responses.set(key, {
+      instanceId,
+      projectId: 0,
+      data: response.data,
+      timestamp: new Date(),
+      expiresAt: new Date(Date.now() + this.config.responseTTL * 60 * 1000),
+      ...(etag && { etag }),
+      ...(lastModified && { lastModified }),
+      headers,
+    });
+  }
+
+  /**
+   * Get the response kept for a URL, to send its validators and serve its body on 304 Not Modified
+   */
+  getResponse(instanceId: string, url: string): GitlabCacheEntry<unknown> | null {
+    const key = `${instanceId}:${url}`;
+    const entry = this.responses.get(key);
+    if (!entry) return null;
+
+    if (this.isExpired(entry)) {
+      this.responses.delete(key);
+      return null;
+    }
+
+    // Re-insert to mark it recently used, and keep it for another responseTTL
+    this.responses.delete(key);
+    entry.timestamp = new Date();
+    entry.expiresAt = new Date(Date.now() + this.config.responseTTL * 60 * 1000);
+    this.responses.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Count a GET response of an instance as revalidated (304 Not Modified) or answered in full
+   */
+  recordResponse(instanceId: string, revalidated: boolean): void {
+    const stats = this.revalidationStats.get(instanceId) ?? { instanceId, revalidated: 0, full: 0 };
+    this.revalidationStats.set(instanceId, {
+      ...stats,
+      ...(revalidated ? { revalidated: stats.revalidated + 1 } : { full: stats.full + 1 }),
+    });
+  }
+
+  /**
+   * Get how many GET responses each instance revalidated versus answered in full
+   */
+  getRevalidationStats(): GitlabRevalidationStats[] {
+    return Array.from(this.revalidationStats.values());
+  }
+
   /**
    * Check if data exists in cache and is valid
    */
@@ -322,6 +415,8 @@ class GitlabCacheService {
    */
   clear(): void {
     this.cache.clear();
+    this.responses.clear();
+    this.revalidationStats.clear();
     this.stats.memoryUsage = 0;
     this.stats.totalEntries = 0;
     this.persistCache();
@@ -344,6 +439,13 @@ class GitlabCacheService {
       }
     }
 
+    for (const [key, entry] of this.responses.entries()) {
+      if (entry.instanceId === instanceId) {
+        this.responses.delete(key);
+      }
+    }
+    this.revalidationStats.delete(instanceId);
+
     if (removedCount > 0) {
       this.stats.memoryUsage -= freedMemory;
       this.updateStats();
@@ -7,3 +7,5 @@ export type { BackupData, BackupOptions, RestoreResult } from './backupService';
 
 export { dataExportService } from './dataExportService';
 export type { ExportOptions, ExportResult, ExportDataType } from './dataExportService';
+
+export { timeSeriesService } from './timeSeriesService';
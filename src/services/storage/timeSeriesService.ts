@@ -0,0 +1,379 @@
+// Time-series storage service
+// Persists numeric monitoring samples and rolls them up into minute, hour and day buckets
+// so that long windows can be summarised without scanning every raw sample
+
+import { logger } from '@/lib/logger';
+import { STORAGE_CONFIG } from '@/config';
+import { TIME_CONSTANTS } from '@/constants';
+import type {
+  TimeSeriesSample,
+  TimeSeriesBucket,
+  TimeSeriesResolution,
+  TimeSeriesSummary,
+  TimeSeriesFieldAggregate
+} from '@/types';
+
+type BucketResolution = Exclude<TimeSeriesResolution, 'raw'>;
+
+const BUCKET_WIDTHS: Record<BucketResolution, number> = {
+  minute: TIME_CONSTANTS.MINUTE,
+  hour: TIME_CONSTANTS.HOUR,
+  day: TIME_CONSTANTS.DAY,
+};
+
+const BUCKET_RESOLUTIONS = Object.keys(BUCKET_WIDTHS) as BucketResolution[];
+
+/**
+ * Storage backend for samples and buckets. The browser uses IndexedDB; anything that
+ * implements this interface (for example a file-backed store) can be swapped in.
+ */
+export interface TimeSeriesBackend {
+  putSample(sample: TimeSeriesSample): Promise<void>;
+  getSamples(series: string, from: number, to: number): Promise<TimeSeriesSample[]>;
+  getBucket(series: string, resolution: BucketResolution, start: number): Promise<TimeSeriesBucket | null>;
+  putBucket(bucket: TimeSeriesBucket): Promise<void>;
+  getBuckets(series: string, resolution: BucketResolution, from: number, to: number): Promise<TimeSeriesBucket[]>;
+  prune(resolution: TimeSeriesResolution, before: number): Promise<number>;
+  clear(): Promise<void>;
+}
+
+/**
+ * In-memory backend, used when IndexedDB is unavailable (tests, private browsing)
+ */
+export class MemoryTimeSeriesBackend implements TimeSeriesBackend {
+  private samples: Map<string, TimeSeriesSample[]> = new Map();
+  private buckets: Map<string, TimeSeriesBucket> = new Map();
+
+  private bucketKey(series: string, resolution: BucketResolution, start: number): string {
+    return `${series}|${resolution}|${start}`;
+  }
+
+  async putSample(sample: TimeSeriesSample): Promise<void> {
+    const samples = this.samples.get(sample.series) || [];
+    samples.push(sample);
+    this.samples.set(sample.series, samples);
+  }
+
+  async getSamples(series: string, from: number, to: number): Promise<TimeSeriesSample[]> {
+    return (this.samples.get(series) || [])
+      .filter(sample => sample.timestamp >= from && sample.timestamp <= to)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async getBucket(series: string, resolution: BucketResolution, start: number): Promise<TimeSeriesBucket | null> {
+    return this.buckets.get(this.bucketKey(series, resolution, start)) || null;
+  }
+
+  async putBucket(bucket: TimeSeriesBucket): Promise<void> {
+    this.buckets.set(this.bucketKey(bucket.series, bucket.resolution, bucket.start), bucket);
+  }
+
+  async getBuckets(series: string, resolution: BucketResolution, from: number, to: number): Promise<TimeSeriesBucket[]> {
+    return Array.from(this.buckets.values())
+      .filter(bucket =>
+        bucket.series === series &&
+        bucket.resolution === resolution &&
+        bucket.start >= from &&
+        bucket.start <= to
+      )
+      .sort((a, b) => a.start - b.start);
+  }
+
+  async prune(resolution: TimeSeriesResolution, before: number): Promise<number> {
+    let removed = 0;
+
+    if (resolution === 'raw') {
+      this.samples.forEach((samples, series) => {
+        const kept = samples.filter(sample => sample.timestamp >= before);
+        removed += samples.length - kept.length;
+        this.samples.set(series, kept);
+      });
+      return removed;
+    }
+
+    for (const [key, bucket] of this.buckets.entries()) {
+      if (bucket.resolution === resolution && bucket.start < before) {
+        this.buckets.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    this.samples.clear();
+    this.buckets.clear();
+  }
+}
+
+/**
+ * IndexedDB backend keyed by [series, timestamp] for samples and
+ * [series, resolution, start] for buckets
+ */
+export class IndexedDbTimeSeriesBackend implements TimeSeriesBackend {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private databaseName: string = STORAGE_CONFIG.timeSeries.databaseName,
+    private databaseVersion: number = STORAGE_CONFIG.timeSeries.databaseVersion
+  ) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, this.databaseVersion);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains('samples')) {
+            const samples = db.createObjectStore('samples', { keyPath: ['series', 'timestamp'] });
+            samples.createIndex('timestamp', 'timestamp');
+          }
+          if (!db.objectStoreNames.contains('buckets')) {
+            const buckets = db.createObjectStore('buckets', { keyPath: ['series', 'resolution', 'start'] });
+            buckets.createIndex('resolution_start', ['resolution', 'start']);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(
+    storeName: 'samples' | 'buckets',
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private async deleteRange(storeName: 'samples' | 'buckets', index: string, range: IDBKeyRange): Promise<number> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      let removed = 0;
+      const transaction = db.transaction(storeName, 'readwrite');
+      const request = transaction.objectStore(storeName).index(index).openCursor(range);
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          cursor.delete();
+          removed++;
+          cursor.continue();
+        }
+      };
+      transaction.oncomplete = () => resolve(removed);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async putSample(sample: TimeSeriesSample): Promise<void> {
+    await this.run('samples', 'readwrite', store => store.put(sample));
+  }
+
+  async getSamples(series: string, from: number, to: number): Promise<TimeSeriesSample[]> {
+    return this.run('samples', 'readonly', store =>
+      store.getAll(IDBKeyRange.bound([series, from], [series, to]))
+    ) as Promise<TimeSeriesSample[]>;
+  }
+
+  async getBucket(series: string, resolution: BucketResolution, start: number): Promise<TimeSeriesBucket | null> {
+    const bucket = await this.run('buckets', 'readonly', store => store.get([series, resolution, start]));
+    return (bucket as TimeSeriesBucket | undefined) || null;
+  }
+
+  async putBucket(bucket: TimeSeriesBucket): Promise<void> {
+    await this.run('buckets', 'readwrite', store => store.put(bucket));
+  }
+
+  async getBuckets(series: string, resolution: BucketResolution, from: number, to: number): Promise<TimeSeriesBucket[]> {
+    return this.run('buckets', 'readonly', store =>
+      store.getAll(IDBKeyRange.bound([series, resolution, from], [series, resolution, to]))
+    ) as Promise<TimeSeriesBucket[]>;
+  }
+
+  async prune(resolution: TimeSeriesResolution, before: number): Promise<number> {
+    if (resolution === 'raw') {
+      return this.deleteRange('samples', 'timestamp', IDBKeyRange.upperBound(before, true));
+    }
+    return this.deleteRange(
+      'buckets',
+      'resolution_start',
+      IDBKeyRange.bound([resolution, 0], [resolution, before], false, true)
+    );
+  }
+
+  async clear(): Promise<void> {
+    await this.run('samples', 'readwrite', store => store.clear());
+    await this.run('buckets', 'readwrite', store => store.clear());
+  }
+}
+
+export class TimeSeriesService {
+  private backend: TimeSeriesBackend;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private lastPrune = 0;
+
+  constructor(backend?: TimeSeriesBackend) {
+    this.backend = backend || (typeof indexedDB !== 'undefined'
+      ? new IndexedDbTimeSeriesBackend()
+      : new MemoryTimeSeriesBackend());
+  }
+
+  /**
+   * Align a timestamp to the start of its bucket
+   */
+  static bucketStart(timestamp: number, resolution: BucketResolution): number {
+    const width = BUCKET_WIDTHS[resolution];
+    return Math.floor(timestamp / width) * width;
+  }
+
+  /**
+   * Pick the coarsest resolution that still gives useful detail for a window
+   */
+  static resolutionForWindow(windowMs: number): BucketResolution {
+    if (windowMs <= TIME_CONSTANTS.DAY) return 'minute';
+    if (windowMs <= TIME_CONSTANTS.WEEK) return 'hour';
+    return 'day';
+  }
+
+  /**
+   * Record a sample and fold it into every rollup resolution.
+   * Writes are serialised so concurrent samples never lose a bucket update.
+   */
+  record(series: string, values: Record<string, number>, timestamp: number = Date.now()): Promise<void> {
+    const sample: TimeSeriesSample = { series, timestamp, values };
+
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await this.backend.putSample(sample);
+        for (const resolution of BUCKET_RESOLUTIONS) {
+          await this.addToBucket(sample, resolution);
+        }
+        await this.pruneIfDue(timestamp);
+      })
+      .catch(error => {
+        logger.error(`Failed to record time-series sample for ${series}`, 'TimeSeriesService', error);
+      });
+
+    return this.writeQueue;
+  }
+
+  /**
+   * Get raw samples for a series within a time range
+   */
+  async getSamples(series: string, from: number, to: number = Date.now()): Promise<TimeSeriesSample[]> {
+    await this.writeQueue;
+    return this.backend.getSamples(series, from, to);
+  }
+
+  /**
+   * Get rollup buckets for a series within a time range
+   */
+  async getBuckets(
+    series: string,
+    resolution: BucketResolution,
+    from: number,
+    to: number = Date.now()
+  ): Promise<TimeSeriesBucket[]> {
+    await this.writeQueue;
+    return this.backend.getBuckets(series, resolution, TimeSeriesService.bucketStart(from, resolution), to);
+  }
+
+  /**
+   * Summarise a series over a window ending now, reading from the rollup that fits the window.
+   * The window is bucket-aligned: a bucket that starts before now - windowMs would also hold samples from
+   * before the window, so the summary starts at the next bucket boundary, which the returned `from` reports.
+   * A 30 day window on day buckets therefore covers between 29 and 30 days.
+   */
+  async summarize(series: string, windowMs: number, now: number = Date.now()): Promise<TimeSeriesSummary> {
+    const resolution = TimeSeriesService.resolutionForWindow(windowMs);
+    const from = TimeSeriesService.bucketStart(now - windowMs + BUCKET_WIDTHS[resolution] - 1, resolution);
+    const buckets = await this.getBuckets(series, resolution, from, now);
+
+    const fields: Record<string, TimeSeriesFieldAggregate> = {};
+    let count = 0;
+
+    buckets.forEach(bucket => {
+      count += bucket.count;
+      Object.entries(bucket.fields).forEach(([name, aggregate]) => {
+        fields[name] = mergeAggregates(fields[name], aggregate);
+      });
+    });
+
+    return { series, from, to: now, resolution, count, fields };
+  }
+
+  /**
+   * Remove data older than each resolution's retention period
+   */
+  async prune(now: number = Date.now()): Promise<void> {
+    const { retention } = STORAGE_CONFIG.timeSeries;
+    let removed = 0;
+
+    for (const resolution of ['raw', ...BUCKET_RESOLUTIONS] as TimeSeriesResolution[]) {
+      removed += await this.backend.prune(resolution, now - retention[resolution]);
+    }
+
+    this.lastPrune = now;
+    if (removed > 0) {
+      logger.debug(`Pruned ${removed} expired time-series entries`, 'TimeSeriesService');
+    }
+  }
+
+  /**
+   * Remove all stored samples and buckets
+   */
+  async clear(): Promise<void> {
+    await this.writeQueue;
+    await this.backend.clear();
+  }
+
+  private async addToBucket(sample: TimeSeriesSample, resolution: BucketResolution): Promise<void> {
+    const start = TimeSeriesService.bucketStart(sample.timestamp, resolution);
+    const bucket = await this.backend.getBucket(sample.series, resolution, start) || {
+      series: sample.series,
+      resolution,
+      start,
+      count: 0,
+      fields: {},
+    };
+
+    bucket.count++;
+    Object.entries(sample.values).forEach(([name, value]) => {
+      bucket.fields[name] = mergeAggregates(bucket.fields[name], { count: 1, sum: value, min: value, max: value });
+    });
+
+    await this.backend.putBucket(bucket);
+  }
+
+  private async pruneIfDue(now: number): Promise<void> {
+    if (now - this.lastPrune < STORAGE_CONFIG.timeSeries.pruneInterval) return;
+    await this.prune(now);
+  }
+}
+
+const mergeAggregates = (
+  current: TimeSeriesFieldAggregate | undefined,
+  addition: TimeSeriesFieldAggregate
+): TimeSeriesFieldAggregate => {
+  if (!current) return { ...addition };
+  return {
+    count: current.count + addition.count,
+    sum: current.sum + addition.sum,
+    min: Math.min(current.min, addition.min),
+    max: Math.max(current.max, addition.max),
+  };
+};
+
+// Singleton instance
+export const timeSeriesService = new TimeSeriesService();
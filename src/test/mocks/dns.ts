@@ -0,0 +1,105 @@
+// DNS wire-format fixtures for DoH mocks
+import { getTypeCode } from '@/services/monitoring/dnsWireFormat';
+
+export interface MockDnsAnswer {
+  type: string;
+  rdata: number[];
+  ttl?: number;
+}
+
+export interface MockDnsResponseOptions {
+  rcode?: number;
+  authoritative?: boolean;
+  authenticated?: boolean;
+}
+
+const encodeName = (name: string): number[] => [
+  ...name.split('.').filter(Boolean).flatMap(label => [label.length, ...Array.from(label, char => char.charCodeAt(0))]),
+  0,
+];
+
+const uint16 = (value: number): number[] => [value >> 8, value & 0xff];
+const uint32 = (value: number): number[] => [(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+
+export const rdata = {
+  a: (address: string) => address.split('.').map(Number),
+  name: (name: string) => encodeName(name),
+  mx: (preference: number, exchange: string) => [...uint16(preference), ...encodeName(exchange)],
+  soa: (mname: string, rname: string, serial: number) => [
+    ...encodeName(mname),
+    ...encodeName(rname),
+    ...[serial, 3600, 1800, 604800, 300].flatMap(uint32),
+  ],
+  txt: (...strings: string[]) =>
+    strings.flatMap(text => [text.length, ...Array.from(text, char => char.charCodeAt(0))]),
+  ds: (keyTag: number, digest: number[]) => [...uint16(keyTag), 13, 2, ...digest],
+  dnskey: (flags: number, key: number[]) => [...uint16(flags), 3, 13, ...key],
+  rrsig: (typeCovered: string, keyTag: number, signer: string, expiration: Date, inception: Date) => [
+    ...uint16(getTypeCode(typeCovered)),
+    13, // ECDSAP256SHA256
+    signer.split('.').length,
+    ...uint32(300),
+    ...uint32(Math.floor(expiration.getTime() / 1000)),
+    ...uint32(Math.floor(inception.getTime() / 1000)),
+    ...uint16(keyTag),
+    ...encodeName(signer),
+    1, 2, 3, 4,
+  ],
+};
+
+/**
+ * Read the id, name and type of the question in a query
+ */
+export const readQuestion = (query: Uint8Array): { id: number; name: string; type: number; end: number } => {
+  const labels: string[] = [];
+  let position = 12;
+
+  while (query[position]) {
+    const length = query[position] ?? 0;
+    labels.push(String.fromCharCode(...query.subarray(position + 1, position + 1 + length)));
+    position += length + 1;
+  }
+
+  return {
+    id: ((query[0] ?? 0) << 8) | (query[1] ?? 0),
+    name: labels.join('.'),
+    type: ((query[position + 1] ?? 0) << 8) | (query[position + 2] ?? 0),
+    end: position + 5,
+  };
+};
+
+/**
+ * Build a response to a query, pointing every answer at the question name
+ */
+export const buildDnsResponse = (
+  query: Uint8Array,
+  answers: MockDnsAnswer[],
+  options: MockDnsResponseOptions = {}
+): Uint8Array => {
+  const { id, end } = readQuestion(query);
+  const flags = 0x8180 |
+    (options.authoritative ? 0x0400 : 0) |
+    (options.authenticated ? 0x0020 : 0) |
+    (options.rcode ?? 0);
+
+  return new Uint8Array([
+    ...uint16(id),
+    ...uint16(flags),
+    ...uint16(1),
+    ...uint16(answers.length),
+    ...uint16(0),
+    ...uint16(0),
+    ...query.subarray(12, end),
+    ...answers.flatMap(answer => [
+      0xc0, 12,
+      ...uint16(getTypeCode(answer.type)),
+      ...uint16(1),
+      ...uint32(answer.ttl ?? 300),
+      ...uint16(answer.rdata.length),
+      ...answer.rdata,
+    ]),
+  ]);
+};
+
+export const decodeDnsParam = (encoded: string): Uint8Array =>
+  Uint8Array.from(atob(encoded.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
@@ -1,4 +1,16 @@
 import { http, HttpResponse } from 'msw';
+import { buildDnsResponse, decodeDnsParam, rdata, readQuestion, type MockDnsAnswer } from './dns';
+import { createNetdataHandlers } from './netdata';
+import { createRdapDomain } from './rdap';
+
+// Records served by the default DoH handler, by question type
+const DEFAULT_DNS_ANSWERS: Record<number, MockDnsAnswer[]> = {
+  1: [{ type: 'A', rdata: rdata.a('93.184.216.34') }],
+  5: [{ type: 'CNAME', rdata: rdata.name('example.com') }],
+  6: [{ type: 'SOA', rdata: rdata.soa('ns1.example.com', 'hostmaster.example.com', 2024010101) }],
+  15: [{ type: 'MX', rdata: rdata.mx(10, 'mail.example.com') }],
+  16: [{ type: 'TXT', rdata: rdata.txt('v=spf1 -all') }],
+};
 
 export const handlers = [
   // Mock GitLab API
@@ -34,11 +46,52 @@ export const handlers = [
   }),
 
   // Mock Netdata API for server monitoring
-  http.get('*/api/v1/info', () => {
+  ...createNetdataHandlers('*'),
+
+  // Mock probe agent certificate lookups
+  http.get('*/probe/tls', ({ request }) => {
+    const url = new URL(request.url);
+    const host = url.searchParams.get('host') ?? 'localhost';
+
+    return HttpResponse.json({
+      host,
+      port: Number(url.searchParams.get('port') ?? 443),
+      subject: host,
+      issuer: 'Test CA',
+      subjectAltNames: [host],
+      validFrom: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
+      notAfter: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString(),
+      chainValid: true,
+    });
+  }),
+
+  // Mock probe agent TCP connects, greeting like an SSH server when asked for a banner
+  http.post('*/probe/tcp', async ({ request }) => {
+    const { host, port, readBanner } = (await request.json()) as { host: string; port: number; readBanner: boolean };
+
     return HttpResponse.json({
-      hostname: 'test-server',
-      version: '1.0.0',
-      os: 'linux',
+      host,
+      port,
+      address: host,
+      latency: 12.5,
+      ...(readBanner && { banner: 'SSH-2.0-OpenSSH_9.6' }),
+    });
+  }),
+
+  // Mock DoH (RFC 8484) nameservers
+  http.get('https://*/dns-query', ({ request }) => {
+    const query = decodeDnsParam(new URL(request.url).searchParams.get('dns') ?? '');
+    const answers = DEFAULT_DNS_ANSWERS[readQuestion(query).type] ?? [];
+
+    return new HttpResponse(buildDnsResponse(query, answers), {
+      headers: { 'Content-Type': 'application/dns-message' },
+    });
+  }),
+
+  // Mock RDAP bootstrap server
+  http.get('https://rdap.org/domain/:domain', ({ params }) => {
+    return HttpResponse.json(createRdapDomain(String(params.domain)), {
+      headers: { 'Content-Type': 'application/rdap+json' },
     });
   }),
 ];
@@ -0,0 +1,82 @@
+// Netdata agent API fixtures
+import { http, HttpResponse } from 'msw';
+import type {
+  NetdataChartsResponse,
+  NetdataDataResponse,
+  NetdataInfoResponse,
+} from '@/services/monitoring/netdataClient';
+
+export type MockNetdataCharts = Record<string, Record<string, number>>;
+
+export interface MockNetdataOptions {
+  version?: string;
+  hostname?: string;
+  charts?: MockNetdataCharts;
+}
+
+// 32% CPU, 50% memory, 40% disk, 3 days 4 hours up, eth0 receiving 1200.5 and sending 300.25 kbit/s
+export const DEFAULT_NETDATA_CHARTS: MockNetdataCharts = {
+  'system.cpu': { guest_nice: 0, guest: 0, steal: 0.5, softirq: 1, irq: 0.5, user: 20, system: 8, nice: 0, iowait: 2 },
+  'system.ram': { free: 2048, used: 4096, cached: 1536, buffers: 512 },
+  'disk_space._': { avail: 60, used: 40, reserved_for_root: 5 },
+  'system.uptime': { uptime: 273600 },
+  'net.eth0': { received: 1200.5, sent: -300.25 },
+  'net.lo': { received: 5000, sent: -5000 },
+  'net.veth1a2b3c': { received: 800, sent: -800 },
+};
+
+const isVirtualInterface = (name: string) => /^(lo|veth|docker)/.test(name);
+
+export const createNetdataInfo = (options: MockNetdataOptions = {}): NetdataInfoResponse => ({
+  version: options.version ?? 'v1.44.3',
+  mirrored_hosts: [options.hostname ?? 'test-server'],
+});
+
+/**
+ * List the charts as /api/v1/charts does, labelling virtual interfaces the way the agent does
+ */
+export const createNetdataChartList = (charts: MockNetdataCharts): NetdataChartsResponse => ({
+  charts: Object.fromEntries(
+    Object.keys(charts).map(id => {
+      const family = id.split('.').slice(1).join('.');
+      return [
+        id,
+        id.startsWith('net.')
+          ? {
+              context: 'net.net',
+              family,
+              chart_labels: { device: family, interface_type: isVirtualInterface(family) ? 'virtual' : 'real' },
+            }
+          : { context: id, family },
+      ];
+    })
+  ),
+});
+
+/**
+ * Answer a /api/v1/data query averaged into a single point
+ */
+export const createNetdataData = (values: Record<string, number>): NetdataDataResponse => ({
+  labels: ['time', ...Object.keys(values)],
+  data: [[Math.floor(Date.now() / 1000), ...Object.values(values)]],
+});
+
+/**
+ * Serve a Netdata agent's info, chart list and data endpoints under a base URL or path
+ */
+export const createNetdataHandlers = (baseUrl: string, options: MockNetdataOptions = {}) => {
+  const charts = options.charts ?? DEFAULT_NETDATA_CHARTS;
+
+  return [
+    http.get(`${baseUrl}/api/v1/info`, () => HttpResponse.json(createNetdataInfo(options))),
+    http.get(`${baseUrl}/api/v1/charts`, () => HttpResponse.json(createNetdataChartList(charts))),
+    http.get(`${baseUrl}/api/v1/data`, ({ request }) => {
+      const chart = new URL(request.url).searchParams.get('chart') ?? '';
+      const values = charts[chart];
+
+      return values
+        ? HttpResponse.json(createNetdataData(values))
+        : HttpResponse.text(`Chart is not found: ${chart}`, { status: 404 });
+    }),
+  ];
+};
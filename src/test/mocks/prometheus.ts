@@ -0,0 +1,69 @@
+// node_exporter and Prometheus HTTP API fixtures
+import type { PrometheusQueryResponse } from '@/services/monitoring/prometheusClient';
+
+export interface MockNodeExporterOptions {
+  cpuIdleSeconds?: number;
+  cpuBusySeconds?: number;
+  memTotal?: number;
+  memAvailable?: number;
+  fsSize?: number;
+  fsFree?: number;
+  fsAvail?: number;
+  receivedBytes?: number;
+  transmittedBytes?: number;
+  bootTime?: number;
+  time?: number;
+  version?: string;
+}
+
+/**
+ * Render a node_exporter metrics page in the text exposition format.
+ * Loopback and container interfaces carry traffic of their own that must not be counted.
+ */
+export const createNodeExporterMetrics = (options: MockNodeExporterOptions = {}): string => {
+  const idle = options.cpuIdleSeconds ?? 8000;
+  const busy = options.cpuBusySeconds ?? 2000;
+  const time = options.time ?? 1700000000;
+
+  return [
+    '# HELP node_cpu_seconds_total Seconds the CPUs spent in each mode.',
+    '# TYPE node_cpu_seconds_total counter',
+    `node_cpu_seconds_total{cpu="0",mode="idle"} ${idle / 2}`,
+    `node_cpu_seconds_total{cpu="0",mode="user"} ${(busy * 0.7) / 2}`,
+    `node_cpu_seconds_total{cpu="0",mode="system"} ${(busy * 0.3) / 2}`,
+    `node_cpu_seconds_total{cpu="1",mode="idle"} ${idle / 2}`,
+    `node_cpu_seconds_total{cpu="1",mode="user"} ${(busy * 0.7) / 2}`,
+    `node_cpu_seconds_total{cpu="1",mode="system"} ${(busy * 0.3) / 2}`,
+    '# TYPE node_memory_MemTotal_bytes gauge',
+    `node_memory_MemTotal_bytes ${options.memTotal ?? 8e9}`,
+    '# TYPE node_memory_MemAvailable_bytes gauge',
+    `node_memory_MemAvailable_bytes ${options.memAvailable ?? 6e9}`,
+    '# TYPE node_filesystem_size_bytes gauge',
+    `node_filesystem_size_bytes{device="/dev/sda1",fstype="ext4",mountpoint="/"} ${options.fsSize ?? 100e9}`,
+    'node_filesystem_size_bytes{device="tmpfs",fstype="tmpfs",mountpoint="/run"} 1e9',
+    `node_filesystem_free_bytes{device="/dev/sda1",fstype="ext4",mountpoint="/"} ${options.fsFree ?? 55e9}`,
+    `node_filesystem_avail_bytes{device="/dev/sda1",fstype="ext4",mountpoint="/"} ${options.fsAvail ?? 50e9}`,
+    '# TYPE node_network_receive_bytes_total counter',
+    `node_network_receive_bytes_total{device="eth0"} ${options.receivedBytes ?? 1e9}`,
+    `node_network_receive_bytes_total{device="lo"} 5e9`,
+    `node_network_receive_bytes_total{device="veth1a2b3c"} 7e8`,
+    '# TYPE node_network_transmit_bytes_total counter',
+    `node_network_transmit_bytes_total{device="eth0"} ${options.transmittedBytes ?? 5e8}`,
+    `node_network_transmit_bytes_total{device="lo"} 5e9`,
+    `node_boot_time_seconds ${options.bootTime ?? time - 273600}`,
+    `node_time_seconds ${time}`,
+    `node_exporter_build_info{branch="HEAD",goversion="go1.21.4",revision="abc",version="${options.version ?? '1.7.0'}"} 1`,
+    '',
+  ].join('\n');
+};
+
+/**
+ * Answer an instant query with a single series, or with no data
+ */
+export const createPrometheusVector = (value: number | null, metric: Record<string, string> = {}): PrometheusQueryResponse => ({
+  status: 'success',
+  data: {
+    resultType: 'vector',
+    result: value === null ? [] : [{ metric, value: [1700000000, String(value)] }],
+  },
+});
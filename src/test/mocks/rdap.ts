@@ -0,0 +1,40 @@
+// RDAP (RFC 9083) domain fixtures
+import type { RdapDomainResponse } from '@/services/monitoring/rdapClient';
+
+export interface MockRdapDomainOptions {
+  expiresAt?: Date;
+  status?: string[];
+  nameservers?: string[];
+  registrar?: string;
+}
+
+/**
+ * Build an RDAP domain object as a registry would return it
+ */
+export const createRdapDomain = (domain: string, options: MockRdapDomainOptions = {}): RdapDomainResponse => ({
+  objectClassName: 'domain',
+  ldhName: domain.toUpperCase(),
+  status: options.status ?? ['client transfer prohibited', 'server transfer prohibited'],
+  events: [
+    { eventAction: 'registration', eventDate: '2005-08-14T04:00:00Z' },
+    {
+      eventAction: 'expiration',
+      eventDate: (options.expiresAt ?? new Date(Date.now() + 365 * 24 * 60 * 60 * 1000)).toISOString(),
+    },
+    { eventAction: 'last changed', eventDate: '2024-08-14T07:01:38Z' },
+  ],
+  entities: [
+    {
+      objectClassName: 'entity',
+      roles: ['registrar'],
+      handle: '376',
+      publicIds: [{ type: 'IANA Registrar ID', identifier: '376' }],
+      vcardArray: ['vcard', [['version', {}, 'text', '4.0'], ['fn', {}, 'text', options.registrar ?? 'Example Registrar, Inc.']]],
+    },
+  ],
+  nameservers: (options.nameservers ?? ['ns1.example.com', 'ns2.example.com']).map(name => ({
+    objectClassName: 'nameserver',
+    ldhName: name.toUpperCase(),
+  })),
+  links: [{ rel: 'self', href: `https://rdap.example-registry.net/domain/${domain.toUpperCase()}` }],
+});
@@ -18,6 +18,7 @@ export interface ApiRequestOptions {
   timeout?: number;
   retries?: number;
   retryDelay?: number;
+  acceptStatuses?: number[]; // non-2xx statuses to return rather than throw, e.g. 304 for a conditional request
 }
 
 // =============================================================================
@@ -38,9 +39,29 @@ export interface GitlabInstance {
   errorMessage?: string;
   rateLimitInfo?: RateLimitInfo;
   selectedProjects: number[]; // IDs of projects to monitor
+  selectedGroups?: number[]; // IDs of groups whose projects, subgroups included, are monitored
   fetchOptions: FetchOptions;
 }
 
+// GitLab group or subgroup; top-level groups have no parent
+export interface GitlabGroup {
+  id: number;
+  name: string;
+  fullName: string; // e.g. "Platform / Backend"
+  fullPath: string; // e.g. "platform/backend"
+  parentId: number | null;
+  description: string;
+  visibility: 'private' | 'internal' | 'public';
+  webUrl: string;
+  instanceId: string;
+}
+
+// A group with its subgroups, as shown in the namespace tree
+export interface GitlabNamespaceNode {
+  group: GitlabGroup;
+  subgroups: GitlabNamespaceNode[];
+}
+
 // Enhanced GitLab Project with detailed metrics
 export interface GitlabProject {
   id: number;
@@ -67,6 +88,7 @@ export interface GitlabProject {
   lastActivityAt: Date;
   openMergeRequestsCount: number;
   branchCount: number;
+  repositorySize?: number; // bytes
   permissions: {
     projectAccess?: number;
     groupAccess?: number;
@@ -83,6 +105,112 @@ export interface GitlabProject {
   };
 }
 
+// Counts and latest activity of a project that its list entry leaves out
+export interface GitlabProjectMetrics {
+  projectId: number;
+  branchCount: number;
+  commitCount: number | null;    // null without access to the repository statistics
+  repositorySize: number | null; // bytes, likewise
+  openIssuesCount: number;
+  openMergeRequestsCount: number;
+  pipelineStatus?: GitlabProject['pipelineStatus']; // of the latest pipeline
+  lastCommit?: NonNullable<GitlabProject['lastCommitInfo']>; // on the default branch
+}
+
+export type GitlabPipelineStatus =
+  | 'created'
+  | 'waiting_for_resource'
+  | 'preparing'
+  | 'pending'
+  | 'running'
+  | 'success'
+  | 'failed'
+  | 'canceled'
+  | 'skipped'
+  | 'manual'
+  | 'scheduled';
+
+export interface GitlabJob {
+  id: number;
+  name: string;
+  stage: string;
+  status: GitlabPipelineStatus;
+  allowFailure: boolean;
+  failureReason?: string;  // e.g. script_failure, runner_system_failure, stuck_or_timeout_failure
+  duration: number | null; // seconds
+  queuedDuration: number | null; // seconds waiting for a runner
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  webUrl: string;
+}
+
+export interface GitlabPipelineStage {
+  name: string;
+  status: GitlabPipelineStatus; // the status of its least advanced job
+  jobs: GitlabJob[];
+}
+
+export interface GitlabPipeline {
+  id: number;
+  iid: number;
+  instanceId: string;
+  projectId: number;
+  projectPath: string; // e.g. group/project, read from the pipeline URL
+  status: GitlabPipelineStatus;
+  ref: string;
+  sha: string;
+  source: string;          // push, merge_request_event, schedule, ...
+  duration: number | null; // seconds
+  queuedDuration: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  webUrl: string;
+  stages: GitlabPipelineStage[]; // in the order GitLab runs them
+  failedJobs: GitlabJob[];       // failures that fail the pipeline, i.e. without allow_failure
+  stuck: boolean;                // active, with a job waiting for a runner for too long
+}
+
+export interface GitlabUser {
+  id: number;
+  username: string;
+  name: string;
+  avatarUrl?: string;
+}
+
+export interface GitlabMergeRequestApprovals {
+  required: number;
+  left: number;
+  approvedBy: GitlabUser[];
+}
+
+export type GitlabMergeRequestReviewState = 'draft' | 'awaiting_review' | 'approved' | 'unknown'; // unknown: approvals could not be read
+
+export interface GitlabMergeRequest {
+  id: number;
+  iid: number;
+  instanceId: string;
+  projectId: number;
+  projectPath: string; // e.g. group/project, read from the merge request URL
+  title: string;
+  sourceBranch: string;
+  targetBranch: string;
+  author: GitlabUser;
+  reviewers: GitlabUser[];
+  draft: boolean;
+  hasConflicts: boolean;
+  pipelineStatus: GitlabPipelineStatus | null; // of the head pipeline, null without one
+  createdAt: Date;
+  updatedAt: Date;
+  webUrl: string;
+  approvals: GitlabMergeRequestApprovals | null; // null when they could not be read
+  reviewState: GitlabMergeRequestReviewState;
+  stale: boolean;             // no activity for longer than the stale threshold
+  blockedByPipeline: boolean; // the head pipeline failed
+}
+
 // GitLab API Configuration
 export interface GitlabApiConfig {
   baseUrl: string;
@@ -115,6 +243,7 @@ export interface FetchOptions {
   statistics?: boolean;
   withIssuesEnabled?: boolean;
   withMergeRequestsEnabled?: boolean;
+  groupId?: number; // list the projects of this group and its subgroups
 }
 
 // GitLab Settings Configuration
@@ -129,13 +258,22 @@ export interface GitlabSettings {
 }
 
 // Cache entry for GitLab data
-export interface GitlabCacheEntry {
+export interface GitlabCacheEntry<T = GitlabProject> {
   instanceId: string;
   projectId: number;
-  data: GitlabProject;
+  data: T;
   timestamp: Date;
   expiresAt: Date;
   etag?: string; // for HTTP caching
+  lastModified?: string;
+  headers?: Record<string, string>; // of the response the data came from, e.g. its pagination links
+}
+
+// GET responses of an instance answered in full versus revalidated with 304 Not Modified
+export interface GitlabRevalidationStats {
+  instanceId: string;
+  revalidated: number;
+  full: number;
 }
 
 // Cache statistics
@@ -188,24 +326,109 @@ export interface GitlabInstanceValidation extends GitlabValidationResult {
 // UPTIME MONITORING TYPES
 // =============================================================================
 
+export type UptimeTargetKind = 'http' | 'transaction';
+
 export interface UptimeTarget {
   id: string;
   name: string;
-  url: string;
+  kind?: UptimeTargetKind; // defaults to 'http'
+  url: string; // for transactions, the URL shown on the dashboard
   method: 'GET' | 'POST' | 'HEAD';
-  timeout: number;
-  interval: number;
+  timeout: number; // in milliseconds
+  interval: number; // in milliseconds
   expectedStatus: number;
   isActive: boolean;
+  assertions?: UptimeAssertion[]; // checked only when expectedStatus matches
+  certificateExpiry?: CertificateExpiryThresholds; // https targets only
+  incidentThreshold?: number; // consecutive failed checks before an incident opens
+  steps?: UptimeTransactionStep[]; // transactions only, run in order
+  transport?: UptimeTransport; // defaults to 'browser'
 }
 
+// 'agent' relays requests through the probe agent, which is not bound by CORS and can read Set-Cookie and send Cookie headers
+export type UptimeTransport = 'browser' | 'agent';
+
+export interface UptimeTransactionStep {
+  name: string;
+  url: string; // may reference captured values as {{name}}
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD';
+  headers?: Record<string, string>; // values may reference captured values
+  body?: string; // may reference captured values
+  expectedStatus?: number; // defaults to 200
+  assertions?: UptimeAssertion[];
+  captures?: UptimeCapture[];
+}
+
+export interface UptimeCapture {
+  name: string;
+  from: 'json' | 'header' | 'cookie';
+  path: string; // JSONPath, header name or cookie name
+}
+
+export interface UptimeStepResult {
+  name: string;
+  status: StatusType;
+  statusCode: number; // 0 when no response was received
+  responseTime: number; // in milliseconds
+  error?: string;
+}
+
+export interface CertificateExpiryThresholds {
+  warningDays: number;
+  errorDays: number;
+}
+
+export type UptimeAssertionSeverity = 'warning' | 'error';
+
+interface UptimeAssertionBase {
+  severity?: UptimeAssertionSeverity; // defaults to 'error'
+}
+
+export type UptimeAssertion = UptimeAssertionBase & (
+  | { type: 'bodyContains'; value: string }
+  | { type: 'bodyNotContains'; value: string }
+  | { type: 'bodyMatches'; pattern: string; flags?: string }
+  | { type: 'jsonPath'; path: string; equals: string | number | boolean | null }
+  | { type: 'header'; name: string; value?: string } // presence only when value is omitted
+);
+
 export interface UptimeStatus {
   id: string;
   targetId: string;
   status: StatusType;
-  responseTime: number;
-  statusCode: number;
+  responseTime: number; // in milliseconds
+  statusCode: number; // 0 when no response was received
+  timestamp: Date;
+  error?: string; // reason the check did not pass
+  certificate?: UptimeCertificateStatus;
+  steps?: UptimeStepResult[]; // transactions only, up to the first failing step
+}
+
+export interface TlsCertificateInfo {
+  host: string;
+  port: number;
+  subject: string;
+  issuer: string;
+  subjectAltNames: string[];
+  validFrom: Date;
+  notAfter: Date;
+  chainValid: boolean;
+  chainError?: string; // why the chain or hostname did not verify
+}
+
+export interface UptimeCertificateStatus {
+  host: string;
+  status: StatusType; // inactive when the certificate could not be read
+  checkedAt: Date;
+  daysRemaining?: number;
+  certificate?: TlsCertificateInfo;
+  error?: string;
+}
+
+export interface UptimeCheckPoint {
   timestamp: Date;
+  up: boolean;
+  responseTime?: number; // absent when the target did not answer
 }
 
 export interface UptimeStats {
@@ -213,30 +436,266 @@ export interface UptimeStats {
   totalChecks: number;
   successfulChecks: number;
   averageResponseTime: number;
-  uptime: number;
-  downtime: number;
+  uptime: number; // percentage of successful checks
+  downtime: number; // percentage of failed checks
+}
+
+export type UptimeIncidentState = 'open' | 'resolved';
+
+export interface UptimeIncident {
+  id: string;
+  targetId: string;
+  state: UptimeIncidentState;
+  startedAt: Date; // first failed check of the outage
+  endedAt?: Date; // first passing check after the outage
+  duration?: number; // in milliseconds, set once resolved
+  firstError: string;
+  affectedChecks: number; // failed checks while the outage lasted
 }
 
 // =============================================================================
 // DNS MONITORING TYPES
 // =============================================================================
 
+export type DnsResolverProtocol = 'doh' | 'doh-json' | 'udp' | 'tcp';
+
 export interface DnsTarget {
   id: string;
   domain: string;
   recordTypes: string[];
+  // DoH endpoints (https://…, or https+json://… for the JSON API) or plain servers (udp://host:port, tcp://host:port)
   nameservers?: string[];
   isActive: boolean;
+  interval?: number; // in milliseconds
+  timeout?: number; // per query, in milliseconds
+  expectations?: DnsRecordExpectation[];
+  dnssec?: boolean; // check DS/DNSKEY/RRSIG records and validate the chain of trust
+  emailSecurity?: boolean; // audit SPF, DMARC, DKIM and MTA-STS records
+  dkimSelectors?: string[]; // e.g. ["google", "selector1"]; selectors cannot be discovered
+  registrationExpiry?: DomainExpiryThresholds;
+}
+
+export interface DomainExpiryThresholds {
+  warningDays: number;
+  errorDays: number;
+}
+
+export type DnsExpectationMatch = 'exact' | 'includes';
+
+export interface DnsRecordExpectation {
+  type: string;
+  // MX and SRV values may omit the priority, e.g. "mail.example.com"
+  values: string[];
+  match?: DnsExpectationMatch; // exact by default
+}
+
+export interface DnsDrift {
+  match: DnsExpectationMatch;
+  expected: string[];
+  missing: string[];
+  unexpected: string[]; // only reported for exact matches
+}
+
+// A period during which a record set was observed unchanged
+export interface DnsObservation {
+  targetId: string;
+  type: string;
+  values: string[];
+  firstSeen: Date;
+  lastSeen: Date;
+}
+
+export interface DnsRecordChange {
+  id: string;
+  targetId: string;
+  domain: string;
+  type: string;
+  previous: string[];
+  current: string[];
+  added: string[];
+  removed: string[];
+  detectedAt: Date;
+}
+
+export interface DnsNameserver {
+  address: string; // DoH endpoint URL, or host for udp/tcp
+  protocol: DnsResolverProtocol;
+  port?: number; // udp/tcp only
+}
+
+export interface DnsAnswer {
+  name: string;
+  type: string;
+  ttl: number;
+  value: string; // presentation format, e.g. "10 mail.example.com" for MX
+  priority?: number; // MX and SRV
+}
+
+export interface DnsNameserverResult {
+  nameserver: string; // as configured
+  protocol: DnsResolverProtocol;
+  status: StatusType;
+  rcode: string; // NOERROR, NXDOMAIN, SERVFAIL, …
+  responseTime: number;
+  answers: DnsAnswer[];
+  authoritative?: boolean; // AA flag, only set by the zone's own nameservers
+  authenticated?: boolean; // AD flag from a validating resolver
+  signatures?: DnsAnswer[]; // RRSIG records covering the answers, when DNSSEC data was requested
+  error?: string;
+}
+
+// Nameservers that returned the same record set
+export interface DnsAnswerGroup {
+  values: string[];
+  nameservers: string[];
+}
+
+export interface DnsPropagationServer {
+  nameserver: string;
+  serving: boolean; // already answers with the newest record set
+  since?: Date; // first check at which it did
+}
+
+export interface DnsPropagation {
+  values: string[]; // newest record set seen on any nameserver
+  previous?: string[];
+  startedAt: Date; // first check at which a nameserver served it
+  fullyPropagatedAt?: Date; // first check at which every nameserver served it
+  nameservers: DnsPropagationServer[];
+}
+
+export type DnsDelegationState = 'ok' | 'lame' | 'unreachable';
+
+export interface DnsDelegationResult {
+  host: string; // a nameserver from the zone's NS records
+  state: DnsDelegationState;
+  rcode?: string;
+  error?: string;
+}
+
+export interface DnsSerialResult {
+  nameserver: string;
+  serial: number | null;
+  error?: string;
+}
+
+export interface DnsNameserverHealth {
+  targetId: string;
+  zone: string;
+  status: StatusType;
+  checkedAt: Date;
+  serials: DnsSerialResult[];
+  serialSkew: number; // highest minus lowest SOA serial across nameservers
+  delegation: DnsDelegationResult[];
+  delegationError?: string; // set when the NS hosts could not be queried at all
+  issues: string[];
+}
+
+export type DnsSecurityCategory = 'dnssec' | 'spf' | 'dmarc' | 'dkim' | 'mta-sts';
+
+export type DnsFindingSeverity = 'info' | 'warning' | 'error';
+
+export interface DnsSecurityFinding {
+  category: DnsSecurityCategory;
+  severity: DnsFindingSeverity;
+  message: string;
+}
+
+export interface DnsSignature {
+  name: string;
+  typeCovered: string;
+  keyTag: number;
+  signer: string;
+  inception: Date;
+  expiration: Date;
+}
+
+export interface DnsDnssecResult {
+  resolver: string;
+  zone: string;
+  validated: boolean; // AD flag set by the validating resolver
+  ds: string[];
+  dnskeys: string[];
+  signatures: DnsSignature[];
+  nextExpiration?: Date; // earliest signature expiration
+}
+
+export interface DnsSpfResult {
+  record: string;
+  lookups: number; // DNS lookups needed to evaluate it, including nested includes
+}
+
+export interface DnsDmarcResult {
+  record: string;
+  policy: string;
+  percent: number;
+}
+
+export interface DnsDkimResult {
+  selector: string;
+  record: string | null;
+}
+
+export interface DnsMtaStsResult {
+  record: string;
+  id: string;
+}
+
+export interface DnsSecurityAudit {
+  targetId: string;
+  domain: string;
+  status: StatusType;
+  checkedAt: Date;
+  dnssec?: DnsDnssecResult;
+  spf?: DnsSpfResult | null; // present when email security is audited, null without a record
+  dmarc?: DnsDmarcResult | null;
+  dkim?: DnsDkimResult[];
+  mtaSts?: DnsMtaStsResult | null;
+  findings: DnsSecurityFinding[];
+}
+
+// Registration data from the registry's RDAP server
+export interface DomainRegistration {
+  domain: string; // the registered domain, e.g. example.com for www.example.com
+  registrar?: string;
+  registrarIanaId?: string;
+  createdAt?: Date;
+  expiresAt?: Date;
+  updatedAt?: Date;
+  statuses: string[]; // EPP status codes, e.g. clientTransferProhibited
+  nameservers: string[]; // delegation at the registry
+  source: string; // RDAP URL the data came from
+}
+
+export interface DomainRegistrationStatus {
+  targetId: string;
+  domain: string;
+  status: StatusType;
+  checkedAt: Date;
+  daysRemaining?: number;
+  registration?: DomainRegistration;
+  zoneNameservers?: string[]; // NS records served for the domain, compared against the registry
+  issues: string[];
+  error?: string;
 }
 
 export interface DnsRecord {
   id: string;
+  targetId: string;
   domain: string;
   type: string;
-  value: string;
+  value: string; // every value, comma separated
+  values: string[];
   ttl: number;
   priority?: number;
+  status: StatusType;
+  responseTime: number; // fastest answering nameserver
+  nameservers: DnsNameserverResult[];
   timestamp: Date;
+  drift?: DnsDrift;
+  answerGroups?: DnsAnswerGroup[]; // present when nameservers disagree, largest group first
+  propagation?: DnsPropagation;
+  error?: string;
 }
 
 export interface DnsStats {
@@ -251,14 +710,31 @@ export interface DnsStats {
 // SERVER MONITORING TYPES
 // =============================================================================
 
+// Where a server's metrics come from. Netdata reads the target's netdataUrl.
+// A TCP probe only checks that the target's port accepts connections, optionally matching its banner.
+export type ServerMetricsSource =
+  | { kind: 'netdata' }
+  | { kind: 'prometheus-exporter'; url: string }                   // scrape URL, e.g. http://host:9100/metrics
+  | { kind: 'prometheus-query'; url: string; instance: string }    // Prometheus server and the host's instance label
+  | { kind: 'tcp'; banner?: string };                              // ip:port via the probe agent; banner is a regex the greeting must match
+
+export type ServerMetricsSourceKind = ServerMetricsSource['kind'];
+
 export interface ServerTarget {
   id: string;
   name: string;
   ip: string;
   netdataUrl: string;
+  source?: ServerMetricsSource;
+  // Same-origin path proxied to the source's origin, used instead of it for API calls
+  proxyPath?: string;
   port?: number;
   isActive: boolean;
   tags?: string[];
+  interval?: number;
+  timeout?: number;
+  thresholds?: ServerThresholds;
+  diskForecastHorizon?: number; // days
 }
 
 export interface ServerMetrics {
@@ -268,10 +744,55 @@ export interface ServerMetrics {
   cpuUsage: number;
   memoryUsage: number;
   diskUsage: number;
-  networkIn: number;
-  networkOut: number;
-  uptime: number;
+  networkIn: number;   // kilobits per second
+  networkOut: number;  // kilobits per second
+  uptime: number;      // seconds
   timestamp: Date;
+  agent?: string;      // e.g. "Netdata v1.44.3", set when the source answered
+  error?: string;
+  diskForecast?: DiskForecast;
+  latency?: number;    // TCP handshake in milliseconds, only for servers probed without a metrics agent
+  banner?: string;     // first line the probed port sent
+}
+
+export type DiskForecastMethod = 'linear' | 'holt';
+
+// When a server's disk is expected to reach 100%, fitted on its recent disk usage history
+export interface DiskForecast {
+  method: DiskForecastMethod;
+  usage: number;                // fitted disk usage now, percent
+  growth: number;               // percentage points per day
+  daysUntilFull: number | null; // null when usage is flat, shrinking or beyond the forecast range
+  lower: number | null;         // earliest day the band reaches 100%
+  upper: number | null;         // latest day, null when the band may never reach it
+  points: number;               // history points the fit used
+}
+
+/**
+ * Usage read from a server's metrics source, before it is graded
+ */
+export interface ServerMetricsReading
+  extends Pick<ServerMetrics, 'cpuUsage' | 'memoryUsage' | 'diskUsage' | 'networkIn' | 'networkOut' | 'uptime'> {
+  agent: string;
+  missing: string[];   // charts or metrics the source does not report
+  unreported: ServerAlertMetric[]; // usage fields left at 0 because of them
+}
+
+export type ServerPeriod = '1h' | '6h' | '24h' | '7d' | '30d';
+
+export type ServerHistoryField = 'cpu' | 'memory' | 'disk' | 'networkIn' | 'networkOut' | 'latency';
+
+export interface ServerUsageSummary {
+  min: number;
+  avg: number;
+  max: number;
+  p95: number; // over the averages of the history points, see ServerHistoryPoint
+}
+
+// One rollup bucket of a server's history; fields are averages and absent when the source never answered
+export interface ServerHistoryPoint extends Partial<Record<ServerHistoryField, number>> {
+  timestamp: number; // bucket start, epoch milliseconds
+  up: number;        // share of checks in the bucket that the source answered, 0-1
 }
 
 export interface ServerStats {
@@ -279,8 +800,50 @@ export interface ServerStats {
   averageCpuUsage: number;
   averageMemoryUsage: number;
   averageDiskUsage: number;
-  totalUptime: number;
-  lastSeen: Date;
+  totalUptime: number; // percentage of checks the agent answered
+  lastSeen?: Date;
+  summaries: Partial<Record<ServerHistoryField, ServerUsageSummary>>;
+}
+
+// Servers sharing a tag, e.g. `env:prod`, summarised from their latest checks
+export interface ServerGroup {
+  tag: string;                             // empty for servers without a tag of the grouped key
+  targetIds: string[];
+  status: StatusType;                      // worst status among the servers
+  statusCounts: Record<StatusType, number>;
+  reporting: number;                       // servers whose source answered the latest check
+  averageCpuUsage: number;                 // averages over the reporting servers
+  averageMemoryUsage: number;
+  averageDiskUsage: number;
+}
+
+export type ServerAlertMetric = 'cpu' | 'memory' | 'disk';
+
+export interface ServerMetricThreshold {
+  warning: number;    // percent
+  error: number;      // percent
+  duration: number;   // how long the value must stay above a level before it alerts, in milliseconds
+  hysteresis: number; // percentage points the value must drop below a level before the alert clears
+}
+
+export type ServerThresholds = Record<ServerAlertMetric, ServerMetricThreshold>;
+
+// A bare number is the error level, with the warning level derived from it
+export type ServerThresholdSetting = number | Partial<ServerMetricThreshold>;
+
+export type ServerAlertState = 'open' | 'resolved';
+
+export interface ServerAlert {
+  id: string;
+  targetId: string;
+  metric: ServerAlertMetric;
+  state: ServerAlertState;
+  severity: 'warning' | 'error'; // highest level reached while the alert was open
+  threshold: number;             // the level that was crossed at that severity
+  peak: number;                  // highest value seen while open
+  startedAt: Date;               // when the value first went above the level
+  endedAt?: Date;                // when it cleared, hysteresis included
+  duration?: number;             // in milliseconds, set once resolved
 }
 
 // =============================================================================
@@ -454,6 +1017,38 @@ export interface CacheStats {
   missRate: number;
 }
 
+export type TimeSeriesResolution = 'raw' | 'minute' | 'hour' | 'day';
+
+export interface TimeSeriesSample {
+  series: string;
+  timestamp: number; // epoch milliseconds
+  values: Record<string, number>;
+}
+
+export interface TimeSeriesFieldAggregate {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+}
+
+export interface TimeSeriesBucket {
+  series: string;
+  resolution: Exclude<TimeSeriesResolution, 'raw'>;
+  start: number; // epoch milliseconds, aligned to the resolution
+  count: number;
+  fields: Record<string, TimeSeriesFieldAggregate>;
+}
+
+export interface TimeSeriesSummary {
+  series: string;
+  from: number; // start of the first bucket summarised, at or after the start of the window
+  to: number;
+  resolution: TimeSeriesResolution;
+  count: number;
+  fields: Record<string, TimeSeriesFieldAggregate>;
+}
+
 export interface ExportOptions {
   type: ExportDataType;
   format: 'json' | 'csv' | 'xlsx';
@@ -490,20 +1085,24 @@ export interface Settings {
     websites: UptimeTarget[];
     defaultTimeout: number;
     defaultInterval: number;
+    certificateExpiry?: CertificateExpiryThresholds;
+    incidentThreshold?: number;
   };
   dns: {
     domains: DnsTarget[];
     defaultNameservers: string[];
     queryTimeout: number;
+    registrationExpiry?: DomainExpiryThresholds;
   };
   servers: {
     instances: ServerTarget[];
     metricsRetention: number;
-    alertThresholds: {
-      cpu: number;
-      memory: number;
-      disk: number;
-    };
+    alertThresholds: Record<ServerAlertMetric, ServerThresholdSetting>;
+    alertDuration?: number;
+    alertHysteresis?: number;
+    diskForecastHorizon?: number; // days; a disk forecast to fill sooner makes the server a warning
+    // Overrides for servers carrying a tag, e.g. { 'role:db': { memory: 95 } }; later tags win
+    tagThresholds?: Record<string, Partial<Record<ServerAlertMetric, ServerThresholdSetting>>>;
   };
   ui: {
     theme: 'light' | 'dark' | 'system';
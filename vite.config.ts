@@ -8,6 +8,10 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    proxy: {
+      // Companion probe agent, started with `npm run probe-agent`
+      "/probe": "http://127.0.0.1:8787",
+    },
   },
   plugins: [
     react(),